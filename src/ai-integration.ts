@@ -3,6 +3,8 @@
  * Generates prompts for external AI services (GPT/Claude)
  */
 
+import type { Redactor } from "./redaction.js";
+
 export interface AIPromptOptions {
   focus: string;
   includeMetrics: boolean;
@@ -15,9 +17,11 @@ export interface AIPromptOptions {
 export function generateAIPrompt(
   code: string,
   language: string,
-  focus: string = "all"
+  focus: string = "all",
+  redactor?: Redactor
 ): string {
   const focusAreas = getFocusAreas(focus);
+  const source = embed(code, language, redactor);
 
   let prompt = `# Code Analysis Request
 
@@ -25,7 +29,7 @@ Please analyze the following ${language} code and provide detailed insights.
 
 ## Code to Analyze:
 \`\`\`${language}
-${code}
+${source}
 \`\`\`
 
 ## Analysis Focus Areas:
@@ -84,12 +88,32 @@ Please structure your response with clear sections and actionable insights. For
 
 ---
 
-*Note: This analysis is part of an automated code quality improvement workflow. Focus on providing practical, implementable suggestions.*
+*Note: This analysis is part of an automated code quality improvement workflow. Focus on providing practical, implementable suggestions.*${redactionNote(redactor)}
 `;
 
   return prompt;
 }
 
+/**
+ * Returns the code as it should appear in a prompt, redacted when a
+ * redactor is given
+ */
+function embed(code: string, language: string, redactor?: Redactor): string {
+  return redactor ? redactor.redact(code, language) : code;
+}
+
+/**
+ * Tells the model how to treat placeholders, when anything was redacted
+ */
+function redactionNote(redactor?: Redactor): string {
+  if (!redactor || Object.keys(redactor.redactions).length === 0) return "";
+  const example = Object.keys(redactor.redactions)[0];
+  return (
+    `\n\n*Values such as \`${example}\` are placeholders for redacted data. ` +
+    "Refer to them by their placeholder and keep them unchanged.*"
+  );
+}
+
 function getFocusAreas(focus: string): string[] {
   const allAreas = [
     "Code Quality & Structure",
@@ -135,12 +159,13 @@ function getFocusAreas(focus: string): string[] {
  */
 export function generateRefactoringPrompt(
   code: string,
-  language: string
+  language: string,
+  redactor?: Redactor
 ): string {
   return `As an expert code reviewer, please analyze this ${language} code and suggest refactoring improvements:
 
 \`\`\`${language}
-${code}
+${embed(code, language, redactor)}
 \`\`\`
 
 Please provide:
@@ -155,21 +180,22 @@ Focus on practical improvements that enhance:
 - Maintainability
 - Performance
 - Testability
-- Reusability`;
+- Reusability${redactionNote(redactor)}`;
 }
 
 /**
  * Generates a prompt for architecture review
  */
 export function generateArchitecturePrompt(
-  files: Array<{ filename: string; code: string; language: string }>
+  files: Array<{ filename: string; code: string; language: string }>,
+  redactor?: Redactor
 ): string {
   const filesList = files
     .map(
       (f) => `
 ### ${f.filename}
 \`\`\`${f.language}
-${f.code}
+${embed(f.code, f.language, redactor)}
 \`\`\`
 `
     )
@@ -208,19 +234,19 @@ ${filesList}
    - Check design pattern usage
    - Assess overall code quality
 
-Please provide prioritized, actionable recommendations with specific examples.`;
+Please provide prioritized, actionable recommendations with specific examples.${redactionNote(redactor)}`;
 }
 
 /**
  * Generates a prompt for security-focused analysis
  */
-export function generateSecurityPrompt(code: string, language: string): string {
+export function generateSecurityPrompt(code: string, language: string, redactor?: Redactor): string {
   return `# Security Analysis Request
 
 Please perform a thorough security analysis of this ${language} code:
 
 \`\`\`${language}
-${code}
+${embed(code, language, redactor)}
 \`\`\`
 
 ## Security Checklist:
@@ -264,5 +290,5 @@ For each finding, provide:
 - Remediation steps with code examples
 - CWE reference if applicable
 
-Prioritize findings by severity and likelihood of exploitation.`;
+Prioritize findings by severity and likelihood of exploitation.${redactionNote(redactor)}`;
 }
@@ -3,6 +3,23 @@
  * Provides general code quality metrics and analysis
  */
 
+import {
+  ParsedDocument,
+  parseDocument,
+  findBlockEnd,
+  firstTokenIndexAtLine,
+} from "./parser.js";
+import {
+  supportsTypeScriptAst,
+  extractTypeScriptFunctions,
+  extractTypeScriptVariables,
+} from "./typescript-analyzer.js";
+import { pythonFunctionComplexity } from "./python-structure.js";
+import { resolveRules, RULES, RuleSet, IssueSeverity } from "./config.js";
+import { applySuppressions, SuppressionSummary } from "./suppressions.js";
+import { findSecurityIssues } from "./security.js";
+import { findSecretIssues } from "./secrets.js";
+
 export interface CodeAnalysis {
   filename: string;
   language: string;
@@ -15,6 +32,8 @@ export interface CodeAnalysis {
   functions: FunctionInfo[];
   variables: VariableInfo[];
   issues: Issue[];
+  /** Issues silenced by `intelli-ignore-*` comments, and directives that silenced nothing */
+  suppressions: SuppressionSummary<Issue>;
   quality: {
     score: number;
     grade: string;
@@ -24,10 +43,14 @@ export interface CodeAnalysis {
 
 export interface FunctionInfo {
   name: string;
+  kind?: string;
   lineNumber: number;
+  endLine?: number;
   parameters: number;
+  parameterNames?: string[];
   linesOfCode: number;
   complexity: number;
+  overloads?: number;
 }
 
 export interface VariableInfo {
@@ -35,13 +58,18 @@ export interface VariableInfo {
   lineNumber: number;
   type: string;
   scope: string;
+  kind?: string;
 }
 
 export interface Issue {
+  /** Stable identifier of the check that produced the issue */
+  rule: string;
   severity: "error" | "warning" | "info";
   message: string;
   line?: number;
   column?: number;
+  /** CWE identifier for security issues */
+  cwe?: string;
 }
 
 export interface QualityFactor {
@@ -50,19 +78,22 @@ export interface QualityFactor {
   description: string;
 }
 
+const ISSUE_RULES = Object.keys(RULES).filter((id) => RULES[id].kind === "issue");
+
 /**
  * Analyzes code and returns comprehensive metrics
  */
 export function analyzeCode(
   code: string,
   language: string,
-  filename: string
+  filename: string,
+  doc: ParsedDocument = parseDocument(code, language),
+  rules: RuleSet = resolveRules({}, filename, doc.language)
 ): CodeAnalysis {
-  const lines = code.split("\n");
-  const metrics = calculateMetrics(code, language);
-  const functions = extractFunctions(code, language);
-  const variables = extractVariables(code, language);
-  const issues = detectIssues(code, language);
+  const metrics = calculateMetrics(doc);
+  const functions = extractFunctions(doc);
+  const variables = extractVariables(doc);
+  const { kept: issues, suppressions } = applySuppressions(detectIssues(doc, rules), doc, ISSUE_RULES, (issue) => issue);
   const quality = calculateQuality(metrics, functions, issues);
 
   return {
@@ -72,33 +103,16 @@ export function analyzeCode(
     functions,
     variables,
     issues,
+    suppressions,
     quality,
   };
 }
 
-function calculateMetrics(code: string, language: string) {
-  const lines = code.split("\n");
-  let commentLines = 0;
-  let blankLines = 0;
-
-  const commentPatterns: Record<string, RegExp[]> = {
-    javascript: [/^\s*\/\//, /^\s*\/\*/, /^\s*\*/],
-    typescript: [/^\s*\/\//, /^\s*\/\*/, /^\s*\*/],
-    python: [/^\s*#/, /^\s*"""/, /^\s*'''/],
-    java: [/^\s*\/\//, /^\s*\/\*/, /^\s*\*/],
-  };
-
-  const patterns = commentPatterns[language] || commentPatterns.javascript;
+function calculateMetrics(doc: ParsedDocument) {
+  const blankLines = doc.lineKinds.filter((kind) => kind === "blank").length;
+  const commentLines = doc.lineKinds.filter((kind) => kind === "comment").length;
 
-  for (const line of lines) {
-    if (line.trim() === "") {
-      blankLines++;
-    } else if (patterns.some((pattern) => pattern.test(line))) {
-      commentLines++;
-    }
-  }
-
-  const linesOfCode = lines.length - blankLines;
+  const linesOfCode = doc.lines.length - blankLines;
   const codeToCommentRatio = commentLines > 0 ? linesOfCode / commentLines : linesOfCode;
 
   return {
@@ -109,32 +123,65 @@ function calculateMetrics(code: string, language: string) {
   };
 }
 
-function extractFunctions(code: string, language: string): FunctionInfo[] {
+function extractFunctions(doc: ParsedDocument): FunctionInfo[] {
+  if (supportsTypeScriptAst(doc.language)) {
+    return extractTypeScriptFunctions(doc);
+  }
+
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    const methods = new Set(structure.classes.flatMap((cls) => cls.children));
+    return structure.functions.map((fn) => ({
+      name: fn.name ?? "anonymous",
+      kind: methods.has(fn) ? "method" : "function",
+      lineNumber: fn.headerLine,
+      endLine: fn.endLine,
+      parameters: fn.parameters.length,
+      parameterNames: fn.parameters,
+      linesOfCode: fn.endLine - fn.headerLine + 1,
+      complexity: pythonFunctionComplexity(doc, fn),
+    }));
+  }
+
+  if (doc.profile.structure) {
+    return doc.profile.structure(doc).functions.map((fn) => {
+      const lines = fn.endLine - fn.startLine + 1;
+      return {
+        name: fn.name,
+        kind: fn.kind ?? (fn.owner ? "method" : "function"),
+        lineNumber: fn.startLine,
+        endLine: fn.endLine,
+        parameters: fn.parameters.length,
+        parameterNames: fn.parameters,
+        linesOfCode: lines,
+        complexity: estimateComplexity(doc, fn.startLine - 1, lines),
+      };
+    });
+  }
+
+  // Line-based recognition; a function inside a class's braces is a method
+  const { recognizers } = doc.profile;
+  const classEnds: number[] = [];
   const functions: FunctionInfo[] = [];
-  const lines = code.split("\n");
-
-  // Simple pattern matching for different languages
-  const functionPatterns: Record<string, RegExp> = {
-    javascript: /function\s+(\w+)\s*\(([^)]*)\)/,
-    typescript: /(?:function|const|let|var)\s+(\w+)\s*[=:]\s*\(([^)]*)\)|function\s+(\w+)\s*\(([^)]*)\)/,
-    python: /def\s+(\w+)\s*\(([^)]*)\)/,
-    java: /(?:public|private|protected|static|\s)+\w+\s+(\w+)\s*\(([^)]*)\)/,
-  };
 
-  const pattern = functionPatterns[language] || functionPatterns.javascript;
+  doc.codeLines.forEach((line, index) => {
+    while (classEnds.length > 0 && classEnds[classEnds.length - 1] < index + 1) classEnds.pop();
+    if (recognizers.class.test(line)) {
+      classEnds.push(index + estimateFunctionLines(doc, index));
+      return;
+    }
 
-  lines.forEach((line, index) => {
-    const match = line.match(pattern);
+    const match = line.match(recognizers.function);
     if (match) {
-      const name = match[1] || match[3] || "anonymous";
-      const params = (match[2] || match[4] || "").split(",").filter((p) => p.trim());
+      const params = (match[2] || "").split(",").filter((p) => p.trim());
 
       functions.push({
-        name,
+        name: match[1] || "anonymous",
+        kind: classEnds.length > 0 ? "method" : "function",
         lineNumber: index + 1,
         parameters: params.length,
-        linesOfCode: estimateFunctionLines(lines, index),
-        complexity: estimateComplexity(lines, index),
+        linesOfCode: estimateFunctionLines(doc, index),
+        complexity: estimateComplexity(doc, index),
       });
     }
   });
@@ -142,33 +189,20 @@ function extractFunctions(code: string, language: string): FunctionInfo[] {
   return functions;
 }
 
-function estimateFunctionLines(lines: string[], startIndex: number): number {
-  let braceCount = 0;
-  let started = false;
-  let count = 0;
+function estimateFunctionLines(doc: ParsedDocument, startIndex: number): number {
+  const end = findBlockEnd(doc, firstTokenIndexAtLine(doc, startIndex));
+  if (end === -1) return 0;
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i];
-    if (line.includes("{")) {
-      braceCount++;
-      started = true;
-    }
-    if (started) count++;
-    if (line.includes("}")) {
-      braceCount--;
-      if (braceCount === 0 && started) break;
-    }
-  }
-
-  return count;
+  return doc.codeTokens[end].line - startIndex;
 }
 
-function estimateComplexity(lines: string[], startIndex: number): number {
+function estimateComplexity(
+  doc: ParsedDocument,
+  startIndex: number,
+  lineCount = estimateFunctionLines(doc, startIndex)
+): number {
   let complexity = 1;
-  const functionLines = lines.slice(
-    startIndex,
-    startIndex + estimateFunctionLines(lines, startIndex)
-  );
+  const functionLines = doc.codeLines.slice(startIndex, startIndex + lineCount);
 
   for (const line of functionLines) {
     // Count decision points
@@ -184,20 +218,16 @@ function estimateComplexity(lines: string[], startIndex: number): number {
   return complexity;
 }
 
-function extractVariables(code: string, language: string): VariableInfo[] {
-  const variables: VariableInfo[] = [];
-  const lines = code.split("\n");
+function extractVariables(doc: ParsedDocument): VariableInfo[] {
+  if (supportsTypeScriptAst(doc.language)) {
+    return extractTypeScriptVariables(doc);
+  }
 
-  const varPatterns: Record<string, RegExp> = {
-    javascript: /(?:var|let|const)\s+(\w+)/g,
-    typescript: /(?:var|let|const)\s+(\w+)/g,
-    python: /(\w+)\s*=/g,
-    java: /(?:int|String|double|float|boolean|char|long)\s+(\w+)/g,
-  };
+  const variables: VariableInfo[] = [];
 
-  const pattern = varPatterns[language] || varPatterns.javascript;
+  const pattern = doc.profile.recognizers.variable;
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     const matches = line.matchAll(pattern);
     for (const match of matches) {
       variables.push({
@@ -212,49 +242,69 @@ function extractVariables(code: string, language: string): VariableInfo[] {
   return variables;
 }
 
-function detectIssues(code: string, language: string): Issue[] {
+function detectIssues(doc: ParsedDocument, rules: RuleSet): Issue[] {
   const issues: Issue[] = [];
-  const lines = code.split("\n");
+  const language = doc.language;
+  const maxLineLength = rules["long-line"].threshold!;
+
+  doc.lines.forEach((line, index) => {
+    const codeLine = doc.codeLines[index];
 
-  lines.forEach((line, index) => {
     // Long lines
-    if (line.length > 120) {
+    if (line.length > maxLineLength) {
       issues.push({
+        rule: "long-line",
         severity: "info",
-        message: "Line exceeds 120 characters",
+        message: `Line exceeds ${maxLineLength} characters`,
         line: index + 1,
       });
     }
 
     // console.log statements (for JavaScript/TypeScript)
-    if ((language === "javascript" || language === "typescript") && /console\.log/.test(line)) {
+    if (supportsTypeScriptAst(language) && /console\.log/.test(codeLine)) {
       issues.push({
+        rule: "console-log",
         severity: "warning",
         message: "console.log statement found - consider using a proper logger",
         line: index + 1,
       });
     }
 
-    // TODO comments
-    if (/TODO|FIXME|HACK/.test(line)) {
+    // Multiple statements on one line
+    if (/;.*;/.test(codeLine)) {
       issues.push({
-        severity: "info",
-        message: "TODO/FIXME comment found",
+        rule: "multiple-statements",
+        severity: "warning",
+        message: "Multiple statements on one line",
         line: index + 1,
       });
     }
+  });
 
-    // Multiple statements on one line
-    if (/;.*;/.test(line) && !line.trim().startsWith("//")) {
+  // TODO comments
+  doc.comments.forEach((comment) => {
+    if (/TODO|FIXME|HACK/.test(comment.value)) {
       issues.push({
-        severity: "warning",
-        message: "Multiple statements on one line",
-        line: index + 1,
+        rule: "todo-comment",
+        severity: "info",
+        message: "TODO/FIXME comment found",
+        line: comment.line,
       });
     }
   });
 
-  return issues;
+  // Injection and deserialization sinks, and hardcoded credentials
+  issues.push(...findSecurityIssues(doc));
+  issues.push(...findSecretIssues(doc));
+
+  // Drop disabled rules and apply the configured severities
+  return issues
+    .filter((issue) => rules[issue.rule]?.enabled ?? true)
+    .map((issue) => {
+      const rule = rules[issue.rule];
+      return rule ? { ...issue, severity: rule.severity as IssueSeverity } : issue;
+    })
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
 }
 
 function calculateQuality(
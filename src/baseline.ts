@@ -0,0 +1,147 @@
+/**
+ * Baseline module
+ * Snapshots existing findings so later runs can report only new ones
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createFingerprinter, listFindings, SarifSource } from "./sarif.js";
+import { summarizeSmells } from "./code-smells.js";
+import { summarizeRefactorings } from "./refactorings.js";
+import { resolveAllowedFile } from "./sandbox.js";
+
+export interface BaselineEntry {
+  file: string;
+  rule: string;
+  /** Same fingerprint as SARIF `intelliCode/v1`: independent of the line number */
+  fingerprint: string;
+  line?: number;
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+export interface BaselineMatch {
+  /** Findings hidden because the baseline already lists them */
+  matched: number;
+}
+
+/**
+ * Builds a baseline from every unsuppressed finding of the sources
+ */
+export function createBaseline(sources: SarifSource[], createdAt = new Date().toISOString()): Baseline {
+  return { version: 1, createdAt, findings: sources.flatMap(baselineEntries) };
+}
+
+/**
+ * Lists the baseline entries of one analyzed file
+ */
+export function baselineEntries(source: SarifSource): BaselineEntry[] {
+  const fingerprint = createFingerprinter(source.code);
+  const file = normalizeFile(source.filename);
+
+  return listFindings(source)
+    .filter((finding) => !finding.suppression)
+    .map((finding) => ({
+      file,
+      rule: finding.ruleId,
+      fingerprint: fingerprint(finding.ruleId, finding.line, finding.message).fingerprint,
+      ...(finding.line !== undefined ? { line: finding.line } : {}),
+      message: finding.message,
+    }));
+}
+
+/**
+ * Accepts a baseline object, its JSON text, or the path of a baseline file
+ * inside the allowed roots
+ */
+export async function loadBaseline(value: unknown): Promise<Baseline> {
+  let baseline = value;
+  if (typeof value === "string") {
+    const text = value.trimStart().startsWith("{")
+      ? value
+      : await readFile(await resolveAllowedFile(value), "utf8").catch((error: Error) => {
+          throw new Error(`Cannot read baseline: ${error.message}`);
+        });
+    try {
+      baseline = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid baseline: not valid JSON (${(error as Error).message})`);
+    }
+  }
+
+  const candidate = baseline as Partial<Baseline> | null;
+  if (!candidate || typeof candidate !== "object" || candidate.version !== 1 || !Array.isArray(candidate.findings)) {
+    throw new Error("Invalid baseline: expected an object with version 1 and a findings array");
+  }
+  if (candidate.findings.some((f) => typeof f?.file !== "string" || typeof f?.fingerprint !== "string")) {
+    throw new Error("Invalid baseline: every finding needs a file and a fingerprint");
+  }
+  return candidate as Baseline;
+}
+
+/**
+ * Writes a baseline to a `.json` file inside the allowed roots. An existing
+ * file is only replaced when it holds a baseline, so sources and project
+ * files cannot be overwritten.
+ */
+export async function writeBaseline(baseline: Baseline, output: string): Promise<void> {
+  if (path.extname(output).toLowerCase() !== ".json") {
+    throw new Error(`Baseline output must be a .json file: ${output}`);
+  }
+  const file = await resolveAllowedFile(output);
+  const existing = await readFile(file, "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") return undefined;
+    throw new Error(`Cannot write baseline: ${error.message}`);
+  });
+  if (existing !== undefined) {
+    try {
+      await loadBaseline(JSON.parse(existing));
+    } catch {
+      throw new Error(`Refusing to overwrite ${output}: not a baseline`);
+    }
+  }
+  await writeFile(file, `${JSON.stringify(baseline, null, 2)}\n`, "utf8");
+}
+
+/**
+ * Removes the findings a baseline already lists from a file's reports and
+ * recomputes their counts. Identical findings are matched one for one, so a
+ * second copy of a baselined line still shows up as new.
+ */
+export function applyBaseline<T extends SarifSource>(source: T, baseline: Baseline): T & { baseline: BaselineMatch } {
+  const file = normalizeFile(source.filename);
+  const known = new Set(baseline.findings.filter((f) => f.file === file).map((f) => f.fingerprint));
+  const fingerprint = createFingerprinter(source.code);
+
+  const hidden = new Set<object>();
+  for (const finding of listFindings(source)) {
+    if (finding.suppression) continue;
+    if (known.has(fingerprint(finding.ruleId, finding.line, finding.message).fingerprint)) {
+      hidden.add(finding.finding);
+    }
+  }
+  const isNew = (finding: object) => !hidden.has(finding);
+
+  const filtered: T & { baseline: BaselineMatch } = { ...source, baseline: { matched: hidden.size } };
+  if (source.analysis) {
+    filtered.analysis = { ...source.analysis, issues: source.analysis.issues.filter(isNew) };
+  }
+  if (source.smells) {
+    const smells = source.smells.smells.filter(isNew);
+    filtered.smells = { ...source.smells, ...summarizeSmells(smells), smells };
+  }
+  if (source.refactorings) {
+    const refactorings = source.refactorings.refactorings.filter(isNew);
+    filtered.refactorings = { ...source.refactorings, ...summarizeRefactorings(refactorings), refactorings };
+  }
+  return filtered;
+}
+
+function normalizeFile(filename: string): string {
+  return filename.replace(/\\/g, "/").replace(/^\.\//, "");
+}
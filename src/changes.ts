@@ -0,0 +1,318 @@
+/**
+ * Changes module
+ * Analyzes the files a git diff touches and keeps the findings on changed lines
+ */
+
+import { lstat, readFile } from "node:fs/promises";
+import path from "node:path";
+import { analyzeCode, Issue } from "./analyzer.js";
+import { detectCodeSmells, CodeSmell } from "./code-smells.js";
+import { analyzeComplexity, FunctionComplexity } from "./complexity.js";
+import { parseDocument } from "./parser.js";
+import { AnalysisConfig, loadEffectiveConfig, resolveRules } from "./config.js";
+import { inferLanguage, SkippedFile } from "./directory.js";
+import { getAllowedRoots, resolveAllowedDirectory } from "./sandbox.js";
+import {
+  ChangedFile,
+  ChangeStatus,
+  diffHunks,
+  DiffHunk,
+  listChangedFiles,
+  readFileAtRef,
+  resolveCommit,
+} from "./git.js";
+
+export interface ChangeAnalysisOptions {
+  /** Directory inside a git work tree; only changes below it are analyzed */
+  root: string;
+  /** Ref to compare against, e.g. `main` or `HEAD~3` */
+  base: string;
+  /** Ref holding the changes; the working tree when omitted */
+  head?: string;
+  /** Directories reads are confined to; defaults to {@link getAllowedRoots} */
+  allowedRoots?: string[];
+  maxFileSize?: number;
+  /** Rule settings layered over the root's .intellicoderc.json */
+  config?: unknown;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+export interface FunctionMetrics {
+  lines: number;
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+  nestingDepth: number;
+  maintainabilityIndex: number;
+}
+
+export interface FunctionDelta {
+  name: string;
+  status: "added" | "modified" | "removed";
+  /** Location in the changed file; the base file for removed functions */
+  startLine: number;
+  endLine: number;
+  before?: FunctionMetrics;
+  after?: FunctionMetrics;
+  /** `after` minus `before`, treating a missing side as zero */
+  delta: FunctionMetrics;
+}
+
+export interface ChangedFileResult {
+  filename: string;
+  previousFilename?: string;
+  status: ChangeStatus;
+  language: string;
+  /** Added or modified line ranges in the changed file */
+  changedLines: LineRange[];
+  linesAdded: number;
+  linesRemoved: number;
+  /** Issues on changed lines */
+  issues: Issue[];
+  /** Smells on changed lines, or on the header of a changed function */
+  smells: CodeSmell[];
+  functions: FunctionDelta[];
+}
+
+export interface ChangeSummary {
+  base: string;
+  head: string;
+  filesChanged: number;
+  filesAnalyzed: number;
+  linesAdded: number;
+  linesRemoved: number;
+  totalIssues: number;
+  totalSmells: number;
+  functionsAdded: number;
+  functionsModified: number;
+  functionsRemoved: number;
+  /** Sum of the cyclomatic complexity deltas of every touched function */
+  cyclomaticComplexityDelta: number;
+  cognitiveComplexityDelta: number;
+  skipped: SkippedFile[];
+}
+
+export interface ChangeAnalysis {
+  summary: ChangeSummary;
+  files: ChangedFileResult[];
+}
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+const WORKING_TREE = "working tree";
+
+/**
+ * Diffs `head` (or the working tree) against `base` in a local repository and
+ * analyzes every changed source file. Only findings that intersect changed
+ * hunks are reported, together with metric deltas for the touched functions.
+ */
+export async function analyzeChanges(options: ChangeAnalysisOptions): Promise<ChangeAnalysis> {
+  const { maxFileSize = DEFAULT_MAX_FILE_SIZE } = options;
+  const root = await resolveAllowedDirectory(options.root, options.allowedRoots ?? getAllowedRoots());
+  const base = await resolveCommit(root, options.base);
+  const head = options.head === undefined ? undefined : await resolveCommit(root, options.head);
+  const config = await loadEffectiveConfig(root, options.config);
+
+  const changed = await listChangedFiles(root, base, head);
+  const skipped: SkippedFile[] = [];
+  const files: ChangedFileResult[] = [];
+
+  for (const file of changed) {
+    const language = inferLanguage(file.filename);
+    if (!language) continue;
+
+    const after = file.status === "deleted" ? "" : await readChangedFile(root, file.filename, head, maxFileSize);
+    if (after === undefined) {
+      skipped.push({ filename: file.filename, reason: `symbolic link or larger than ${maxFileSize} bytes` });
+      continue;
+    }
+    const before =
+      file.status === "added" ? "" : await readFileAtRef(root, base, file.previousFilename ?? file.filename);
+
+    // Untracked files have no diff to read; every line of an added file is new anyway
+    const hunks =
+      file.status === "added"
+        ? [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: countLines(after) }]
+        : await diffHunks(root, base, file, head);
+
+    files.push(analyzeFile(file, language, { before, after }, hunks, config));
+  }
+
+  return { summary: summarize(options.base, options.head ?? WORKING_TREE, changed.length, files, skipped), files };
+}
+
+function analyzeFile(
+  file: ChangedFile,
+  language: string,
+  { before, after }: { before: string; after: string },
+  hunks: DiffHunk[],
+  config: AnalysisConfig
+): ChangedFileResult {
+  const { filename, previousFilename, status } = file;
+  const changedLines = hunks
+    .filter((hunk) => hunk.newLines > 0)
+    .map((hunk) => ({ start: hunk.newStart, end: hunk.newStart + hunk.newLines - 1 }));
+  const touches = (start: number, end: number) =>
+    hunks.some((hunk) =>
+      hunk.newLines > 0
+        ? hunk.newStart <= end && hunk.newStart + hunk.newLines - 1 >= start
+        : // A pure deletion sits between line newStart and the next one
+          hunk.newStart >= start && hunk.newStart < end
+    );
+  const onChangedLine = (line?: number) => line !== undefined && touches(line, line);
+
+  const result: ChangedFileResult = {
+    filename,
+    ...(previousFilename ? { previousFilename } : {}),
+    status,
+    language,
+    changedLines,
+    linesAdded: hunks.reduce((total, hunk) => total + hunk.newLines, 0),
+    linesRemoved: hunks.reduce((total, hunk) => total + hunk.oldLines, 0),
+    issues: [],
+    smells: [],
+    functions: [],
+  };
+
+  const oldFunctions = before ? analyzeComplexity(before, language).functions : [];
+  if (status === "deleted") {
+    result.functions = oldFunctions.map((fn) => functionDelta(fn.name, "removed", fn, undefined));
+    return result;
+  }
+
+  const doc = parseDocument(after, language);
+  const rules = resolveRules(config, filename, language);
+  const newFunctions = analyzeComplexity(after, language, doc).functions;
+  const touchedFunctions = newFunctions.filter((fn) => touches(fn.startLine, fn.endLine));
+
+  // Smells such as Long Method point at the function header but concern its whole body
+  const isTouchedHeader = (line?: number) => touchedFunctions.some((fn) => fn.startLine === line);
+
+  result.issues = analyzeCode(after, language, filename, doc, rules).issues.filter((issue) =>
+    onChangedLine(issue.line)
+  );
+  result.smells = detectCodeSmells(after, language, doc, rules, filename).smells.filter(
+    (smell) => onChangedLine(smell.location?.line) || isTouchedHeader(smell.location?.line)
+  );
+
+  // Functions are paired by name and position among functions of that name
+  const previous = pairFunctions(oldFunctions, newFunctions);
+  for (const fn of touchedFunctions) {
+    const match = previous.get(fn);
+    result.functions.push(functionDelta(fn.name, match ? "modified" : "added", match, fn));
+  }
+  const kept = new Set(previous.values());
+  for (const fn of oldFunctions) {
+    if (!kept.has(fn)) result.functions.push(functionDelta(fn.name, "removed", fn, undefined));
+  }
+
+  return result;
+}
+
+function pairFunctions(
+  oldFunctions: FunctionComplexity[],
+  newFunctions: FunctionComplexity[]
+): Map<FunctionComplexity, FunctionComplexity> {
+  const byName = new Map<string, FunctionComplexity[]>();
+  for (const fn of oldFunctions) {
+    byName.set(fn.name, [...(byName.get(fn.name) ?? []), fn]);
+  }
+
+  const pairs = new Map<FunctionComplexity, FunctionComplexity>();
+  for (const fn of newFunctions) {
+    const match = byName.get(fn.name)?.shift();
+    if (match) pairs.set(fn, match);
+  }
+  return pairs;
+}
+
+function functionDelta(
+  name: string,
+  status: FunctionDelta["status"],
+  before: FunctionComplexity | undefined,
+  after: FunctionComplexity | undefined
+): FunctionDelta {
+  const beforeMetrics = before && metricsOf(before);
+  const afterMetrics = after && metricsOf(after);
+  const location = (after ?? before)!;
+
+  const delta = {} as FunctionMetrics;
+  for (const key of Object.keys(metricsOf(location)) as Array<keyof FunctionMetrics>) {
+    delta[key] = Math.round(((afterMetrics?.[key] ?? 0) - (beforeMetrics?.[key] ?? 0)) * 100) / 100;
+  }
+
+  return {
+    name,
+    status,
+    startLine: location.startLine,
+    endLine: location.endLine,
+    ...(beforeMetrics ? { before: beforeMetrics } : {}),
+    ...(afterMetrics ? { after: afterMetrics } : {}),
+    delta,
+  };
+}
+
+function metricsOf(fn: FunctionComplexity): FunctionMetrics {
+  return {
+    lines: fn.endLine - fn.startLine + 1,
+    cyclomaticComplexity: fn.cyclomaticComplexity,
+    cognitiveComplexity: fn.cognitiveComplexity,
+    nestingDepth: fn.nestingDepth,
+    maintainabilityIndex: fn.maintainabilityIndex,
+  };
+}
+
+async function readChangedFile(
+  root: string,
+  filename: string,
+  head: string | undefined,
+  maxFileSize: number
+): Promise<string | undefined> {
+  if (head !== undefined) {
+    const content = await readFileAtRef(root, head, filename);
+    return Buffer.byteLength(content) > maxFileSize ? undefined : content;
+  }
+
+  // Links are not followed: their target may lie outside the sandbox
+  const absolute = path.join(root, filename);
+  const stats = await lstat(absolute);
+  if (!stats.isFile() || stats.size > maxFileSize) return undefined;
+  return readFile(absolute, "utf8");
+}
+
+function countLines(code: string): number {
+  if (!code) return 0;
+  return code.split("\n").length - (code.endsWith("\n") ? 1 : 0);
+}
+
+function summarize(
+  base: string,
+  head: string,
+  filesChanged: number,
+  files: ChangedFileResult[],
+  skipped: SkippedFile[]
+): ChangeSummary {
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const functions = files.flatMap((file) => file.functions);
+  const count = (status: FunctionDelta["status"]) => functions.filter((fn) => fn.status === status).length;
+
+  return {
+    base,
+    head,
+    filesChanged,
+    filesAnalyzed: files.length,
+    linesAdded: sum(files.map((f) => f.linesAdded)),
+    linesRemoved: sum(files.map((f) => f.linesRemoved)),
+    totalIssues: sum(files.map((f) => f.issues.length)),
+    totalSmells: sum(files.map((f) => f.smells.length)),
+    functionsAdded: count("added"),
+    functionsModified: count("modified"),
+    functionsRemoved: count("removed"),
+    cyclomaticComplexityDelta: sum(functions.map((fn) => fn.delta.cyclomaticComplexity)),
+    cognitiveComplexityDelta: sum(functions.map((fn) => fn.delta.cognitiveComplexity)),
+    skipped,
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Clone detection module
+ * Finds Type-1 (identical) and Type-2 (renamed identifiers and literals)
+ * clones as repeated token sequences, within a file and across files, using
+ * a suffix array over the normalized token streams
+ */
+
+import { ParsedDocument, parseDocument, Token } from "./parser.js";
+
+export interface CloneSource {
+  filename: string;
+  code: string;
+  language: string;
+  doc?: ParsedDocument;
+  /** Minimum length of the file's copies, replacing `options.minTokens` */
+  minTokens?: number;
+}
+
+export interface CloneLocation {
+  filename: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CloneClass {
+  /** "type-1" when every copy has the same tokens, "type-2" when names or literals differ */
+  type: "type-1" | "type-2";
+  /** Length of the cloned sequence in tokens */
+  tokens: number;
+  /** Length in lines of the longest copy */
+  lines: number;
+  locations: CloneLocation[];
+}
+
+export interface FileDuplication {
+  filename: string;
+  /** Lines that contain code */
+  totalLines: number;
+  /** Code lines covered by at least one clone */
+  duplicatedLines: number;
+  duplicatedPercentage: number;
+}
+
+export interface CloneReport {
+  /** Minimum length for files without their own */
+  minTokens: number;
+  totalLines: number;
+  duplicatedLines: number;
+  duplicatedPercentage: number;
+  files: FileDuplication[];
+  /** Largest classes first */
+  cloneClasses: CloneClass[];
+}
+
+export const DEFAULT_MIN_CLONE_TOKENS = 50;
+
+interface Stream {
+  filename: string;
+  doc: ParsedDocument;
+  tokens: Token[];
+  /** Global index of the stream's first token */
+  offset: number;
+}
+
+/**
+ * Detects clones of at least `minTokens` tokens within and across the
+ * given files. A copy only counts when the clone reaches its own file's
+ * minimum, so a class needs two such copies.
+ */
+export function detectClones(
+  sources: CloneSource[],
+  options: { minTokens?: number } = {}
+): CloneReport {
+  const limit = (value: number) => Math.max(Math.floor(value), 2);
+  const minTokens = limit(options.minTokens ?? DEFAULT_MIN_CLONE_TOKENS);
+  const limits = sources.map((source) => (source.minTokens === undefined ? minTokens : limit(source.minTokens)));
+  const shortest = Math.min(...limits);
+
+  // Every stream is followed by a separator no other position shares, so
+  // common prefixes never run from one file into the next
+  const vocabulary = new Map<string, number>();
+  const streams: Stream[] = [];
+  const symbols: number[] = [];
+  const streamOf: number[] = [];
+  sources.forEach((source, index) => {
+    const doc = source.doc ?? parseDocument(source.code, source.language);
+    const tokens = doc.codeTokens;
+    streams.push({ filename: source.filename, doc, tokens, offset: symbols.length });
+    for (const token of tokens) {
+      const key = normalize(token);
+      if (!vocabulary.has(key)) vocabulary.set(key, vocabulary.size);
+      symbols.push(vocabulary.get(key)!);
+      streamOf.push(index);
+    }
+    symbols.push(-1);
+    streamOf.push(index);
+  });
+  let separator = vocabulary.size;
+  for (let i = 0; i < symbols.length; i++) {
+    if (symbols[i] === -1) symbols[i] = separator++;
+  }
+
+  const sa = suffixArray(symbols);
+  const lcp = longestCommonPrefixes(symbols, sa);
+
+  // Bottom-up traversal of the LCP intervals; each is a set of suffixes
+  // sharing a prefix of the interval's length
+  const candidates: Array<{ start: number; length: number; lb: number; rb: number }> = [];
+  const stack = [{ length: 0, lb: 0 }];
+  for (let i = 1; i <= sa.length; i++) {
+    const height = i < sa.length ? lcp[i] : 0;
+    let lb = i - 1;
+    while (height < stack[stack.length - 1].length) {
+      const top = stack.pop()!;
+      const candidate = trimToBoundaries(streams[streamOf[sa[top.lb]]], sa[top.lb], top.length);
+      if (candidate.length >= shortest) candidates.push({ ...candidate, lb: top.lb, rb: i - 1 });
+      lb = top.lb;
+    }
+    if (height > stack[stack.length - 1].length) stack.push({ length: height, lb });
+  }
+
+  // Longest first; a class is left out when every copy lies in code that
+  // earlier classes already cover
+  candidates.sort((a, b) => b.length - a.length || b.rb - b.lb - (a.rb - a.lb));
+  const reported = new CoverageSet(symbols.length);
+  const classes: CloneClass[] = [];
+  const covered = streams.map(() => new Set<number>());
+
+  for (const { start, length, lb, rb } of candidates) {
+    const shift = start - sa[lb];
+    const starts = sa.slice(lb, rb + 1);
+    if (starts.every((s) => reported.covers(s + shift, s + shift + length))) continue;
+
+    // A class whose copies are all preceded by the same token is part of a
+    // longer clone
+    const previous = (s: number) => (s > streams[streamOf[s]].offset ? symbols[s - 1] : -1);
+    if (previous(starts[0]) !== -1 && starts.every((s) => previous(s) === previous(starts[0]))) continue;
+
+    // Overlapping copies of a periodic sequence count once
+    const kept: number[] = [];
+    for (const s of starts.sort((a, b) => a - b).map((s) => s + shift)) {
+      if (length < limits[streamOf[s]]) continue;
+      const last = kept[kept.length - 1];
+      if (last === undefined || streamOf[last] !== streamOf[s] || s >= last + length) kept.push(s);
+    }
+    if (kept.length < 2) continue;
+
+    const copies = kept.map((s) => {
+      reported.add(s, s + length);
+      const stream = streams[streamOf[s]];
+      return { index: streamOf[s], tokens: stream.tokens.slice(s - stream.offset, s - stream.offset + length) };
+    });
+    const identical = copies.every(({ tokens }) => tokens.every((t, i) => t.value === copies[0].tokens[i].value));
+    const locations = copies.map(({ index, tokens }) => {
+      const startLine = tokens[0].line;
+      const endLine = tokens[tokens.length - 1].endLine;
+      for (let line = startLine; line <= endLine; line++) covered[index].add(line);
+      return { filename: streams[index].filename, startLine, endLine };
+    });
+    classes.push({
+      type: identical ? "type-1" : "type-2",
+      tokens: length,
+      lines: Math.max(...locations.map((l) => l.endLine - l.startLine + 1)),
+      locations,
+    });
+  }
+
+  classes.sort((a, b) => b.tokens * b.locations.length - a.tokens * a.locations.length);
+  return { minTokens, ...measureDuplication(streams, covered), cloneClasses: classes };
+}
+
+/**
+ * Set of positions supporting range insertion and "is this range fully
+ * covered" queries, through pointers to the next uncovered position
+ */
+class CoverageSet {
+  private readonly next: Int32Array;
+
+  constructor(size: number) {
+    this.next = Int32Array.from({ length: size + 1 }, (_, i) => i);
+  }
+
+  /** Covers positions `start` up to, not including, `end` */
+  add(start: number, end: number) {
+    for (let p = this.firstUncovered(start); p < end; p = this.firstUncovered(p)) {
+      this.next[p] = p + 1;
+    }
+  }
+
+  covers(start: number, end: number): boolean {
+    return this.firstUncovered(start) >= end;
+  }
+
+  private firstUncovered(position: number): number {
+    let root = position;
+    while (this.next[root] !== root) root = this.next[root];
+    while (this.next[position] !== root) {
+      const following = this.next[position];
+      this.next[position] = root;
+      position = following;
+    }
+    return root;
+  }
+}
+
+const LEADING_BOUNDARIES = new Set([";", ",", ")", "]", "}"]);
+const TRAILING_BOUNDARIES = new Set([",", "(", "[", "{", "=", "."]);
+
+/**
+ * Drops the separators and openers at the edges of a match, which glue it
+ * to whatever precedes or follows instead of being part of the clone
+ */
+function trimToBoundaries(stream: Stream, start: number, length: number): { start: number; length: number } {
+  const at = (p: number) => stream.tokens[p - stream.offset];
+  while (length > 0 && at(start).kind === "punctuator" && LEADING_BOUNDARIES.has(at(start).value)) {
+    start++;
+    length--;
+  }
+  const last = () => at(start + length - 1);
+  while (length > 0 && last().kind === "punctuator" && TRAILING_BOUNDARIES.has(last().value)) {
+    length--;
+  }
+  return { start, length };
+}
+
+/**
+ * Identifiers and literals become placeholders so renamed copies compare equal
+ */
+function normalize(token: Token): string {
+  switch (token.kind) {
+    case "identifier":
+      return "$id";
+    case "number":
+    case "string":
+    case "template":
+    case "regex":
+      return "$literal";
+    default:
+      return token.value;
+  }
+}
+
+/**
+ * Suffix array by prefix doubling
+ */
+function suffixArray(symbols: number[]): number[] {
+  const n = symbols.length;
+  const sa = Array.from({ length: n }, (_, i) => i);
+  let rank = symbols.slice();
+  const next = new Array<number>(n);
+
+  for (let k = 1; n > 0; k *= 2) {
+    const key = (i: number) => (i + k < n ? rank[i + k] : -1);
+    const compare = (a: number, b: number) => rank[a] - rank[b] || key(a) - key(b);
+    sa.sort(compare);
+    next[sa[0]] = 0;
+    for (let i = 1; i < n; i++) {
+      next[sa[i]] = next[sa[i - 1]] + (compare(sa[i - 1], sa[i]) < 0 ? 1 : 0);
+    }
+    rank = next.slice();
+    if (rank[sa[n - 1]] === n - 1) break;
+  }
+  return sa;
+}
+
+/**
+ * Kasai's algorithm: `lcp[i]` is the common prefix length of the suffixes
+ * at `sa[i - 1]` and `sa[i]`
+ */
+function longestCommonPrefixes(symbols: number[], sa: number[]): number[] {
+  const n = symbols.length;
+  const rank = new Array<number>(n);
+  sa.forEach((start, i) => (rank[start] = i));
+  const lcp = new Array<number>(n).fill(0);
+  let h = 0;
+  for (let i = 0; i < n; i++) {
+    if (rank[i] === 0) {
+      h = 0;
+      continue;
+    }
+    const j = sa[rank[i] - 1];
+    while (i + h < n && j + h < n && symbols[i + h] === symbols[j + h]) h++;
+    lcp[rank[i]] = h;
+    if (h > 0) h--;
+  }
+  return lcp;
+}
+
+/**
+ * Counts the code lines of each file that some clone covers
+ */
+function measureDuplication(
+  streams: Stream[],
+  covered: Set<number>[]
+): Pick<CloneReport, "totalLines" | "duplicatedLines" | "duplicatedPercentage" | "files"> {
+  const files = streams.map(({ filename, doc }, index) => {
+    const codeLines = doc.lineKinds.filter((kind) => kind === "code").length;
+    const duplicated = [...covered[index]].filter((line) => doc.lineKinds[line - 1] === "code").length;
+    return {
+      filename,
+      totalLines: codeLines,
+      duplicatedLines: duplicated,
+      duplicatedPercentage: percentage(duplicated, codeLines),
+    };
+  });
+  const totalLines = files.reduce((sum, f) => sum + f.totalLines, 0);
+  const duplicatedLines = files.reduce((sum, f) => sum + f.duplicatedLines, 0);
+  return { totalLines, duplicatedLines, duplicatedPercentage: percentage(duplicatedLines, totalLines), files };
+}
+
+function percentage(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 10000) / 100;
+}
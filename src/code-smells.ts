@@ -3,6 +3,15 @@
  * Identifies common code smells and anti-patterns
  */
 
+import { ParsedDocument, parseDocument } from "./parser.js";
+import { getFunctionExtents } from "./structure.js";
+import { PythonBlock } from "./python-structure.js";
+import { resolveRules, ruleId, RULES, RuleSet, SmellSeverity } from "./config.js";
+import { applySuppressions, isSuppressionComment, SuppressionSummary } from "./suppressions.js";
+import { detectClones, CloneClass } from "./clones.js";
+import { findDeadCode, Confidence, DeadCodeKind } from "./dead-code.js";
+import { runPluginDetectors, PluginError } from "./plugins.js";
+
 export interface CodeSmell {
   type: string;
   severity: "high" | "medium" | "low";
@@ -12,6 +21,10 @@ export interface CodeSmell {
     column?: number;
   };
   suggestion: string;
+  /** How safe the finding is to act on, for dead code */
+  confidence?: Confidence;
+  /** Rule id, when it is not derived from the type, as for plugin detectors */
+  rule?: string;
 }
 
 export interface CodeSmellReport {
@@ -19,6 +32,10 @@ export interface CodeSmellReport {
   smellsByType: Record<string, number>;
   smells: CodeSmell[];
   summary: string;
+  /** Smells silenced by `intelli-ignore-*` comments, and directives that silenced nothing */
+  suppressions: SuppressionSummary<CodeSmell>;
+  /** Plugin detectors that threw; their smells are missing from the report */
+  pluginErrors?: PluginError[];
 }
 
 /**
@@ -26,89 +43,144 @@ export interface CodeSmellReport {
  */
 export function detectCodeSmells(
   code: string,
-  language: string
+  language: string,
+  doc: ParsedDocument = parseDocument(code, language),
+  rules: RuleSet = resolveRules({}, undefined, doc.language),
+  filename?: string
 ): CodeSmellReport {
-  const smells: CodeSmell[] = [];
+  const detected: CodeSmell[] = [];
 
   // Detect various code smells
-  smells.push(...detectLongMethods(code));
-  smells.push(...detectLongParameterList(code, language));
-  smells.push(...detectDuplicateCode(code));
-  smells.push(...detectDeadCode(code, language));
-  smells.push(...detectMagicNumbers(code));
-  smells.push(...detectNestedLoops(code));
-  smells.push(...detectGodClass(code, language));
-  smells.push(...detectLargeClass(code, language));
-  smells.push(...detectPrimitiveObsession(code, language));
-  smells.push(...detectLongSwitch(code));
+  detected.push(...detectLongMethods(doc, rules["long-method"].threshold!));
+  detected.push(...detectLongParameterList(doc, rules["long-parameter-list"].threshold!));
+  detected.push(...detectDuplicateCode(doc, rules["duplicate-code"].threshold!));
+  detected.push(...detectDeadCode(doc));
+  detected.push(...detectMagicNumbers(doc));
+  detected.push(...detectNestedLoops(doc));
+  detected.push(...detectGodClass(doc, rules["god-class"].threshold!));
+  detected.push(...detectLargeClass(doc, rules["large-class"].threshold!));
+  detected.push(...detectPrimitiveObsession(doc));
+  detected.push(...detectLongSwitch(doc, rules["long-switch-statement"].threshold!));
+  detected.push(...(doc.profile.smells?.(doc) ?? []));
+
+  const plugins = runPluginDetectors(doc, rules, filename);
+  detected.push(...plugins.smells);
+
+  // Drop disabled rules and apply the configured severities
+  const configured = detected
+    .filter((smell) => rules[smellRule(smell)]?.enabled ?? true)
+    .map((smell) => {
+      const rule = rules[smellRule(smell)];
+      return rule ? { ...smell, severity: rule.severity as SmellSeverity } : smell;
+    });
+  const { kept: smells, suppressions } = applySuppressions(configured, doc, smellRules(), (smell) => ({
+    rule: smellRule(smell),
+    line: smell.location?.line,
+  }));
 
+  return {
+    ...summarizeSmells(smells),
+    smells,
+    suppressions,
+    ...(plugins.errors.length > 0 ? { pluginErrors: plugins.errors } : {}),
+  };
+}
+
+/**
+ * Computes the counts and summary text of a report from its smells
+ */
+export function summarizeSmells(
+  smells: CodeSmell[]
+): Pick<CodeSmellReport, "totalSmells" | "smellsByType" | "summary"> {
   const smellsByType: Record<string, number> = {};
   smells.forEach((smell) => {
     smellsByType[smell.type] = (smellsByType[smell.type] || 0) + 1;
   });
 
-  const summary = generateSummary(smells);
-
   return {
     totalSmells: smells.length,
     smellsByType,
-    smells,
-    summary,
+    summary: generateSummary(smells),
   };
 }
 
-function detectLongMethods(code: string): CodeSmell[] {
+/**
+ * Rule id of a smell: its own for plugin smells, otherwise derived from its type
+ */
+export function smellRule(smell: CodeSmell): string {
+  return smell.rule ?? ruleId(smell.type);
+}
+
+// Computed per call, since plugins add smell rules at server start
+function smellRules(): string[] {
+  return Object.keys(RULES).filter((id) => RULES[id].kind === "smell");
+}
+
+function detectLongMethods(doc: ParsedDocument, maxLines: number): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
-  let inFunction = false;
-  let functionStart = 0;
-  let braceCount = 0;
-
-  lines.forEach((line, index) => {
-    if (/function\s+\w+|=>\s*{|def\s+\w+/.test(line)) {
-      inFunction = true;
-      functionStart = index;
-      braceCount = 0;
-    }
 
-    if (inFunction) {
-      if (line.includes("{")) braceCount++;
-      if (line.includes("}")) {
-        braceCount--;
-        if (braceCount === 0) {
-          const functionLength = index - functionStart + 1;
-          if (functionLength > 50) {
-            smells.push({
-              type: "Long Method",
-              severity: "high",
-              description: `Method is ${functionLength} lines long (recommended max: 50)`,
-              location: { line: functionStart + 1 },
-              suggestion:
-                "Break this method into smaller, more focused methods",
-            });
-          }
-          inFunction = false;
-        }
-      }
+  getFunctionExtents(doc).forEach((fn) => {
+    const functionLength = fn.endLine - fn.startLine + 1;
+    if (functionLength > maxLines) {
+      smells.push({
+        type: "Long Method",
+        severity: "high",
+        description: `Method is ${functionLength} lines long (recommended max: ${maxLines})`,
+        location: { line: fn.startLine },
+        suggestion:
+          "Break this method into smaller, more focused methods",
+      });
     }
   });
 
   return smells;
 }
 
-function detectLongParameterList(code: string, language: string): CodeSmell[] {
+function detectLongParameterList(doc: ParsedDocument, maxParameters: number): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    structure.functions.forEach((fn) => {
+      if (fn.parameters.length > maxParameters) {
+        smells.push({
+          type: "Long Parameter List",
+          severity: "medium",
+          description: `Function has ${fn.parameters.length} parameters (recommended max: ${maxParameters})`,
+          location: { line: fn.headerLine },
+          suggestion:
+            "Consider using a parameter object or breaking the function into smaller parts",
+        });
+      }
+    });
+    return smells;
+  }
+
+  if (doc.profile.structure) {
+    doc.profile.structure(doc).functions.forEach((fn) => {
+      if (fn.parameters.length > maxParameters) {
+        smells.push({
+          type: "Long Parameter List",
+          severity: "medium",
+          description: `Function has ${fn.parameters.length} parameters (recommended max: ${maxParameters})`,
+          location: { line: fn.startLine },
+          suggestion:
+            "Consider using a parameter object or breaking the function into smaller parts",
+        });
+      }
+    });
+    return smells;
+  }
+
+  doc.codeLines.forEach((line, index) => {
     const match = line.match(/function\s+\w+\s*\(([^)]+)\)|def\s+\w+\s*\(([^)]+)\)/);
     if (match) {
       const params = (match[1] || match[2] || "").split(",").filter((p) => p.trim());
-      if (params.length > 5) {
+      if (params.length > maxParameters) {
         smells.push({
           type: "Long Parameter List",
           severity: "medium",
-          description: `Function has ${params.length} parameters (recommended max: 5)`,
+          description: `Function has ${params.length} parameters (recommended max: ${maxParameters})`,
           location: { line: index + 1 },
           suggestion:
             "Consider using a parameter object or breaking the function into smaller parts",
@@ -120,90 +192,82 @@ function detectLongParameterList(code: string, language: string): CodeSmell[] {
   return smells;
 }
 
-function detectDuplicateCode(code: string): CodeSmell[] {
-  const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
-  const lineGroups: Map<string, number[]> = new Map();
-
-  // Group identical non-empty lines
-  lines.forEach((line, index) => {
-    const trimmed = line.trim();
-    if (trimmed && trimmed.length > 20) {
-      if (!lineGroups.has(trimmed)) {
-        lineGroups.set(trimmed, []);
-      }
-      lineGroups.get(trimmed)!.push(index + 1);
-    }
+function detectDuplicateCode(doc: ParsedDocument, minTokens: number): CodeSmell[] {
+  const { cloneClasses } = detectClones([{ filename: "", code: doc.source, language: doc.language, doc }], {
+    minTokens,
   });
 
-  // Find duplicates
-  lineGroups.forEach((lineNumbers, line) => {
-    if (lineNumbers.length >= 3) {
-      smells.push({
-        type: "Duplicate Code",
-        severity: "medium",
-        description: `Identical line found ${lineNumbers.length} times`,
-        location: { line: lineNumbers[0] },
-        suggestion: "Extract duplicate code into a reusable function or constant",
-      });
-    }
-  });
-
-  return smells;
+  return cloneClasses.map((clone) => ({
+    type: "Duplicate Code",
+    severity: "medium",
+    description: describeClone(clone),
+    location: { line: clone.locations[0].startLine },
+    suggestion: "Extract duplicate code into a reusable function or constant",
+  }));
 }
 
-function detectDeadCode(code: string, language: string): CodeSmell[] {
-  const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
-
-  lines.forEach((line, index) => {
-    // Unreachable code after return
-    if (/return\s+.*;/.test(line) && index + 1 < lines.length) {
-      const nextLine = lines[index + 1].trim();
-      if (nextLine && nextLine !== "}" && !nextLine.startsWith("//")) {
-        smells.push({
-          type: "Dead Code",
-          severity: "high",
-          description: "Unreachable code after return statement",
-          location: { line: index + 2 },
-          suggestion: "Remove unreachable code",
-        });
-      }
-    }
+/**
+ * Describes a clone class found within one file
+ */
+export function describeClone(clone: CloneClass): string {
+  const kind = clone.type === "type-1" ? "Identical" : "Similar";
+  const ranges = clone.locations.map((l) => `${l.startLine}-${l.endLine}`).join(", ");
+  const copies = clone.locations.length;
+  return `${kind} block of ${clone.lines} lines (${clone.tokens} tokens) appears ${copies} times: lines ${ranges}`;
+}
 
-    // Commented out code
-    if (/^\s*\/\/.*[{};()].*$/.test(line)) {
+const DEAD_CODE_SUGGESTIONS: Record<DeadCodeKind, string> = {
+  "unused-local": "Remove the unused declaration",
+  "unused-parameter": "Remove the parameter, or prefix it with an underscore if the signature must stay",
+  "unused-private-method": "Remove the unused method",
+  "unused-export": "Remove the export or the declaration",
+  "unreachable-code": "Remove unreachable code",
+};
+
+function detectDeadCode(doc: ParsedDocument): CodeSmell[] {
+  // Unused declarations and unreachable statements
+  const smells: CodeSmell[] = findDeadCode(doc).map((finding) => ({
+    type: "Dead Code",
+    severity: "high",
+    description: finding.message,
+    location: { line: finding.line, column: finding.column },
+    suggestion: DEAD_CODE_SUGGESTIONS[finding.kind],
+    confidence: finding.confidence,
+  }));
+
+  // Commented out code
+  doc.comments.forEach((comment) => {
+    if (
+      comment.value.startsWith("//") &&
+      doc.lineKinds[comment.line - 1] === "comment" &&
+      /[{};()]/.test(comment.value) &&
+      !isSuppressionComment(comment)
+    ) {
       smells.push({
         type: "Commented Code",
         severity: "low",
         description: "Commented out code detected",
-        location: { line: index + 1 },
+        location: { line: comment.line },
         suggestion: "Remove commented code or restore it",
       });
     }
   });
 
-  return smells;
+  return smells.sort((a, b) => a.location!.line - b.location!.line);
 }
 
-function detectMagicNumbers(code: string): CodeSmell[] {
+function detectMagicNumbers(doc: ParsedDocument): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
-
-  lines.forEach((line, index) => {
-    // Find numeric literals (excluding 0, 1, -1)
-    const numbers = line.match(/\b\d{2,}\b/g);
-    if (numbers && numbers.length > 0) {
-      numbers.forEach((num) => {
-        if (num !== "0" && num !== "1" && parseInt(num) > 1) {
-          smells.push({
-            type: "Magic Number",
-            severity: "low",
-            description: `Magic number '${num}' used without explanation`,
-            location: { line: index + 1 },
-            suggestion: "Replace with a named constant",
-          });
-        }
+
+  // Numeric literals with two or more leading digits (excludes 0, 1, -1)
+  doc.codeTokens.forEach((token) => {
+    if (token.kind === "number" && /^\d{2,}/.test(token.value) && parseInt(token.value) > 1) {
+      smells.push({
+        type: "Magic Number",
+        severity: "low",
+        description: `Magic number '${token.value}' used without explanation`,
+        location: { line: token.line },
+        suggestion: "Replace with a named constant",
       });
     }
   });
@@ -211,13 +275,17 @@ function detectMagicNumbers(code: string): CodeSmell[] {
   return smells.slice(0, 10); // Limit to avoid too many results
 }
 
-function detectNestedLoops(code: string): CodeSmell[] {
+function detectNestedLoops(doc: ParsedDocument): CodeSmell[] {
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    return detectPythonNestedLoops(structure.blocks, 0);
+  }
+
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
   let loopDepth = 0;
   const loopStack: number[] = [];
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     if (/\b(for|while|forEach)\b/.test(line)) {
       loopDepth++;
       loopStack.push(index + 1);
@@ -243,18 +311,79 @@ function detectNestedLoops(code: string): CodeSmell[] {
   return smells;
 }
 
-function detectGodClass(code: string, language: string): CodeSmell[] {
+function detectPythonNestedLoops(blocks: PythonBlock[], loopDepth: number): CodeSmell[] {
+  const smells: CodeSmell[] = [];
+
+  blocks.forEach((block) => {
+    // A nested def starts a fresh loop context
+    const isLoop = block.kind === "for" || block.kind === "while";
+    const depth = block.kind === "def" ? 0 : loopDepth + (isLoop ? 1 : 0);
+
+    if (isLoop && depth >= 3) {
+      smells.push({
+        type: "Deeply Nested Loops",
+        severity: "high",
+        description: `Loop nested ${depth} levels deep`,
+        location: { line: block.headerLine },
+        suggestion:
+          "Consider extracting inner loops into separate methods or using different algorithms",
+      });
+    }
+
+    smells.push(...detectPythonNestedLoops(block.children, depth));
+  });
+
+  return smells;
+}
+
+function detectGodClass(doc: ParsedDocument, maxMethods: number): CodeSmell[] {
   const smells: CodeSmell[] = [];
 
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    structure.classes.forEach((cls) => {
+      const methodCount = cls.children.filter((child) => child.kind === "def").length;
+      if (methodCount > maxMethods) {
+        smells.push({
+          type: "God Class",
+          severity: "high",
+          description: `Class '${cls.name}' has ${methodCount} methods (recommended max: ${maxMethods})`,
+          location: { line: cls.headerLine },
+          suggestion:
+            "Split this class into multiple smaller, focused classes following Single Responsibility Principle",
+        });
+      }
+    });
+    return smells;
+  }
+
+  if (doc.profile.structure) {
+    doc.profile.structure(doc).types.forEach((type) => {
+      if (type.methods.length > maxMethods) {
+        smells.push({
+          type: "God Class",
+          severity: "high",
+          description:
+            `${capitalize(type.kind)} '${type.name}' has ${type.methods.length} methods ` +
+            `(recommended max: ${maxMethods})`,
+          location: { line: type.startLine },
+          suggestion:
+            "Split this type into multiple smaller, focused types following Single Responsibility Principle",
+        });
+      }
+    });
+    return smells;
+  }
+
   // Count methods/functions
-  const methodCount = (code.match(/function\s+\w+|def\s+\w+|public\s+\w+\s+\w+\s*\(/g) || [])
+  const methodCount = (doc.maskedSource.match(/function\s+\w+|def\s+\w+|public\s+\w+\s+\w+\s*\(/g) || [])
     .length;
 
-  if (methodCount > 20) {
+  if (methodCount > maxMethods) {
     smells.push({
       type: "God Class",
       severity: "high",
-      description: `Class/module has ${methodCount} methods (recommended max: 20)`,
+      description: `Class/module has ${methodCount} methods (recommended max: ${maxMethods})`,
       suggestion:
         "Split this class into multiple smaller, focused classes following Single Responsibility Principle",
     });
@@ -263,15 +392,32 @@ function detectGodClass(code: string, language: string): CodeSmell[] {
   return smells;
 }
 
-function detectLargeClass(code: string, language: string): CodeSmell[] {
+function detectLargeClass(doc: ParsedDocument, maxLines: number): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n").length;
+  const lines = doc.lines.length;
 
-  if (lines > 500) {
+  // Languages with a structural model measure each type, together with methods spread
+  // over the file, instead of the file as a whole
+  const structure = doc.profile.structure?.(doc);
+  structure?.types.forEach((type) => {
+    if (type.lines > maxLines) {
+      smells.push({
+        type: "Large Class",
+        severity: "medium",
+        description:
+          `${capitalize(type.kind)} '${type.name}' spans ${type.lines} lines including its methods ` +
+          `(recommended max: ${maxLines})`,
+        location: { line: type.startLine },
+        suggestion: "Split the type's data and behaviour into smaller, more focused types",
+      });
+    }
+  });
+
+  if (!structure && lines > maxLines) {
     smells.push({
       type: "Large Class",
       severity: "medium",
-      description: `Class/module is ${lines} lines long (recommended max: 500)`,
+      description: `Class/module is ${lines} lines long (recommended max: ${maxLines})`,
       suggestion: "Break down into smaller, more focused modules",
     });
   }
@@ -279,11 +425,10 @@ function detectLargeClass(code: string, language: string): CodeSmell[] {
   return smells;
 }
 
-function detectPrimitiveObsession(code: string, language: string): CodeSmell[] {
+function detectPrimitiveObsession(doc: ParsedDocument): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     // Detect multiple primitive parameters
     const match = line.match(/\(([^)]+)\)/);
     if (match) {
@@ -307,15 +452,14 @@ function detectPrimitiveObsession(code: string, language: string): CodeSmell[] {
   return smells;
 }
 
-function detectLongSwitch(code: string): CodeSmell[] {
+function detectLongSwitch(doc: ParsedDocument, maxCases: number): CodeSmell[] {
   const smells: CodeSmell[] = [];
-  const lines = code.split("\n");
   let inSwitch = false;
   let switchStart = 0;
   let caseCount = 0;
 
-  lines.forEach((line, index) => {
-    if (/switch\s*\(/.test(line)) {
+  doc.codeLines.forEach((line, index) => {
+    if (/\bswitch\b/.test(line)) {
       inSwitch = true;
       switchStart = index;
       caseCount = 0;
@@ -326,11 +470,11 @@ function detectLongSwitch(code: string): CodeSmell[] {
     }
 
     if (inSwitch && line.trim() === "}") {
-      if (caseCount > 7) {
+      if (caseCount > maxCases) {
         smells.push({
           type: "Long Switch Statement",
           severity: "medium",
-          description: `Switch has ${caseCount} cases (recommended max: 7)`,
+          description: `Switch has ${caseCount} cases (recommended max: ${maxCases})`,
           location: { line: switchStart + 1 },
           suggestion: "Consider using polymorphism or a strategy pattern",
         });
@@ -342,6 +486,10 @@ function detectLongSwitch(code: string): CodeSmell[] {
   return smells;
 }
 
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
 function generateSummary(smells: CodeSmell[]): string {
   if (smells.length === 0) {
     return "No code smells detected. Code looks clean!";
@@ -0,0 +1,614 @@
+/**
+ * Cognitive complexity module
+ * Implements the SonarSource cognitive complexity specification with a
+ * line-level explanation of every increment
+ */
+
+import ts from "typescript";
+import { ParsedDocument, Token, firstTokenIndexAtLine } from "./parser.js";
+import {
+  supportsTypeScriptAst,
+  getSourceFile,
+  isFunctionWithBody,
+  getFunctionName,
+  FunctionLikeWithBody,
+} from "./typescript-analyzer.js";
+import { PythonBlock, PythonStructure } from "./python-structure.js";
+import { FunctionExtent, getFunctionExtents } from "./structure.js";
+import { isErrorCheck } from "./go-structure.js";
+
+export interface CognitiveIncrement {
+  line: number;
+  /** Total added at this point, including the nesting penalty */
+  increment: number;
+  /** Nesting level that contributed to the increment */
+  nesting: number;
+  reason: string;
+}
+
+export interface CognitiveResult {
+  complexity: number;
+  increments: CognitiveIncrement[];
+}
+
+export interface FunctionCognitiveResult extends CognitiveResult {
+  name: string;
+  startLine: number;
+}
+
+export interface CognitiveReport extends CognitiveResult {
+  functions: FunctionCognitiveResult[];
+}
+
+/**
+ * Calculates cognitive complexity for the whole document and for each
+ * function. The file total is the sum over top-level functions plus any
+ * code outside functions; nested functions count toward their parent.
+ */
+export function calculateCognitiveComplexity(doc: ParsedDocument): CognitiveReport {
+  if (supportsTypeScriptAst(doc.language)) {
+    return analyzeTypeScript(doc);
+  }
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    return analyzePython(doc, structure);
+  }
+  return analyzeBraceTokens(doc);
+}
+
+class IncrementCollector {
+  readonly increments: CognitiveIncrement[] = [];
+
+  structural(line: number, nesting: number, reason: string) {
+    this.increments.push({ line, increment: 1 + nesting, nesting, reason });
+  }
+
+  fundamental(line: number, reason: string) {
+    this.increments.push({ line, increment: 1, nesting: 0, reason });
+  }
+
+  result(): CognitiveResult {
+    const increments = [...this.increments].sort((a, b) => a.line - b.line);
+    return {
+      complexity: increments.reduce((sum, i) => sum + i.increment, 0),
+      increments,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript / TypeScript (compiler AST)
+// ---------------------------------------------------------------------------
+
+function analyzeTypeScript(doc: ParsedDocument): CognitiveReport {
+  const sourceFile = getSourceFile(doc);
+  const functions: FunctionCognitiveResult[] = [];
+
+  const collectFunctions = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) {
+      const collector = new IncrementCollector();
+      walkTypeScript(node, 0, collector, sourceFile, node);
+      functions.push({
+        name: getFunctionName(node, sourceFile),
+        startLine: lineOf(sourceFile, node.getStart(sourceFile)),
+        ...collector.result(),
+      });
+    }
+    ts.forEachChild(node, collectFunctions);
+  };
+  collectFunctions(sourceFile);
+
+  const fileCollector = new IncrementCollector();
+  walkTypeScript(sourceFile, 0, fileCollector, sourceFile, undefined);
+
+  return { ...fileCollector.result(), functions };
+}
+
+function walkTypeScript(
+  root: ts.Node,
+  startNesting: number,
+  collector: IncrementCollector,
+  sourceFile: ts.SourceFile,
+  rootFunction: FunctionLikeWithBody | undefined
+) {
+  const consideredLogical = new Set<ts.Node>();
+  const recursionTarget = rootFunction ? recursionName(rootFunction, sourceFile) : undefined;
+  let recursionCounted = false;
+  const line = (node: ts.Node) => lineOf(sourceFile, node.getStart(sourceFile));
+
+  const visit = (node: ts.Node | undefined, nesting: number, currentFunction?: FunctionLikeWithBody) => {
+    if (!node) return;
+
+    if (isFunctionWithBody(node) && node !== root) {
+      // Top-level functions start at zero; nested ones add a nesting level
+      const nested = currentFunction !== undefined;
+      ts.forEachChild(node, (child) => visit(child, nested ? nesting + 1 : 0, node));
+      return;
+    }
+    if (node === root && isFunctionWithBody(node)) {
+      ts.forEachChild(node, (child) => visit(child, nesting, node));
+      return;
+    }
+
+    if (ts.isIfStatement(node)) {
+      const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+      if (isElseIf) {
+        collector.fundamental(line(node), "else if");
+      } else {
+        collector.structural(line(node), nesting, "if");
+      }
+      visit(node.expression, nesting, currentFunction);
+      visit(node.thenStatement, nesting + 1, currentFunction);
+      if (node.elseStatement) {
+        if (ts.isIfStatement(node.elseStatement)) {
+          visit(node.elseStatement, nesting, currentFunction);
+        } else {
+          const elseKeyword = node.getChildren(sourceFile).find((c) => c.kind === ts.SyntaxKind.ElseKeyword);
+          collector.fundamental(line(elseKeyword ?? node.elseStatement), "else");
+          visit(node.elseStatement, nesting + 1, currentFunction);
+        }
+      }
+      return;
+    }
+
+    if (ts.isConditionalExpression(node)) {
+      collector.structural(line(node.questionToken), nesting, "ternary operator");
+      visit(node.condition, nesting, currentFunction);
+      visit(node.whenTrue, nesting + 1, currentFunction);
+      visit(node.whenFalse, nesting + 1, currentFunction);
+      return;
+    }
+
+    if (ts.isSwitchStatement(node)) {
+      collector.structural(line(node), nesting, "switch");
+      visit(node.expression, nesting, currentFunction);
+      visit(node.caseBlock, nesting + 1, currentFunction);
+      return;
+    }
+
+    if (ts.isIterationStatement(node, false)) {
+      collector.structural(line(node), nesting, loopReason(node));
+      ts.forEachChild(node, (child) =>
+        visit(child, child === node.statement ? nesting + 1 : nesting, currentFunction)
+      );
+      return;
+    }
+
+    if (ts.isCatchClause(node)) {
+      collector.structural(line(node), nesting, "catch");
+      visit(node.block, nesting + 1, currentFunction);
+      return;
+    }
+
+    if ((ts.isBreakStatement(node) || ts.isContinueStatement(node)) && node.label) {
+      collector.fundamental(line(node), `${ts.isBreakStatement(node) ? "break" : "continue"} to label`);
+      return;
+    }
+
+    if (ts.isBinaryExpression(node) && isLogicalOperator(node.operatorToken.kind) && !consideredLogical.has(node)) {
+      let previous: ts.SyntaxKind | undefined;
+      for (const expression of flattenLogical(node, consideredLogical)) {
+        const operator = expression.operatorToken.kind;
+        if (operator !== previous) {
+          collector.fundamental(line(expression.operatorToken), `${ts.tokenToString(operator)} sequence`);
+        }
+        previous = operator;
+      }
+    }
+
+    if (
+      recursionTarget &&
+      !recursionCounted &&
+      currentFunction === rootFunction &&
+      ts.isCallExpression(node) &&
+      isRecursiveCall(node.expression, recursionTarget, sourceFile)
+    ) {
+      recursionCounted = true;
+      collector.fundamental(line(node), "recursion");
+    }
+
+    ts.forEachChild(node, (child) => visit(child, nesting, currentFunction));
+  };
+
+  visit(root, startNesting, undefined);
+}
+
+function isLogicalOperator(kind: ts.SyntaxKind): boolean {
+  return (
+    kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+    kind === ts.SyntaxKind.BarBarToken ||
+    kind === ts.SyntaxKind.QuestionQuestionToken
+  );
+}
+
+/**
+ * Flattens a tree of logical expressions left to right, looking through
+ * parentheses but not through negation or other operators
+ */
+function flattenLogical(node: ts.Expression, considered: Set<ts.Node>): ts.BinaryExpression[] {
+  while (ts.isParenthesizedExpression(node)) node = node.expression;
+  if (!ts.isBinaryExpression(node) || !isLogicalOperator(node.operatorToken.kind)) return [];
+  considered.add(node);
+  return [
+    ...flattenLogical(node.left, considered),
+    node,
+    ...flattenLogical(node.right, considered),
+  ];
+}
+
+function loopReason(node: ts.IterationStatement): string {
+  if (ts.isForOfStatement(node)) return "for...of";
+  if (ts.isForInStatement(node)) return "for...in";
+  if (ts.isWhileStatement(node)) return "while";
+  if (ts.isDoStatement(node)) return "do...while";
+  return "for";
+}
+
+function recursionName(fn: FunctionLikeWithBody, sourceFile: ts.SourceFile): string | undefined {
+  const name = getFunctionName(fn, sourceFile).split(".").pop()!;
+  return /^[\w$]+$/.test(name) && name !== "constructor" ? name : undefined;
+}
+
+function isRecursiveCall(callee: ts.Expression, name: string, sourceFile: ts.SourceFile): boolean {
+  if (ts.isIdentifier(callee)) return callee.text === name;
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    callee.expression.kind === ts.SyntaxKind.ThisKeyword &&
+    callee.name.getText(sourceFile) === name
+  );
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}
+
+// ---------------------------------------------------------------------------
+// Python (indentation blocks)
+// ---------------------------------------------------------------------------
+
+const PYTHON_STRUCTURES = new Set(["if", "for", "while", "except", "match"]);
+const PYTHON_NON_NESTING = new Set(["try", "finally", "with", "class"]);
+
+function analyzePython(doc: ParsedDocument, structure: PythonStructure): CognitiveReport {
+  const functions = structure.functions.map((fn) => {
+    const collector = new IncrementCollector();
+    walkPython(doc, [fn], 0, collector, undefined);
+    return { name: fn.name ?? "anonymous", startLine: fn.headerLine, ...collector.result() };
+  });
+
+  const fileCollector = new IncrementCollector();
+  walkPython(doc, structure.blocks, 0, fileCollector, undefined);
+  // Module-level statements outside any block
+  scorePythonLines(doc, lineRangesOutside(doc, structure.blocks), 0, fileCollector, undefined);
+
+  return { ...fileCollector.result(), functions };
+}
+
+function walkPython(
+  doc: ParsedDocument,
+  blocks: PythonBlock[],
+  nesting: number,
+  collector: IncrementCollector,
+  currentFunction: PythonBlock | undefined
+) {
+  blocks.forEach((block, index) => {
+    let bodyNesting = nesting;
+    let bodyFunction = currentFunction;
+
+    if (block.kind === "def") {
+      // Top-level functions and methods start at zero; nested ones add a level
+      bodyNesting = currentFunction ? nesting + 1 : 0;
+      bodyFunction = block;
+    } else if (block.kind === "elif") {
+      collector.fundamental(block.headerLine, "elif");
+      bodyNesting = nesting + 1;
+    } else if (block.kind === "else") {
+      collector.fundamental(block.headerLine, "else");
+      bodyNesting = nesting + 1;
+    } else if (PYTHON_STRUCTURES.has(block.kind)) {
+      collector.structural(block.headerLine, nesting, block.kind);
+      bodyNesting = nesting + 1;
+    } else if (!PYTHON_NON_NESTING.has(block.kind)) {
+      bodyNesting = nesting + 1;
+    }
+
+    // The header's own expressions sit at the outer level
+    if (block.kind !== "def" && block.kind !== "class") {
+      scorePythonLines(doc, [[block.headerLine, block.headerLine]], nesting, collector, currentFunction);
+    }
+
+    const bodyRanges = lineRangesOutside(doc, block.children, block.headerLine + 1, block.endLine);
+    scorePythonLines(doc, bodyRanges, bodyNesting, collector, bodyFunction);
+    walkPython(doc, block.children, bodyNesting, collector, bodyFunction);
+  });
+}
+
+/**
+ * Scores conditional expressions, boolean operator sequences and recursion
+ * on the logical lines that start inside the given line ranges
+ */
+function scorePythonLines(
+  doc: ParsedDocument,
+  ranges: Array<[number, number]>,
+  nesting: number,
+  collector: IncrementCollector,
+  currentFunction: PythonBlock | undefined
+) {
+  const { logicalLines } = doc.profile.blocks!(doc);
+  let recursionCounted = collector.increments.some((i) => i.reason === "recursion");
+
+  for (const logical of logicalLines) {
+    if (!ranges.some(([start, end]) => logical.startLine >= start && logical.startLine <= end)) continue;
+    const tokens = logical.tokens;
+
+    tokens.forEach((token, index) => {
+      if (token.kind === "keyword" && token.value === "if" && index > 0 && isConditionalExpression(tokens, index)) {
+        collector.structural(token.line, nesting, "conditional expression");
+      }
+      if (
+        currentFunction?.name &&
+        !recursionCounted &&
+        token.kind === "identifier" &&
+        token.value === currentFunction.name &&
+        tokens[index + 1]?.value === "(" &&
+        (tokens[index - 1]?.value !== "." || tokens[index - 2]?.value === "self") &&
+        tokens[index - 1]?.value !== "def"
+      ) {
+        recursionCounted = true;
+        collector.fundamental(token.line, "recursion");
+      }
+    });
+
+    for (const token of logicalSequenceIncrements(tokens, (t) => (t.kind === "keyword" && (t.value === "and" || t.value === "or") ? t.value : null), (t) => t.value === "not")) {
+      collector.fundamental(token.line, `${token.value} sequence`);
+    }
+  }
+}
+
+/**
+ * An inline `if` is a conditional expression unless it filters a comprehension
+ */
+function isConditionalExpression(tokens: Token[], ifIndex: number): boolean {
+  let depth = 0;
+  for (let i = ifIndex - 1; i >= 0; i--) {
+    const value = tokens[i].value;
+    if (value === ")" || value === "]" || value === "}") depth++;
+    else if (value === "(" || value === "[" || value === "{") {
+      if (depth === 0) return true;
+      depth--;
+    } else if (depth === 0 && tokens[i].kind === "keyword" && value === "for") {
+      return false;
+    }
+  }
+  return true;
+}
+
+function lineRangesOutside(
+  doc: ParsedDocument,
+  blocks: PythonBlock[],
+  start = 1,
+  end = doc.lines.length
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let cursor = start;
+  for (const block of blocks) {
+    if (block.startLine > cursor) ranges.push([cursor, block.startLine - 1]);
+    cursor = Math.max(cursor, block.endLine + 1);
+  }
+  if (cursor <= end) ranges.push([cursor, end]);
+  return ranges;
+}
+
+// ---------------------------------------------------------------------------
+// Brace languages (token walker)
+// ---------------------------------------------------------------------------
+
+const BRACE_STRUCTURES = new Set(["for", "while", "switch", "select", "catch", "do"]);
+
+interface BraceFrame {
+  nests: boolean;
+  kind: string;
+  functionName?: string;
+}
+
+function analyzeBraceTokens(doc: ParsedDocument): CognitiveReport {
+  const extents = getFunctionExtents(doc);
+  const bodies = functionBodyBraces(doc, extents);
+
+  const functions = extents.map((extent) => {
+    const collector = new IncrementCollector();
+    const from = firstTokenIndexAtLine(doc, extent.startLine - 1);
+    const to = lastTokenIndexAtLine(doc, extent.endLine);
+    walkBraceTokens(doc, from, to, bodies, collector);
+    return { name: extent.name, startLine: extent.startLine, ...collector.result() };
+  });
+
+  const fileCollector = new IncrementCollector();
+  walkBraceTokens(doc, 0, doc.codeTokens.length - 1, bodies, fileCollector);
+
+  return { ...fileCollector.result(), functions };
+}
+
+/**
+ * Maps the index of each function's opening body brace to the function name
+ */
+function functionBodyBraces(doc: ParsedDocument, extents: FunctionExtent[]): Map<number, string> {
+  const bodies = new Map<number, string>();
+  for (const extent of extents) {
+    for (let i = firstTokenIndexAtLine(doc, extent.startLine - 1); i < doc.codeTokens.length; i++) {
+      // Go signatures may hold `struct {...}` or `interface {...}` types
+      const previous = doc.codeTokens[i - 1];
+      if (doc.codeTokens[i].value === "{" && !(previous?.value === "struct" || previous?.value === "interface")) {
+        bodies.set(i, extent.name);
+        break;
+      }
+    }
+  }
+  return bodies;
+}
+
+function lastTokenIndexAtLine(doc: ParsedDocument, line: number): number {
+  // The first token of the following line, minus one
+  return Math.max(firstTokenIndexAtLine(doc, line) - 1, 0);
+}
+
+function walkBraceTokens(
+  doc: ParsedDocument,
+  from: number,
+  to: number,
+  bodies: Map<number, string>,
+  collector: IncrementCollector
+) {
+  const tokens = doc.codeTokens;
+  const stack: BraceFrame[] = [];
+  // A header without parentheses (Go) ends only at its `{`, so its `;` separators do not end it
+  let pending: { kind: string; parenDepth: number; parenless?: boolean } | null = null;
+  let parenDepth = 0;
+  let lastClosed: BraceFrame | undefined;
+  const recursionCounted = new Set<string>();
+
+  const nesting = () => stack.filter((frame) => frame.nests).length;
+  const currentFunction = () => [...stack].reverse().find((frame) => frame.kind === "function");
+
+  for (let i = from; i <= to; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const value = token.value;
+
+    if (token.kind === "punctuator") {
+      if (value === "(") parenDepth++;
+      else if (value === ")") parenDepth = Math.max(0, parenDepth - 1);
+      else if (value === "{") {
+        const functionName = bodies.get(i);
+        if (functionName !== undefined) {
+          stack.push({ nests: currentFunction() !== undefined, kind: "function", functionName });
+        } else if (pending && pending.parenDepth === parenDepth) {
+          stack.push({ nests: true, kind: pending.kind });
+        } else {
+          stack.push({ nests: false, kind: "block" });
+        }
+        pending = null;
+      } else if (value === "}") {
+        lastClosed = stack.pop();
+        continue;
+      } else if (value === ";" && pending && pending.parenDepth === parenDepth && !pending.parenless) {
+        pending = null;
+      } else if (value === "?" && !isTypeWildcard(previous, next)) {
+        collector.structural(token.line, nesting(), "ternary operator");
+      } else if (value === "->" || value === "=>") {
+        pending = { kind: "lambda", parenDepth };
+      }
+    } else if (token.kind === "keyword" || token.kind === "identifier") {
+      if (value === "if") {
+        if (previous?.value === "else") {
+          collector.fundamental(token.line, "else if");
+        } else if (!isErrorCheck(tokens, i)) {
+          // Go's `if err != nil` is routine error propagation, not a decision a reader has to follow
+          collector.structural(token.line, nesting(), "if");
+        }
+        pending = { kind: "if", parenDepth, parenless: next?.value !== "(" };
+      } else if (value === "else" && next?.value !== "if") {
+        collector.fundamental(token.line, "else");
+        pending = { kind: "else", parenDepth };
+      } else if (value === "while" && previous?.value === "}" && lastClosed?.kind === "do") {
+        // The condition of a do...while loop was already counted at `do`
+      } else if (token.kind === "keyword" && BRACE_STRUCTURES.has(value)) {
+        collector.structural(token.line, nesting(), value === "do" ? "do...while" : value);
+        pending = { kind: value, parenDepth, parenless: value !== "do" && next?.value !== "(" };
+      } else if ((value === "break" || value === "continue" || value === "goto") && next?.kind === "identifier") {
+        collector.fundamental(token.line, value === "goto" ? "goto" : `${value} to label`);
+      } else if (value === "function" || value === "func") {
+        pending = { kind: "lambda", parenDepth };
+      } else {
+        const fn = currentFunction();
+        if (
+          fn?.functionName &&
+          value === fn.functionName &&
+          next?.value === "(" &&
+          (previous?.value !== "." || tokens[i - 2]?.value === "this") &&
+          !recursionCounted.has(fn.functionName)
+        ) {
+          recursionCounted.add(fn.functionName);
+          collector.fundamental(token.line, "recursion");
+        }
+      }
+    }
+  }
+
+  const logicalTokens = tokens.slice(from, to + 1);
+  for (const token of logicalSequenceIncrements(
+    logicalTokens,
+    (t) => (t.kind === "punctuator" && (t.value === "&&" || t.value === "||" || t.value === "??") ? t.value : null),
+    (t) => t.value === "!"
+  )) {
+    collector.fundamental(token.line, `${token.value} sequence`);
+  }
+}
+
+/**
+ * Java generic wildcards (`List<?>`, `<? extends T>`) are not ternaries
+ */
+function isTypeWildcard(previous: Token | undefined, next: Token | undefined): boolean {
+  return (
+    previous?.value === "<" ||
+    (next !== undefined && [">", ",", "extends", "super"].includes(next.value))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+const EXPRESSION_BOUNDARIES = new Set([";", "{", "}", ",", "?", ":", "=", "return", "if", "else"]);
+
+/**
+ * Returns the operator tokens that start a new sequence of like boolean
+ * operators. Grouping parentheses are transparent, while negated groups,
+ * call arguments, and statement or clause boundaries start a new expression.
+ */
+function logicalSequenceIncrements(
+  tokens: Token[],
+  operatorOf: (token: Token) => string | null,
+  isNegation: (token: Token) => boolean
+): Token[] {
+  const increments: Token[] = [];
+  // One entry per open parenthesis: whether it starts a separate expression
+  const contexts: Array<{ last: string | null; separate: boolean }> = [{ last: null, separate: true }];
+  const current = () => {
+    for (let i = contexts.length - 1; i >= 0; i--) {
+      if (contexts[i].separate) return contexts[i];
+    }
+    return contexts[0];
+  };
+
+  tokens.forEach((token, index) => {
+    const operator = operatorOf(token);
+    if (operator) {
+      const context = current();
+      if (context.last !== operator) increments.push(token);
+      context.last = operator;
+      return;
+    }
+
+    const value = token.value;
+    if (value === "(" || value === "[") {
+      const previous = tokens[index - 1];
+      const separate =
+        value === "[" ||
+        (previous !== undefined &&
+          (isNegation(previous) ||
+            previous.kind === "identifier" ||
+            previous.kind === "keyword" ||
+            previous.value === ")" ||
+            previous.value === "]"));
+      contexts.push({ last: null, separate });
+    } else if (value === ")" || value === "]") {
+      if (contexts.length > 1) contexts.pop();
+    } else if (EXPRESSION_BOUNDARIES.has(value)) {
+      current().last = null;
+    }
+  });
+
+  return increments;
+}
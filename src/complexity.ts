@@ -3,12 +3,21 @@
  * Calculates various complexity metrics
  */
 
+import { ParsedDocument, parseDocument, parseSourceRange } from "./parser.js";
+import { getFunctionExtents } from "./structure.js";
+import { descendants } from "./python-structure.js";
+import { calculateCognitiveComplexity, CognitiveIncrement } from "./cognitive-complexity.js";
+import { buildControlFlowGraphs, graphComplexity } from "./control-flow.js";
+import { isErrorCheck } from "./go-structure.js";
+
 export interface ComplexityMetrics {
   cyclomaticComplexity: number;
   cognitiveComplexity: number;
   nestingDepth: number;
   halsteadMetrics: HalsteadMetrics;
   maintainabilityIndex: number;
+  functions: FunctionComplexity[];
+  aggregates: ComplexityAggregates;
   summary: string;
   recommendations: string[];
 }
@@ -22,34 +31,93 @@ export interface HalsteadMetrics {
   bugs: number;
 }
 
+export interface FunctionComplexity {
+  name: string;
+  startLine: number;
+  endLine: number;
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+  nestingDepth: number;
+  halsteadMetrics: HalsteadMetrics;
+  maintainabilityIndex: number;
+  /** Line-level explanation of the cognitive complexity score */
+  cognitiveIncrements: CognitiveIncrement[];
+  /** Go `if err != nil` checks, counted in cyclomatic but not cognitive complexity */
+  errorChecks?: number;
+}
+
+export interface MetricAggregate {
+  max: number;
+  mean: number;
+  p90: number;
+}
+
+/**
+ * File-level aggregates computed over the per-function values
+ */
+export interface ComplexityAggregates {
+  functionCount: number;
+  cyclomaticComplexity: MetricAggregate;
+  cognitiveComplexity: MetricAggregate;
+  nestingDepth: MetricAggregate;
+  maintainabilityIndex: MetricAggregate;
+}
+
+type CoreMetrics = Omit<FunctionComplexity, "name" | "startLine" | "endLine" | "cognitiveIncrements" | "errorChecks">;
+
 /**
  * Analyzes code complexity
  */
 export function analyzeComplexity(
   code: string,
-  language: string
+  language: string,
+  doc: ParsedDocument = parseDocument(code, language)
 ): ComplexityMetrics {
-  const cyclomaticComplexity = calculateCyclomaticComplexity(code);
-  const cognitiveComplexity = calculateCognitiveComplexity(code);
-  const nestingDepth = calculateNestingDepth(code);
-  const halsteadMetrics = calculateHalsteadMetrics(code, language);
-  const maintainabilityIndex = calculateMaintainabilityIndex(
-    code,
+  const cognitive = calculateCognitiveComplexity(doc);
+  const graphs = buildControlFlowGraphs(code, language, doc);
+  const {
     cyclomaticComplexity,
-    halsteadMetrics
-  );
+    cognitiveComplexity,
+    nestingDepth,
+    halsteadMetrics,
+    maintainabilityIndex,
+  } = measure(doc, graphComplexity([graphs.module, ...graphs.functions]), cognitive.complexity);
+
+  const functions: FunctionComplexity[] = getFunctionExtents(doc).map((fn) => {
+    // Graph and cognitive scores need the surrounding file to resolve the function
+    const matches = (f: { name: string; startLine: number }) =>
+      f.startLine === fn.startLine && f.name === fn.name;
+    const scored = cognitive.functions.find(matches);
+    const graph = graphs.functions.find(matches);
+    const errorChecks = countErrorChecks(doc, fn.startLine, fn.endLine);
+    return {
+      name: fn.name,
+      startLine: fn.startLine,
+      endLine: fn.endLine,
+      ...measure(
+        parseSourceRange(doc, fn.start, fn.end),
+        graph?.cyclomaticComplexity ?? 1,
+        scored?.complexity ?? 0
+      ),
+      cognitiveIncrements: scored?.increments ?? [],
+      ...(errorChecks > 0 ? { errorChecks } : {}),
+    };
+  });
+  const aggregates = aggregateFunctions(functions);
 
   const recommendations = generateRecommendations(
     cyclomaticComplexity,
     cognitiveComplexity,
     nestingDepth,
-    maintainabilityIndex
+    maintainabilityIndex,
+    functions
   );
 
   const summary = generateComplexitySummary(
     cyclomaticComplexity,
     cognitiveComplexity,
-    maintainabilityIndex
+    maintainabilityIndex,
+    functions
   );
 
   return {
@@ -58,86 +126,90 @@ export function analyzeComplexity(
     nestingDepth,
     halsteadMetrics,
     maintainabilityIndex,
+    functions,
+    aggregates,
     summary,
     recommendations,
   };
 }
 
 /**
- * Calculate Cyclomatic Complexity (McCabe)
- * Measures the number of linearly independent paths through code
+ * Computes the remaining metrics for a document or function slice; cyclomatic
+ * and cognitive complexity are scored on the whole file and passed in
  */
-function calculateCyclomaticComplexity(code: string): number {
-  let complexity = 1; // Base complexity
-
-  // Decision points that increase complexity
-  const decisionPatterns = [
-    /\bif\b/g,
-    /\belse\s+if\b/g,
-    /\bwhile\b/g,
-    /\bfor\b/g,
-    /\bcase\b/g,
-    /\bcatch\b/g,
-    /&&/g,
-    /\|\|/g,
-    /\?/g,
-  ];
-
-  decisionPatterns.forEach((pattern) => {
-    const matches = code.match(pattern);
-    if (matches) {
-      complexity += matches.length;
-    }
-  });
+function measure(
+  doc: ParsedDocument,
+  cyclomaticComplexity: number,
+  cognitiveComplexity: number
+): CoreMetrics {
+  const halsteadMetrics = calculateHalsteadMetrics(doc);
 
-  return complexity;
+  return {
+    cyclomaticComplexity,
+    cognitiveComplexity,
+    nestingDepth: calculateNestingDepth(doc),
+    halsteadMetrics,
+    maintainabilityIndex: calculateMaintainabilityIndex(
+      doc,
+      cyclomaticComplexity,
+      halsteadMetrics
+    ),
+  };
 }
 
-/**
- * Calculate Cognitive Complexity
- * Measures how difficult code is to understand
- */
-function calculateCognitiveComplexity(code: string): number {
-  let complexity = 0;
-  const lines = code.split("\n");
-  let nestingLevel = 0;
-
-  lines.forEach((line) => {
-    // Increment nesting for blocks
-    if (/{/.test(line) && /(if|for|while|function|else)/.test(line)) {
-      nestingLevel++;
-    }
-
-    // Add complexity for control structures with nesting bonus
-    if (/\b(if|for|while|catch)\b/.test(line)) {
-      complexity += 1 + nestingLevel;
-    }
-
-    // Add complexity for logical operators
-    const logicalOps = (line.match(/&&|\|\|/g) || []).length;
-    complexity += logicalOps;
+function countErrorChecks(doc: ParsedDocument, startLine: number, endLine: number): number {
+  return doc.codeTokens.filter(
+    (token, i) =>
+      token.kind === "keyword" &&
+      token.value === "if" &&
+      token.line >= startLine &&
+      token.line <= endLine &&
+      isErrorCheck(doc.codeTokens, i)
+  ).length;
+}
 
-    // Decrement nesting
-    if (/}/.test(line)) {
-      nestingLevel = Math.max(0, nestingLevel - 1);
-    }
-  });
+function aggregateFunctions(functions: FunctionComplexity[]): ComplexityAggregates {
+  const aggregate = (values: number[]): MetricAggregate => {
+    if (values.length === 0) return { max: 0, mean: 0, p90: 0 };
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    // Nearest-rank percentile
+    const p90 = sorted[Math.ceil(0.9 * sorted.length) - 1];
+    return {
+      max: sorted[sorted.length - 1],
+      mean: Math.round(mean * 100) / 100,
+      p90,
+    };
+  };
 
-  return complexity;
+  return {
+    functionCount: functions.length,
+    cyclomaticComplexity: aggregate(functions.map((f) => f.cyclomaticComplexity)),
+    cognitiveComplexity: aggregate(functions.map((f) => f.cognitiveComplexity)),
+    nestingDepth: aggregate(functions.map((f) => f.nestingDepth)),
+    maintainabilityIndex: aggregate(functions.map((f) => f.maintainabilityIndex)),
+  };
 }
 
 /**
  * Calculate maximum nesting depth
  */
-function calculateNestingDepth(code: string): number {
+function calculateNestingDepth(doc: ParsedDocument): number {
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    const blocks = structure.blocks.flatMap((b) => [b, ...descendants(b)]);
+    return blocks.reduce((max, block) => Math.max(max, block.depth + 1), 0);
+  }
+
   let maxDepth = 0;
   let currentDepth = 0;
 
-  for (const char of code) {
-    if (char === "{") {
+  for (const token of doc.codeTokens) {
+    if (token.kind !== "punctuator") continue;
+    if (token.value === "{") {
       currentDepth++;
       maxDepth = Math.max(maxDepth, currentDepth);
-    } else if (char === "}") {
+    } else if (token.value === "}") {
       currentDepth = Math.max(0, currentDepth - 1);
     }
   }
@@ -148,15 +220,10 @@ function calculateNestingDepth(code: string): number {
 /**
  * Calculate Halstead Complexity Metrics
  */
-function calculateHalsteadMetrics(
-  code: string,
-  language: string
-): HalsteadMetrics {
-  // Simplified Halstead metrics calculation
-  // In production, this would use proper AST parsing
-
-  const operators = extractOperators(code, language);
-  const operands = extractOperands(code, language);
+function calculateHalsteadMetrics(doc: ParsedDocument): HalsteadMetrics {
+  // Operators and operands are classified from the shared token stream
+  const operators = extractOperators(doc);
+  const operands = extractOperands(doc);
 
   const n1 = new Set(operators).size; // Unique operators
   const n2 = new Set(operands).size; // Unique operands
@@ -187,84 +254,31 @@ function calculateHalsteadMetrics(
   };
 }
 
-function extractOperators(code: string, language: string): string[] {
-  const operators: string[] = [];
-
-  // Order matters - match longer patterns first to avoid double-counting
-  const operatorPatterns = [
-    /===/g,
-    /!==/g,
-    /==/g,
-    /!=/g,
-    /<=/g,
-    />=/g,
-    /&&/g,
-    /\|\|/g,
-    /\+/g,
-    /-/g,
-    /\*/g,
-    /\//g,
-    /%/g,
-    /=/g,
-    /</g,
-    />/g,
-    /!/g,
-    /\?/g,
-    /:/g,
-  ];
-
-  // Use a single pass to avoid overlapping matches
-  let remainingCode = code;
-  operatorPatterns.forEach((pattern) => {
-    const matches = remainingCode.match(pattern);
-    if (matches) {
-      operators.push(...matches);
-      // Remove matched operators to prevent double-counting
-      remainingCode = remainingCode.replace(pattern, " ");
-    }
-  });
-
-  // Keywords as operators
-  const keywords = code.match(
-    /\b(if|else|for|while|return|function|class|const|let|var|new|this|try|catch)\b/g
-  );
-  if (keywords) {
-    operators.push(...keywords);
-  }
-
-  return operators;
+function extractOperators(doc: ParsedDocument): string[] {
+  // Operator punctuators plus keywords (if, return, new, ...) act as operators
+  const { operators, operands } = doc.profile.halstead;
+  return doc.codeTokens
+    .filter(
+      (token) =>
+        (token.kind === "keyword" && !operands.has(token.value)) ||
+        (token.kind === "punctuator" && operators.has(token.value))
+    )
+    .map((token) => token.value);
 }
 
-function extractOperands(code: string, language: string): string[] {
-  const operands: string[] = [];
-
-  // JavaScript/TypeScript keywords that should be excluded
-  const keywords = new Set([
-    "if", "else", "for", "while", "return", "function", "class", "const", "let", 
-    "var", "new", "this", "try", "catch", "switch", "case", "break", "continue",
-    "default", "throw", "import", "export", "from", "as", "async", "await",
-    "typeof", "instanceof", "void", "delete", "in", "of"
-  ]);
-
-  // Variables and identifiers (excluding keywords)
-  const identifiers = code.match(/\b[a-zA-Z_]\w*\b/g);
-  if (identifiers) {
-    const filteredIdentifiers = identifiers.filter(id => !keywords.has(id));
-    operands.push(...filteredIdentifiers);
-  }
-
-  // Literals
-  const numbers = code.match(/\b\d+\.?\d*\b/g);
-  if (numbers) {
-    operands.push(...numbers);
-  }
-
-  const strings = code.match(/"[^"]*"|'[^']*'|`[^`]*`/g);
-  if (strings) {
-    operands.push(...strings);
-  }
-
-  return operands;
+function extractOperands(doc: ParsedDocument): string[] {
+  // Identifiers, literals and the keywords the language treats as values
+  const { operands } = doc.profile.halstead;
+  return doc.codeTokens
+    .filter(
+      (token) =>
+        token.kind === "identifier" ||
+        token.kind === "number" ||
+        token.kind === "string" ||
+        token.kind === "template" ||
+        (token.kind === "keyword" && operands.has(token.value))
+    )
+    .map((token) => token.value);
 }
 
 /**
@@ -272,12 +286,11 @@ function extractOperands(code: string, language: string): string[] {
  * Range: 0-100 (higher is better)
  */
 function calculateMaintainabilityIndex(
-  code: string,
+  doc: ParsedDocument,
   cyclomaticComplexity: number,
   halsteadMetrics: HalsteadMetrics
 ): number {
-  const lines = code.split("\n");
-  const loc = lines.filter((line) => line.trim()).length;
+  const loc = doc.lineKinds.filter((kind) => kind !== "blank").length;
 
   // Ensure positive values for logarithms
   const safeVolume = Math.max(1, halsteadMetrics.vocabulary);
@@ -302,32 +315,73 @@ function generateRecommendations(
   cyclomaticComplexity: number,
   cognitiveComplexity: number,
   nestingDepth: number,
-  maintainabilityIndex: number
+  maintainabilityIndex: number,
+  functions: FunctionComplexity[]
 ): string[] {
   const recommendations: string[] = [];
 
-  if (cyclomaticComplexity > 10) {
-    recommendations.push(
-      "Cyclomatic complexity is high (>10). Consider breaking down complex functions into smaller ones."
-    );
-  }
-
-  if (cognitiveComplexity > 15) {
-    recommendations.push(
-      "Cognitive complexity is high (>15). Simplify control flow and reduce nesting."
-    );
-  }
+  const rules: Array<{
+    metric: keyof Omit<CoreMetrics, "halsteadMetrics">;
+    fileValue: number;
+    exceeds: (value: number) => boolean;
+    finding: string;
+    advice: string;
+  }> = [
+    {
+      metric: "cyclomaticComplexity",
+      fileValue: cyclomaticComplexity,
+      exceeds: (value) => value > 10,
+      finding: "Cyclomatic complexity is high (>10)",
+      advice: "Consider breaking down complex functions into smaller ones.",
+    },
+    {
+      metric: "cognitiveComplexity",
+      fileValue: cognitiveComplexity,
+      exceeds: (value) => value > 15,
+      finding: "Cognitive complexity is high (>15)",
+      advice: "Simplify control flow and reduce nesting.",
+    },
+    {
+      metric: "nestingDepth",
+      fileValue: nestingDepth,
+      exceeds: (value) => value > 4,
+      finding: "Deep nesting detected (>4 levels)",
+      advice: "Extract nested logic into separate functions.",
+    },
+    {
+      metric: "maintainabilityIndex",
+      fileValue: maintainabilityIndex,
+      exceeds: (value) => value < 65,
+      finding: "Maintainability index is low (<65)",
+      advice: "Focus on reducing complexity and improving code structure.",
+    },
+  ];
 
-  if (nestingDepth > 4) {
-    recommendations.push(
-      "Deep nesting detected (>4 levels). Extract nested logic into separate functions."
-    );
-  }
+  for (const rule of rules) {
+    // With functions available, name the worst offenders instead of
+    // reporting a file-wide total that grows with file size
+    if (functions.length === 0) {
+      if (rule.exceeds(rule.fileValue)) {
+        recommendations.push(`${rule.finding}. ${rule.advice}`);
+      }
+      continue;
+    }
 
-  if (maintainabilityIndex < 65) {
-    recommendations.push(
-      "Maintainability index is low (<65). Focus on reducing complexity and improving code structure."
-    );
+    const offenders = functions
+      .filter((fn) => rule.exceeds(fn[rule.metric]))
+      .sort((a, b) =>
+        rule.metric === "maintainabilityIndex"
+          ? a[rule.metric] - b[rule.metric]
+          : b[rule.metric] - a[rule.metric]
+      );
+    if (offenders.length > 0) {
+      const named = offenders
+        .slice(0, 5)
+        .map((fn) => `${fn.name} (line ${fn.startLine}: ${fn[rule.metric]})`)
+        .join(", ");
+      const more = offenders.length > 5 ? ` and ${offenders.length - 5} more` : "";
+      recommendations.push(`${rule.finding} in ${named}${more}. ${rule.advice}`);
+    }
   }
 
   if (recommendations.length === 0) {
@@ -342,7 +396,8 @@ function generateRecommendations(
 function generateComplexitySummary(
   cyclomaticComplexity: number,
   cognitiveComplexity: number,
-  maintainabilityIndex: number
+  maintainabilityIndex: number,
+  functions: FunctionComplexity[]
 ): string {
   const complexity =
     cyclomaticComplexity > 20
@@ -362,5 +417,14 @@ function generateComplexitySummary(
       ? "fair"
       : "poor";
 
-  return `Cyclomatic complexity is ${complexity} (${cyclomaticComplexity}), cognitive complexity is ${cognitiveComplexity}, and maintainability is ${maintainability} (${maintainabilityIndex}/100).`;
+  const summary = `Cyclomatic complexity is ${complexity} (${cyclomaticComplexity}), cognitive complexity is ${cognitiveComplexity}, and maintainability is ${maintainability} (${maintainabilityIndex}/100).`;
+
+  if (functions.length === 0) {
+    return summary;
+  }
+
+  const worst = functions.reduce((max, fn) =>
+    fn.cyclomaticComplexity > max.cyclomaticComplexity ? fn : max
+  );
+  return `${summary} Most complex of ${functions.length} function(s): ${worst.name} (line ${worst.startLine}, cyclomatic ${worst.cyclomaticComplexity}).`;
 }
@@ -0,0 +1,365 @@
+/**
+ * Configuration module
+ * Loads .intellicoderc.json, validates it and resolves the rule settings
+ * that apply to a file
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { Ajv } from "ajv";
+import { matchesAny } from "./glob.js";
+import { findLanguageProfile } from "./languages.js";
+
+export type IssueSeverity = "error" | "warning" | "info";
+export type SmellSeverity = "high" | "medium" | "low";
+export type RuleSeverity = IssueSeverity | SmellSeverity;
+
+export interface RuleDefinition {
+  /** Issues come from analyze_code, smells from detect_code_smells */
+  kind: "issue" | "smell";
+  severity: RuleSeverity;
+  /** Default limit for rules that compare a measurement against one */
+  threshold?: number;
+  description: string;
+}
+
+/** `true`/`false` toggles a rule; an object also adjusts its severity or threshold */
+export type RuleConfig = boolean | { enabled?: boolean; severity?: RuleSeverity; threshold?: number };
+
+export interface ConfigOverride {
+  /** Globs relative to the project root; patterns without a slash match file names at any depth */
+  files: string[];
+  rules: Record<string, RuleConfig>;
+}
+
+export interface AnalysisConfig {
+  $schema?: string;
+  /**
+   * Smell detector plugins: paths of modules or directories of modules, or
+   * npm package names. Read from the project's .intellicoderc.json at server start.
+   */
+  plugins?: string[];
+  rules?: Record<string, RuleConfig>;
+  overrides?: ConfigOverride[];
+}
+
+export interface ResolvedRule {
+  enabled: boolean;
+  severity: RuleSeverity;
+  threshold?: number;
+}
+
+export type RuleSet = Record<string, ResolvedRule>;
+
+export const CONFIG_FILENAME = ".intellicoderc.json";
+
+const ISSUE_SEVERITIES: IssueSeverity[] = ["error", "warning", "info"];
+const SMELL_SEVERITIES: SmellSeverity[] = ["high", "medium", "low"];
+
+/**
+ * Every configurable rule with its defaults
+ */
+export const RULES: Record<string, RuleDefinition> = {
+  "long-line": { kind: "issue", severity: "info", threshold: 120, description: "Maximum line length in characters" },
+  "console-log": { kind: "issue", severity: "warning", description: "console.log calls in JavaScript/TypeScript" },
+  "multiple-statements": { kind: "issue", severity: "warning", description: "Several statements on one line" },
+  "todo-comment": { kind: "issue", severity: "info", description: "TODO, FIXME and HACK comments" },
+  "code-injection": {
+    kind: "issue",
+    severity: "error",
+    description: "eval and new Function on dynamic code (CWE-95)",
+  },
+  "dom-xss": {
+    kind: "issue",
+    severity: "error",
+    description: "innerHTML and document.write with dynamic HTML (CWE-79)",
+  },
+  "sql-injection": {
+    kind: "issue",
+    severity: "error",
+    description: "SQL built by concatenation or interpolation (CWE-89)",
+  },
+  "command-injection": {
+    kind: "issue",
+    severity: "error",
+    description: "Shell commands built from dynamic input (CWE-78)",
+  },
+  "unsafe-deserialization": {
+    kind: "issue",
+    severity: "error",
+    description: "pickle and unsafe yaml.load on untrusted data (CWE-502)",
+  },
+  "hardcoded-secret": {
+    kind: "issue",
+    severity: "error",
+    description: "API keys, tokens, private keys and passwords in source (CWE-798)",
+  },
+  "long-method": { kind: "smell", severity: "high", threshold: 50, description: "Maximum function length in lines" },
+  "long-parameter-list": {
+    kind: "smell",
+    severity: "medium",
+    threshold: 5,
+    description: "Maximum number of function parameters",
+  },
+  "duplicate-code": {
+    kind: "smell",
+    severity: "medium",
+    threshold: 50,
+    description: "Minimum length in tokens of a duplicated block",
+  },
+  "dead-code": { kind: "smell", severity: "high", description: "Unused declarations and unreachable code" },
+  "commented-code": { kind: "smell", severity: "low", description: "Commented-out code" },
+  "magic-number": { kind: "smell", severity: "low", description: "Unnamed numeric literals" },
+  "deeply-nested-loops": { kind: "smell", severity: "high", description: "Loops nested three or more levels deep" },
+  "god-class": { kind: "smell", severity: "high", threshold: 20, description: "Maximum number of methods in a class" },
+  "large-class": { kind: "smell", severity: "medium", threshold: 500, description: "Maximum class or module length in lines" },
+  "primitive-obsession": { kind: "smell", severity: "medium", description: "Many primitive parameters" },
+  "long-switch-statement": {
+    kind: "smell",
+    severity: "medium",
+    threshold: 7,
+    description: "Maximum number of cases in a switch",
+  },
+  "goroutine-in-loop": { kind: "smell", severity: "medium", description: "Go statements inside for loops" },
+  "unchecked-error": { kind: "smell", severity: "high", description: "Go error results that are ignored" },
+  "catching-generic-exception": {
+    kind: "smell",
+    severity: "medium",
+    description: "Java catch clauses for Exception, RuntimeException or Throwable",
+  },
+  "equals-without-hashcode": { kind: "smell", severity: "high", description: "Java classes overriding equals only" },
+  "string-concatenation-in-loop": {
+    kind: "smell",
+    severity: "medium",
+    description: "Java strings built with + in loops",
+  },
+};
+
+/**
+ * Rule ids of refactoring suggestions; they can be suppressed inline but not configured
+ */
+export const REFACTORING_RULES = [
+  "extract-method",
+  "rename-variable",
+  "introduce-parameter",
+  "replace-conditional",
+  "simplify-expression",
+  "encapsulate-field",
+  "remove-duplication",
+  "modern-syntax",
+];
+
+/**
+ * JSON Schema of .intellicoderc.json and of the `config` tool argument,
+ * generated from {@link RULES} so each rule only accepts its own severities
+ */
+export const CONFIG_SCHEMA = buildSchema();
+
+let validator = compileValidator();
+
+/**
+ * Adds a rule defined outside this module, such as a plugin detector's, so
+ * that it can be configured, suppressed and reported like the built-in ones
+ */
+export function registerRule(id: string, definition: RuleDefinition): void {
+  if (RULES[id]) throw new Error(`Rule '${id}' is already defined`);
+  RULES[id] = definition;
+  // Top-level rules and overrides share one rules schema
+  CONFIG_SCHEMA.properties.rules.properties[id] = ruleSchema(definition);
+  validator = compileValidator();
+}
+
+/**
+ * Converts a display name such as "Long Method" into a rule id ("long-method")
+ */
+export function ruleId(type: string): string {
+  return type
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Checks a configuration object against the schema and returns it typed, or
+ * throws listing every problem
+ */
+export function validateConfig(value: unknown, source = "config"): AnalysisConfig {
+  if (validator(value)) return value;
+
+  const problems = (validator.errors ?? []).map((error) => {
+    const location = error.instancePath ? `${source}${error.instancePath.replace(/\//g, ".")}` : source;
+    const extra = error.params.additionalProperty ? ` '${error.params.additionalProperty}'` : "";
+    const allowed = error.params.allowedValues ? ` (${error.params.allowedValues.join(", ")})` : "";
+    return `${location} ${error.message}${extra}${allowed}`;
+  });
+  throw new Error(`Invalid configuration: ${[...new Set(problems)].join("; ")}`);
+}
+
+/**
+ * Reads and validates the .intellicoderc.json in a directory, if there is one
+ */
+export async function loadProjectConfig(directory: string): Promise<AnalysisConfig | undefined> {
+  const file = path.join(directory, CONFIG_FILENAME);
+  let content: string;
+  try {
+    content = await readFile(file, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid configuration: ${CONFIG_FILENAME} is not valid JSON (${(error as Error).message})`);
+  }
+  return validateConfig(parsed, CONFIG_FILENAME);
+}
+
+/**
+ * Reads the `plugins` list of the .intellicoderc.json in a directory. The
+ * file is not validated yet, because its rules may name rules that the
+ * plugins define.
+ */
+export async function readPluginSpecifiers(directory: string): Promise<string[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(path.join(directory, CONFIG_FILENAME), "utf8"));
+  } catch {
+    return [];
+  }
+  const plugins = (parsed as AnalysisConfig | null)?.plugins;
+  return Array.isArray(plugins) ? plugins.filter((plugin) => typeof plugin === "string") : [];
+}
+
+/**
+ * Loads the project's .intellicoderc.json and layers the tool's `config`
+ * argument over it
+ */
+export async function loadEffectiveConfig(directory: string, inline?: unknown): Promise<AnalysisConfig> {
+  const project = await loadProjectConfig(directory);
+  return mergeConfigs(project, inline === undefined ? undefined : validateConfig(inline));
+}
+
+/**
+ * Merges configurations; later ones win rule by rule and their overrides
+ * apply after the earlier ones
+ */
+export function mergeConfigs(...configs: Array<AnalysisConfig | undefined>): AnalysisConfig {
+  const merged: Required<Omit<AnalysisConfig, "$schema" | "plugins">> = { rules: {}, overrides: [] };
+
+  for (const config of configs) {
+    if (!config) continue;
+    for (const [id, setting] of Object.entries(config.rules ?? {})) {
+      merged.rules[id] = mergeRule(merged.rules[id], setting);
+    }
+    merged.overrides.push(...(config.overrides ?? []));
+  }
+
+  return merged;
+}
+
+/**
+ * Resolves the settings of every rule for a file: defaults, then the
+ * thresholds of the file's language, then the top-level rules, then each
+ * override whose globs match the filename
+ */
+export function resolveRules(config: AnalysisConfig = {}, filename?: string, language?: string): RuleSet {
+  const languageThresholds = (language && findLanguageProfile(language)?.thresholds) || {};
+  const rules: RuleSet = {};
+  for (const [id, definition] of Object.entries(RULES)) {
+    const threshold = definition.threshold !== undefined ? languageThresholds[id] ?? definition.threshold : undefined;
+    rules[id] = {
+      enabled: true,
+      severity: definition.severity,
+      ...(threshold !== undefined ? { threshold } : {}),
+    };
+  }
+
+  const apply = (settings: Record<string, RuleConfig>) => {
+    for (const [id, setting] of Object.entries(settings)) {
+      if (!rules[id]) continue;
+      if (typeof setting === "boolean") {
+        rules[id].enabled = setting;
+      } else {
+        if (setting.enabled !== undefined) rules[id].enabled = setting.enabled;
+        if (setting.severity !== undefined) rules[id].severity = setting.severity;
+        if (setting.threshold !== undefined) rules[id].threshold = setting.threshold;
+      }
+    }
+  };
+
+  apply(config.rules ?? {});
+
+  const target = filename?.replace(/\\/g, "/").replace(/^\.\//, "");
+  for (const override of config.overrides ?? []) {
+    if (target && matchesAny(target, override.files.map(toProjectGlob))) {
+      apply(override.rules);
+    }
+  }
+
+  return rules;
+}
+
+function mergeRule(base: RuleConfig | undefined, next: RuleConfig): RuleConfig {
+  if (base === undefined) return next;
+  const expand = (setting: RuleConfig) => (typeof setting === "boolean" ? { enabled: setting } : setting);
+  return { ...expand(base), ...expand(next) };
+}
+
+function toProjectGlob(pattern: string): string {
+  if (pattern.startsWith("/")) return pattern.substring(1);
+  return pattern.includes("/") ? pattern : `**/${pattern}`;
+}
+
+function compileValidator() {
+  return new Ajv({ allErrors: true }).compile<AnalysisConfig>(CONFIG_SCHEMA);
+}
+
+function ruleSchema(definition: RuleDefinition): object {
+  const settings: Record<string, object> = {
+    enabled: { type: "boolean" },
+    severity: { enum: definition.kind === "issue" ? ISSUE_SEVERITIES : SMELL_SEVERITIES },
+  };
+  if (definition.threshold !== undefined) {
+    settings.threshold = { type: "integer", minimum: 0 };
+  }
+  return {
+    description: definition.description,
+    oneOf: [{ type: "boolean" }, { type: "object", properties: settings, additionalProperties: false }],
+  };
+}
+
+function buildSchema() {
+  const ruleProperties: Record<string, object> = {};
+  for (const [id, definition] of Object.entries(RULES)) {
+    ruleProperties[id] = ruleSchema(definition);
+  }
+
+  const rules = { type: "object", properties: ruleProperties, additionalProperties: false };
+
+  return {
+    $id: "https://intelli-code-analysis/intellicoderc.schema.json",
+    title: "Intelli-Code-Analysis configuration",
+    type: "object",
+    properties: {
+      $schema: { type: "string" },
+      plugins: { type: "array", items: { type: "string" } },
+      rules,
+      overrides: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            files: { type: "array", items: { type: "string" }, minItems: 1 },
+            rules,
+          },
+          required: ["files", "rules"],
+          additionalProperties: false,
+        },
+      },
+    },
+    additionalProperties: false,
+  };
+}
@@ -0,0 +1,1187 @@
+/**
+ * Control-flow graph module
+ * Builds a control-flow graph per function and derives cyclomatic complexity
+ * from it as E - N + 2P
+ */
+
+import ts from "typescript";
+import { ParsedDocument, Token, parseDocument, statementTokens } from "./parser.js";
+import {
+  supportsTypeScriptAst,
+  getSourceFile,
+  isFunctionWithBody,
+  getFunctionName,
+} from "./typescript-analyzer.js";
+import { findTopLevelColon, LogicalLine, PythonBlock, PythonStructure } from "./python-structure.js";
+import { getFunctionExtents } from "./structure.js";
+import { maskedLines } from "./secrets.js";
+
+export type EdgeKind =
+  | "normal"
+  | "true"
+  | "false"
+  | "case"
+  | "default"
+  | "back"
+  | "break"
+  | "continue"
+  | "return"
+  | "throw"
+  | "exception"
+  | "short-circuit";
+
+export interface BasicBlock {
+  id: string;
+  kind: "entry" | "exit" | "block";
+  startLine?: number;
+  endLine?: number;
+  statements: Array<{ line: number; text: string }>;
+}
+
+export interface ControlFlowEdge {
+  from: string;
+  to: string;
+  kind: EdgeKind;
+}
+
+export interface ExitPoint {
+  line: number;
+  kind: "return" | "throw" | "implicit";
+  block: string;
+}
+
+export interface ControlFlowGraph {
+  name: string;
+  startLine: number;
+  endLine: number;
+  blocks: BasicBlock[];
+  edges: ControlFlowEdge[];
+  exitPoints: ExitPoint[];
+  cyclomaticComplexity: number;
+}
+
+export interface ControlFlowGraphs {
+  /** Top-level code outside any function */
+  module: ControlFlowGraph;
+  functions: ControlFlowGraph[];
+}
+
+export type GraphFormat = "json" | "dot" | "mermaid";
+
+/**
+ * Language-neutral statement tree that every front end produces and the
+ * graph builder consumes. `decisions` counts short-circuit operators and
+ * conditional expressions evaluated by the statement.
+ */
+type FlowStatement =
+  | { kind: "simple" | "return" | "throw"; line: number; decisions: number }
+  | { kind: "break" | "continue"; line: number; label?: string }
+  | { kind: "if"; line: number; decisions: number; then: FlowStatement[]; else?: FlowStatement[] }
+  | {
+      kind: "loop";
+      line: number;
+      decisions: number;
+      body: FlowStatement[];
+      postTest?: boolean;
+      /** Line of the trailing `while` of a post-test loop */
+      testLine?: number;
+      elseBody?: FlowStatement[];
+      label?: string;
+    }
+  | {
+      kind: "switch";
+      line: number;
+      decisions: number;
+      cases: Array<{ line: number; isDefault: boolean; body: FlowStatement[] }>;
+      fallsThrough: boolean;
+      label?: string;
+    }
+  | {
+      kind: "try";
+      line: number;
+      body: FlowStatement[];
+      handlers: Array<{ line: number; body: FlowStatement[] }>;
+      elseBody?: FlowStatement[];
+      finallyBody?: FlowStatement[];
+    }
+  | { kind: "block"; line: number; body: FlowStatement[]; label?: string };
+
+/**
+ * Builds a control-flow graph for every function in the document, plus one
+ * for the top-level code
+ */
+export function buildControlFlowGraphs(
+  code: string,
+  language: string,
+  doc: ParsedDocument = parseDocument(code, language)
+): ControlFlowGraphs {
+  if (supportsTypeScriptAst(doc.language)) {
+    return typeScriptGraphs(doc);
+  }
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    return pythonGraphs(doc, structure);
+  }
+  return braceGraphs(doc);
+}
+
+/**
+ * Cyclomatic complexity of a set of graphs taken together: E - N + 2P,
+ * where P is the number of connected components
+ */
+export function graphComplexity(graphs: ControlFlowGraph[]): number {
+  let edges = 0;
+  let nodes = 0;
+  let components = 0;
+
+  for (const graph of graphs) {
+    edges += graph.edges.length;
+    nodes += graph.blocks.length;
+    components += countComponents(graph);
+  }
+
+  return edges - nodes + 2 * components;
+}
+
+/**
+ * Renders graphs as JSON, Graphviz DOT or Mermaid flowcharts
+ */
+export function formatControlFlowGraphs(graphs: ControlFlowGraph[], format: GraphFormat): string {
+  switch (format) {
+    case "dot":
+      return graphs.map(toDot).join("\n\n");
+    case "mermaid":
+      return graphs.map(toMermaid).join("\n\n");
+    default:
+      return JSON.stringify({ functions: graphs }, null, 2);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Graph builder
+// ---------------------------------------------------------------------------
+
+interface JumpTarget {
+  kind: "loop" | "switch" | "label";
+  label?: string;
+  breakTo: BasicBlock;
+  continueTo?: BasicBlock;
+}
+
+interface PendingEdge {
+  from: BasicBlock;
+  to: BasicBlock;
+  kind: EdgeKind;
+}
+
+function buildGraph(
+  doc: ParsedDocument,
+  name: string,
+  startLine: number,
+  endLine: number,
+  body: FlowStatement[]
+): ControlFlowGraph {
+  const entry: BasicBlock = { id: "entry", kind: "entry", statements: [] };
+  const exit: BasicBlock = { id: "exit", kind: "exit", statements: [] };
+  const created: BasicBlock[] = [];
+  const edges: PendingEdge[] = [];
+  const exits: Array<{ line: number; kind: ExitPoint["kind"]; block: BasicBlock }> = [];
+  const targets: JumpTarget[] = [];
+  const handlers: BasicBlock[][] = [];
+  // Operand blocks stand for a path even when they hold no statement
+  const operands = new Set<BasicBlock>();
+
+  const newBlock = (): BasicBlock => {
+    const block: BasicBlock = { id: "", kind: "block", statements: [] };
+    created.push(block);
+    return block;
+  };
+  const connect = (from: BasicBlock, to: BasicBlock, kind: EdgeKind) => {
+    edges.push({ from, to, kind });
+  };
+
+  // `null` means the code that follows is unreachable
+  let current: BasicBlock | null = newBlock();
+  connect(entry, current, "normal");
+
+  const reachable = (): BasicBlock => (current ??= newBlock());
+  const record = (line: number) => {
+    const block = reachable();
+    if (block.statements[block.statements.length - 1]?.line === line) return;
+    block.statements.push({ line, text: statementText(doc, line) });
+  };
+  // Each short-circuit operator or conditional expression splits the flow:
+  // the right operand may or may not run before the paths join again
+  const decide = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const from = reachable();
+      const operand = newBlock();
+      const join = newBlock();
+      operands.add(operand);
+      connect(from, operand, "true");
+      connect(from, join, "short-circuit");
+      connect(operand, join, "normal");
+      current = join;
+    }
+  };
+  const joinFrom = (ends: Array<BasicBlock | null>): BasicBlock | null => {
+    const live = ends.filter((end): end is BasicBlock => end !== null);
+    if (live.length === 0) return null;
+    const join = newBlock();
+    live.forEach((end) => connect(end, join, "normal"));
+    return join;
+  };
+  const findTarget = (label: string | undefined, isContinue: boolean): JumpTarget | undefined => {
+    for (let i = targets.length - 1; i >= 0; i--) {
+      const target = targets[i];
+      if (label !== undefined) {
+        if (target.label !== label) continue;
+        return !isContinue || target.kind === "loop" ? target : undefined;
+      }
+      if (target.kind === "loop" || (target.kind === "switch" && !isContinue)) return target;
+    }
+    return undefined;
+  };
+
+  const visit = (statements: FlowStatement[]) => {
+    for (const statement of statements) visitStatement(statement);
+  };
+
+  const visitStatement = (statement: FlowStatement) => {
+    switch (statement.kind) {
+      case "simple":
+        record(statement.line);
+        decide(statement.decisions);
+        return;
+
+      case "return":
+      case "throw": {
+        record(statement.line);
+        decide(statement.decisions);
+        const from = reachable();
+        const catchers = handlers[handlers.length - 1];
+        if (statement.kind === "throw" && catchers && catchers.length > 0) {
+          catchers.forEach((handler) => connect(from, handler, "exception"));
+        } else {
+          connect(from, exit, statement.kind);
+          exits.push({ line: statement.line, kind: statement.kind, block: from });
+        }
+        current = null;
+        return;
+      }
+
+      case "break":
+      case "continue": {
+        record(statement.line);
+        const target = findTarget(statement.label, statement.kind === "continue");
+        if (target) {
+          const destination = statement.kind === "break" ? target.breakTo : target.continueTo!;
+          connect(reachable(), destination, statement.kind);
+          current = null;
+        }
+        return;
+      }
+
+      case "if": {
+        record(statement.line);
+        decide(statement.decisions);
+        const condition = reachable();
+        const thenStart = newBlock();
+        connect(condition, thenStart, "true");
+        current = thenStart;
+        visit(statement.then);
+        const thenEnd = current;
+
+        if (statement.else) {
+          const elseStart = newBlock();
+          connect(condition, elseStart, "false");
+          current = elseStart;
+          visit(statement.else);
+          current = joinFrom([thenEnd, current]);
+        } else {
+          const join = newBlock();
+          if (thenEnd) connect(thenEnd, join, "normal");
+          connect(condition, join, "false");
+          current = join;
+        }
+        return;
+      }
+
+      case "loop": {
+        const after = newBlock();
+        if (statement.postTest) {
+          const bodyStart = newBlock();
+          const test = newBlock();
+          connect(reachable(), bodyStart, "normal");
+          targets.push({ kind: "loop", label: statement.label, breakTo: after, continueTo: test });
+          current = bodyStart;
+          record(statement.line);
+          visit(statement.body);
+          targets.pop();
+          if (current) connect(current, test, "normal");
+          current = test;
+          record(statement.testLine ?? statement.line);
+          decide(statement.decisions);
+          connect(current, bodyStart, "back");
+          connect(current, after, "false");
+        } else {
+          const header = newBlock();
+          connect(reachable(), header, "normal");
+          current = header;
+          record(statement.line);
+          decide(statement.decisions);
+          const test = current;
+          const bodyStart = newBlock();
+          connect(test, bodyStart, "true");
+          targets.push({ kind: "loop", label: statement.label, breakTo: after, continueTo: header });
+          current = bodyStart;
+          visit(statement.body);
+          targets.pop();
+          if (current) connect(current, header, "back");
+
+          if (statement.elseBody) {
+            // Python loop `else` runs when the loop ends without `break`
+            const elseStart = newBlock();
+            connect(test, elseStart, "false");
+            current = elseStart;
+            visit(statement.elseBody);
+            if (current) connect(current, after, "normal");
+          } else {
+            connect(test, after, "false");
+          }
+        }
+        current = after;
+        return;
+      }
+
+      case "switch": {
+        record(statement.line);
+        decide(statement.decisions);
+        const discriminant = reachable();
+        const after = newBlock();
+        targets.push({ kind: "switch", label: statement.label, breakTo: after });
+
+        let previousEnd: BasicBlock | null = null;
+        for (const clause of statement.cases) {
+          const caseStart = newBlock();
+          connect(discriminant, caseStart, clause.isDefault ? "default" : "case");
+          if (previousEnd) connect(previousEnd, caseStart, "normal");
+          current = caseStart;
+          record(clause.line);
+          visit(clause.body);
+          if (statement.fallsThrough) {
+            previousEnd = current;
+          } else if (current) {
+            connect(current, after, "normal");
+          }
+        }
+        if (previousEnd) connect(previousEnd, after, "normal");
+        if (!statement.cases.some((c) => c.isDefault)) connect(discriminant, after, "default");
+
+        targets.pop();
+        current = after;
+        return;
+      }
+
+      case "try": {
+        const tryStart = newBlock();
+        const handlerStarts = statement.handlers.map(() => newBlock());
+        connect(reachable(), tryStart, "normal");
+        handlerStarts.forEach((handler) => connect(tryStart, handler, "exception"));
+
+        handlers.push(handlerStarts);
+        current = tryStart;
+        record(statement.line);
+        visit(statement.body);
+        handlers.pop();
+        if (statement.elseBody) visit(statement.elseBody);
+        const ends: Array<BasicBlock | null> = [current];
+
+        statement.handlers.forEach((handler, index) => {
+          current = handlerStarts[index];
+          record(handler.line);
+          visit(handler.body);
+          ends.push(current);
+        });
+
+        current = joinFrom(ends);
+        if (statement.finallyBody) visit(statement.finallyBody);
+        return;
+      }
+
+      case "block": {
+        if (!statement.label) {
+          visit(statement.body);
+          return;
+        }
+        const after = newBlock();
+        targets.push({ kind: "label", label: statement.label, breakTo: after });
+        visit(statement.body);
+        targets.pop();
+        if (current) connect(current, after, "normal");
+        current = after;
+        return;
+      }
+    }
+  };
+
+  visit(body);
+  if (current) {
+    connect(current, exit, "normal");
+    exits.push({ line: endLine, kind: "implicit", block: current });
+  }
+
+  const blocks = finalizeBlocks(entry, exit, created, edges, new Set([...operands, ...exits.map((e) => e.block)]));
+  const graph: ControlFlowGraph = {
+    name,
+    startLine,
+    endLine,
+    blocks,
+    edges: edges.map((e) => ({ from: e.from.id, to: e.to.id, kind: e.kind })),
+    exitPoints: exits.map((e) => ({ line: e.line, kind: e.kind, block: e.block.id })),
+    cyclomaticComplexity: 0,
+  };
+  graph.cyclomaticComplexity = graphComplexity([graph]);
+  return graph;
+}
+
+/**
+ * Removes empty pass-through blocks (which changes E and N equally), then
+ * numbers the remaining blocks in breadth-first order from the entry
+ */
+function finalizeBlocks(
+  entry: BasicBlock,
+  exit: BasicBlock,
+  created: BasicBlock[],
+  edges: PendingEdge[],
+  keep: Set<BasicBlock>
+): BasicBlock[] {
+  let live = created.filter((block) => {
+    if (block.statements.length > 0 || keep.has(block)) return true;
+    const outgoing = edges.filter((e) => e.from === block);
+    if (outgoing.length !== 1 || outgoing[0].kind !== "normal" || outgoing[0].to === block) return true;
+
+    const successor = outgoing[0].to;
+    edges.splice(edges.indexOf(outgoing[0]), 1);
+    for (const edge of edges) {
+      if (edge.to === block) edge.to = successor;
+    }
+    return false;
+  });
+  // Blocks left without any edge were never reached or left
+  live = live.filter((block) => edges.some((e) => e.from === block || e.to === block));
+
+  const ordered: BasicBlock[] = [];
+  const queue = [entry];
+  const seen = new Set<BasicBlock>([entry, exit]);
+  while (queue.length > 0) {
+    const block = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.from === block && !seen.has(edge.to)) {
+        seen.add(edge.to);
+        ordered.push(edge.to);
+        queue.push(edge.to);
+      }
+    }
+  }
+  ordered.push(...live.filter((block) => !seen.has(block)));
+
+  ordered.forEach((block, index) => {
+    block.id = `B${index}`;
+    if (block.statements.length > 0) {
+      block.startLine = Math.min(...block.statements.map((s) => s.line));
+      block.endLine = Math.max(...block.statements.map((s) => s.line));
+    }
+  });
+
+  return [entry, ...ordered, exit];
+}
+
+function countComponents(graph: ControlFlowGraph): number {
+  const parent = new Map(graph.blocks.map((b) => [b.id, b.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+  for (const edge of graph.edges) {
+    parent.set(find(edge.from), find(edge.to));
+  }
+  return new Set(graph.blocks.map((b) => find(b.id))).size;
+}
+
+function statementText(doc: ParsedDocument, line: number): string {
+  const text = (maskedLines(doc)[line - 1] ?? "").trim();
+  return text.length > 80 ? `${text.substring(0, 77)}...` : text;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function blockLabel(block: BasicBlock): string[] {
+  if (block.kind !== "block") return [block.kind];
+  if (block.statements.length === 0) return [block.id];
+  return block.statements.map((s) => `L${s.line}: ${s.text}`);
+}
+
+function toDot(graph: ControlFlowGraph): string {
+  const escape = (text: string) => text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const lines = [`digraph "${escape(graph.name)}" {`, "  node [shape=box, fontname=monospace];"];
+
+  for (const block of graph.blocks) {
+    const shape = block.kind === "block" ? "" : ", shape=oval";
+    const label = blockLabel(block).map(escape).join("\\l");
+    lines.push(`  ${block.id} [label="${label}${block.kind === "block" ? "\\l" : ""}"${shape}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.kind === "normal" ? "" : ` [label="${edge.kind}"]`;
+    lines.push(`  ${edge.from} -> ${edge.to}${label};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+function toMermaid(graph: ControlFlowGraph): string {
+  const escape = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = [`%% ${graph.name} (line ${graph.startLine})`, "flowchart TD"];
+
+  for (const block of graph.blocks) {
+    const label = blockLabel(block).map(escape).join("<br/>");
+    lines.push(block.kind === "block" ? `  ${block.id}["${label}"]` : `  ${block.id}(["${label}"])`);
+  }
+  for (const edge of graph.edges) {
+    const arrow = edge.kind === "normal" ? "-->" : `-->|${edge.kind}|`;
+    lines.push(`  ${edge.from} ${arrow} ${edge.to}`);
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript / TypeScript front end
+// ---------------------------------------------------------------------------
+
+function typeScriptGraphs(doc: ParsedDocument): ControlFlowGraphs {
+  const sourceFile = getSourceFile(doc);
+  const functions: ControlFlowGraph[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) {
+      const body = ts.isBlock(node.body)
+        ? typeScriptStatements(node.body, sourceFile)
+        : [{ kind: "return" as const, line: lineOf(sourceFile, node.body.getStart(sourceFile)), decisions: countTypeScriptDecisions(node.body) }];
+      functions.push(
+        buildGraph(
+          doc,
+          getFunctionName(node, sourceFile),
+          lineOf(sourceFile, node.getStart(sourceFile)),
+          lineOf(sourceFile, node.getEnd()),
+          body
+        )
+      );
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const module = buildGraph(
+    doc,
+    "<module>",
+    1,
+    doc.lines.length,
+    sourceFile.statements.flatMap((s) => typeScriptStatement(s, sourceFile))
+  );
+
+  return { module, functions };
+}
+
+function typeScriptStatements(node: ts.Statement | undefined, sourceFile: ts.SourceFile): FlowStatement[] {
+  if (!node) return [];
+  if (ts.isBlock(node)) return node.statements.flatMap((s) => typeScriptStatement(s, sourceFile));
+  return typeScriptStatement(node, sourceFile);
+}
+
+function typeScriptStatement(node: ts.Statement, sourceFile: ts.SourceFile, label?: string): FlowStatement[] {
+  const line = lineOf(sourceFile, node.getStart(sourceFile));
+  const decisionsIn = (...nodes: Array<ts.Node | undefined>) =>
+    nodes.reduce((sum, n) => sum + (n ? countTypeScriptDecisions(n) : 0), 0);
+
+  if (ts.isBlock(node)) {
+    return [{ kind: "block", line, label, body: typeScriptStatements(node, sourceFile) }];
+  }
+  if (ts.isLabeledStatement(node)) {
+    return typeScriptStatement(node.statement, sourceFile, node.label.text);
+  }
+  if (ts.isIfStatement(node)) {
+    return [
+      {
+        kind: "if",
+        line,
+        decisions: decisionsIn(node.expression),
+        then: typeScriptStatements(node.thenStatement, sourceFile),
+        else: node.elseStatement ? typeScriptStatements(node.elseStatement, sourceFile) : undefined,
+      },
+    ];
+  }
+  if (ts.isForStatement(node)) {
+    const init = node.initializer ? [{ kind: "simple" as const, line, decisions: decisionsIn(node.initializer) }] : [];
+    return [
+      ...init,
+      {
+        kind: "loop",
+        line,
+        label,
+        decisions: decisionsIn(node.condition, node.incrementor),
+        body: typeScriptStatements(node.statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isForInStatement(node) || ts.isForOfStatement(node) || ts.isWhileStatement(node)) {
+    return [
+      {
+        kind: "loop",
+        line,
+        label,
+        decisions: decisionsIn(node.expression),
+        body: typeScriptStatements(node.statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isDoStatement(node)) {
+    return [
+      {
+        kind: "loop",
+        line,
+        label,
+        postTest: true,
+        testLine: lineOf(sourceFile, node.expression.getStart(sourceFile)),
+        decisions: decisionsIn(node.expression),
+        body: typeScriptStatements(node.statement, sourceFile),
+      },
+    ];
+  }
+  if (ts.isSwitchStatement(node)) {
+    return [
+      {
+        kind: "switch",
+        line,
+        label,
+        decisions: decisionsIn(node.expression),
+        fallsThrough: true,
+        cases: node.caseBlock.clauses.map((clause) => ({
+          line: lineOf(sourceFile, clause.getStart(sourceFile)),
+          isDefault: ts.isDefaultClause(clause),
+          body: clause.statements.flatMap((s) => typeScriptStatement(s, sourceFile)),
+        })),
+      },
+    ];
+  }
+  if (ts.isTryStatement(node)) {
+    return [
+      {
+        kind: "try",
+        line,
+        body: typeScriptStatements(node.tryBlock, sourceFile),
+        handlers: node.catchClause
+          ? [
+              {
+                line: lineOf(sourceFile, node.catchClause.getStart(sourceFile)),
+                body: typeScriptStatements(node.catchClause.block, sourceFile),
+              },
+            ]
+          : [],
+        finallyBody: node.finallyBlock ? typeScriptStatements(node.finallyBlock, sourceFile) : undefined,
+      },
+    ];
+  }
+  if (ts.isReturnStatement(node) || ts.isThrowStatement(node)) {
+    return [{ kind: ts.isReturnStatement(node) ? "return" : "throw", line, decisions: decisionsIn(node.expression) }];
+  }
+  if (ts.isBreakStatement(node) || ts.isContinueStatement(node)) {
+    return [{ kind: ts.isBreakStatement(node) ? "break" : "continue", line, label: node.label?.text }];
+  }
+
+  return [{ kind: "simple", line, decisions: decisionsIn(node) }];
+}
+
+/**
+ * Counts `&&`, `||`, `??` and conditional expressions, excluding nested
+ * functions (optional chaining `?.` is not a decision)
+ */
+function countTypeScriptDecisions(root: ts.Node): number {
+  let count = 0;
+  const visit = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) return;
+    if (ts.isConditionalExpression(node)) count++;
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken.kind;
+      if (
+        operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+        operator === ts.SyntaxKind.BarBarToken ||
+        operator === ts.SyntaxKind.QuestionQuestionToken
+      ) {
+        count++;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return count;
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}
+
+// ---------------------------------------------------------------------------
+// Python front end
+// ---------------------------------------------------------------------------
+
+function pythonGraphs(doc: ParsedDocument, structure: PythonStructure): ControlFlowGraphs {
+  const byStart = new Map(structure.logicalLines.map((l) => [l.startLine, l]));
+
+  const functions = structure.functions.map((fn) =>
+    buildGraph(doc, fn.name ?? "anonymous", fn.headerLine, fn.endLine, pythonBody(doc, byStart, fn))
+  );
+  const module = buildGraph(
+    doc,
+    "<module>",
+    1,
+    doc.lines.length,
+    pythonStatements(doc, byStart, structure.blocks, 1, doc.lines.length)
+  );
+
+  return { module, functions };
+}
+
+/**
+ * Statements between `from` and `to` (inclusive), with nested blocks turned
+ * into structured statements. Nested functions and classes are opaque.
+ */
+function pythonStatements(
+  doc: ParsedDocument,
+  byStart: Map<number, LogicalLine>,
+  blocks: PythonBlock[],
+  from: number,
+  to: number
+): FlowStatement[] {
+  const { logicalLines } = doc.profile.blocks!(doc);
+  const items: Array<{ line: number; logical?: LogicalLine; block?: PythonBlock }> = [
+    ...logicalLines
+      .filter((l) => l.startLine >= from && l.startLine <= to)
+      .filter((l) => !blocks.some((b) => l.startLine >= b.startLine && l.startLine <= b.endLine))
+      .filter((l) => l.tokens[0]?.value !== "@")
+      .map((logical) => ({ line: logical.startLine, logical })),
+    ...blocks
+      .filter((b) => b.headerLine >= from && b.headerLine <= to)
+      .map((block) => ({ line: block.headerLine, block })),
+  ].sort((a, b) => a.line - b.line);
+
+  const statements: FlowStatement[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const { logical, block } = items[i];
+    if (logical) {
+      statements.push(pythonSimpleStatement(logical.startLine, logical.tokens));
+      continue;
+    }
+    if (!block) continue;
+
+    // Gather the clauses that continue this statement (`elif`, `else`, `except`, ...)
+    const clauses: PythonBlock[] = [];
+    while (items[i + 1]?.block && PYTHON_CLAUSES.has(items[i + 1].block!.kind)) {
+      clauses.push(items[++i].block!);
+    }
+    statements.push(...pythonCompound(doc, byStart, block, clauses));
+  }
+  return statements;
+}
+
+const PYTHON_CLAUSES = new Set(["elif", "else", "except", "finally"]);
+
+function pythonCompound(
+  doc: ParsedDocument,
+  byStart: Map<number, LogicalLine>,
+  block: PythonBlock,
+  clauses: PythonBlock[]
+): FlowStatement[] {
+  const line = block.headerLine;
+  const header = byStart.get(line);
+  const decisions = header ? pythonHeaderDecisions(header.tokens) : 0;
+  const body = () => pythonBody(doc, byStart, block);
+  const clause = (kind: string) => clauses.find((c) => c.kind === kind);
+  const clauseBody = (c: PythonBlock | undefined) => (c ? pythonBody(doc, byStart, c) : undefined);
+
+  switch (block.kind) {
+    case "if": {
+      // Fold `elif` clauses into nested ifs in their else branch
+      const chain = [block, ...clauses.filter((c) => c.kind === "elif")];
+      let elseBody = clauseBody(clause("else"));
+      for (let i = chain.length - 1; i >= 1; i--) {
+        const elif = chain[i];
+        const elifHeader = byStart.get(elif.headerLine);
+        elseBody = [
+          {
+            kind: "if",
+            line: elif.headerLine,
+            decisions: elifHeader ? pythonHeaderDecisions(elifHeader.tokens) : 0,
+            then: pythonBody(doc, byStart, elif),
+            else: elseBody,
+          },
+        ];
+      }
+      return [{ kind: "if", line, decisions, then: body(), else: elseBody }];
+    }
+    case "for":
+    case "while":
+      return [{ kind: "loop", line, decisions, body: body(), elseBody: clauseBody(clause("else")) }];
+    case "try":
+      return [
+        {
+          kind: "try",
+          line,
+          body: body(),
+          handlers: clauses
+            .filter((c) => c.kind === "except")
+            .map((c) => ({ line: c.headerLine, body: pythonBody(doc, byStart, c) })),
+          elseBody: clauseBody(clause("else")),
+          finallyBody: clauseBody(clause("finally")),
+        },
+      ];
+    case "match":
+      return [
+        {
+          kind: "switch",
+          line,
+          decisions,
+          fallsThrough: false,
+          cases: block.children
+            .filter((c) => c.kind === "case")
+            .map((c) => ({
+              line: c.headerLine,
+              isDefault: byStart.get(c.headerLine)?.tokens[1]?.value === "_",
+              body: pythonBody(doc, byStart, c),
+            })),
+        },
+      ];
+    case "def":
+    case "class":
+      return [{ kind: "simple", line, decisions: 0 }];
+    default:
+      // `with` and anything else run their body unconditionally
+      return [{ kind: "simple", line, decisions }, ...body()];
+  }
+}
+
+/**
+ * Body of a block, including a one-line body written after the colon
+ */
+function pythonBody(doc: ParsedDocument, byStart: Map<number, LogicalLine>, block: PythonBlock): FlowStatement[] {
+  const header = byStart.get(block.headerLine);
+  if (!header) return [];
+
+  const colon = findTopLevelColon(header.tokens);
+  const inline = colon !== -1 && colon < header.tokens.length - 1 ? header.tokens.slice(colon + 1) : [];
+  const statements = inline.length > 0 ? [pythonSimpleStatement(header.startLine, inline)] : [];
+
+  return [...statements, ...pythonStatements(doc, byStart, block.children, header.endLine + 1, block.endLine)];
+}
+
+function pythonSimpleStatement(line: number, tokens: Token[]): FlowStatement {
+  const first = tokens[0]?.value;
+  if (first === "return" || first === "raise") {
+    return { kind: first === "return" ? "return" : "throw", line, decisions: countPythonDecisions(tokens, 1) };
+  }
+  if (first === "break" || first === "continue") {
+    return { kind: first, line };
+  }
+  return { kind: "simple", line, decisions: countPythonDecisions(tokens, 0) };
+}
+
+function pythonHeaderDecisions(tokens: Token[]): number {
+  const colon = findTopLevelColon(tokens);
+  return countPythonDecisions(colon === -1 ? tokens : tokens.slice(0, colon), 1);
+}
+
+/**
+ * Counts `and`, `or` and inline `if` (conditional expressions and
+ * comprehension filters) from the given token index on
+ */
+function countPythonDecisions(tokens: Token[], fromIndex: number): number {
+  return tokens
+    .slice(fromIndex)
+    .filter((t) => t.kind === "keyword" && (t.value === "and" || t.value === "or" || t.value === "if")).length;
+}
+
+// ---------------------------------------------------------------------------
+// Brace language front end (Java and other C-like languages)
+// ---------------------------------------------------------------------------
+
+function braceGraphs(doc: ParsedDocument): ControlFlowGraphs {
+  const tokens = statementTokens(doc);
+  const parser = new BraceStatementParser(tokens, doc.profile.switchFallthrough);
+
+  const functions = getFunctionExtents(doc).map((extent) => {
+    // Skip the braces of `struct {...}` and `interface {...}` types in Go signatures
+    const open = tokens.findIndex(
+      (t, i) =>
+        t.value === "{" &&
+        t.line >= extent.startLine &&
+        !(tokens[i - 1]?.kind === "keyword" && TYPE_LITERALS.has(tokens[i - 1].value))
+    );
+    const body = open === -1 ? [] : parser.parseBlockBody(open);
+    return buildGraph(doc, extent.name, extent.startLine, extent.endLine, body);
+  });
+  const module = buildGraph(doc, "<module>", 1, doc.lines.length, parser.parseRange(0, tokens.length));
+
+  return { module, functions };
+}
+
+const TYPE_LITERALS = new Set(["struct", "interface"]);
+
+const HEADER_KEYWORDS = new Set(["if", "for", "while", "switch", "select"]);
+
+// Operators that continue a condition after a parenthesized part, as in Go's `if (a) && b {`
+const CONDITION_CONTINUATIONS = new Set([
+  "&&", "||", "==", "!=", "<", ">", "<=", ">=", "+", "-", "*", "/", "%", ".", "[",
+]);
+
+/**
+ * Small recursive-descent statement parser over the token stream. Anything
+ * it does not recognise is treated as a simple statement ending at `;`.
+ */
+class BraceStatementParser {
+  constructor(
+    private readonly tokens: Token[],
+    private readonly switchFallthrough: boolean
+  ) {}
+
+  parseBlockBody(openIndex: number): FlowStatement[] {
+    return this.parseRange(openIndex + 1, this.matchClose(openIndex));
+  }
+
+  parseRange(from: number, to: number): FlowStatement[] {
+    const statements: FlowStatement[] = [];
+    let i = from;
+    while (i < to) {
+      const [parsed, next] = this.parseStatement(i, to);
+      statements.push(...parsed);
+      i = Math.max(next, i + 1);
+    }
+    return statements;
+  }
+
+  private parseStatement(i: number, limit: number, label?: string): [FlowStatement[], number] {
+    const token = this.tokens[i];
+    const value = token.value;
+    const line = token.line;
+    const next = this.tokens[i + 1];
+
+    if (value === ";") return [[], i + 1];
+
+    if (value === "{") {
+      const close = this.matchClose(i);
+      return [[{ kind: "block", line, label, body: this.parseRange(i + 1, close) }], close + 1];
+    }
+
+    if (token.kind === "identifier" && next?.value === ":" && i + 2 < limit) {
+      return this.parseStatement(i + 2, limit, value);
+    }
+
+    const header = HEADER_KEYWORDS.has(value) && token.kind === "keyword" ? this.header(i + 1, limit) : undefined;
+    if (header) {
+      const decisions = this.countDecisions(header.from, header.to);
+
+      if (value === "switch" || value === "select") {
+        return [[this.parseSwitch(line, decisions, header.body, label)], this.matchClose(header.body) + 1];
+      }
+
+      const [body, afterBody] = this.parseStatement(header.body, limit);
+      if (value !== "if") {
+        return [[{ kind: "loop", line, label, decisions, body }], afterBody];
+      }
+      if (this.tokens[afterBody]?.value === "else") {
+        const [elseBody, afterElse] = this.parseStatement(afterBody + 1, limit);
+        return [[{ kind: "if", line, decisions, then: body, else: elseBody }], afterElse];
+      }
+      return [[{ kind: "if", line, decisions, then: body }], afterBody];
+    }
+
+    if (value === "do") {
+      const [body, afterBody] = this.parseStatement(i + 1, limit);
+      let end = afterBody;
+      let decisions = 0;
+      let testLine: number | undefined;
+      if (this.tokens[end]?.value === "while" && this.tokens[end + 1]?.value === "(") {
+        testLine = this.tokens[end].line;
+        const close = this.matchClose(end + 1);
+        decisions = this.countDecisions(end + 2, close);
+        end = close + 1;
+        if (this.tokens[end]?.value === ";") end++;
+      }
+      return [[{ kind: "loop", line, label, postTest: true, testLine, decisions, body }], end];
+    }
+
+    if (value === "try") {
+      let cursor = i + 1;
+      // try-with-resources
+      if (this.tokens[cursor]?.value === "(") cursor = this.matchClose(cursor) + 1;
+      const [body, afterBody] = this.parseStatement(cursor, limit);
+      cursor = afterBody;
+
+      const handlers: Array<{ line: number; body: FlowStatement[] }> = [];
+      while (this.tokens[cursor]?.value === "catch") {
+        const catchLine = this.tokens[cursor].line;
+        let blockStart = cursor + 1;
+        if (this.tokens[blockStart]?.value === "(") blockStart = this.matchClose(blockStart) + 1;
+        const [handlerBody, afterHandler] = this.parseStatement(blockStart, limit);
+        handlers.push({ line: catchLine, body: handlerBody });
+        cursor = afterHandler;
+      }
+
+      let finallyBody: FlowStatement[] | undefined;
+      if (this.tokens[cursor]?.value === "finally") {
+        [finallyBody, cursor] = this.parseStatement(cursor + 1, limit);
+      }
+      return [[{ kind: "try", line, body, handlers, finallyBody }], cursor];
+    }
+
+    if (value === "synchronized" && next?.value === "(") {
+      const close = this.matchClose(i + 1);
+      const [body, afterBody] = this.parseStatement(close + 1, limit);
+      return [[{ kind: "simple", line, decisions: 0 }, ...body], afterBody];
+    }
+
+    const { stop, resume } = this.statementEnd(i, limit);
+
+    if (value === "return" || value === "throw") {
+      return [[{ kind: value, line, decisions: this.countDecisions(i + 1, stop) }], resume];
+    }
+    if ((value === "break" || value === "continue") && token.kind === "keyword") {
+      return [[{ kind: value, line, label: next?.kind === "identifier" ? next.value : undefined }], resume];
+    }
+    return [[{ kind: "simple", line, decisions: this.countDecisions(i, stop) }], resume];
+  }
+
+  private parseSwitch(line: number, decisions: number, open: number, label?: string): FlowStatement {
+    const close = this.matchClose(open);
+    const cases: Array<{ line: number; isDefault: boolean; body: FlowStatement[] }> = [];
+    let fallsThrough = this.switchFallthrough;
+    let i = open + 1;
+
+    while (i < close) {
+      const token = this.tokens[i];
+      if (token.value !== "case" && token.value !== "default") {
+        i++;
+        continue;
+      }
+
+      // Find the `:` or `->` that ends the case label
+      let j = i + 1;
+      while (j < close && this.tokens[j].value !== ":" && this.tokens[j].value !== "->") {
+        j = this.isOpener(this.tokens[j].value) ? this.matchClose(j) + 1 : j + 1;
+      }
+      if (this.tokens[j]?.value === "->") fallsThrough = false;
+
+      let end = j + 1;
+      while (end < close && this.tokens[end].value !== "case" && this.tokens[end].value !== "default") {
+        end = this.isOpener(this.tokens[end].value) ? this.matchClose(end) + 1 : end + 1;
+      }
+      cases.push({ line: token.line, isDefault: token.value === "default", body: this.parseRange(j + 1, end) });
+      i = end;
+    }
+
+    return { kind: "switch", line, label, decisions, cases, fallsThrough };
+  }
+
+  /**
+   * Locates the condition and body of an `if`, loop or switch header
+   * starting at `from`: `(condition) body`, or Go's `condition {` without
+   * parentheses, which may hold an init statement and is empty for `for {`
+   */
+  private header(from: number, limit: number): { from: number; to: number; body: number } | undefined {
+    if (this.tokens[from]?.value === "(") {
+      const close = this.matchClose(from);
+      if (!CONDITION_CONTINUATIONS.has(this.tokens[close + 1]?.value)) {
+        return { from: from + 1, to: close, body: close + 1 };
+      }
+    }
+    let j = from;
+    while (j < limit && this.tokens[j].value !== "{") {
+      const typeLiteral = TYPE_LITERALS.has(this.tokens[j].value) && this.tokens[j + 1]?.value === "{";
+      if (typeLiteral) j++;
+      j = this.isOpener(this.tokens[j].value) ? this.matchClose(j) + 1 : j + 1;
+    }
+    return j < limit ? { from, to: j, body: j } : undefined;
+  }
+
+  /**
+   * Finds where a simple statement ends: at `;`, before the enclosing `}`,
+   * or after a brace group that is not part of an expression (local classes)
+   */
+  private statementEnd(i: number, limit: number): { stop: number; resume: number } {
+    let j = i;
+    while (j < limit) {
+      const value = this.tokens[j].value;
+      if (value === ";") return { stop: j, resume: j + 1 };
+      if (value === "}") return { stop: j, resume: j };
+      if (this.isOpener(value)) {
+        const close = this.matchClose(j);
+        const after = this.tokens[close + 1]?.value;
+        if (value === "{" && j > i && !["(", ")", ",", ";", ".", "]"].includes(after ?? ";")) {
+          return { stop: close + 1, resume: close + 1 };
+        }
+        j = close + 1;
+        continue;
+      }
+      j++;
+    }
+    return { stop: limit, resume: limit };
+  }
+
+  /**
+   * Counts `&&`, `||` and ternaries, skipping nested bodies such as lambdas
+   */
+  private countDecisions(from: number, to: number): number {
+    let count = 0;
+    for (let i = from; i < to; i++) {
+      const { value } = this.tokens[i];
+      if (value === "{") {
+        i = this.matchClose(i);
+      } else if (value === "&&" || value === "||") {
+        count++;
+      } else if (value === "?" && !isTypeWildcard(this.tokens[i - 1], this.tokens[i + 1])) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  private isOpener(value: string): boolean {
+    return value === "(" || value === "[" || value === "{";
+  }
+
+  private matchClose(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.length; i++) {
+      const { kind, value } = this.tokens[i];
+      if (kind !== "punctuator") continue;
+      if (this.isOpener(value)) depth++;
+      else if (value === ")" || value === "]" || value === "}") {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return this.tokens.length - 1;
+  }
+}
+
+/**
+ * Java generic wildcards (`List<?>`, `<? extends T>`) are not ternaries
+ */
+function isTypeWildcard(previous: Token | undefined, next: Token | undefined): boolean {
+  return (
+    previous?.value === "<" ||
+    (next !== undefined && [">", ",", "extends", "super"].includes(next.value))
+  );
+}
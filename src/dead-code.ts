@@ -0,0 +1,835 @@
+/**
+ * Dead code module
+ * Resolves references within a file and across files to find unused locals,
+ * parameters, private methods and exports, and statements that can never run
+ */
+
+import ts from "typescript";
+import { ParsedDocument, parseDocument, statementTokens, Token } from "./parser.js";
+import {
+  supportsTypeScriptAst,
+  getSourceFile,
+  getTypeChecker,
+  isFunctionWithBody,
+  FunctionLikeWithBody,
+  getFunctionName,
+  bindingNames,
+} from "./typescript-analyzer.js";
+import {
+  descendants,
+  findTopLevelColon,
+  LogicalLine,
+  PythonBlock,
+  PythonStructure,
+} from "./python-structure.js";
+import { extractImports, normalizeFilename, resolveImport, ImportStatement } from "./dependency-graph.js";
+import { applySuppressions } from "./suppressions.js";
+import type { RuleSet } from "./config.js";
+import type { LanguageProfile } from "./languages.js";
+
+export type DeadCodeKind =
+  | "unused-local"
+  | "unused-parameter"
+  | "unused-private-method"
+  | "unused-export"
+  | "unreachable-code";
+
+/**
+ * How safe a finding is to act on: "high" when nothing outside the analyzed
+ * code can reach the declaration, lower when callers may impose a signature
+ * or live outside the analyzed files
+ */
+export type Confidence = "high" | "medium" | "low";
+
+export interface DeadCodeFinding {
+  kind: DeadCodeKind;
+  /** The unused name; absent for unreachable code */
+  name?: string;
+  message: string;
+  line: number;
+  column: number;
+  confidence: Confidence;
+}
+
+export interface DeadCodeSource {
+  filename: string;
+  code: string;
+  language: string;
+  doc?: ParsedDocument;
+  /** Rules for the file; nothing is reported when `dead-code` is disabled */
+  rules?: RuleSet;
+}
+
+export interface DeadCodeReport {
+  totalFindings: number;
+  findingsByKind: Record<string, number>;
+  findings: Array<DeadCodeFinding & { file: string }>;
+}
+
+const cache = new WeakMap<ParsedDocument, DeadCodeFinding[]>();
+
+/**
+ * Finds the dead code of a single file: everything but unused exports,
+ * which need the files that could import them. Cached per document.
+ */
+export function findDeadCode(doc: ParsedDocument): DeadCodeFinding[] {
+  let findings = cache.get(doc);
+  if (!findings) {
+    if (supportsTypeScriptAst(doc.language)) findings = scriptDeadCode(doc);
+    else if (doc.profile.blocks) findings = pythonDeadCode(doc, doc.profile.blocks(doc));
+    else findings = braceDeadCode(doc);
+    findings.sort((a, b) => a.line - b.line || a.column - b.column);
+    cache.set(doc, findings);
+  }
+  return findings;
+}
+
+/**
+ * Finds the dead code of a set of files, including exports that no other
+ * file of the set imports. Exports are only checked when there are at least
+ * two files; those of files nothing imports, usually entry points and
+ * public APIs, get low confidence.
+ */
+export function analyzeDeadCode(sources: DeadCodeSource[]): DeadCodeReport {
+  const files = sources.map((source) => {
+    const doc = source.doc ?? parseDocument(source.code, source.language);
+    return { ...source, language: doc.language, key: normalizeFilename(source.filename), doc };
+  });
+  const known = new Set(files.map((file) => file.key));
+
+  // Names each file's importers take from it; null once one takes everything
+  const imported = new Map<string, Set<string> | null>();
+  for (const file of files) {
+    for (const statement of extractImports(file.doc)) {
+      for (const target of resolveImport(file.key, file.language, statement, known)) {
+        if (target === file.key || imported.get(target) === null) continue;
+        const names = importedNames(statement, target, file.doc.profile);
+        imported.set(target, names ? new Set([...(imported.get(target) ?? []), ...names]) : null);
+      }
+    }
+  }
+
+  const findings = files.flatMap((file) => {
+    if (file.rules && !file.rules["dead-code"].enabled) return [];
+    const found = [...findDeadCode(file.doc)];
+    if (files.length > 1) found.push(...unusedExports(file.doc, imported.get(file.key), imported.has(file.key)));
+    const { kept } = applySuppressions(found, file.doc, ["dead-code"], (finding) => ({
+      rule: "dead-code",
+      line: finding.line,
+    }));
+    return kept
+      .sort((a, b) => a.line - b.line || a.column - b.column)
+      .map((finding) => ({ file: file.filename, ...finding }));
+  });
+
+  const findingsByKind: Record<string, number> = {};
+  findings.forEach((finding) => {
+    findingsByKind[finding.kind] = (findingsByKind[finding.kind] || 0) + 1;
+  });
+  return { totalFindings: findings.length, findingsByKind, findings };
+}
+
+/**
+ * Names an import takes from one of its targets, or undefined when it uses
+ * the whole module, as `from pkg import mod` does with the submodule
+ */
+function importedNames(statement: ImportStatement, target: string, profile: LanguageProfile): string[] | undefined {
+  if (!statement.names) return undefined;
+  if (profile.imports?.usesWholeModule?.(statement, target)) return undefined;
+  return statement.names;
+}
+
+function unusedExports(
+  doc: ParsedDocument,
+  imported: Set<string> | null | undefined,
+  isImported: boolean
+): DeadCodeFinding[] {
+  if (imported === null) return [];
+  return exportedNames(doc)
+    .filter(({ name }) => !imported?.has(name))
+    .map(({ name, line, column }) => ({
+      kind: "unused-export",
+      name,
+      message: `${name === "default" ? "Default export" : `Export '${name}'`} is not imported by any other file`,
+      line,
+      column,
+      confidence: isImported ? "medium" : "low",
+    }));
+}
+
+/**
+ * Declarations a file exports: ES exports for JS/TS, and public top-level
+ * functions and classes for Python. Re-exports are left out; the names they
+ * pass on count as imported from the original file.
+ */
+function exportedNames(doc: ParsedDocument): Array<{ name: string; line: number; column: number }> {
+  const structure = doc.profile.blocks?.(doc);
+  if (structure) {
+    const { blocks, logicalLines } = structure;
+    return blocks
+      .filter((block) => (block.kind === "def" || block.kind === "class") && !block.name!.startsWith("_"))
+      .map((block) => {
+        const header = logicalLines.find((line) => line.startLine === block.headerLine)!;
+        const name = header.tokens.find((token) => token.value === block.name)!;
+        return { name: block.name!, line: name.line, column: name.column };
+      });
+  }
+  if (!supportsTypeScriptAst(doc.language)) return [];
+
+  const sourceFile = getSourceFile(doc);
+  const exports: Array<{ name: string; line: number; column: number }> = [];
+  const add = (name: string, node: ts.Node) => exports.push({ name, ...positionOf(sourceFile, node) });
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      if (!statement.isExportEquals) add("default", statement);
+    } else if (ts.isExportDeclaration(statement)) {
+      if (!statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        statement.exportClause.elements.forEach((element) => add(element.name.text, element.name));
+      }
+    } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+      if (hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) {
+        add("default", (statement as ts.DeclarationStatement).name ?? statement);
+      } else if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) =>
+          bindingNames(declaration.name).forEach((name) => add(name.text, name))
+        );
+      } else {
+        const name = (statement as ts.DeclarationStatement).name;
+        if (name && ts.isIdentifier(name)) add(name.text, name);
+      }
+    }
+  }
+  return exports;
+}
+
+// --- JavaScript and TypeScript ---
+
+const DECLARATION_KINDS = new Set([
+  ts.SyntaxKind.VariableDeclaration,
+  ts.SyntaxKind.Parameter,
+  ts.SyntaxKind.BindingElement,
+  ts.SyntaxKind.FunctionDeclaration,
+  ts.SyntaxKind.FunctionExpression,
+  ts.SyntaxKind.ClassDeclaration,
+  ts.SyntaxKind.ClassExpression,
+  ts.SyntaxKind.MethodDeclaration,
+  ts.SyntaxKind.PropertyDeclaration,
+  ts.SyntaxKind.GetAccessor,
+  ts.SyntaxKind.SetAccessor,
+  ts.SyntaxKind.ImportClause,
+  ts.SyntaxKind.ImportSpecifier,
+  ts.SyntaxKind.NamespaceImport,
+  ts.SyntaxKind.ImportEqualsDeclaration,
+  ts.SyntaxKind.EnumDeclaration,
+  ts.SyntaxKind.InterfaceDeclaration,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.ModuleDeclaration,
+]);
+
+function scriptDeadCode(doc: ParsedDocument): DeadCodeFinding[] {
+  const sourceFile = getSourceFile(doc);
+  const checker = getTypeChecker(sourceFile);
+  const findings: DeadCodeFinding[] = [];
+  // Top-level declarations of scripts are globals other scripts may use
+  const isGlobal = (statement: ts.Node) => statement.parent === sourceFile && !ts.isExternalModule(sourceFile);
+
+  // Identifiers that read each symbol; plain `x = ...` statements only write it
+  const reads = new Map<ts.Symbol, ts.Node[]>();
+  const collect = (node: ts.Node) => {
+    if ((ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) && !isDeclarationName(node) && !isWrite(node)) {
+      const symbol = referencedSymbol(checker, node);
+      if (symbol) {
+        if (!reads.has(symbol)) reads.set(symbol, []);
+        reads.get(symbol)!.push(node);
+      }
+    }
+    ts.forEachChild(node, collect);
+  };
+  collect(sourceFile);
+
+  /** Whether the declared name is read anywhere but inside `self`, such as a recursive call */
+  const isRead = (name: ts.Identifier | ts.PrivateIdentifier, self?: ts.Node) => {
+    const symbol = checker.getSymbolAtLocation(name);
+    if (!symbol) return true;
+    return (reads.get(symbol) ?? []).some((ref) => !self || ref.pos < self.pos || ref.end > self.end);
+  };
+  type Name = ts.Identifier | ts.PrivateIdentifier;
+  const report = (kind: DeadCodeKind, name: Name, message: string, confidence: Confidence) =>
+    findings.push({ kind, name: name.text, message, ...positionOf(sourceFile, name), confidence });
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isVariableDeclarationList(node.parent)) {
+      const statement = node.parent.parent;
+      const loop = ts.isForInStatement(statement) || ts.isForOfStatement(statement);
+      if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword) && !isGlobal(statement) && !isAmbient(node)) {
+        for (const name of bindingNames(node.name)) {
+          if (name.text.startsWith("_") || hasRestSibling(name) || isRead(name)) continue;
+          report("unused-local", name, `Variable '${name.text}' is never used`, loop ? "medium" : "high");
+        }
+      }
+    } else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+      const what = ts.isFunctionDeclaration(node) ? "Function" : "Class";
+      const exported = hasModifier(node, ts.SyntaxKind.ExportKeyword) || isGlobal(node);
+      if (!exported && !isAmbient(node) && !node.name.text.startsWith("_") && !isRead(node.name, node)) {
+        report("unused-local", node.name, `${what} '${node.name.text}' is never used`, "high");
+      }
+    }
+
+    if (isFunctionWithBody(node) && !ts.isSetAccessorDeclaration(node) && !usesArguments(node.body)) {
+      checkParameters(node);
+    }
+
+    if (
+      (ts.isMethodDeclaration(node) || ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) &&
+      ts.isClassLike(node.parent) &&
+      (ts.isPrivateIdentifier(node.name) || hasModifier(node, ts.SyntaxKind.PrivateKeyword)) &&
+      (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name)) &&
+      !isRead(node.name, node)
+    ) {
+      // `private` can be bypassed with obj["name"]; `#name` cannot
+      const name = node.name.text;
+      const mentioned = doc.codeTokens.some((t) => t.kind === "string" && t.value.slice(1, -1) === name);
+      const confidence = ts.isPrivateIdentifier(node.name) || !mentioned ? "high" : "medium";
+      report("unused-private-method", node.name, `Private method '${name}' is never called`, confidence);
+    }
+
+    if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      checkStatements(node.statements);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  const checkParameters = (fn: FunctionLikeWithBody) => {
+    const names = fn.parameters.map((parameter) =>
+      ts.isParameterPropertyDeclaration(parameter, parameter.parent) ? [] : bindingNames(parameter.name)
+    );
+    names.forEach((group, index) => {
+      for (const name of group) {
+        if (name.text === "this" || name.text.startsWith("_") || hasRestSibling(name) || isRead(name)) continue;
+        // Parameters before a used one have to stay to keep its position
+        const keepsPosition = names.slice(index + 1).some((later) => later.some((n) => isRead(n)));
+        const confidence = keepsPosition ? "low" : hasImposedSignature(fn) ? "medium" : "high";
+        const message = `Parameter '${name.text}' of '${getFunctionName(fn, sourceFile)}' is never used`;
+        report("unused-parameter", name, message, confidence);
+      }
+    });
+  };
+
+  const checkStatements = (statements: ts.NodeArray<ts.Statement>) => {
+    for (let i = 0; i < statements.length; i++) {
+      const exit = scriptExit(statements[i]);
+      if (!exit) continue;
+      const next = statements.slice(i + 1).find((statement) => !isHoisted(statement));
+      if (next) {
+        findings.push({
+          kind: "unreachable-code",
+          message: `Unreachable code after ${exit}`,
+          ...positionOf(sourceFile, next),
+          confidence: "high",
+        });
+      }
+      return;
+    }
+  };
+
+  visit(sourceFile);
+  return findings;
+}
+
+/**
+ * Describes how a statement leaves its statement list, or undefined when
+ * control can continue after it
+ */
+function scriptExit(statement: ts.Statement): string | undefined {
+  if (ts.isReturnStatement(statement)) return "return statement";
+  if (ts.isThrowStatement(statement)) return "throw statement";
+  if (ts.isBreakStatement(statement)) return "break statement";
+  if (ts.isContinueStatement(statement)) return "continue statement";
+  if (ts.isBlock(statement)) {
+    for (const inner of statement.statements) {
+      const exit = scriptExit(inner);
+      if (exit) return exit;
+    }
+    return undefined;
+  }
+  if (ts.isIfStatement(statement)) {
+    const exits =
+      statement.elseStatement && scriptExit(statement.thenStatement) && scriptExit(statement.elseStatement);
+    return exits ? "if/else whose branches all exit" : undefined;
+  }
+  if (ts.isTryStatement(statement)) {
+    if (statement.finallyBlock && scriptExit(statement.finallyBlock)) return scriptExit(statement.finallyBlock);
+    const exits =
+      scriptExit(statement.tryBlock) && (!statement.catchClause || scriptExit(statement.catchClause.block));
+    return exits ? "try/catch whose branches all exit" : undefined;
+  }
+  return undefined;
+}
+
+/** Declarations that take effect before the code around them runs */
+function isHoisted(statement: ts.Statement): boolean {
+  return (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEmptyStatement(statement)
+  );
+}
+
+function isDeclarationName(node: ts.Identifier | ts.PrivateIdentifier): boolean {
+  const parent = node.parent as ts.Node & { name?: ts.Node };
+  return DECLARATION_KINDS.has(parent.kind) && parent.name === node;
+}
+
+function isWrite(node: ts.Node): boolean {
+  const parent = node.parent;
+  return (
+    ts.isBinaryExpression(parent) &&
+    parent.left === node &&
+    parent.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+    ts.isExpressionStatement(parent.parent)
+  );
+}
+
+function referencedSymbol(
+  checker: ts.TypeChecker,
+  node: ts.Identifier | ts.PrivateIdentifier
+): ts.Symbol | undefined {
+  const parent = node.parent;
+  if (ts.isShorthandPropertyAssignment(parent) && parent.name === node) {
+    return checker.getShorthandAssignmentValueSymbol(parent);
+  }
+  if (ts.isExportSpecifier(parent)) return checker.getExportSpecifierLocalTargetSymbol(parent);
+  return checker.getSymbolAtLocation(node);
+}
+
+/** `const { used, ...rest } = obj` names `used` only to leave it out of `rest` */
+function hasRestSibling(name: ts.Identifier): boolean {
+  const element = name.parent;
+  return (
+    ts.isBindingElement(element) &&
+    ts.isObjectBindingPattern(element.parent) &&
+    element.parent.elements.some((sibling) => sibling.dotDotDotToken !== undefined)
+  );
+}
+
+/**
+ * Methods, exported functions and callbacks have parameter lists their
+ * callers decide
+ */
+function hasImposedSignature(fn: FunctionLikeWithBody): boolean {
+  if (ts.isConstructorDeclaration(fn)) return false;
+  if (ts.isFunctionDeclaration(fn)) return hasModifier(fn, ts.SyntaxKind.ExportKeyword);
+  if (!ts.isVariableDeclaration(fn.parent)) return true;
+  return hasModifier(fn.parent.parent.parent, ts.SyntaxKind.ExportKeyword);
+}
+
+function usesArguments(node: ts.Node): boolean {
+  const found = ts.forEachChild(
+    node,
+    (child) => (ts.isIdentifier(child) && child.text === "arguments") || usesArguments(child)
+  );
+  return found ?? false;
+}
+
+/** Whether a node is inside a `declare` or a declaration file, and so has no runtime code */
+function isAmbient(node: ts.Node): boolean {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (hasModifier(current, ts.SyntaxKind.DeclareKeyword)) return true;
+  }
+  return node.getSourceFile().isDeclarationFile;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return (ts.canHaveModifiers(node) && ts.getModifiers(node)?.some((m) => m.kind === kind)) ?? false;
+}
+
+function positionOf(sourceFile: ts.SourceFile, node: ts.Node): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1, column: character + 1 };
+}
+
+// --- Python ---
+
+const EXIT_KEYWORDS = new Set(["return", "raise", "throw", "break", "continue"]);
+const PYTHON_CLAUSES = new Set(["elif", "else", "except", "finally"]);
+const PYTHON_DYNAMIC_SCOPE = new Set(["locals", "vars", "eval", "exec"]);
+
+function pythonDeadCode(doc: ParsedDocument, structure: PythonStructure): DeadCodeFinding[] {
+  const { logicalLines, blocks, functions, classes } = structure;
+  const findings: DeadCodeFinding[] = [];
+  const lineAt = new Map(logicalLines.map((line) => [line.startLine, line]));
+  const blockAt = new Map([...blocks, ...blocks.flatMap(descendants)].map((block) => [block.headerLine, block]));
+  const parents = new Map<PythonBlock, PythonBlock>();
+  for (const block of blockAt.values()) block.children.forEach((child) => parents.set(child, block));
+
+  /** Statements of a block body: its logical lines at the body's indentation */
+  const bodyOf = (block: PythonBlock): LogicalLine[] => {
+    const header = lineAt.get(block.headerLine)!;
+    const lines = logicalLines.filter((line) => line.startLine > header.endLine && line.startLine <= block.endLine);
+    return lines.filter((line) => line.indent === lines[0]?.indent);
+  };
+  /** Tokens after a block's header colon up to its end, nested blocks included */
+  const tokensOf = (block: PythonBlock): Token[] => {
+    const header = lineAt.get(block.headerLine)!;
+    const inline = header.tokens.slice(findTopLevelColon(header.tokens) + 1);
+    return [...inline, ...doc.codeTokens.filter((t) => t.line > header.endLine && t.line <= block.endLine)];
+  };
+  const nameToken = (block: PythonBlock) => lineAt.get(block.headerLine)!.tokens.find((t) => t.value === block.name)!;
+
+  for (const fn of functions) {
+    const body = tokensOf(fn);
+    if (body.some((t, i) => PYTHON_DYNAMIC_SCOPE.has(t.value) && body[i + 1]?.value === "(")) continue;
+    const isLoad = (token: Token, name: string) =>
+      token.kind === "identifier" && token.value === name && body[body.indexOf(token) - 1]?.value !== ".";
+    const loads = (name: string, ignored: Set<Token>) => body.some((t) => !ignored.has(t) && isLoad(t, name));
+
+    // Parameters
+    const parent = parents.get(fn);
+    if (!isStub(bodyOf(fn))) {
+      const header = lineAt.get(fn.headerLine)!;
+      const used = fn.parameters.map((name) => loads(name, new Set()));
+      fn.parameters.forEach((name, index) => {
+        if (used[index] || name.startsWith("_")) return;
+        const token = header.tokens.find((t) => t.kind === "identifier" && t.value === name)!;
+        const keepsPosition = used.slice(index + 1).some(Boolean);
+        const imposed = parent?.kind === "class" || fn.decorators.length > 0;
+        findings.push({
+          kind: "unused-parameter",
+          name,
+          message: `Parameter '${name}' of '${fn.name}' is never used`,
+          line: token.line,
+          column: token.column,
+          confidence: keepsPosition ? "low" : imposed ? "medium" : "high",
+        });
+      });
+    }
+
+    // Locals: assignment and loop targets, and nested functions and classes
+    const nested = descendants(fn).filter((block) => block.kind === "def" || block.kind === "class");
+    const ownLines = logicalLines.filter(
+      (line) =>
+        line.startLine > fn.headerLine &&
+        line.endLine <= fn.endLine &&
+        !nested.some((block) => line.startLine > block.headerLine && line.startLine <= block.endLine)
+    );
+    const declared = new Set<string>();
+    const targets = new Map<string, { token: Token; unpacked: boolean }[]>();
+    for (const line of ownLines) {
+      const first = line.tokens[0].value;
+      if (first === "global" || first === "nonlocal") {
+        line.tokens.slice(1).forEach((t) => t.kind === "identifier" && declared.add(t.value));
+        continue;
+      }
+      for (const group of assignmentTargets(line.tokens)) {
+        for (const token of group) {
+          if (!targets.has(token.value)) targets.set(token.value, []);
+          targets.get(token.value)!.push({ token, unpacked: group.length > 1 || first === "for" });
+        }
+      }
+    }
+    const targetTokens = new Set([...targets.values()].flat().map(({ token }) => token));
+    targets.forEach((assignments, name) => {
+      if (name.startsWith("_") || declared.has(name) || fn.parameters.includes(name)) return;
+      if (loads(name, targetTokens)) return;
+      const { token, unpacked } = assignments[0];
+      findings.push({
+        kind: "unused-local",
+        name,
+        message: `Variable '${name}' is never used`,
+        line: token.line,
+        column: token.column,
+        confidence: unpacked ? "medium" : "high",
+      });
+    });
+    for (const block of fn.children.filter((child) => child.kind === "def" || child.kind === "class")) {
+      const name = nameToken(block);
+      const outside = body.filter((t) => t.line < block.startLine || t.line > block.endLine);
+      if (block.name!.startsWith("_") || block.decorators.length > 0) continue;
+      const loaded = (t: Token, i: number) => t.kind === "identifier" && outside[i - 1]?.value !== ".";
+      if (outside.some((t, i) => t.value === block.name && loaded(t, i))) continue;
+      findings.push({
+        kind: "unused-local",
+        name: block.name,
+        message: `${block.kind === "def" ? "Function" : "Class"} '${block.name}' is never used`,
+        line: name.line,
+        column: name.column,
+        confidence: "high",
+      });
+    }
+  }
+
+  // Private methods: `__name` is mangled to its class, `_name` is only a convention
+  for (const cls of classes) {
+    for (const method of cls.children) {
+      const name = method.name;
+      if (method.kind !== "def" || !name || !/^_(?!_.*__$)/.test(name)) continue;
+      if (method.decorators.some((d) => !/^(?:staticmethod|classmethod)$/.test(d.trim()))) continue;
+      // Any other mention counts, including getattr() strings
+      const mentions = (t: Token) =>
+        t.kind === "identifier"
+          ? t.value === name
+          : t.kind === "string" && /^\w*['"]+(.*?)['"]+$/.exec(t.value)?.[1] === name;
+      const outside = (t: Token) => t.line < method.startLine || t.line > method.endLine;
+      const referenced = doc.codeTokens.some((t) => outside(t) && mentions(t));
+      if (referenced) continue;
+      const token = nameToken(method);
+      findings.push({
+        kind: "unused-private-method",
+        name,
+        message: `Private method '${name}' is never called`,
+        line: token.line,
+        column: token.column,
+        confidence: name.startsWith("__") ? "high" : "medium",
+      });
+    }
+  }
+
+  // Unreachable statements, per body and at module level
+  const exitOf = (statements: LogicalLine[], index: number): string | undefined => {
+    const first = statements[index].tokens[0];
+    if (first.kind === "keyword" && EXIT_KEYWORDS.has(first.value)) return `${first.value} statement`;
+    const block = blockAt.get(statements[index].startLine);
+    if (block?.kind !== "if") return undefined;
+    const branches = [block];
+    for (let i = index + 1; i < statements.length; i++) {
+      const branch = blockAt.get(statements[i].startLine);
+      if (!branch || (branch.kind !== "elif" && branch.kind !== "else")) break;
+      branches.push(branch);
+    }
+    const exhaustive = branches[branches.length - 1].kind === "else" && branches.every(blockExits);
+    return exhaustive ? "if/else whose branches all exit" : undefined;
+  };
+  const blockExits = (block: PythonBlock): boolean => {
+    const header = lineAt.get(block.headerLine)!;
+    const inline = header.tokens[findTopLevelColon(header.tokens) + 1];
+    if (inline) return inline.kind === "keyword" && EXIT_KEYWORDS.has(inline.value);
+    const statements = bodyOf(block);
+    return statements.some((_, i) => exitOf(statements, i) !== undefined);
+  };
+  const checkBody = (statements: LogicalLine[]) => {
+    for (let i = 0; i < statements.length; i++) {
+      const exit = exitOf(statements, i);
+      if (!exit) continue;
+      const next = statements.slice(i + 1).find((line) => !PYTHON_CLAUSES.has(line.tokens[0].value));
+      if (next) {
+        findings.push({
+          kind: "unreachable-code",
+          message: `Unreachable code after ${exit}`,
+          line: next.startLine,
+          column: next.tokens[0].column,
+          confidence: "high",
+        });
+      }
+      return;
+    }
+  };
+  const topIndent = Math.min(...logicalLines.map((line) => line.indent));
+  checkBody(logicalLines.filter((line) => line.indent === topIndent));
+  blockAt.forEach((block) => checkBody(bodyOf(block)));
+
+  return findings;
+}
+
+/**
+ * Groups of names a logical line assigns: each `a = ...`, `a, b = ...` or
+ * `a: int = ...` target list, and the targets of a `for` loop
+ */
+function assignmentTargets(tokens: Token[]): Token[][] {
+  // Brackets may group targets but not subscript them
+  const isTargetList = (part: Token[]) =>
+    part.some((t) => t.kind === "identifier") &&
+    part.every(
+      (t, i) =>
+        t.kind === "identifier" ||
+        [",", ")", "]", "*"].includes(t.value) ||
+        (["(", "["].includes(t.value) && (i === 0 || [",", "(", "["].includes(part[i - 1].value)))
+    );
+  const names = (part: Token[]) => part.filter((t) => t.kind === "identifier");
+
+  const first = tokens[0];
+  const loop = first.value === "for" ? 0 : first.value === "async" && tokens[1]?.value === "for" ? 1 : -1;
+  if (loop !== -1) {
+    const end = tokens.findIndex((t) => t.kind === "keyword" && t.value === "in");
+    const part = tokens.slice(loop + 1, end);
+    return end !== -1 && isTargetList(part) ? [names(part)] : [];
+  }
+  if (first.kind === "keyword") return [];
+
+  // Split at top-level `=`; every part but the last is a target list
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (["(", "[", "{"].includes(token.value)) depth++;
+    else if ([")", "]", "}"].includes(token.value)) depth--;
+    if (token.value === "=" && depth === 0) parts.push([]);
+    else parts[parts.length - 1].push(token);
+  }
+  const groups = parts.slice(0, -1).map((part) => {
+    // `name: annotation = value`
+    const annotated = part[1]?.value === ":" && part[0].kind === "identifier";
+    return annotated ? [part[0]] : isTargetList(part) ? names(part) : [];
+  });
+  return groups.filter((group) => group.length > 0);
+}
+
+/** Bodies of abstract methods and protocol stubs: `pass`, `...`, docstrings and NotImplementedError */
+function isStub(statements: LogicalLine[]): boolean {
+  return statements.every(({ tokens }) => {
+    const [first, second] = tokens;
+    if (tokens.length === 1) return first.value === "pass" || first.value === "..." || first.kind === "string";
+    return first.value === "raise" && second?.value === "NotImplementedError";
+  });
+}
+
+// --- Java and other brace languages ---
+
+const OPENING = new Set(["(", "[", "{"]);
+const CLOSING = new Set([")", "]", "}"]);
+// Tokens after a closing brace that continue the same statement
+const BLOCK_CONTINUATIONS = new Set([";", ")", ",", ".", "]", "else", "catch", "finally"]);
+// Private methods the runtime calls through reflection
+const RUNTIME_CALLBACKS = new Set(["writeObject", "readObject", "readObjectNoData", "writeReplace", "readResolve"]);
+
+function braceDeadCode(doc: ParsedDocument): DeadCodeFinding[] {
+  const tokens = statementTokens(doc);
+  const findings: DeadCodeFinding[] = [];
+
+  const partner = new Map<number, number>();
+  const open: number[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind !== "punctuator") return;
+    if (OPENING.has(token.value)) open.push(i);
+    else if (CLOSING.has(token.value) && open.length > 0) partner.set(open.pop()!, i);
+  });
+
+  /** Index of the last token of the plain statement starting at `start` */
+  const statementEnd = (start: number, end: number): number => {
+    for (let i = start; i < end; i++) {
+      const value = tokens[i].value;
+      if (value === ";") return i;
+      const close = partner.get(i);
+      if (close === undefined) continue;
+      i = close;
+      const next = tokens[i + 1]?.value;
+      const continued = BLOCK_CONTINUATIONS.has(next) || (next === "while" && tokens[start].value === "do");
+      if (tokens[close].value === "}" && !continued) return i;
+    }
+    return end - 1;
+  };
+  const isLabel = (i: number) =>
+    tokens[i].value === "case" ||
+    (tokens[i].value === "default" && [":", "->"].includes(tokens[i + 1]?.value)) ||
+    (tokens[i].kind === "identifier" && tokens[i + 1]?.value === ":");
+  const labelEnd = (i: number, end: number) => {
+    for (let j = i; j < end; j++) {
+      if (tokens[j].value === ":" || tokens[j].value === "->") return j;
+      j = partner.get(j) ?? j;
+    }
+    return end - 1;
+  };
+
+  const parse = (start: number, end: number): { last: number; exit?: string } => {
+    const token = tokens[start];
+    if (token.value === "{" && partner.has(start)) {
+      const close = partner.get(start)!;
+      return { last: close, exit: listExit(start + 1, close) };
+    }
+    if (token.kind === "keyword" && EXIT_KEYWORDS.has(token.value)) {
+      return { last: statementEnd(start, end), exit: `${token.value} statement` };
+    }
+    if (token.kind === "keyword" && token.value === "if") {
+      const body = ifBody(start + 1, end);
+      if (body >= end) return { last: end - 1 };
+      const then = parse(body, end);
+      if (tokens[then.last + 1]?.value !== "else" || then.last + 2 >= end) return { last: then.last };
+      const otherwise = parse(then.last + 2, end);
+      const exits = then.exit !== undefined && otherwise.exit !== undefined;
+      return { last: otherwise.last, exit: exits ? "if/else whose branches all exit" : undefined };
+    }
+    if (isLabel(start)) return { last: labelEnd(start, end) };
+    return { last: statementEnd(start, end) };
+  };
+  /** First token of the statement an `if` controls: after `(...)`, or at the `{` of a paren-less condition */
+  const ifBody = (start: number, end: number): number => {
+    const close = tokens[start]?.value === "(" ? partner.get(start) : undefined;
+    const after = close === undefined ? undefined : tokens[close + 1];
+    if (close !== undefined && (after?.value === "{" || after?.kind !== "punctuator")) return close + 1;
+    for (let i = start; i < end; i++) {
+      if (tokens[i].value === "{") return i;
+      i = partner.get(i) ?? i;
+    }
+    return end;
+  };
+  const listExit = (start: number, end: number): string | undefined => {
+    for (let i = start; i < end; ) {
+      const statement = parse(i, end);
+      if (statement.exit) return statement.exit;
+      i = statement.last + 1;
+    }
+    return undefined;
+  };
+
+  // Every brace block is a statement list; labels of switch cases are reachable again
+  tokens.forEach((token, index) => {
+    if (token.value !== "{" || !partner.has(index)) return;
+    const end = partner.get(index)!;
+    let exit: string | undefined;
+    for (let i = index + 1; i < end; ) {
+      const statement = parse(i, end);
+      if (isLabel(i)) exit = undefined;
+      else if (exit && tokens[i].value !== ";") {
+        findings.push({
+          kind: "unreachable-code",
+          message: `Unreachable code after ${exit}`,
+          line: tokens[i].line,
+          column: tokens[i].column,
+          confidence: "high",
+        });
+        exit = undefined;
+      } else if (statement.exit) exit = statement.exit;
+      i = statement.last + 1;
+    }
+  });
+
+  // Private methods: `private ... name(` outside field initializers
+  const classNames = new Set(
+    tokens.filter((t, i) => ["class", "record", "enum"].includes(tokens[i - 1]?.value ?? "")).map((t) => t.value)
+  );
+  tokens.forEach((token, index) => {
+    if (token.value !== "private") return;
+    let paren = index + 1;
+    while (paren < tokens.length && !["(", "=", ";", "{"].includes(tokens[paren].value)) paren++;
+    const name = tokens[paren - 1];
+    if (tokens[paren]?.value !== "(" || name.kind !== "identifier") return;
+    if (classNames.has(name.value) || RUNTIME_CALLBACKS.has(name.value)) return;
+
+    const close = partner.get(paren) ?? paren;
+    let bodyEnd = close;
+    while (bodyEnd < tokens.length && !["{", ";"].includes(tokens[bodyEnd].value)) bodyEnd++;
+    bodyEnd = partner.get(bodyEnd) ?? bodyEnd;
+    const called = tokens.some(
+      (t, i) =>
+        (i < index || i > bodyEnd) &&
+        t.value === name.value &&
+        (tokens[i + 1]?.value === "(" || tokens[i - 1]?.value === "::" || t.kind === "string")
+    );
+    if (called) return;
+
+    // Annotated methods are usually called by a framework
+    let modifier = index - 1;
+    while (modifier >= 0 && ["keyword", "identifier"].includes(tokens[modifier].kind)) modifier--;
+    const annotated = tokens[modifier]?.value === "@" || tokens[modifier]?.value === ")";
+    findings.push({
+      kind: "unused-private-method",
+      name: name.value,
+      message: `Private method '${name.value}' is never called`,
+      line: name.line,
+      column: name.column,
+      confidence: annotated ? "low" : "high",
+    });
+  });
+
+  return findings;
+}
@@ -0,0 +1,477 @@
+/**
+ * Dependency graph module
+ * Resolves imports between a set of files and reports cycles and coupling
+ */
+
+import path from "node:path";
+import { parseDocument, ParsedDocument, Token } from "./parser.js";
+import { getLanguageProfile } from "./languages.js";
+
+export type ImportKind = "import" | "export" | "require" | "dynamic";
+
+export interface ImportStatement {
+  specifier: string;
+  line: number;
+  kind: ImportKind;
+  /**
+   * Names the statement imports: ES import and re-export clauses (`default`
+   * for default imports) and Python `from x import a, b`, whose names are
+   * tried as submodules before `x` itself. Absent when the whole module is
+   * used, as by namespace imports, `export *` and `require()`.
+   */
+  names?: string[];
+}
+
+export interface DependencyNode {
+  file: string;
+  language: string;
+  /** Number of distinct files that import this file */
+  fanIn: number;
+  /** Number of distinct files this file imports */
+  fanOut: number;
+  /** fanOut / (fanIn + fanOut): 0 for files others only depend on, 1 for files nothing depends on */
+  instability: number;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  specifier: string;
+  line: number;
+  kind: ImportKind;
+}
+
+export interface UnresolvedImport {
+  file: string;
+  specifier: string;
+  line: number;
+  /** Package or standard-library imports are external; relative imports that match no file are not */
+  external: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  unresolved: UnresolvedImport[];
+  /** Files that import each other, one entry per strongly connected component */
+  cycles: string[][];
+}
+
+export interface DependencySource {
+  filename: string;
+  code: string;
+  language: string;
+}
+
+// Declaration files come last, as the compiler prefers sources to them
+const SCRIPT_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs", ".d.ts"];
+
+/**
+ * Builds the import graph between the given files. Only imports that resolve
+ * to one of the files become edges; everything else is listed as unresolved.
+ */
+export function buildDependencyGraph(sources: DependencySource[]): DependencyGraph {
+  const files = sources.map((source) => ({ ...source, filename: normalizeFilename(source.filename) }));
+  const known = new Set(files.map((f) => f.filename));
+  const edges: DependencyEdge[] = [];
+  const unresolved: UnresolvedImport[] = [];
+  const seenEdges = new Set<string>();
+
+  for (const file of files) {
+    const doc = parseDocument(file.code, file.language);
+    for (const statement of extractImports(doc)) {
+      const targets = resolveImport(file.filename, doc.language, statement, known);
+      if (targets.length === 0) {
+        unresolved.push({
+          file: file.filename,
+          specifier: statement.specifier,
+          line: statement.line,
+          external: doc.profile.imports!.isExternal(statement.specifier),
+        });
+      }
+      for (const to of targets) {
+        const key = `${file.filename}\0${to}`;
+        if (seenEdges.has(key)) continue;
+        seenEdges.add(key);
+        edges.push({ from: file.filename, to, specifier: statement.specifier, line: statement.line, kind: statement.kind });
+      }
+    }
+  }
+
+  const fanIn = new Map<string, number>();
+  const fanOut = new Map<string, number>();
+  for (const edge of edges) {
+    fanOut.set(edge.from, (fanOut.get(edge.from) || 0) + 1);
+    fanIn.set(edge.to, (fanIn.get(edge.to) || 0) + 1);
+  }
+
+  const nodes = files.map((file) => {
+    const incoming = fanIn.get(file.filename) || 0;
+    const outgoing = fanOut.get(file.filename) || 0;
+    return {
+      file: file.filename,
+      language: file.language,
+      fanIn: incoming,
+      fanOut: outgoing,
+      instability: incoming + outgoing === 0 ? 0 : Math.round((outgoing / (incoming + outgoing)) * 100) / 100,
+    };
+  });
+
+  return { nodes, edges, unresolved, cycles: findCycles(files.map((f) => f.filename), edges) };
+}
+
+/**
+ * Lists the import statements of a document, or none for languages without
+ * an import model
+ */
+export function extractImports(doc: ParsedDocument): ImportStatement[] {
+  return doc.profile.imports?.extract(doc) ?? [];
+}
+
+/**
+ * ES imports and re-exports, and require() and import() calls
+ */
+export function extractScriptImports(tokens: Token[]): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const previous = tokens[i - 1];
+    if (previous?.value === "." || previous?.value === "?.") continue;
+
+    if (token.value === "import" && token.kind === "keyword") {
+      const next = tokens[i + 1];
+      if (next?.value === "(") {
+        const specifier = literalValue(tokens[i + 2]);
+        if (specifier !== undefined) imports.push({ specifier, line: token.line, kind: "dynamic" });
+        continue;
+      }
+      if (next?.value === ".") continue; // import.meta
+
+      const literal = literalValue(next);
+      if (literal !== undefined) {
+        imports.push({ specifier: literal, line: token.line, kind: "import", names: [] });
+        continue;
+      }
+      const from = fromClause(tokens, i + 1, true);
+      const specifier = from === -1 ? undefined : literalValue(tokens[from + 1]);
+      if (specifier !== undefined) {
+        imports.push({ specifier, line: token.line, kind: "import", names: clauseNames(tokens, i + 1, from) });
+      }
+    } else if (token.value === "export" && token.kind === "keyword") {
+      const from = fromClause(tokens, i + 1, false);
+      const specifier = from === -1 ? undefined : literalValue(tokens[from + 1]);
+      if (specifier !== undefined) {
+        imports.push({ specifier, line: token.line, kind: "export", names: clauseNames(tokens, i + 1, from) });
+      }
+    } else if (token.value === "require" && tokens[i + 1]?.value === "(" && tokens[i + 3]?.value === ")") {
+      const specifier = literalValue(tokens[i + 2]);
+      if (specifier !== undefined) imports.push({ specifier, line: token.line, kind: "require" });
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * Finds the `from` of an `import ... from "x"` or `export ... from "x"`
+ * clause, or -1. Export clauses may only contain names, braces and `*`, so
+ * that `export function ...` is not scanned to the end of the file.
+ */
+function fromClause(tokens: Token[], start: number, isImport: boolean): number {
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value === "from" && token.kind === "identifier") {
+      return i;
+    }
+    if (token.value === ";") return -1;
+    const allowed =
+      token.kind === "identifier" ||
+      token.value === "{" ||
+      token.value === "}" ||
+      token.value === "," ||
+      token.value === "*" ||
+      token.value === "as" ||
+      token.value === "type" ||
+      token.value === "default";
+    if (!allowed) return -1;
+    if (!isImport && tokens[i - 1]?.value === "export" && token.value !== "{" && token.value !== "*") {
+      // `export const x` starts a declaration, `export type { x }` a clause
+      if (token.value !== "type" || tokens[i + 1]?.value !== "{") return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Names an import or re-export clause takes from the module, or undefined
+ * for `* as ns` and `export *`, which take all of them
+ */
+function clauseNames(tokens: Token[], start: number, end: number): string[] | undefined {
+  const names: string[] = [];
+  let braced = false;
+  for (let i = start; i < end; i++) {
+    const { value } = tokens[i];
+    if (value === "*") return undefined;
+    if (value === "{") braced = true;
+    else if (value === "}") braced = false;
+    else if (value === "," || value === "type" || tokens[i - 1]?.value === "as") continue;
+    else if (value !== "as") names.push(braced ? value : "default");
+  }
+  return names;
+}
+
+/**
+ * `import a.b` and `from ..pkg import a, b` statements
+ */
+export function extractPythonImports(tokens: Token[]): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== "keyword" || (i > 0 && tokens[i - 1].line === token.line && tokens[i - 1].value !== ";")) {
+      continue;
+    }
+
+    if (token.value === "import") {
+      // import a.b as c, d
+      let j = i + 1;
+      while (j < tokens.length) {
+        const [name, end] = dottedName(tokens, j);
+        if (!name) break;
+        imports.push({ specifier: name, line: token.line, kind: "import" });
+        j = end;
+        if (tokens[j]?.value === "as") j += 2;
+        if (tokens[j]?.value !== ",") break;
+        j++;
+      }
+    } else if (token.value === "from") {
+      // from ..pkg.mod import a, b
+      let j = i + 1;
+      let dots = "";
+      while (tokens[j]?.value === "." || tokens[j]?.value === "...") {
+        dots += tokens[j].value;
+        j++;
+      }
+      const [name, end] = dottedName(tokens, j);
+      j = end;
+      if (tokens[j]?.value !== "import") continue;
+      j++;
+
+      const names: string[] = [];
+      const parenthesized = tokens[j]?.value === "(";
+      if (parenthesized) j++;
+      while (tokens[j]?.kind === "identifier" && (parenthesized || tokens[j].line === token.line)) {
+        names.push(tokens[j].value);
+        j++;
+        if (tokens[j]?.value === "as") j += 2;
+        if (tokens[j]?.value !== ",") break;
+        j++;
+      }
+
+      imports.push({ specifier: dots + name, line: token.line, kind: "import", names });
+    }
+  }
+
+  return imports;
+}
+
+/**
+ * `import` declarations, static and wildcard ones included
+ */
+export function extractJavaImports(tokens: Token[]): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value !== "import" || token.kind !== "keyword") continue;
+
+    let j = i + 1;
+    if (tokens[j]?.value === "static") j++;
+    const [name, end] = dottedName(tokens, j);
+    const wildcard = tokens[end]?.value === "." && tokens[end + 1]?.value === "*";
+    if (name) imports.push({ specifier: wildcard ? `${name}.*` : name, line: token.line, kind: "import" });
+  }
+
+  return imports;
+}
+
+/**
+ * Reads `a.b.c` starting at token index `start`; returns the name and the
+ * index of the first token after it
+ */
+function dottedName(tokens: Token[], start: number): [string, number] {
+  let name = "";
+  let j = start;
+  while (tokens[j]?.kind === "identifier" || (tokens[j]?.kind === "keyword" && name.endsWith("."))) {
+    name += tokens[j].value;
+    j++;
+    if (tokens[j]?.value !== "." || tokens[j + 1]?.kind !== "identifier") break;
+    name += ".";
+    j++;
+  }
+  return [name, j];
+}
+
+function literalValue(token: Token | undefined): string | undefined {
+  if (!token || (token.kind !== "string" && token.kind !== "template")) return undefined;
+  if (token.kind === "template" && token.value.includes("${")) return undefined;
+  return token.value.slice(1, -1);
+}
+
+/**
+ * Resolves an import statement of the file `from` to the known files it
+ * refers to; filenames must be normalized
+ */
+export function resolveImport(
+  from: string,
+  language: string,
+  statement: ImportStatement,
+  known: Set<string>
+): string[] {
+  return getLanguageProfile(language).imports?.resolve(from, statement, known) ?? [];
+}
+
+export function resolveScript(from: string, specifier: string, known: Set<string>): string[] {
+  if (!specifier.startsWith(".") && !specifier.startsWith("/")) return [];
+
+  const base = specifier.startsWith("/")
+    ? normalizeFilename(specifier)
+    : path.posix.normalize(path.posix.join(path.posix.dirname(from), specifier));
+
+  const candidates = [base, ...SCRIPT_EXTENSIONS.map((ext) => base + ext)];
+  // TypeScript ESM imports name the emitted `.js` file
+  const emitted = base.match(/^(.*)\.(m|c)?jsx?$/);
+  if (emitted) {
+    const stem = emitted[1];
+    const flavour = emitted[2] ?? "";
+    candidates.push(`${stem}.${flavour}ts`, `${stem}.${flavour}tsx`, `${stem}.d.${flavour}ts`);
+  }
+  candidates.push(...SCRIPT_EXTENSIONS.map((ext) => `${base}/index${ext}`));
+
+  const match = candidates.find((candidate) => known.has(candidate));
+  return match ? [match] : [];
+}
+
+export function resolvePython(from: string, statement: ImportStatement, known: Set<string>): string[] {
+  const level = statement.specifier.match(/^\.*/)![0].length;
+  const module = statement.specifier.substring(level);
+  const modulePath = module ? module.split(".").join("/") : "";
+
+  const lookup = (relativePath: string): string | undefined => {
+    const options = relativePath ? [`${relativePath}.py`, `${relativePath}/__init__.py`] : ["__init__.py"];
+    if (level > 0) {
+      let directory = path.posix.dirname(from);
+      for (let i = 1; i < level; i++) directory = path.posix.dirname(directory);
+      const prefix = directory === "." ? "" : directory + "/";
+      return options.map((o) => normalizeFilename(prefix + o)).find((o) => known.has(o));
+    }
+    // Absolute imports may be rooted at any source directory of the project
+    return options
+      .map((option) => [...known].find((file) => file === option || file.endsWith("/" + option)))
+      .find((file) => file !== undefined);
+  };
+
+  const targets: string[] = [];
+  for (const name of statement.names ?? []) {
+    const submodule = lookup(modulePath ? `${modulePath}/${name}` : name);
+    if (submodule) targets.push(submodule);
+  }
+  // Names that are not submodules are attributes of the module itself
+  if (targets.length < (statement.names ?? []).length || targets.length === 0) {
+    const target = lookup(modulePath);
+    if (target && !targets.includes(target)) targets.push(target);
+  }
+  return targets;
+}
+
+export function resolveJava(specifier: string, known: Set<string>): string[] {
+  const parts = specifier.split(".");
+  if (parts[parts.length - 1] === "*") {
+    const directory = "/" + parts.slice(0, -1).join("/") + "/";
+    return [...known].filter((file) => {
+      const at = ("/" + file).lastIndexOf(directory);
+      return file.endsWith(".java") && at !== -1 && !("/" + file).substring(at + directory.length).includes("/");
+    });
+  }
+
+  // Static imports name a member of the class, so try successively shorter paths
+  for (let length = parts.length; length > 0; length--) {
+    const candidate = parts.slice(0, length).join("/") + ".java";
+    const match = [...known].find((file) => file === candidate || file.endsWith("/" + candidate));
+    if (match) return [match];
+  }
+  return [];
+}
+
+/**
+ * Whether `from pkg import mod` resolved to the submodule `mod`, which it
+ * imports as a whole
+ */
+export function importsPythonSubmodule(statement: ImportStatement, target: string): boolean {
+  const module = target.endsWith("/__init__.py") ? path.posix.dirname(target) : target;
+  return statement.names?.includes(path.posix.basename(module, ".py")) ?? false;
+}
+
+/**
+ * Tarjan's algorithm; every component of two or more files, or a file that
+ * imports itself, is a cycle. Cycles and their members are listed in the
+ * order the files were supplied.
+ */
+function findCycles(files: string[], edges: DependencyEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>(files.map((f) => [f, []]));
+  for (const edge of edges) adjacency.get(edge.from)!.push(edge.to);
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (file: string) => {
+    index.set(file, counter);
+    lowLink.set(file, counter);
+    counter++;
+    stack.push(file);
+    onStack.add(file);
+
+    for (const next of adjacency.get(file)!) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(file, Math.min(lowLink.get(file)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(file, Math.min(lowLink.get(file)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(file) === index.get(file)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== file);
+
+      const selfLoop = component.length === 1 && adjacency.get(file)!.includes(file);
+      if (component.length > 1 || selfLoop) components.push(component);
+    }
+  };
+
+  for (const file of files) {
+    if (!index.has(file)) visit(file);
+  }
+
+  const order = new Map(files.map((f, i) => [f, i]));
+  return components
+    .map((component) => component.sort((a, b) => order.get(a)! - order.get(b)!))
+    .sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+}
+
+/**
+ * Normalizes a filename to the form graph nodes and resolution use
+ */
+export function normalizeFilename(filename: string): string {
+  return path.posix.normalize(filename.replace(/\\/g, "/")).replace(/^\.\//, "");
+}
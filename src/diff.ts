@@ -0,0 +1,158 @@
+/**
+ * Diff module
+ * Line diffs (Myers' algorithm) rendered as unified diffs
+ */
+
+interface DiffLine {
+  text: string;
+  /** False for a last line without a trailing newline */
+  terminated: boolean;
+}
+
+interface DiffOperation {
+  kind: " " | "-" | "+";
+  line: DiffLine;
+}
+
+interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+const DEFAULT_CONTEXT = 3;
+
+/**
+ * Renders the changes between two versions of a file as a unified diff, or
+ * an empty string when they are identical
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  filename = "file",
+  context = DEFAULT_CONTEXT
+): string {
+  const operations = diffLines(splitLines(before), splitLines(after));
+  if (!operations.some((op) => op.kind !== " ")) return "";
+
+  const output = [`--- a/${filename}`, `+++ b/${filename}`];
+  for (const hunk of groupHunks(operations, context)) {
+    output.push(
+      `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`,
+      ...hunk.lines
+    );
+  }
+  return `${output.join("\n")}\n`;
+}
+
+/**
+ * Computes a shortest edit script between two line lists
+ */
+function diffLines(a: DiffLine[], b: DiffLine[]): DiffOperation[] {
+  const equal = (x: DiffLine, y: DiffLine) => x.text === y.text && x.terminated === y.terminated;
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  // Forward pass: for each edit count d, the furthest x reached on every diagonal k
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      // Step down (insertion) from diagonal k + 1 or right (deletion) from k - 1
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && equal(a[x], b[y])) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) break search;
+    }
+  }
+
+  // Backtrack through the saved frontiers to recover the operations
+  const operations: DiffOperation[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const previousK =
+      k === -d || (k !== d && frontier[offset + k - 1] < frontier[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = frontier[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push({ kind: " ", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        operations.push({ kind: "+", line: b[y - 1] });
+      } else {
+        operations.push({ kind: "-", line: a[x - 1] });
+      }
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return operations.reverse();
+}
+
+function splitLines(text: string): DiffLine[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  const terminated = lines[lines.length - 1] === "";
+  if (terminated) lines.pop();
+  return lines.map((line, index) => ({ text: line, terminated: terminated || index < lines.length - 1 }));
+}
+
+function groupHunks(operations: DiffOperation[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changed = operations.map((op, index) => (op.kind === " " ? -1 : index)).filter((index) => index >= 0);
+
+  // Changes separated by at most twice the context share a hunk
+  const groups: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] - 1 <= 2 * context) last[1] = index;
+    else groups.push([index, index]);
+  }
+
+  for (const [first, last] of groups) {
+    const start = Math.max(first - context, 0);
+    const end = Math.min(last + context, operations.length - 1);
+    const before = operations.slice(0, start);
+    const oldStart = before.filter((op) => op.kind !== "+").length;
+    const newStart = before.filter((op) => op.kind !== "-").length;
+    const slice = operations.slice(start, end + 1);
+    const oldLines = slice.filter((op) => op.kind !== "+").length;
+    const newLines = slice.filter((op) => op.kind !== "-").length;
+
+    const lines: string[] = [];
+    for (const op of slice) {
+      lines.push(`${op.kind}${op.line.text}`);
+      if (!op.line.terminated) lines.push("\\ No newline at end of file");
+    }
+    hunks.push({
+      oldStart: oldLines === 0 ? oldStart : oldStart + 1,
+      oldLines,
+      newStart: newLines === 0 ? newStart : newStart + 1,
+      newLines,
+      lines,
+    });
+  }
+  return hunks;
+}
+
+function range(start: number, lines: number): string {
+  return lines === 1 ? `${start}` : `${start},${lines}`;
+}
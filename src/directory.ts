@@ -0,0 +1,308 @@
+/**
+ * Directory module
+ * Walks a directory on disk and runs the analysis pipeline on every source file
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { analyzeCode, CodeAnalysis } from "./analyzer.js";
+import { detectCodeSmells, CodeSmellReport } from "./code-smells.js";
+import { analyzeComplexity, ComplexityMetrics } from "./complexity.js";
+import { suggestRefactorings } from "./refactorings.js";
+import { parseDocument } from "./parser.js";
+import { languageForExtension } from "./languages.js";
+import { excludesDirectory, matchesAny } from "./glob.js";
+import { IgnoreRule, isIgnored, parseGitignore } from "./gitignore.js";
+import { loadEffectiveConfig, resolveRules } from "./config.js";
+import { applyBaseline, Baseline, BaselineEntry, BaselineMatch, baselineEntries } from "./baseline.js";
+import { getAllowedRoots, resolveAllowedDirectory } from "./sandbox.js";
+
+export interface SourceFileOptions {
+  root: string;
+  /** Globs a file's root-relative path must match; defaults to every file */
+  include?: string[];
+  /** Globs that remove files, or whole directories when they end in `/**` */
+  exclude?: string[];
+  respectGitignore?: boolean;
+  /** Directories reads are confined to; defaults to {@link getAllowedRoots} */
+  allowedRoots?: string[];
+  maxFiles?: number;
+  maxFileSize?: number;
+  /** Rule settings layered over the root's .intellicoderc.json */
+  config?: unknown;
+}
+
+export interface DirectoryAnalysisOptions extends SourceFileOptions {
+  page?: number;
+  pageSize?: number;
+  /** Hide the findings this baseline already lists */
+  baseline?: Baseline;
+}
+
+export interface SourceFile {
+  /** Path relative to the root, with forward slashes */
+  filename: string;
+  language: string;
+}
+
+export interface SourceFileList {
+  /** Real path of the root directory */
+  root: string;
+  files: SourceFile[];
+  skipped: SkippedFile[];
+}
+
+export interface DirectoryFileResult {
+  filename: string;
+  language: string;
+  analysis: CodeAnalysis;
+  smells: CodeSmellReport;
+  complexity: ComplexityMetrics;
+  /** Present when a baseline was given */
+  baseline?: BaselineMatch;
+}
+
+export interface SkippedFile {
+  filename: string;
+  reason: string;
+}
+
+export interface DirectorySummary {
+  root: string;
+  totalFiles: number;
+  totalLines: number;
+  filesByLanguage: Record<string, number>;
+  totalIssues: number;
+  totalSmells: number;
+  averageQualityScore: number;
+  averageMaintainabilityIndex: number;
+  mostComplexFiles: Array<{ filename: string; cyclomaticComplexity: number; cognitiveComplexity: number }>;
+  skipped: SkippedFile[];
+  /** Present when a baseline was given */
+  baseline?: BaselineMatch;
+}
+
+export interface DirectoryAnalysis {
+  summary: DirectorySummary;
+  pagination: {
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  };
+  files: DirectoryFileResult[];
+}
+
+interface FileStats {
+  filename: string;
+  language: string;
+  lines: number;
+  issues: number;
+  smells: number;
+  qualityScore: number;
+  maintainabilityIndex: number;
+  cyclomaticComplexity: number;
+  cognitiveComplexity: number;
+  baselineMatches: number;
+}
+
+// Never worth analyzing, whatever the caller's globs say
+const DEFAULT_EXCLUDES = ["**/node_modules/**", "**/.git/**"];
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_MAX_FILES = 1000;
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+const MOST_COMPLEX_COUNT = 5;
+
+/**
+ * Infers the analysis language from a file extension
+ */
+export function inferLanguage(filename: string): string | undefined {
+  return languageForExtension(path.extname(filename))?.id;
+}
+
+/**
+ * Lists the source files below a root directory that match the globs and are
+ * not ignored, in a stable order, applying the file count and size limits
+ */
+export async function findSourceFiles(options: SourceFileOptions): Promise<SourceFileList> {
+  const {
+    include = ["**/*"],
+    exclude = [],
+    respectGitignore = true,
+    maxFiles = DEFAULT_MAX_FILES,
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+  } = options;
+
+  const root = await resolveAllowedDirectory(options.root, options.allowedRoots ?? getAllowedRoots());
+  const excludes = [...DEFAULT_EXCLUDES, ...exclude];
+  const skipped: SkippedFile[] = [];
+  const files: SourceFile[] = [];
+
+  const walk = async (directory: string, inherited: IgnoreRule[]): Promise<void> => {
+    const absolute = path.join(root, directory);
+    let rules = inherited;
+    if (respectGitignore) {
+      const gitignore = await readFile(path.join(absolute, ".gitignore"), "utf8").catch(() => undefined);
+      if (gitignore !== undefined) rules = [...inherited, ...parseGitignore(gitignore, directory)];
+    }
+
+    const entries = await readdir(absolute, { withFileTypes: true });
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const relative = directory ? `${directory}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (excludesDirectory(relative, excludes) || isIgnored(relative, true, rules)) continue;
+        await walk(relative, rules);
+      } else if (entry.isFile()) {
+        const language = inferLanguage(entry.name);
+        if (!language || !matchesAny(relative, include) || matchesAny(relative, excludes)) continue;
+        if (isIgnored(relative, false, rules)) continue;
+
+        if (files.length >= maxFiles) {
+          skipped.push({ filename: relative, reason: `file limit of ${maxFiles} reached` });
+        } else if ((await stat(path.join(root, relative))).size > maxFileSize) {
+          skipped.push({ filename: relative, reason: `larger than ${maxFileSize} bytes` });
+        } else {
+          files.push({ filename: relative, language });
+        }
+      } else if (entry.isSymbolicLink() && inferLanguage(entry.name)) {
+        // Links are not followed: their target may lie outside the sandbox
+        skipped.push({ filename: relative, reason: "symbolic link" });
+      }
+    }
+  };
+  await walk("", []);
+
+  return { root, files, skipped };
+}
+
+/**
+ * Analyzes every matching source file below a root directory. The summary
+ * covers all files; per-file results are returned one page at a time.
+ */
+export async function analyzeDirectory(options: DirectoryAnalysisOptions): Promise<DirectoryAnalysis> {
+  const pageSize = Math.min(Math.max(Math.floor(options.pageSize ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(options.page ?? 1), 1);
+
+  const { root, files: sources, skipped } = await findSourceFiles(options);
+  const config = await loadEffectiveConfig(root, options.config);
+
+  // Only the requested page keeps its full reports; every file feeds the summary
+  const stats: FileStats[] = [];
+  const files: DirectoryFileResult[] = [];
+  const pageStart = (page - 1) * pageSize;
+
+  for (const source of sources) {
+    const code = await readFile(path.join(root, source.filename), "utf8");
+    const doc = parseDocument(code, source.language);
+    const rules = resolveRules(config, source.filename, source.language);
+    let result: DirectoryFileResult = {
+      filename: source.filename,
+      language: source.language,
+      analysis: analyzeCode(code, source.language, source.filename, doc, rules),
+      smells: detectCodeSmells(code, source.language, doc, rules, source.filename),
+      complexity: analyzeComplexity(code, source.language, doc),
+    };
+    if (options.baseline) {
+      const { code: _code, ...filtered } = applyBaseline({ ...result, code }, options.baseline);
+      result = filtered;
+    }
+
+    if (stats.length >= pageStart && stats.length < pageStart + pageSize) files.push(result);
+    stats.push({
+      filename: result.filename,
+      language: result.language,
+      lines: code.split("\n").length,
+      issues: result.analysis.issues.length,
+      smells: result.smells.totalSmells,
+      qualityScore: result.analysis.quality.score,
+      maintainabilityIndex: result.complexity.maintainabilityIndex,
+      cyclomaticComplexity: result.complexity.cyclomaticComplexity,
+      cognitiveComplexity: result.complexity.cognitiveComplexity,
+      baselineMatches: result.baseline?.matched ?? 0,
+    });
+  }
+
+  const summary = summarize(root, stats, skipped);
+  if (options.baseline) {
+    summary.baseline = { matched: stats.reduce((total, f) => total + f.baselineMatches, 0) };
+  }
+
+  return {
+    summary,
+    pagination: {
+      page,
+      pageSize,
+      totalPages: Math.ceil(stats.length / pageSize),
+    },
+    files,
+  };
+}
+
+/**
+ * Snapshots the issues, smells and refactoring suggestions of every matching
+ * file below a root directory, with filenames relative to the root
+ */
+export async function createDirectoryBaseline(
+  options: SourceFileOptions,
+  createdAt = new Date().toISOString()
+): Promise<Baseline> {
+  const { root, files } = await findSourceFiles(options);
+  const config = await loadEffectiveConfig(root, options.config);
+  const findings: BaselineEntry[] = [];
+
+  for (const file of files) {
+    const code = await readFile(path.join(root, file.filename), "utf8");
+    const doc = parseDocument(code, file.language);
+    const rules = resolveRules(config, file.filename, file.language);
+    findings.push(
+      ...baselineEntries({
+        filename: file.filename,
+        language: file.language,
+        code,
+        analysis: analyzeCode(code, file.language, file.filename, doc, rules),
+        smells: detectCodeSmells(code, file.language, doc, rules, file.filename),
+        refactorings: suggestRefactorings(code, file.language, doc),
+      })
+    );
+  }
+
+  return { version: 1, createdAt, findings };
+}
+
+function summarize(root: string, stats: FileStats[], skipped: SkippedFile[]): DirectorySummary {
+  const filesByLanguage: Record<string, number> = {};
+  for (const file of stats) {
+    filesByLanguage[file.language] = (filesByLanguage[file.language] || 0) + 1;
+  }
+
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const average = (values: number[]) =>
+    values.length ? Math.round((sum(values) / values.length) * 100) / 100 : 0;
+
+  return {
+    root,
+    totalFiles: stats.length,
+    totalLines: sum(stats.map((f) => f.lines)),
+    filesByLanguage,
+    totalIssues: sum(stats.map((f) => f.issues)),
+    totalSmells: sum(stats.map((f) => f.smells)),
+    averageQualityScore: average(stats.map((f) => f.qualityScore)),
+    averageMaintainabilityIndex: average(stats.map((f) => f.maintainabilityIndex)),
+    mostComplexFiles: [...stats]
+      .sort(
+        (a, b) =>
+          b.cyclomaticComplexity - a.cyclomaticComplexity || b.cognitiveComplexity - a.cognitiveComplexity
+      )
+      .slice(0, MOST_COMPLEX_COUNT)
+      .map(({ filename, cyclomaticComplexity, cognitiveComplexity }) => ({
+        filename,
+        cyclomaticComplexity,
+        cognitiveComplexity,
+      })),
+    skipped,
+  };
+}
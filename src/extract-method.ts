@@ -0,0 +1,1010 @@
+/**
+ * Extract method module
+ * Moves a range of statements into a new function, passing the variables that
+ * flow into the range as parameters and returning the ones that flow out
+ */
+
+import ts from "typescript";
+import { parseDocument, ParsedDocument, Token } from "./parser.js";
+import { getSourceFile, getTypeChecker, isFunctionWithBody, supportsTypeScriptAst } from "./typescript-analyzer.js";
+import { hasFeature, languagesWith } from "./languages.js";
+import {
+  buildPythonStructure,
+  descendants,
+  findTopLevelColon,
+  LogicalLine,
+  PythonBlock,
+  PythonStructure,
+} from "./python-structure.js";
+import {
+  applyEdits,
+  functionScopeOf,
+  isDeclarationName,
+  isInsideLoop,
+  isReference,
+  isWriteReference,
+  syntaxErrors,
+  TextEdit,
+} from "./transforms.js";
+import { createUnifiedDiff } from "./diff.js";
+
+export interface ExtractMethodOptions {
+  /** First line of the statements to extract (1-based) */
+  startLine: number;
+  /** Last line of the statements to extract, inclusive */
+  endLine: number;
+  /** Name of the new function; a free `extracted` name when omitted */
+  name?: string;
+  /** Name used in the diff headers */
+  filename?: string;
+}
+
+export interface ExtractMethodResult {
+  name: string;
+  /** `method` when the lines use `this` or `self` and stay in their class */
+  kind: "function" | "method";
+  /** Variables passed into the new function */
+  parameters: string[];
+  /** Variables the new function returns to the call site */
+  returns: string[];
+  /** True when the lines await, making the new function async */
+  async: boolean;
+  code: string;
+  /** Unified diff from the original code */
+  diff: string;
+}
+
+interface Selection {
+  startLine: number;
+  endLine: number;
+}
+
+interface Extraction {
+  kind: ExtractMethodResult["kind"];
+  parameters: string[];
+  returns: string[];
+  async: boolean;
+  edits: TextEdit[];
+}
+
+const DEFAULT_NAME = "extracted";
+
+/**
+ * Replaces whole statements on lines `startLine`-`endLine` with a call to a
+ * new function. Throws with the reason when the lines cannot be extracted,
+ * e.g. because they return or jump out of the range.
+ */
+export function extractMethod(code: string, language: string, options: ExtractMethodOptions): ExtractMethodResult {
+  const { startLine, endLine, filename = "unknown" } = options;
+  const isJavaScript = supportsTypeScriptAst(language);
+  if (!hasFeature(language, "extract-method")) {
+    throw new Error(`Methods can only be extracted from ${languagesWith("extract-method")}, not ${language}`);
+  }
+
+  const doc = parseDocument(code, language);
+  if (
+    !Number.isInteger(startLine) ||
+    !Number.isInteger(endLine) ||
+    startLine < 1 ||
+    endLine < startLine ||
+    endLine > doc.lines.length
+  ) {
+    throw new Error(`Invalid line range ${startLine}-${endLine}`);
+  }
+  if (isJavaScript) {
+    const errors = syntaxErrors(code, language);
+    if (errors.length > 0) {
+      throw new Error(`Cannot refactor code with syntax errors: ${errors[0]}`);
+    }
+  }
+
+  const name = chooseName(doc, options.name);
+  const selection = { startLine, endLine };
+  const extraction = isJavaScript
+    ? extractJavaScript(doc, selection, name)
+    : extractPython(doc, selection, name);
+
+  const transformed = applyEdits(code, extraction.edits);
+  if (isJavaScript) {
+    const invalid = syntaxErrors(transformed, language);
+    if (invalid.length > 0) {
+      throw new Error(`Extraction produced invalid code: ${invalid[0]}`);
+    }
+  }
+
+  const { kind, parameters, returns } = extraction;
+  return {
+    name,
+    kind,
+    parameters,
+    returns,
+    async: extraction.async,
+    code: transformed,
+    diff: createUnifiedDiff(code, transformed, filename),
+  };
+}
+
+function cannotExtract(selection: Selection, reason: string): never {
+  throw new Error(`Cannot extract lines ${selection.startLine}-${selection.endLine}: ${reason}`);
+}
+
+/**
+ * Validates the requested name, or picks `extracted`, `extracted2`, ...
+ * so the new function shadows nothing
+ */
+function chooseName(doc: ParsedDocument, requested: string | undefined): string {
+  const used = new Set(doc.codeTokens.filter((t) => t.kind === "identifier").map((t) => t.value));
+  if (requested !== undefined) {
+    const tokens = parseDocument(requested, doc.language).codeTokens;
+    if (tokens.length !== 1 || tokens[0].kind !== "identifier") {
+      throw new Error(`Invalid function name: ${requested}`);
+    }
+    if (used.has(requested)) throw new Error(`'${requested}' is already used in this file`);
+    return requested;
+  }
+
+  let name = DEFAULT_NAME;
+  for (let suffix = 2; used.has(name); suffix++) name = `${DEFAULT_NAME}${suffix}`;
+  return name;
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript and TypeScript
+
+interface VariableUse {
+  name: string;
+  declaration: ts.Declaration;
+  /** Declared by the extracted statements */
+  inside: boolean;
+}
+
+function extractJavaScript(doc: ParsedDocument, selection: Selection, name: string): Extraction {
+  const sourceFile = getSourceFile(doc);
+  const checker = getTypeChecker(sourceFile);
+  const statements = selectStatements(doc, sourceFile, selection);
+  const first = statements[0];
+  const last = statements[statements.length - 1];
+  const range = { start: first.getStart(), end: last.getEnd() };
+  const inRange = (node: ts.Node) => node.getStart() >= range.start && node.getEnd() <= range.end;
+
+  const { awaits, usesThis } = scanStatements(statements, selection);
+  const owner = usesThis ? thisOwner(first) : undefined;
+  if (usesThis && !owner) cannotExtract(selection, "it uses this outside a class method");
+
+  const symbolOf = (id: ts.Identifier) =>
+    ts.isShorthandPropertyAssignment(id.parent) && id.parent.name === id
+      ? checker.getShorthandAssignmentValueSymbol(id.parent)
+      : checker.getSymbolAtLocation(id);
+
+  // Local variables the statements touch, in order of first use
+  const variables = new Map<ts.Symbol, VariableUse>();
+  for (const id of statements.flatMap(identifiersIn)) {
+    if (!isReference(id) || ts.isTypeReferenceNode(id.parent)) continue;
+    const symbol = symbolOf(id);
+    const declaration = symbol?.declarations?.find(isVariableLike);
+    if (!symbol || !declaration || variables.has(symbol)) continue;
+
+    const inside = inRange(declaration);
+    if (!inside && isModuleScoped(declaration)) continue;
+    variables.set(symbol, { name: id.text, declaration, inside });
+  }
+
+  const outsideReferences = new Map<ts.Symbol, ts.Identifier[]>();
+  for (const id of identifiersIn(sourceFile)) {
+    if (inRange(id) || !isReference(id) || isDeclarationName(id)) continue;
+    const symbol = symbolOf(id);
+    if (symbol && variables.has(symbol)) {
+      outsideReferences.set(symbol, [...(outsideReferences.get(symbol) ?? []), id]);
+    }
+  }
+
+  // Variables declared by the statements flow out when used elsewhere; outer
+  // variables when the statements assign them and they are read afterwards
+  const returns: VariableUse[] = [];
+  for (const [symbol, use] of variables) {
+    const references = outsideReferences.get(symbol) ?? [];
+    if (use.inside) {
+      if (references.length === 0) continue;
+      if (!ts.isVariableDeclaration(use.declaration) && !ts.isBindingElement(use.declaration)) {
+        cannotExtract(selection, `'${use.name}' is declared in the selected lines and used outside them`);
+      }
+      returns.push(use);
+    } else if (
+      writesInRange(symbol, statements, symbolOf) &&
+      references.some(
+        (ref) => ref.getStart() >= range.end || isInsideLoop(first, functionScopeOf(use.declaration))
+      )
+    ) {
+      returns.push(use);
+    }
+  }
+
+  const parameters = [...variables.values()].filter((use) => !use.inside);
+  const isTypeScript = doc.language === "typescript";
+  const parameterList = parameters
+    .map((use) => `${use.name}${isTypeScript ? typeAnnotation(use.declaration) : ""}`)
+    .join(", ");
+
+  const baseIndent = leadingWhitespace(doc.lines[selection.startLine - 1]);
+  const unit = indentUnit(doc, "  ");
+  const anchor = owner ?? topLevelStatement(last);
+  const outerIndent = owner ? leadingWhitespace(doc.lines[lineOf(sourceFile, owner.getStart()) - 1]) : "";
+  const bodyIndent = outerIndent + unit;
+  const isStatic = owner !== undefined && (ts.getCombinedModifierFlags(owner) & ts.ModifierFlags.Static) !== 0;
+
+  const header = owner
+    ? `${outerIndent}${isStatic ? "static " : ""}${awaits ? "async " : ""}${name}(${parameterList}) {`
+    : `${awaits ? "async " : ""}function ${name}(${parameterList}) {`;
+  const returnNames = returns.map((use) => use.name);
+  const body = reindent(doc, selection, baseIndent, bodyIndent);
+  if (returns.length > 0) {
+    body.push(`${bodyIndent}return ${returns.length === 1 ? returnNames[0] : `{ ${returnNames.join(", ")} }`};`);
+  }
+  const definition = [header, ...body, `${outerIndent}}`].join("\n");
+
+  const argumentList = parameters.map((use) => use.name).join(", ");
+  const call = `${awaits ? "await " : ""}${owner ? "this." : ""}${name}(${argumentList})`;
+  const declared = returns.filter((use) => use.inside);
+  const keyword = declared.every((use) => isConstDeclaration(use.declaration)) ? "const" : "let";
+  let callText: string;
+  if (returns.length === 0) {
+    callText = `${call};`;
+  } else if (returns.length === 1) {
+    callText = `${declared.length > 0 ? `${keyword} ` : ""}${returnNames[0]} = ${call};`;
+  } else if (declared.length === returns.length) {
+    callText = `${keyword} { ${returnNames.join(", ")} } = ${call};`;
+  } else {
+    const declarations =
+      declared.length > 0 ? `let ${declared.map((use) => use.name).join(", ")};\n${baseIndent}` : "";
+    callText = `${declarations}({ ${returnNames.join(", ")} } = ${call});`;
+  }
+
+  const insertAt = lineEnd(doc, lineOf(sourceFile, anchor.getEnd()));
+  return {
+    kind: owner ? "method" : "function",
+    parameters: parameters.map((use) => use.name),
+    returns: returnNames,
+    async: awaits,
+    edits: [
+      {
+        start: lineStart(doc, selection.startLine),
+        end: lineEnd(doc, selection.endLine),
+        text: `${baseIndent}${callText}`,
+      },
+      { start: insertAt, end: insertAt, text: `\n\n${definition}` },
+    ],
+  };
+}
+
+/**
+ * Finds the contiguous statements of a single block that exactly cover the
+ * code on the selected lines
+ */
+function selectStatements(doc: ParsedDocument, sourceFile: ts.SourceFile, selection: Selection): ts.Statement[] {
+  const tokens = doc.codeTokens.filter((t) => t.line >= selection.startLine && t.line <= selection.endLine);
+  if (tokens.length === 0) cannotExtract(selection, "the lines contain no code");
+  const start = tokens[0].start;
+  const end = tokens[tokens.length - 1].end;
+  if (tokens[tokens.length - 1].endLine > selection.endLine) {
+    cannotExtract(selection, "the lines split a statement");
+  }
+
+  let selected: ts.Statement[] | undefined;
+  const visit = (node: ts.Node): void => {
+    if (selected || node.getStart() > start || node.getEnd() < end) return;
+    const list = statementList(node);
+    if (list) {
+      const inside = list.filter((s) => s.getStart() >= start && s.getEnd() <= end);
+      if (inside.length > 0 && inside[0].getStart() === start && inside[inside.length - 1].getEnd() === end) {
+        selected = inside;
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  if (!selected) {
+    cannotExtract(selection, "the lines do not cover complete statements of a single block");
+  }
+  if (
+    selected.some(
+      (s) =>
+        ts.isImportDeclaration(s) ||
+        ts.isImportEqualsDeclaration(s) ||
+        ts.isExportDeclaration(s) ||
+        ts.isExportAssignment(s) ||
+        (ts.canHaveModifiers(s) && ts.getModifiers(s)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword))
+    )
+  ) {
+    cannotExtract(selection, "it contains import or export declarations");
+  }
+  return selected;
+}
+
+function statementList(node: ts.Node): ts.NodeArray<ts.Statement> | undefined {
+  if (
+    ts.isBlock(node) ||
+    ts.isSourceFile(node) ||
+    ts.isModuleBlock(node) ||
+    ts.isCaseClause(node) ||
+    ts.isDefaultClause(node)
+  ) {
+    return node.statements;
+  }
+  return undefined;
+}
+
+/**
+ * Rejects control flow that leaves the statements and reports whether they
+ * await or use `this`
+ */
+function scanStatements(
+  statements: ts.Statement[],
+  selection: Selection
+): { awaits: boolean; usesThis: boolean } {
+  let awaits = false;
+  let usesThis = false;
+
+  const visit = (node: ts.Node, inFunction: boolean, thisRebound: boolean): void => {
+    if (!inFunction) {
+      if (ts.isReturnStatement(node)) cannotExtract(selection, "it contains a return statement");
+      if (ts.isYieldExpression(node)) cannotExtract(selection, "it contains yield");
+      if (ts.isAwaitExpression(node) || (ts.isForOfStatement(node) && node.awaitModifier)) awaits = true;
+      if (ts.isBreakOrContinueStatement(node) && !jumpStaysInside(node, statements)) {
+        const keyword = ts.isBreakStatement(node) ? "break" : "continue";
+        cannotExtract(selection, `it contains a ${keyword} that jumps out of the selected lines`);
+      }
+    }
+    if (!thisRebound) {
+      if (node.kind === ts.SyntaxKind.ThisKeyword) {
+        usesThis = true;
+      } else if (node.kind === ts.SyntaxKind.SuperKeyword) {
+        if (ts.isCallExpression(node.parent) && node.parent.expression === node) {
+          cannotExtract(selection, "it calls super()");
+        }
+        usesThis = true;
+      } else if (ts.isMetaProperty(node) && node.keywordToken === ts.SyntaxKind.NewKeyword) {
+        cannotExtract(selection, "it uses new.target");
+      } else if (ts.isIdentifier(node) && node.text === "arguments" && isReference(node)) {
+        cannotExtract(selection, "it uses arguments");
+      }
+    }
+
+    const entersFunction = isFunctionWithBody(node) || ts.isClassStaticBlockDeclaration(node);
+    const rebindsThis = (entersFunction && !ts.isArrowFunction(node)) || ts.isClassLike(node);
+    ts.forEachChild(node, (child) => visit(child, inFunction || entersFunction, thisRebound || rebindsThis));
+  };
+
+  for (const statement of statements) visit(statement, false, false);
+  return { awaits, usesThis };
+}
+
+function jumpStaysInside(jump: ts.BreakOrContinueStatement, statements: ts.Statement[]): boolean {
+  const container = statements[0].parent;
+  for (let current = jump.parent; current !== container; current = current.parent) {
+    if (jump.label) {
+      if (ts.isLabeledStatement(current) && current.label.text === jump.label.text) return true;
+    } else if (ts.isIterationStatement(current, false)) {
+      return true;
+    } else if (ts.isBreakStatement(jump) && ts.isSwitchStatement(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the class member whose `this` the node sees, looking through arrow functions
+ */
+function thisOwner(node: ts.Node): FunctionLikeMember | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isArrowFunction(current)) continue;
+    if (isFunctionWithBody(current) || ts.isClassStaticBlockDeclaration(current) || ts.isSourceFile(current)) {
+      return isClassMember(current) ? current : undefined;
+    }
+  }
+  return undefined;
+}
+
+type FunctionLikeMember =
+  | ts.MethodDeclaration
+  | ts.GetAccessorDeclaration
+  | ts.SetAccessorDeclaration
+  | ts.ConstructorDeclaration;
+
+function isClassMember(node: ts.Node): node is FunctionLikeMember {
+  return (
+    (ts.isMethodDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node) ||
+      ts.isConstructorDeclaration(node)) &&
+    ts.isClassLike(node.parent)
+  );
+}
+
+function topLevelStatement(node: ts.Node): ts.Node {
+  let current = node;
+  while (!ts.isSourceFile(current.parent)) current = current.parent;
+  return current;
+}
+
+function identifiersIn(root: ts.Node): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+function writesInRange(
+  symbol: ts.Symbol,
+  statements: ts.Statement[],
+  symbolOf: (id: ts.Identifier) => ts.Symbol | undefined
+): boolean {
+  return statements
+    .flatMap(identifiersIn)
+    .some((id) => isReference(id) && isWriteReference(id) && symbolOf(id) === symbol);
+}
+
+function isVariableLike(declaration: ts.Declaration): boolean {
+  return (
+    ts.isVariableDeclaration(declaration) ||
+    ts.isBindingElement(declaration) ||
+    ts.isParameter(declaration) ||
+    ts.isFunctionDeclaration(declaration) ||
+    ts.isClassDeclaration(declaration) ||
+    ts.isEnumDeclaration(declaration) ||
+    ts.isImportClause(declaration) ||
+    ts.isImportSpecifier(declaration) ||
+    ts.isNamespaceImport(declaration) ||
+    ts.isImportEqualsDeclaration(declaration)
+  );
+}
+
+/**
+ * Returns true when a new top-level function can still see the declaration
+ */
+function isModuleScoped(declaration: ts.Declaration): boolean {
+  let node: ts.Node = declaration;
+  while (ts.isBindingElement(node) || ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node)) {
+    node = node.parent;
+  }
+  if (ts.isVariableDeclaration(node)) {
+    const list = node.parent;
+    if (!ts.isVariableDeclarationList(list)) return false;
+    if (!(list.flags & ts.NodeFlags.BlockScoped)) return ts.isSourceFile(functionScopeOf(node));
+    node = list.parent;
+    if (!ts.isVariableStatement(node)) return false;
+  }
+  if (
+    ts.isImportClause(node) ||
+    ts.isImportSpecifier(node) ||
+    ts.isNamespaceImport(node) ||
+    ts.isImportEqualsDeclaration(node)
+  ) {
+    return true;
+  }
+  return ts.isSourceFile(node.parent);
+}
+
+function isConstDeclaration(declaration: ts.Declaration): boolean {
+  let node: ts.Node = declaration;
+  while (!ts.isVariableDeclarationList(node) && !ts.isSourceFile(node)) node = node.parent;
+  return ts.isVariableDeclarationList(node) && (node.flags & ts.NodeFlags.Const) !== 0;
+}
+
+function typeAnnotation(declaration: ts.Declaration): string {
+  if ((ts.isVariableDeclaration(declaration) || ts.isParameter(declaration)) && declaration.type) {
+    const optional = ts.isParameter(declaration) && declaration.questionToken ? " | undefined" : "";
+    return `: ${declaration.type.getText()}${optional}`;
+  }
+  return "";
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}
+
+// ---------------------------------------------------------------------------
+// Python
+
+interface NameUses {
+  reads: string[];
+  writes: string[];
+}
+
+const CONTINUATION_KEYWORDS = new Set(["elif", "else", "except", "finally"]);
+
+const STATEMENT_KEYWORDS = new Set([
+  "if", "elif", "else", "for", "while", "try", "except", "finally", "with", "async",
+]);
+
+const ASSIGNMENT_OPERATORS = new Set([
+  "+=", "-=", "*=", "/=", "//=", "%=", "**=", "@=", "&=", "|=", "^=", ">>=", "<<=",
+]);
+
+const OPENING = new Set(["(", "[", "{"]);
+const CLOSING = new Set([")", "]", "}"]);
+
+function extractPython(doc: ParsedDocument, selection: Selection, name: string): Extraction {
+  const { startLine, endLine } = selection;
+  const structure = buildPythonStructure(doc);
+  const isSelected = (line: LogicalLine) => line.startLine >= startLine && line.endLine <= endLine;
+
+  const lines = structure.logicalLines.filter((l) => l.endLine >= startLine && l.startLine <= endLine);
+  if (lines.length === 0) cannotExtract(selection, "the lines contain no code");
+  if (!lines.every(isSelected)) cannotExtract(selection, "the lines split a statement");
+
+  const indent = lines[0].indent;
+  if (lines.some((l) => l.indent < indent)) {
+    cannotExtract(selection, "the lines end outside the block they start in");
+  }
+  const following = structure.logicalLines.find((l) => l.startLine > endLine);
+  if (
+    CONTINUATION_KEYWORDS.has(lines[0].tokens[0].value) ||
+    lines[lines.length - 1].tokens[0].value === "@" ||
+    (following &&
+      (following.indent > indent ||
+        (following.indent === indent && CONTINUATION_KEYWORDS.has(following.tokens[0].value))))
+  ) {
+    cannotExtract(selection, "the lines split a compound statement");
+  }
+
+  // Blocks whose body holds the selection, outermost first
+  const path: PythonBlock[] = [];
+  for (let level = structure.blocks; ; ) {
+    const block = level.find((b) => b.headerLine < startLine && b.endLine >= endLine);
+    if (!block) break;
+    path.push(block);
+    level = block.children;
+  }
+  if (path.length > 0 && path[path.length - 1].kind === "class") {
+    cannotExtract(selection, "the lines are in a class body rather than a function");
+  }
+  const functions = path.filter((b) => b.kind === "def");
+  const fn = functions[functions.length - 1];
+
+  // Control flow must stay inside the lines; nested functions may return freely
+  const selectedBlocks = allBlocks(structure.blocks).filter((b) => b.headerLine >= startLine && b.endLine <= endLine);
+  const nestedScopes = selectedBlocks.filter((b) => b.kind === "def" || b.kind === "class");
+  const loops = selectedBlocks.filter((b) => b.kind === "for" || b.kind === "while");
+  const ownLines = lines.filter((l) => !nestedScopes.some((b) => l.startLine >= b.headerLine && within(l, b)));
+  let awaits = false;
+  for (const token of ownLines.flatMap((l) => l.tokens)) {
+    if (token.kind !== "keyword") continue;
+    if (token.value === "return") cannotExtract(selection, "it contains a return statement");
+    if (token.value === "yield") cannotExtract(selection, "it contains yield");
+    if (token.value === "global" || token.value === "nonlocal") {
+      cannotExtract(selection, "it declares global or nonlocal names");
+    }
+    if (
+      (token.value === "break" || token.value === "continue") &&
+      !loops.some((loop) => token.line >= loop.headerLine && token.line <= loop.endLine)
+    ) {
+      cannotExtract(selection, `it contains a ${token.value} that jumps out of the selected lines`);
+    }
+    if (token.value === "await" || token.value === "async") awaits = true;
+  }
+
+  // Writes inside nested functions are their own locals, but their names are bound here
+  const selectedReads = unique(lines.flatMap((l) => pythonNameUses(l).reads));
+  const selectedWrites = unique(
+    lines
+      .filter((l) => ownLines.includes(l) || nestedScopes.some((b) => b.headerLine === l.startLine))
+      .flatMap((l) => pythonNameUses(l).writes)
+  );
+
+  const receiver = fn && path[path.indexOf(fn) - 1]?.kind === "class" ? methodReceiver(structure, fn) : undefined;
+  const isMethod = receiver !== undefined && selectedReads.includes(receiver);
+
+  // Names bound outside the lines that the new function cannot see
+  const outsideNames = new Set<string>();
+  for (const scope of fn ? functions : [undefined]) {
+    if (scope) {
+      scope.parameters.forEach((p) => outsideNames.add(p));
+      const isMember = path[path.indexOf(scope) - 1]?.kind === "class";
+      const receiverName = isMember ? methodReceiver(structure, scope) : undefined;
+      if (receiverName) outsideNames.add(receiverName);
+    }
+    for (const line of scopeLines(structure, scope)) {
+      if (!isSelected(line)) pythonNameUses(line).writes.forEach((n) => outsideNames.add(n));
+    }
+  }
+
+  const touched = unique([...selectedReads, ...selectedWrites]);
+  const parameters = touched.filter((n) =>
+    fn ? outsideNames.has(n) && !(isMethod && n === receiver) : selectedWrites.includes(n) && outsideNames.has(n)
+  );
+
+  // Assigned names flow out when read after the lines, or anywhere in an
+  // enclosing loop; module-level names may be read by any function
+  const enclosingLoop = path.slice(fn ? path.indexOf(fn) + 1 : 0).find((b) => b.kind === "for" || b.kind === "while");
+  const laterLines = structure.logicalLines.filter(
+    (l) =>
+      !isSelected(l) &&
+      (!fn ||
+        (l.startLine > fn.headerLine &&
+          within(l, fn) &&
+          (l.startLine > endLine || (enclosingLoop !== undefined && within(l, enclosingLoop)))))
+  );
+  const laterReads = new Set(laterLines.flatMap((l) => pythonNameUses(l).reads));
+  const returns = selectedWrites.filter((n) => laterReads.has(n));
+
+  const baseIndent = leadingWhitespace(doc.lines[lines[0].startLine - 1]);
+  const unit = indentUnit(doc, "    ");
+  const outerIndent = isMethod ? leadingWhitespace(doc.lines[fn.headerLine - 1]) : "";
+  const bodyIndent = outerIndent + unit;
+  const signatureParameters = isMethod ? [receiver, ...parameters] : parameters;
+
+  const definition: string[] = [];
+  if (isMethod && fn.decorators.includes("classmethod")) definition.push(`${outerIndent}@classmethod`);
+  definition.push(`${outerIndent}${awaits ? "async " : ""}def ${name}(${signatureParameters.join(", ")}):`);
+  definition.push(...reindent(doc, selection, baseIndent, bodyIndent));
+  if (returns.length > 0) definition.push(`${bodyIndent}return ${returns.join(", ")}`);
+
+  const call =
+    `${returns.length > 0 ? `${returns.join(", ")} = ` : ""}${awaits ? "await " : ""}` +
+    `${isMethod ? `${receiver}.` : ""}${name}(${parameters.join(", ")})`;
+
+  // Methods follow the method they came from; functions follow the top-level
+  // function or class holding the lines, or precede module-level code
+  let insertion: TextEdit;
+  if (isMethod) {
+    const at = lineEnd(doc, fn.endLine);
+    insertion = { start: at, end: at, text: `\n\n${definition.join("\n")}` };
+  } else if (path.length > 0 && (path[0].kind === "def" || path[0].kind === "class")) {
+    const at = lineEnd(doc, path[0].endLine);
+    insertion = { start: at, end: at, text: `\n\n\n${definition.join("\n")}` };
+  } else {
+    const anchor = path.length > 0 ? path[0].startLine : startLine;
+    const at = lineStart(doc, anchor);
+    const separator = anchor > 1 && doc.lines[anchor - 2].trim() !== "" ? "\n\n" : "";
+    insertion = { start: at, end: at, text: `${separator}${definition.join("\n")}\n\n\n` };
+  }
+
+  return {
+    kind: isMethod ? "method" : "function",
+    parameters,
+    returns,
+    async: awaits,
+    edits: [
+      { start: lineStart(doc, startLine), end: lineEnd(doc, endLine), text: `${baseIndent}${call}` },
+      insertion,
+    ],
+  };
+}
+
+function within(line: LogicalLine, block: PythonBlock): boolean {
+  return line.startLine >= block.headerLine && line.endLine <= block.endLine;
+}
+
+function allBlocks(blocks: PythonBlock[]): PythonBlock[] {
+  return blocks.flatMap((block) => [block, ...descendants(block)]);
+}
+
+/**
+ * Logical lines whose names belong to the scope: the function body, or
+ * module-level code, without nested functions and classes
+ */
+function scopeLines(
+  structure: PythonStructure,
+  scope: PythonBlock | undefined
+): LogicalLine[] {
+  const nested = (scope ? descendants(scope) : allBlocks(structure.blocks)).filter(
+    (b) => b.kind === "def" || b.kind === "class"
+  );
+  return structure.logicalLines.filter(
+    (l) =>
+      (!scope || (l.startLine > scope.headerLine && l.endLine <= scope.endLine)) &&
+      !nested.some((b) => l.startLine > b.headerLine && l.endLine <= b.endLine)
+  );
+}
+
+/**
+ * The `self` or `cls` parameter of a method, unless it is a static method
+ */
+function methodReceiver(structure: PythonStructure, fn: PythonBlock): string | undefined {
+  if (fn.decorators.includes("staticmethod")) return undefined;
+  const header = structure.logicalLines.find((l) => l.startLine === fn.headerLine)?.tokens ?? [];
+  const open = header.findIndex((t) => t.value === "(");
+  const first = header[open + 1];
+  return open !== -1 && first?.kind === "identifier" ? first.value : undefined;
+}
+
+/**
+ * Names a logical line reads and binds. Attribute names, keyword arguments,
+ * lambda parameters and comprehension variables are left out.
+ */
+function pythonNameUses(line: LogicalLine): NameUses {
+  const uses: NameUses = { reads: [], writes: [] };
+  for (const statement of splitStatements(line.tokens)) {
+    collectStatementNames(statement, uses);
+  }
+  return uses;
+}
+
+/**
+ * Splits `a = 1; b = 2` and `if x: y = 1` into simple statements
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (OPENING.has(token.value)) depth++;
+    else if (CLOSING.has(token.value)) depth--;
+    if (depth === 0 && token.value === ";") {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+
+  return statements.flatMap((statement) => {
+    if (!STATEMENT_KEYWORDS.has(statement[0].value)) return [statement];
+    const colon = findTopLevelColon(statement);
+    if (colon === -1 || colon === statement.length - 1) return [statement];
+    return [statement.slice(0, colon + 1), ...splitStatements(statement.slice(colon + 1))];
+  });
+}
+
+function collectStatementNames(tokens: Token[], uses: NameUses): void {
+  const statement = tokens[0].value === "async" ? tokens.slice(1) : tokens;
+  const first = statement[0];
+  if (!first) return;
+
+  switch (first.value) {
+    case "def":
+    case "class":
+      if (statement[1]?.kind === "identifier") uses.writes.push(statement[1].value);
+      if (first.value === "class") collectExpressionNames(statement.slice(2), uses, new Set());
+      return;
+    case "import":
+    case "from":
+      uses.writes.push(...importedNames(statement));
+      return;
+    case "global":
+    case "nonlocal":
+      return;
+  }
+
+  // Indices of tokens that are bound rather than read
+  const targets = new Set<number>();
+  const skipped = new Set<number>();
+  let readsTargets = false;
+
+  if (first.value === "for") {
+    const inIndex = indexAtDepthZero(statement, (t) => t.value === "in");
+    for (let i = 1; i < inIndex; i++) targets.add(i);
+  } else if (first.value === "with" || first.value === "except") {
+    let depth = 0;
+    for (let i = 1; i < statement.length; i++) {
+      const { value } = statement[i];
+      if (OPENING.has(value)) depth++;
+      else if (CLOSING.has(value)) depth--;
+      else if (depth === 0 && value === "as" && statement[i + 1]?.kind === "identifier") targets.add(i + 1);
+    }
+  } else if (first.value === "del") {
+    for (let i = 1; i < statement.length; i++) targets.add(i);
+  } else if (!STATEMENT_KEYWORDS.has(first.value)) {
+    const augmented = indexAtDepthZero(statement, (t) => ASSIGNMENT_OPERATORS.has(t.value));
+    const lastAssignment = lastIndexAtDepthZero(statement, (t) => t.value === "=");
+    const annotation = first.kind === "identifier" ? indexAtDepthZero(statement, (t) => t.value === ":") : -1;
+    const targetEnd =
+      augmented !== -1 ? augmented : annotation !== -1 ? annotation : lastAssignment !== -1 ? lastAssignment : 0;
+    for (let i = 0; i < targetEnd; i++) targets.add(i);
+    readsTargets = augmented !== -1;
+    if (annotation !== -1) {
+      const annotationEnd = lastAssignment === -1 ? statement.length : lastAssignment;
+      for (let i = annotation + 1; i < annotationEnd; i++) skipped.add(i);
+    }
+  }
+
+  for (let i = 0; i < statement.length; i++) {
+    const token = statement[i];
+    if (!targets.has(i) || token.kind !== "identifier" || statement[i - 1]?.value === ".") continue;
+    const next = statement[i + 1]?.value;
+    // `obj.attr = 1` and `items[0] = 1` read the object rather than bind it
+    if (next === "." || next === "[" || next === "(") continue;
+    uses.writes.push(token.value);
+    if (!readsTargets) skipped.add(i);
+  }
+
+  collectExpressionNames(
+    statement.filter((_, i) => !skipped.has(i)),
+    uses,
+    new Set()
+  );
+}
+
+/**
+ * Records the names an expression reads and the names `:=` binds
+ */
+function collectExpressionNames(tokens: Token[], uses: NameUses, locals: Set<string>): void {
+  // Lambda parameters and comprehension variables are local to the expression
+  const scoped = new Set(locals);
+  for (let i = 0; i < tokens.length; i++) {
+    const { kind, value } = tokens[i];
+    if (kind !== "keyword") continue;
+    if (value === "lambda") {
+      for (let j = i + 1; j < tokens.length && tokens[j].value !== ":"; j++) {
+        if (tokens[j].kind === "identifier") scoped.add(tokens[j].value);
+      }
+    } else if (value === "for" && i > 0) {
+      for (let j = i + 1; j < tokens.length && tokens[j].value !== "in"; j++) {
+        if (tokens[j].kind === "identifier") scoped.add(tokens[j].value);
+      }
+    }
+  }
+
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (OPENING.has(token.value)) depth++;
+    else if (CLOSING.has(token.value)) depth--;
+
+    if (token.kind === "string") {
+      uses.reads.push(...formattedNames(token).filter((n) => !scoped.has(n)));
+      continue;
+    }
+    if (token.kind !== "identifier" || tokens[i - 1]?.value === ".") continue;
+    const next = tokens[i + 1]?.value;
+    if (next === ":=") {
+      uses.writes.push(token.value);
+    } else if (next === "=" && depth > 0) {
+      // Keyword argument
+    } else if (!scoped.has(token.value)) {
+      uses.reads.push(token.value);
+    }
+  }
+}
+
+/**
+ * Names read inside the replacement fields of an f-string, including fields
+ * nested in format specs such as `{value:>{width}}`
+ */
+function formattedNames(token: Token): string[] {
+  const prefix = /^[A-Za-z]*/.exec(token.value)![0];
+  if (!/f/i.test(prefix)) return [];
+  return replacementFields(token.value.slice(prefix.length)).flatMap(expressionNames);
+}
+
+function replacementFields(text: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (depth === 0 && text.startsWith("{{", i)) {
+      i++;
+    } else if (text[i] === "{") {
+      if (depth++ === 0) start = i + 1;
+    } else if (text[i] === "}" && depth > 0 && --depth === 0) {
+      fields.push(text.slice(start, i));
+    }
+  }
+  return fields;
+}
+
+function expressionNames(field: string): string[] {
+  // The expression ends at a conversion (`!r`) or format spec (`:>10`)
+  const end = /![rsa](?=:|$)|:(?!=)/.exec(field);
+  const expression = end ? field.slice(0, end.index) : field;
+  const names = [...expression.matchAll(/(?<![\w.'"])[A-Za-z_]\w*/g)]
+    .map((match) => match[0])
+    .filter((name) => !PYTHON_WORDS.has(name));
+  return end ? [...names, ...replacementFields(field.slice(end.index)).flatMap(expressionNames)] : names;
+}
+
+const PYTHON_WORDS = new Set([
+  "and", "or", "not", "in", "is", "if", "else", "for", "lambda", "None", "True", "False",
+]);
+
+function importedNames(tokens: Token[]): string[] {
+  const start = tokens[0].value === "from" ? tokens.findIndex((t) => t.value === "import") + 1 : 1;
+  const names: string[] = [];
+  let segment: Token[] = [];
+  const flush = () => {
+    const alias = segment.findIndex((t) => t.value === "as");
+    const bound = alias !== -1 ? segment[alias + 1] : segment[0];
+    if (bound?.kind === "identifier") names.push(bound.value);
+    segment = [];
+  };
+  for (const token of tokens.slice(start)) {
+    if (token.value === ",") flush();
+    else if (token.value !== "(" && token.value !== ")") segment.push(token);
+  }
+  flush();
+  return names;
+}
+
+function indexAtDepthZero(tokens: Token[], predicate: (token: Token) => boolean): number {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    if (OPENING.has(tokens[i].value)) depth++;
+    else if (CLOSING.has(tokens[i].value)) depth--;
+    else if (depth === 0 && predicate(tokens[i])) return i;
+  }
+  return -1;
+}
+
+function lastIndexAtDepthZero(tokens: Token[], predicate: (token: Token) => boolean): number {
+  let depth = 0;
+  let found = -1;
+  for (let i = 0; i < tokens.length; i++) {
+    if (OPENING.has(tokens[i].value)) depth++;
+    else if (CLOSING.has(tokens[i].value)) depth--;
+    else if (depth === 0 && predicate(tokens[i])) found = i;
+  }
+  return found;
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+
+function lineStart(doc: ParsedDocument, line: number): number {
+  let offset = 0;
+  for (let i = 0; i < line - 1; i++) offset += doc.lines[i].length + 1;
+  return offset;
+}
+
+function lineEnd(doc: ParsedDocument, line: number): number {
+  return lineStart(doc, line) + doc.lines[line - 1].length;
+}
+
+function leadingWhitespace(line: string): string {
+  return /^[ \t]*/.exec(line)![0];
+}
+
+/**
+ * The smallest step by which code lines indent, or the fallback when the
+ * file has no indentation
+ */
+function indentUnit(doc: ParsedDocument, fallback: string): string {
+  let unit: string | undefined;
+  let previous = 0;
+  let lastLine = 0;
+  for (const token of doc.codeTokens) {
+    if (token.line === lastLine) continue;
+    lastLine = token.line;
+    const indent = leadingWhitespace(doc.lines[token.line - 1]);
+    if (indent.length > previous && (!unit || indent.length - previous < unit.length)) {
+      unit = indent.slice(previous);
+    }
+    previous = indent.length;
+  }
+  return unit ?? fallback;
+}
+
+/**
+ * Moves the selected lines from one base indentation to another, leaving
+ * the inside of multi-line strings untouched
+ */
+function reindent(doc: ParsedDocument, selection: Selection, from: string, to: string): string[] {
+  const verbatim = new Set<number>();
+  for (const token of doc.tokens) {
+    if ((token.kind === "string" || token.kind === "template") && token.endLine > token.line) {
+      for (let line = token.line + 1; line <= token.endLine; line++) verbatim.add(line);
+    }
+  }
+
+  const lines: string[] = [];
+  for (let line = selection.startLine; line <= selection.endLine; line++) {
+    const text = doc.lines[line - 1];
+    if (verbatim.has(line)) lines.push(text);
+    else if (text.trim() === "") lines.push("");
+    else if (text.startsWith(from)) lines.push(to + text.slice(from.length));
+    else lines.push(to + text.trimStart());
+  }
+  while (lines[0] === "") lines.shift();
+  while (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
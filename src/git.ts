@@ -0,0 +1,167 @@
+/**
+ * Git module
+ * Reads changed files and diff hunks from a local repository with the git CLI
+ */
+
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+export type ChangeStatus = "added" | "modified" | "renamed" | "deleted";
+
+export interface ChangedFile {
+  /** Path relative to the directory git ran in */
+  filename: string;
+  /** Path in the base ref, for renamed files */
+  previousFilename?: string;
+  status: ChangeStatus;
+}
+
+/**
+ * One `@@` hunk of a zero-context diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+const execFileAsync = promisify(execFile);
+
+// Keeps `git show` of generated files from failing the whole request
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const STATUS_CODES: Record<string, ChangeStatus> = {
+  A: "added",
+  M: "modified",
+  T: "modified",
+  R: "renamed",
+  D: "deleted",
+};
+
+/**
+ * Runs git in a directory and returns its output. Pathspecs are taken
+ * literally and repository settings that run external programs (diff drivers,
+ * text conversion, fsmonitor hooks) are disabled, so only the local `.git`
+ * directory is read.
+ */
+export async function runGit(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["--no-pager", "--literal-pathspecs", "-c", "core.fsmonitor=false", "-c", "core.quotePath=false", ...args],
+      { cwd, encoding: "utf8", maxBuffer: MAX_OUTPUT, env: { ...process.env, GIT_OPTIONAL_LOCKS: "0" } }
+    );
+    return stdout;
+  } catch (error) {
+    const { stderr, message } = error as { stderr?: string; message: string };
+    throw new Error(`git ${args[0]} failed: ${(stderr || message).trim()}`);
+  }
+}
+
+/**
+ * Checks that a ref names a commit and returns its object id
+ */
+export async function resolveCommit(cwd: string, ref: string): Promise<string> {
+  if (!ref || ref.startsWith("-")) {
+    throw new Error(`Invalid git ref: ${ref}`);
+  }
+  const output = await runGit(cwd, ["rev-parse", "--verify", "--quiet", "--end-of-options", `${ref}^{commit}`]).catch(
+    () => ""
+  );
+  if (!output.trim()) {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+  return output.trim();
+}
+
+/**
+ * Lists the files that differ between a base commit and either another commit
+ * or, without `head`, the working tree including untracked files. Paths are
+ * relative to `cwd` and limited to files below it.
+ */
+export async function listChangedFiles(cwd: string, base: string, head?: string): Promise<ChangedFile[]> {
+  const output = await runGit(cwd, [
+    "diff",
+    "--name-status",
+    "-z",
+    "-M",
+    "--no-ext-diff",
+    "--relative",
+    base,
+    ...(head ? [head] : []),
+    "--",
+  ]);
+
+  const files: ChangedFile[] = [];
+  const fields = output.split("\0");
+  for (let i = 0; i < fields.length - 1; ) {
+    // Renames carry a score ("R087") and both paths; unmerged entries are skipped
+    const status = STATUS_CODES[fields[i++].charAt(0)];
+    if (status === "renamed") {
+      const previousFilename = fields[i++];
+      files.push({ filename: fields[i++], previousFilename, status });
+    } else if (status) {
+      files.push({ filename: fields[i++], status });
+    } else {
+      i++;
+    }
+  }
+
+  if (!head) {
+    const untracked = await runGit(cwd, ["ls-files", "--others", "--exclude-standard", "-z"]);
+    for (const filename of untracked.split("\0").filter(Boolean)) {
+      files.push({ filename, status: "added" });
+    }
+  }
+
+  return files.sort((a, b) => (a.filename < b.filename ? -1 : a.filename > b.filename ? 1 : 0));
+}
+
+/**
+ * Returns the hunks of one file's diff, without context lines
+ */
+export async function diffHunks(cwd: string, base: string, file: ChangedFile, head?: string): Promise<DiffHunk[]> {
+  const paths = file.previousFilename ? [file.previousFilename, file.filename] : [file.filename];
+  const output = await runGit(cwd, [
+    "diff",
+    "--unified=0",
+    "--no-color",
+    "--no-ext-diff",
+    "--no-textconv",
+    "-M",
+    "--relative",
+    base,
+    ...(head ? [head] : []),
+    "--",
+    ...paths,
+  ]);
+  return parseHunks(output);
+}
+
+/**
+ * Reads the hunk headers of a unified diff
+ */
+export function parseHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  for (const line of diff.split("\n")) {
+    const match = line.match(HUNK_HEADER);
+    if (!match) continue;
+    hunks.push({
+      oldStart: Number(match[1]),
+      oldLines: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newLines: match[4] === undefined ? 1 : Number(match[4]),
+    });
+  }
+  return hunks;
+}
+
+/**
+ * Reads a file's content at a commit; the path is relative to `cwd`
+ */
+export async function readFileAtRef(cwd: string, ref: string, filename: string): Promise<string> {
+  return runGit(cwd, ["show", "--no-textconv", `${ref}:./${filename}`]);
+}
@@ -0,0 +1,75 @@
+/**
+ * Gitignore module
+ * Parses .gitignore files and decides whether a relative path is ignored
+ */
+
+import { globToRegExp } from "./glob.js";
+
+export interface IgnoreRule {
+  /** Directory of the .gitignore the rule came from, relative to the walk root ("" for the root) */
+  base: string;
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parses the contents of a .gitignore located in `base`
+ */
+export function parseGitignore(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+
+    let negated = false;
+    if (line.startsWith("!")) {
+      negated = true;
+      line = line.substring(1);
+    } else if (line.startsWith("\\!") || line.startsWith("\\#")) {
+      line = line.substring(1);
+    }
+
+    let directoryOnly = false;
+    if (line.endsWith("/")) {
+      directoryOnly = true;
+      line = line.slice(0, -1);
+    }
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's
+    // directory; otherwise it matches a name at any depth
+    const anchored = line.includes("/");
+    if (line.startsWith("/")) line = line.substring(1);
+    const glob = anchored ? line : `**/${line}`;
+
+    rules.push({ base, pattern: globToRegExp(glob), negated, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Returns true when the path is ignored. The last matching rule wins, so a
+ * later `!pattern` re-includes what an earlier rule excluded.
+ */
+export function isIgnored(path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+
+    let relative = path;
+    if (rule.base) {
+      if (!path.startsWith(rule.base + "/")) continue;
+      relative = path.substring(rule.base.length + 1);
+    }
+
+    if (rule.pattern.test(relative)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
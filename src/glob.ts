@@ -0,0 +1,91 @@
+/**
+ * Glob module
+ * Matches forward-slash relative paths against glob patterns
+ */
+
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Converts a glob into an anchored regular expression. Supports `**` for any
+ * number of directories, `*` and `?` within a path segment, character classes
+ * (`[abc]`, `[!abc]`) and alternatives (`{js,ts}`).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let cached = compiled.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === "/";
+        if (atSegmentStart && atSegmentEnd) {
+          if (pattern[i + 2] === "/") {
+            // `**/` matches zero or more directories
+            source += "(?:.*/)?";
+            i += 2;
+          } else {
+            source += ".*";
+            i += 1;
+          }
+          continue;
+        }
+      }
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "[") {
+      const close = pattern.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        let body = pattern.substring(i + 1, close).replace(/\\/g, "\\\\");
+        if (body.startsWith("!")) body = "^" + body.substring(1);
+        source += `[${body}]`;
+        i = close;
+      }
+    } else if (ch === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (ch === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (ch === "," && braceDepth > 0) {
+      source += "|";
+    } else if (ch === "\\" && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+
+  cached = new RegExp(`^${source}$`);
+  compiled.set(pattern, cached);
+  return cached;
+}
+
+/**
+ * Returns true when the relative path matches any of the patterns
+ */
+export function matchesAny(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(path));
+}
+
+/**
+ * Returns true when every path below the directory is excluded by a
+ * pattern ending in `/**`, so the walk can skip the directory entirely
+ */
+export function excludesDirectory(directory: string, patterns: string[]): boolean {
+  return patterns.some(
+    (pattern) => pattern.endsWith("/**") && globToRegExp(pattern.slice(0, -3)).test(directory)
+  );
+}
+
+function escapeRegExp(ch: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(ch) ? `\\${ch}` : ch;
+}
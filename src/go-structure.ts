@@ -0,0 +1,404 @@
+/**
+ * Go structural model module
+ * Finds top-level functions, receiver methods and struct types in the token
+ * stream, and recognizes Go's error handling and goroutine idioms
+ */
+
+import { ParsedDocument, Token, matchBrackets, statementTokens, typeText } from "./parser.js";
+import type { DeclaredFunction, DeclaredStructure, DeclaredType } from "./languages.js";
+import type { CodeSmell } from "./code-smells.js";
+
+export interface GoFunction extends DeclaredFunction {
+  /** Result types as written, e.g. ["*User", "error"] */
+  results: string[];
+}
+
+export interface GoStructure extends DeclaredStructure {
+  functions: GoFunction[];
+  types: DeclaredType[];
+}
+
+export interface GoroutineInLoop {
+  line: number;
+  column: number;
+  /** Line of the innermost loop around the `go` statement */
+  loopLine: number;
+  /** Loop variable the goroutine's function literal uses without receiving it as an argument */
+  captured?: string;
+}
+
+export interface UncheckedError {
+  line: number;
+  column: number;
+  /** Called function as written, e.g. "os.Remove" or "repo.Save" */
+  callee: string;
+  /** True when the error is assigned to `_` rather than dropped with the whole result */
+  discarded: boolean;
+}
+
+const structures = new WeakMap<ParsedDocument, GoStructure>();
+
+/**
+ * Standard library functions whose error result is commonly ignored by mistake
+ */
+const ERROR_RETURNING_FUNCTIONS = new Set([
+  "os.Remove", "os.RemoveAll", "os.Mkdir", "os.MkdirAll", "os.WriteFile", "os.ReadFile",
+  "os.Rename", "os.Chdir", "os.Chmod", "os.Setenv", "os.Unsetenv", "os.Open", "os.Create",
+  "json.Unmarshal", "json.Marshal", "strconv.Atoi", "strconv.ParseInt", "strconv.ParseFloat",
+  "strconv.ParseBool", "io.Copy", "io.ReadAll", "http.ListenAndServe",
+]);
+
+// Names Go code conventionally gives to error values
+const ERROR_NAME = /^(?:err|\w*Err)$/;
+
+/**
+ * Builds the structural model of a Go file: top-level functions, methods
+ * with their receiver type, and struct types with the methods declared for
+ * them anywhere in the file. Cached per document.
+ */
+export function buildGoStructure(doc: ParsedDocument): GoStructure {
+  const cached = structures.get(doc);
+  if (cached) return cached;
+
+  const tokens = statementTokens(doc);
+  const partner = matchBrackets(tokens);
+  const functions: GoFunction[] = [];
+  const structs: Array<Omit<DeclaredType, "lines" | "methods">> = [];
+
+  const skip = (i: number) => (partner.get(i) ?? i) + 1;
+
+  /** Splits the tokens between two indexes at top-level commas */
+  const split = (from: number, to: number): Token[][] => {
+    const segments: Token[][] = [];
+    let current: Token[] = [];
+    for (let i = from; i < to; i++) {
+      if (tokens[i].value === ",") {
+        segments.push(current);
+        current = [];
+        continue;
+      }
+      const end = partner.get(i) ?? i;
+      current.push(...tokens.slice(i, end + 1));
+      i = end;
+    }
+    if (current.length > 0 || segments.length > 0) segments.push(current);
+    return segments;
+  };
+
+  /** Names of a parameter list and the type of each entry; unnamed lists get `_` names */
+  const fields = (from: number, to: number): Array<{ name: string; type: string }> => {
+    const segments = split(from, to);
+    const named = segments.some(
+      (segment) => segment.length > 1 && segment[0].kind === "identifier" && segment[1].value !== "."
+    );
+    if (!named) return segments.map((segment) => ({ name: "_", type: typeText(segment) }));
+
+    // In `a, b int` the type written last applies to the names before it
+    const entries = segments.map((segment) => ({ name: segment[0]?.value ?? "_", type: typeText(segment.slice(1)) }));
+    for (let i = entries.length - 2; i >= 0; i--) {
+      if (entries[i].type === "") entries[i].type = entries[i + 1].type;
+    }
+    return entries;
+  };
+
+  const parseFunction = (start: number): { fn: GoFunction; hasBody: boolean; next: number } | null => {
+    let i = start + 1;
+    let owner: string | undefined;
+    if (tokens[i]?.value === "(") {
+      const close = partner.get(i) ?? i;
+      // The receiver type is the last name outside type arguments: `(r *Repo[T])` is Repo
+      for (let j = i + 1; j < close; j = skipTypeArguments(tokens, partner, j)) {
+        if (tokens[j].kind === "identifier") owner = tokens[j].value;
+      }
+      i = close + 1;
+    }
+    const name = tokens[i];
+    if (name?.kind !== "identifier") return null;
+    i++;
+    if (tokens[i]?.value === "[") i = skip(i);
+    if (tokens[i]?.value !== "(") return null;
+
+    const paramsClose = partner.get(i) ?? i;
+    const parameters = fields(i + 1, paramsClose).map((field) => field.name);
+    i = paramsClose + 1;
+
+    let results: string[] = [];
+    if (tokens[i]?.value === "(") {
+      results = fields(i + 1, partner.get(i) ?? i).map((field) => field.type);
+      i = skip(i);
+    } else {
+      const from = i;
+      while (i < tokens.length && tokens[i].value !== "{" && tokens[i].value !== ";") {
+        i = isTypeLiteral(tokens, i) ? skip(i + 1) : skip(i);
+      }
+      if (i > from) results = [typeText(tokens.slice(from, i))];
+    }
+
+    let endLine = name.line;
+    const hasBody = tokens[i]?.value === "{";
+    if (hasBody) {
+      const close = partner.get(i) ?? tokens.length - 1;
+      endLine = tokens[close].line;
+      i = close + 1;
+    }
+    return {
+      fn: {
+        name: name.value,
+        ...(owner ? { owner } : {}),
+        startLine: tokens[start].line,
+        endLine,
+        parameters,
+        results,
+      },
+      hasBody,
+      next: i,
+    };
+  };
+
+  /** Parses one `Name [params] type` spec and returns the index after it */
+  const parseTypeSpec = (start: number, limit: number): number => {
+    const name = tokens[start];
+    let i = start + 1;
+    // `[T any]` before struct or interface declares type parameters; otherwise it starts an array type
+    if (tokens[i]?.value === "[" && isTypeLiteral(tokens, skip(i))) i = skip(i);
+    if (tokens[i]?.value === "=") i++;
+    if (name?.kind === "identifier" && isTypeLiteral(tokens, i) && tokens[i].value === "struct") {
+      const close = partner.get(i + 1) ?? i + 1;
+      structs.push({ kind: "struct", name: name.value, startLine: name.line, endLine: tokens[close].line });
+    }
+    while (i < limit && tokens[i].value !== ";") i = skip(i);
+    return i + 1;
+  };
+
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.kind === "keyword" && token.value === "func") {
+      const parsed = parseFunction(i);
+      if (parsed) {
+        // Declarations without a body are implemented in assembly
+        if (parsed.hasBody) functions.push(parsed.fn);
+        i = parsed.next;
+        continue;
+      }
+    } else if (token.kind === "keyword" && token.value === "type") {
+      if (tokens[i + 1]?.value === "(") {
+        const close = partner.get(i + 1) ?? tokens.length;
+        for (let j = i + 2; j < close; ) {
+          j = tokens[j].value === ";" ? j + 1 : parseTypeSpec(j, close);
+        }
+        i = close + 1;
+      } else {
+        i = parseTypeSpec(i + 1, tokens.length);
+      }
+      continue;
+    }
+    i = skip(i);
+  }
+
+  const types = structs.map((struct) => {
+    const methods = functions.filter((fn) => fn.owner === struct.name);
+    const span = (from: number, to: number) => to - from + 1;
+    const lines = methods.reduce(
+      (sum, fn) => sum + span(fn.startLine, fn.endLine),
+      span(struct.startLine, struct.endLine)
+    );
+    return { ...struct, lines, methods };
+  });
+
+  const structure = { functions, types };
+  structures.set(doc, structure);
+  return structure;
+}
+
+/**
+ * Whether the `if` at `ifIndex` only compares an error value with nil, as in
+ * `if err != nil {` or `if err := save(); err != nil {`
+ */
+export function isErrorCheck(tokens: Token[], ifIndex: number): boolean {
+  let start = ifIndex + 1;
+  let depth = 0;
+  let end = start;
+  for (; end < tokens.length; end++) {
+    const value = tokens[end].value;
+    if (value === "(" || value === "[") depth++;
+    else if (value === ")" || value === "]") depth--;
+    else if (depth === 0 && value === ";") start = end + 1;
+    else if (depth === 0 && value === "{") break;
+  }
+  const condition = tokens.slice(start, end);
+  return (
+    condition.length === 3 &&
+    condition[0].kind === "identifier" &&
+    ERROR_NAME.test(condition[0].value) &&
+    condition[1].value === "!=" &&
+    condition[2].value === "nil"
+  );
+}
+
+/**
+ * Go-specific smells: goroutines started in loops and unchecked errors
+ */
+export function detectGoSmells(doc: ParsedDocument): CodeSmell[] {
+  const goroutines = findGoroutinesInLoops(doc).map(
+    (found): CodeSmell => ({
+      type: "Goroutine In Loop",
+      severity: "medium",
+      description: found.captured
+        ? `Goroutine started in the loop on line ${found.loopLine} captures loop variable '${found.captured}'`
+        : `Goroutine started for every iteration of the loop on line ${found.loopLine}`,
+      location: { line: found.line, column: found.column },
+      suggestion: found.captured
+        ? `Pass '${found.captured}' to the function literal as an argument; before Go 1.22 every goroutine ` +
+          "shares the same variable"
+        : "Bound the number of goroutines with a worker pool or semaphore, and wait for them with a sync.WaitGroup",
+    })
+  );
+  const errors = findUncheckedErrors(doc).map(
+    (found): CodeSmell => ({
+      type: "Unchecked Error",
+      severity: "high",
+      description: found.discarded
+        ? `Error returned by '${found.callee}' is discarded with _`
+        : `Error returned by '${found.callee}' is not checked`,
+      location: { line: found.line, column: found.column },
+      suggestion: "Handle the error, or return it wrapped with context using fmt.Errorf(\"...: %w\", err)",
+    })
+  );
+  return [...goroutines, ...errors];
+}
+
+/**
+ * Finds `go` statements inside `for` loops, with the loop variable a
+ * goroutine's function literal shares with the loop, if any
+ */
+export function findGoroutinesInLoops(doc: ParsedDocument): GoroutineInLoop[] {
+  const tokens = statementTokens(doc);
+  const partner = matchBrackets(tokens);
+
+  // Loops in source order, so inner loops overwrite the outer ones they sit in
+  const innermost = new Map<number, { line: number; variables: string[] }>();
+  tokens.forEach((token, index) => {
+    if (token.kind !== "keyword" || token.value !== "for") return;
+    const open = headerEnd(tokens, partner, index + 1);
+    const close = partner.get(open);
+    if (close === undefined) return;
+
+    const header = tokens.slice(index + 1, open);
+    const define = header.findIndex((t) => t.value === ":=");
+    const variables = header
+      .slice(0, Math.max(define, 0))
+      .filter((t) => t.kind === "identifier")
+      .map((t) => t.value);
+    for (let i = open + 1; i < close; i++) {
+      if (tokens[i].kind === "keyword" && tokens[i].value === "go") {
+        innermost.set(i, { line: token.line, variables: variables.filter((v) => v !== "_") });
+      }
+    }
+  });
+
+  return [...innermost.entries()].map(([index, loop]) => {
+    const found: GoroutineInLoop = { line: tokens[index].line, column: tokens[index].column, loopLine: loop.line };
+    if (tokens[index + 1]?.value !== "func" || tokens[index + 2]?.value !== "(") return found;
+
+    const paramsClose = partner.get(index + 2) ?? index + 2;
+    const parameters = new Set(tokens.slice(index + 3, paramsClose).map((t) => t.value));
+    const open = headerEnd(tokens, partner, paramsClose + 1);
+    const close = partner.get(open) ?? open;
+    const body = tokens.slice(open + 1, close);
+    const captured = loop.variables.find(
+      (name) =>
+        !parameters.has(name) &&
+        body.some((t, i) => t.kind === "identifier" && t.value === name && body[i - 1]?.value !== ".")
+    );
+    return captured ? { ...found, captured } : found;
+  });
+}
+
+/**
+ * Finds calls whose error result is ignored: statements that consist of a
+ * call to a function known to return an error, and assignments that put
+ * that error in `_`. Functions of the file whose last result is `error`
+ * count as known, as do common standard library functions. Deferred calls
+ * and goroutines are left out.
+ */
+export function findUncheckedErrors(doc: ParsedDocument): UncheckedError[] {
+  const tokens = statementTokens(doc);
+  const partner = matchBrackets(tokens);
+  const returnsError = (fn: GoFunction) => fn.results[fn.results.length - 1] === "error";
+  const { functions } = buildGoStructure(doc);
+  const localFunctions = new Set(functions.filter((fn) => !fn.owner && returnsError(fn)).map((fn) => fn.name));
+  const localMethods = new Set(functions.filter((fn) => fn.owner && returnsError(fn)).map((fn) => fn.name));
+
+  /** The callee of a call spanning `start` up to the end of the statement, if it returns an error */
+  const erroringCall = (start: number): string | undefined => {
+    const names: string[] = [];
+    let i = start;
+    while (tokens[i]?.kind === "identifier") {
+      names.push(tokens[i].value);
+      if (tokens[i + 1]?.value !== ".") break;
+      i += 2;
+    }
+    if (names.length === 0 || tokens[i + 1]?.value !== "(") return undefined;
+    const close = partner.get(i + 1);
+    if (close === undefined || ![";", "}"].includes(tokens[close + 1]?.value ?? ";")) return undefined;
+
+    const callee = names.join(".");
+    const last = names[names.length - 1];
+    const known =
+      (names.length === 1 && localFunctions.has(last)) ||
+      (names.length === 2 && ERROR_RETURNING_FUNCTIONS.has(callee)) ||
+      (names.length > 1 && localMethods.has(last));
+    return known ? callee : undefined;
+  };
+
+  const findings: UncheckedError[] = [];
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1]?.value;
+    if (index > 0 && previous !== ";" && previous !== "{" && previous !== "}" && previous !== ":") return;
+
+    const callee = erroringCall(index);
+    if (callee) {
+      findings.push({ line: token.line, column: token.column, callee, discarded: false });
+      return;
+    }
+
+    // `_ = f()`, `v, _ := f()`
+    let i = index;
+    while (tokens[i]?.kind === "identifier" && tokens[i + 1]?.value === ",") i += 2;
+    if (tokens[i]?.value !== "_" || !["=", ":="].includes(tokens[i + 1]?.value)) return;
+    const assigned = erroringCall(i + 2);
+    if (assigned) {
+      findings.push({ line: tokens[i].line, column: tokens[i].column, callee: assigned, discarded: true });
+    }
+  });
+  return findings;
+}
+
+/**
+ * Index of the `{` that opens the body after a header starting at `from`.
+ * `{` of struct and interface type literals is skipped.
+ */
+function headerEnd(tokens: Token[], partner: Map<number, number>, from: number): number {
+  let i = from;
+  while (i < tokens.length && tokens[i].value !== "{") {
+    i = (partner.get(isTypeLiteral(tokens, i) ? i + 1 : i) ?? i) + 1;
+  }
+  return i;
+}
+
+/**
+ * Whether the token at `index` starts a `struct {...}` or `interface {...}` type literal
+ */
+function isTypeLiteral(tokens: Token[], index: number): boolean {
+  const token = tokens[index];
+  return (
+    token?.kind === "keyword" &&
+    (token.value === "struct" || token.value === "interface") &&
+    tokens[index + 1]?.value === "{"
+  );
+}
+
+function skipTypeArguments(tokens: Token[], partner: Map<number, number>, index: number): number {
+  return tokens[index].value === "[" ? (partner.get(index) ?? index) + 1 : index + 1;
+}
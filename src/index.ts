@@ -1,5 +1,7 @@
 #!/usr/bin/env node
 
+import { existsSync } from "node:fs";
+import path from "node:path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
@@ -10,9 +12,26 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import { analyzeCode } from "./analyzer.js";
 import { detectCodeSmells } from "./code-smells.js";
+import { detectSecurityIssues } from "./security.js";
 import { suggestRefactorings } from "./refactorings.js";
 import { analyzeComplexity } from "./complexity.js";
+import { applyRefactoring, TRANSFORMS } from "./transforms.js";
+import { extractMethod } from "./extract-method.js";
+import { renameSymbol } from "./rename.js";
 import { generateAIPrompt } from "./ai-integration.js";
+import { createRedactor, RedactionPattern } from "./redaction.js";
+import { toSarif, SarifSource } from "./sarif.js";
+import { buildControlFlowGraphs, formatControlFlowGraphs, GraphFormat } from "./control-flow.js";
+import { analyzeDirectory, createDirectoryBaseline, inferLanguage } from "./directory.js";
+import { resolveAllowedDirectory } from "./sandbox.js";
+import { applyBaseline, Baseline, BaselineMatch, createBaseline, loadBaseline, writeBaseline } from "./baseline.js";
+import { analyzeChanges } from "./changes.js";
+import { buildDependencyGraph } from "./dependency-graph.js";
+import { detectClones } from "./clones.js";
+import { analyzeDeadCode } from "./dead-code.js";
+import { loadEffectiveConfig, readPluginSpecifiers, resolveRules, CONFIG_FILENAME } from "./config.js";
+import { loadPlugins } from "./plugins.js";
+import { listLanguages } from "./languages.js";
 
 const server = new Server(
   {
@@ -45,13 +64,29 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             language: {
               type: "string",
-              description: "Programming language (javascript, typescript, python, java, etc.)",
+              description: "Programming language (javascript, typescript, python, java; see list_languages)",
               default: "javascript",
             },
             filename: {
               type: "string",
               description: "Optional filename for context",
             },
+            format: {
+              type: "string",
+              enum: ["json", "sarif"],
+              description: "Output format: the default JSON report or a SARIF 2.1.0 log",
+              default: "json",
+            },
+            config: {
+              type: "object",
+              description:
+                "Rule settings layered over the project's .intellicoderc.json, e.g. { \"rules\": { \"long-method\": { \"threshold\": 80 } } }",
+            },
+            baseline: {
+              type: ["object", "string"],
+              description:
+                "Baseline from create_baseline (the object, its JSON text or a file path); findings it lists are left out",
+            },
           },
           required: ["code"],
         },
@@ -72,6 +107,55 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Programming language",
               default: "javascript",
             },
+            filename: {
+              type: "string",
+              description: "Optional filename, used as the artifact location in SARIF output",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "sarif"],
+              description: "Output format: the default JSON report or a SARIF 2.1.0 log",
+              default: "json",
+            },
+            config: {
+              type: "object",
+              description:
+                "Rule settings layered over the project's .intellicoderc.json, e.g. { \"rules\": { \"long-method\": { \"threshold\": 80 } } }",
+            },
+            baseline: {
+              type: ["object", "string"],
+              description:
+                "Baseline from create_baseline (the object, its JSON text or a file path); findings it lists are left out",
+            },
+          },
+          required: ["code"],
+        },
+      },
+      {
+        name: "detect_security_issues",
+        description:
+          "Detects injection and deserialization vulnerabilities (eval, innerHTML, SQL string building, shell commands, pickle/yaml.load, Runtime.exec) in JavaScript, TypeScript, Python and Java, each tagged with its CWE id.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: {
+              type: "string",
+              description: "The source code to scan",
+            },
+            language: {
+              type: "string",
+              description: "Programming language",
+              default: "javascript",
+            },
+            filename: {
+              type: "string",
+              description: "Optional filename, used to pick the matching config overrides",
+            },
+            config: {
+              type: "object",
+              description:
+                "Rule settings layered over the project's .intellicoderc.json, e.g. { \"rules\": { \"sql-injection\": false } }",
+            },
           },
           required: ["code"],
         },
@@ -92,14 +176,184 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Programming language",
               default: "javascript",
             },
+            filename: {
+              type: "string",
+              description: "Optional filename, used as the artifact location in SARIF output",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "sarif"],
+              description: "Output format: the default JSON report or a SARIF 2.1.0 log",
+              default: "json",
+            },
+            baseline: {
+              type: ["object", "string"],
+              description:
+                "Baseline from create_baseline (the object, its JSON text or a file path); findings it lists are left out",
+            },
           },
           required: ["code"],
         },
       },
+      {
+        name: "apply_refactoring",
+        description:
+          "Applies mechanical refactorings to JavaScript/TypeScript code and returns the transformed source with a unified diff. The result is re-parsed to confirm it is still valid.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: {
+              type: "string",
+              description: "The source code to refactor",
+            },
+            language: {
+              type: "string",
+              description: "Programming language (javascript or typescript)",
+              default: "javascript",
+            },
+            refactoring: {
+              type: "string",
+              enum: Object.keys(TRANSFORMS),
+              description:
+                "Transform to apply: " +
+                Object.entries(TRANSFORMS)
+                  .map(([id, description]) => `${id} (${description})`)
+                  .join("; "),
+            },
+            line: {
+              type: "number",
+              description: "Only change code starting on this line, e.g. a suggestion's location.line",
+            },
+            filename: {
+              type: "string",
+              description: "Optional filename, used in the diff headers",
+            },
+          },
+          required: ["code"],
+        },
+      },
+      {
+        name: "extract_method",
+        description:
+          "Moves whole statements on a line range into a new function. Variables flowing into the range become parameters, variables used afterwards are returned, and the range is replaced with a call. Refuses with the reason when the range returns, yields or jumps out of itself. Supports JavaScript, TypeScript and Python.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: {
+              type: "string",
+              description: "The source code containing the lines to extract",
+            },
+            language: {
+              type: "string",
+              description: "Programming language (javascript, typescript or python)",
+              default: "javascript",
+            },
+            startLine: {
+              type: "number",
+              description: "First line of the statements to extract",
+            },
+            endLine: {
+              type: "number",
+              description: "Last line of the statements to extract (inclusive)",
+            },
+            name: {
+              type: "string",
+              description: "Name of the new function (default: extracted)",
+            },
+            filename: {
+              type: "string",
+              description: "Optional filename, used in the diff headers",
+            },
+          },
+          required: ["code", "startLine", "endLine"],
+        },
+      },
+      {
+        name: "rename_symbol",
+        description:
+          "Renames the JavaScript/TypeScript binding at a location and every reference to it in its scope, including shorthand properties, destructuring and imports of it in the other files. Refuses when the new name would shadow or be shadowed by another binding. Returns a unified diff patch.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: {
+              type: "string",
+              description: "The source code, for a single file",
+            },
+            language: {
+              type: "string",
+              description: "Programming language of code (javascript or typescript)",
+              default: "javascript",
+            },
+            files: {
+              type: "array",
+              description: "Files to rename across instead of code; imports between them are followed",
+              items: {
+                type: "object",
+                properties: {
+                  filename: {
+                    type: "string",
+                    description: "Name of the file",
+                  },
+                  code: {
+                    type: "string",
+                    description: "Content of the file",
+                  },
+                  language: {
+                    type: "string",
+                    description: "Programming language",
+                  },
+                },
+                required: ["filename", "code"],
+              },
+            },
+            filename: {
+              type: "string",
+              description: "File holding the symbol (required with files); names code in the patch",
+            },
+            line: {
+              type: "number",
+              description: "Line of an occurrence of the symbol",
+            },
+            column: {
+              type: "number",
+              description: "Column of the occurrence on the line",
+            },
+            name: {
+              type: "string",
+              description: "Current name, to find the occurrence on the line when no column is given",
+            },
+            newName: {
+              type: "string",
+              description: "The new name",
+            },
+          },
+          required: ["line", "newName"],
+        },
+      },
       {
         name: "analyze_complexity",
         description:
-          "Analyzes code complexity metrics including cyclomatic complexity, cognitive complexity, and nesting depth.",
+          "Analyzes code complexity metrics including cyclomatic complexity, cognitive complexity, and nesting depth, with a per-function breakdown and file-level aggregates (max, mean, p90).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            code: {
+              type: "string",
+              description: "The source code to analyze",
+            },
+            language: {
+              type: "string",
+              description: "Programming language",
+              default: "javascript",
+            },
+          },
+          required: ["code"],
+        },
+      },
+      {
+        name: "get_control_flow_graph",
+        description:
+          "Builds the control-flow graph of each function (basic blocks, edges and exit points) and returns it as JSON, Graphviz DOT or Mermaid.",
         inputSchema: {
           type: "object",
           properties: {
@@ -112,6 +366,16 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Programming language",
               default: "javascript",
             },
+            functionName: {
+              type: "string",
+              description: "Only return the graph of this function (use <module> for top-level code)",
+            },
+            format: {
+              type: "string",
+              enum: ["json", "dot", "mermaid"],
+              description: "Output format",
+              default: "json",
+            },
           },
           required: ["code"],
         },
@@ -119,7 +383,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "analyze_multiple_files",
         description:
-          "Analyzes multiple code files at once, providing cross-file insights and dependency analysis.",
+          "Analyzes multiple code files at once, providing cross-file insights and a dependency graph: resolved imports between the files, unresolved imports, circular dependencies and fan-in/fan-out per file. Also reports Type-1 and Type-2 code clones within and across the files with duplicated-line percentages, and dead code: unused locals, parameters, private methods and exports no other file imports, and unreachable code, each with a confidence level.",
         inputSchema: {
           type: "object",
           properties: {
@@ -145,10 +409,194 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
                 required: ["filename", "code"],
               },
             },
+            format: {
+              type: "string",
+              enum: ["json", "sarif"],
+              description: "Output format: the default JSON report or a SARIF 2.1.0 log",
+              default: "json",
+            },
+            config: {
+              type: "object",
+              description:
+                "Rule settings layered over the project's .intellicoderc.json, e.g. { \"rules\": { \"long-method\": { \"threshold\": 80 } } }",
+            },
+            baseline: {
+              type: ["object", "string"],
+              description:
+                "Baseline from create_baseline (the object, its JSON text or a file path); findings it lists are left out",
+            },
           },
           required: ["files"],
         },
       },
+      {
+        name: "analyze_directory",
+        description:
+          "Analyzes source files directly from disk below a root directory, returning a summary plus paginated per-file results. Reads are restricted to the roots listed in INTELLI_CODE_ALLOWED_ROOTS (default: the server's working directory).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            root: {
+              type: "string",
+              description: "Directory to analyze, absolute or relative to the server's working directory",
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description: "Glob patterns of files to analyze, relative to the root (default: all files)",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "Glob patterns of files to skip; patterns ending in /** skip whole directories",
+            },
+            respectGitignore: {
+              type: "boolean",
+              description: "Skip files ignored by .gitignore files under the root",
+              default: true,
+            },
+            page: {
+              type: "number",
+              description: "Page of per-file results to return, starting at 1",
+              default: 1,
+            },
+            pageSize: {
+              type: "number",
+              description: "Number of per-file results per page (max 100)",
+              default: 20,
+            },
+            config: {
+              type: "object",
+              description:
+                "Rule settings layered over the .intellicoderc.json in the root directory; override globs are relative to the root",
+            },
+            baseline: {
+              type: ["object", "string"],
+              description:
+                "Baseline from create_baseline (the object, its JSON text or a file path); findings it lists are left out and counted in summary.baseline",
+            },
+          },
+          required: ["root"],
+        },
+      },
+      {
+        name: "create_baseline",
+        description:
+          "Snapshots the current issues, smells and refactoring suggestions with line-independent fingerprints. Pass the result as the baseline argument of the analysis tools to see only new findings.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            files: {
+              type: "array",
+              description: "Files to snapshot; use root instead to read them from disk",
+              items: {
+                type: "object",
+                properties: {
+                  filename: {
+                    type: "string",
+                    description: "Name of the file",
+                  },
+                  code: {
+                    type: "string",
+                    description: "Content of the file",
+                  },
+                  language: {
+                    type: "string",
+                    description: "Programming language",
+                  },
+                },
+                required: ["filename", "code"],
+              },
+            },
+            root: {
+              type: "string",
+              description: "Directory to snapshot, restricted to INTELLI_CODE_ALLOWED_ROOTS; filenames are recorded relative to it",
+            },
+            include: {
+              type: "array",
+              items: { type: "string" },
+              description: "Glob patterns of files to snapshot, relative to the root (default: all files)",
+            },
+            exclude: {
+              type: "array",
+              items: { type: "string" },
+              description: "Glob patterns of files to skip; patterns ending in /** skip whole directories",
+            },
+            respectGitignore: {
+              type: "boolean",
+              description: "Skip files ignored by .gitignore files under the root",
+              default: true,
+            },
+            config: {
+              type: "object",
+              description: "Rule settings layered over .intellicoderc.json",
+            },
+            output: {
+              type: "string",
+              description: "Optional .json path to also write the baseline to, inside INTELLI_CODE_ALLOWED_ROOTS; an existing file must be a baseline",
+            },
+          },
+        },
+      },
+      {
+        name: "analyze_changes",
+        description:
+          "Analyzes the changes of a local git repository: diffs the working tree, or a head ref, against a base ref and reports only the issues and smells on changed lines, plus complexity deltas for each touched function. Works offline against the local .git directory.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            root: {
+              type: "string",
+              description:
+                "Directory inside the repository, restricted to INTELLI_CODE_ALLOWED_ROOTS; only changes below it are analyzed (default: the server's working directory)",
+            },
+            base: {
+              type: "string",
+              description: "Ref to compare against, e.g. main or HEAD~1",
+            },
+            head: {
+              type: "string",
+              description: "Ref holding the changes, e.g. HEAD; omit to use the working tree including untracked files",
+            },
+            config: {
+              type: "object",
+              description: "Rule settings layered over the .intellicoderc.json in the root directory",
+            },
+          },
+          required: ["base"],
+        },
+      },
+      {
+        name: "get_effective_config",
+        description:
+          "Shows the rule settings that apply to a file after merging the defaults, .intellicoderc.json, the config argument and matching per-glob overrides.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            filename: {
+              type: "string",
+              description: "File path relative to the project root, used to select per-glob overrides",
+            },
+            root: {
+              type: "string",
+              description: "Directory containing .intellicoderc.json (default: the server's working directory)",
+            },
+            config: {
+              type: "object",
+              description: "Rule settings layered over .intellicoderc.json",
+            },
+          },
+        },
+      },
+      {
+        name: "list_languages",
+        description:
+          "Lists the supported languages with their aliases, file extensions, comment syntax, block model, default rule thresholds and the language-specific analyses each supports.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
       {
         name: "generate_ai_analysis_prompt",
         description:
@@ -170,6 +618,24 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               description: "Focus area: 'security', 'performance', 'maintainability', 'all'",
               default: "all",
             },
+            redact: {
+              type: "boolean",
+              description:
+                "Replace secrets, email addresses and IP addresses with placeholders such as <SECRET_1> and return the redaction map",
+              default: true,
+            },
+            redactPatterns: {
+              type: "array",
+              description: "Extra values to redact, e.g. [{ \"label\": \"CUSTOMER_ID\", \"pattern\": \"CUST-\\\\d+\" }]",
+              items: {
+                type: "object",
+                properties: {
+                  label: { type: "string", description: "Placeholder prefix" },
+                  pattern: { type: "string", description: "Regular expression" },
+                },
+                required: ["label", "pattern"],
+              },
+            },
           },
           required: ["code"],
         },
@@ -187,49 +653,164 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     switch (name) {
       case "analyze_code": {
-        const { code, language = "javascript", filename = "unknown" } = args as {
+        const { code, language = "javascript", filename = "unknown", format = "json", config, baseline } = args as {
           code: string;
           language?: string;
           filename?: string;
+          format?: string;
+          config?: unknown;
+          baseline?: unknown;
         };
-        const analysis = analyzeCode(code, language, filename);
+        const rules = resolveRules(await loadEffectiveConfig(process.cwd(), config), filename, language);
+        const source = await withBaseline(
+          { filename, language, code, analysis: analyzeCode(code, language, filename, undefined, rules) },
+          baseline
+        );
+        const report =
+          format === "sarif" ? toSarif([{ ...source, rules }]) : { ...source.analysis, baseline: source.baseline };
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(analysis, null, 2),
+              text: JSON.stringify(report, null, 2),
             },
           ],
         };
       }
 
       case "detect_code_smells": {
-        const { code, language = "javascript" } = args as {
+        const { code, language = "javascript", filename = "unknown", format = "json", config, baseline } = args as {
           code: string;
           language?: string;
+          filename?: string;
+          format?: string;
+          config?: unknown;
+          baseline?: unknown;
+        };
+        const rules = resolveRules(await loadEffectiveConfig(process.cwd(), config), filename, language);
+        const source = await withBaseline(
+          { filename, language, code, smells: detectCodeSmells(code, language, undefined, rules, filename) },
+          baseline
+        );
+        const report =
+          format === "sarif" ? toSarif([{ ...source, rules }]) : { ...source.smells, baseline: source.baseline };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "detect_security_issues": {
+        const { code, language = "javascript", filename = "unknown", config } = args as {
+          code: string;
+          language?: string;
+          filename?: string;
+          config?: unknown;
         };
-        const smells = detectCodeSmells(code, language);
+        const rules = resolveRules(await loadEffectiveConfig(process.cwd(), config), filename, language);
+        const report = detectSecurityIssues(code, language, undefined, rules);
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(smells, null, 2),
+              text: JSON.stringify(report, null, 2),
             },
           ],
         };
       }
 
       case "suggest_refactorings": {
-        const { code, language = "javascript" } = args as {
+        const { code, language = "javascript", filename = "unknown", format = "json", baseline } = args as {
+          code: string;
+          language?: string;
+          filename?: string;
+          format?: string;
+          baseline?: unknown;
+        };
+        const source = await withBaseline(
+          { filename, language, code, refactorings: suggestRefactorings(code, language) },
+          baseline
+        );
+        const report =
+          format === "sarif"
+            ? toSarif([source])
+            : { ...source.refactorings, baseline: source.baseline };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(report, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "apply_refactoring": {
+        const { code, language = "javascript", refactoring, line, filename = "unknown" } = args as {
+          code: string;
+          language?: string;
+          refactoring?: string;
+          line?: number;
+          filename?: string;
+        };
+        const result = applyRefactoring(code, language, { refactoring, line, filename });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "extract_method": {
+        const { code, language = "javascript", startLine, endLine, name, filename = "unknown" } = args as {
           code: string;
           language?: string;
+          startLine: number;
+          endLine: number;
+          name?: string;
+          filename?: string;
         };
-        const refactorings = suggestRefactorings(code, language);
+        const result = extractMethod(code, language, { startLine, endLine, name, filename });
         return {
           content: [
             {
               type: "text",
-              text: JSON.stringify(refactorings, null, 2),
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "rename_symbol": {
+        const { code, language = "javascript", files, filename, line, column, name, newName } = args as {
+          code?: string;
+          language?: string;
+          files?: Array<{ filename: string; code: string; language?: string }>;
+          filename?: string;
+          line: number;
+          column?: number;
+          name?: string;
+          newName: string;
+        };
+        if (!files && code === undefined) {
+          throw new Error("Provide either code or files");
+        }
+        const sources = files
+          ? files.map((file) => ({ ...file, language: file.language || "javascript" }))
+          : [{ filename: filename ?? "unknown", code: code!, language }];
+        const result = renameSymbol(sources, { filename: files ? filename : undefined, line, column, name }, newName);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
@@ -251,25 +832,84 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "get_control_flow_graph": {
+        const { code, language = "javascript", functionName, format = "json" } = args as {
+          code: string;
+          language?: string;
+          functionName?: string;
+          format?: GraphFormat;
+        };
+        const graphs = buildControlFlowGraphs(code, language);
+        const candidates = [...graphs.functions, graphs.module];
+        const selected = functionName
+          ? candidates.filter((graph) => graph.name === functionName)
+          : graphs.functions.length > 0
+          ? graphs.functions
+          : [graphs.module];
+        if (selected.length === 0) {
+          throw new Error(`Function not found: ${functionName}`);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: formatControlFlowGraphs(selected, format),
+            },
+          ],
+        };
+      }
+
       case "analyze_multiple_files": {
-        const { files } = args as {
+        const { files, format = "json", config, baseline } = args as {
           files: Array<{
             filename: string;
             code: string;
             language?: string;
           }>;
+          format?: string;
+          config?: unknown;
+          baseline?: unknown;
         };
 
-        const results = files.map((file) => ({
-          filename: file.filename,
-          analysis: analyzeCode(
-            file.code,
-            file.language || "javascript",
-            file.filename
-          ),
-          smells: detectCodeSmells(file.code, file.language || "javascript"),
-          complexity: analyzeComplexity(file.code, file.language || "javascript"),
-        }));
+        const effectiveConfig = await loadEffectiveConfig(process.cwd(), config);
+        const loadedBaseline = baseline === undefined ? undefined : await loadBaseline(baseline);
+        const results = files.map((file) => {
+          const language = file.language || "javascript";
+          const rules = resolveRules(effectiveConfig, file.filename, language);
+          const result = {
+            filename: file.filename,
+            analysis: analyzeCode(file.code, language, file.filename, undefined, rules),
+            smells: detectCodeSmells(file.code, language, undefined, rules, file.filename),
+            complexity: analyzeComplexity(file.code, language),
+          };
+          if (!loadedBaseline) return result;
+          const { code: _code, language: _language, ...filtered } = applyBaseline(
+            { ...result, language, code: file.code },
+            loadedBaseline
+          );
+          return filtered;
+        });
+
+        if (format === "sarif") {
+          const log = toSarif(
+            results.map((result, index) => ({
+              filename: result.filename,
+              language: files[index].language || "javascript",
+              code: files[index].code,
+              analysis: result.analysis,
+              smells: result.smells,
+              rules: resolveRules(effectiveConfig, result.filename, files[index].language || "javascript"),
+            }))
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(log, null, 2),
+              },
+            ],
+          };
+        }
 
         const summary = {
           totalFiles: files.length,
@@ -277,6 +917,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             (sum, f) => sum + f.code.split("\n").length,
             0
           ),
+          dependencyGraph: buildDependencyGraph(
+            files.map((file) => ({
+              filename: file.filename,
+              code: file.code,
+              language: file.language || "javascript",
+            }))
+          ),
+          clones: detectClones(
+            files.map((file) => {
+              const rules = resolveRules(effectiveConfig, file.filename, file.language || "javascript");
+              const rule = rules["duplicate-code"];
+              return {
+                filename: file.filename,
+                code: file.code,
+                language: file.language || "javascript",
+                minTokens: rule.enabled ? rule.threshold : Infinity,
+              };
+            }),
+            { minTokens: resolveRules(effectiveConfig)["duplicate-code"].threshold }
+          ),
+          deadCode: analyzeDeadCode(
+            files.map((file) => ({
+              filename: file.filename,
+              code: file.code,
+              language: file.language || "javascript",
+              rules: resolveRules(effectiveConfig, file.filename, file.language || "javascript"),
+            }))
+          ),
           fileResults: results,
         };
 
@@ -290,19 +958,173 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "analyze_directory": {
+        const {
+          root,
+          include,
+          exclude,
+          respectGitignore = true,
+          page = 1,
+          pageSize = 20,
+          config,
+          baseline,
+        } = args as {
+          root: string;
+          include?: string[];
+          exclude?: string[];
+          respectGitignore?: boolean;
+          page?: number;
+          pageSize?: number;
+          config?: unknown;
+          baseline?: unknown;
+        };
+        const result = await analyzeDirectory({
+          root,
+          include,
+          exclude,
+          respectGitignore,
+          page,
+          pageSize,
+          config,
+          baseline: baseline === undefined ? undefined : await loadBaseline(baseline),
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "create_baseline": {
+        const { files, root, include, exclude, respectGitignore = true, config, output } = args as {
+          files?: Array<{
+            filename: string;
+            code: string;
+            language?: string;
+          }>;
+          root?: string;
+          include?: string[];
+          exclude?: string[];
+          respectGitignore?: boolean;
+          config?: unknown;
+          output?: string;
+        };
+        if (!files === !root) {
+          throw new Error("Provide either files or root");
+        }
+
+        let baseline: Baseline;
+        if (root) {
+          baseline = await createDirectoryBaseline({ root, include, exclude, respectGitignore, config });
+        } else {
+          const effectiveConfig = await loadEffectiveConfig(process.cwd(), config);
+          baseline = createBaseline(
+            files!.map((file) => {
+              const language = file.language || "javascript";
+              const rules = resolveRules(effectiveConfig, file.filename, language);
+              return {
+                filename: file.filename,
+                language,
+                code: file.code,
+                analysis: analyzeCode(file.code, language, file.filename, undefined, rules),
+                smells: detectCodeSmells(file.code, language, undefined, rules, file.filename),
+                refactorings: suggestRefactorings(file.code, language),
+              };
+            })
+          );
+        }
+
+        const text = JSON.stringify(baseline, null, 2);
+        if (output) {
+          await writeBaseline(baseline, output);
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text,
+            },
+          ],
+        };
+      }
+
+      case "analyze_changes": {
+        const { root = process.cwd(), base, head, config } = args as {
+          root?: string;
+          base: string;
+          head?: string;
+          config?: unknown;
+        };
+        const result = await analyzeChanges({ root, base, head, config });
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "get_effective_config": {
+        const { filename, root, config } = args as {
+          filename?: string;
+          root?: string;
+          config?: unknown;
+        };
+        const directory = root ? await resolveAllowedDirectory(root) : process.cwd();
+        const effectiveConfig = await loadEffectiveConfig(directory, config);
+        const configFile = path.join(directory, CONFIG_FILENAME);
+        const result = {
+          configFile: existsSync(configFile) ? configFile : null,
+          filename: filename ?? null,
+          rules: resolveRules(effectiveConfig, filename, filename ? inferLanguage(filename) : undefined),
+          overrides: effectiveConfig.overrides,
+        };
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      case "list_languages": {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ languages: listLanguages() }, null, 2),
+            },
+          ],
+        };
+      }
+
       case "generate_ai_analysis_prompt": {
-        const { code, language = "javascript", focus = "all" } = args as {
+        const { code, language = "javascript", focus = "all", redact = true, redactPatterns = [] } = args as {
           code: string;
           language?: string;
           focus?: string;
+          redact?: boolean;
+          redactPatterns?: RedactionPattern[];
         };
-        const prompt = generateAIPrompt(code, language, focus);
+        const redactor = redact ? createRedactor({ patterns: redactPatterns }) : undefined;
+        const prompt = generateAIPrompt(code, language, focus, redactor);
         return {
           content: [
             {
               type: "text",
               text: prompt,
             },
+            // The map stays with the caller, to restore values in the model's answer
+            ...(redactor
+              ? [{ type: "text", text: JSON.stringify({ redactions: redactor.redactions }, null, 2) }]
+              : []),
           ],
         };
       }
@@ -322,10 +1144,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+/**
+ * Applies a tool's `baseline` argument, when one is given, to a file's reports
+ */
+async function withBaseline<T extends SarifSource>(
+  source: T,
+  baseline: unknown
+): Promise<T & { baseline?: BaselineMatch }> {
+  return baseline === undefined ? source : applyBaseline(source, await loadBaseline(baseline));
+}
+
 /**
  * Start the server
  */
 async function main() {
+  // A plugin that fails to load is skipped; the server runs with the others
+  const { errors } = await loadPlugins(await readPluginSpecifiers(process.cwd()), process.cwd());
+  for (const error of errors) {
+    console.error(`Plugin '${error.plugin}' was not loaded: ${error.message}`);
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   
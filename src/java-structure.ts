@@ -0,0 +1,517 @@
+/**
+ * Java structural model module
+ * Finds classes, interfaces, enums, records and annotation types, including
+ * nested ones, with their fields, constructors, methods and annotations
+ */
+
+import { ParsedDocument, Token, matchBrackets, typeText } from "./parser.js";
+import type { DeclaredFunction, DeclaredStructure, DeclaredType } from "./languages.js";
+import type { CodeSmell } from "./code-smells.js";
+import type { Refactoring } from "./refactorings.js";
+
+export type JavaTypeKind = "class" | "interface" | "enum" | "record" | "annotation";
+
+export interface JavaMethod extends DeclaredFunction {
+  kind: "function" | "method" | "constructor";
+  modifiers: string[];
+  /** Annotation names without `@` or package, e.g. "Override" */
+  annotations: string[];
+  /** Declared parameter types, e.g. ["String", "List<Item>"] */
+  parameterTypes: string[];
+  /** Absent for constructors */
+  returnType?: string;
+  /** False for abstract and interface methods declared without a body */
+  hasBody: boolean;
+}
+
+export interface JavaField {
+  name: string;
+  type: string;
+  line: number;
+  owner: string;
+  modifiers: string[];
+  annotations: string[];
+}
+
+export interface JavaType extends DeclaredType {
+  kind: JavaTypeKind;
+  modifiers: string[];
+  annotations: string[];
+  /** Name of the type a nested type is declared in */
+  outer?: string;
+  /** Fields, including the components of a record */
+  fields: JavaField[];
+  constructors: JavaMethod[];
+  methods: JavaMethod[];
+}
+
+export interface JavaStructure extends DeclaredStructure {
+  functions: JavaMethod[];
+  types: JavaType[];
+}
+
+export interface GenericCatch {
+  line: number;
+  column: number;
+  /** Caught type, e.g. "Exception" */
+  type: string;
+}
+
+export interface LoopConcatenation {
+  line: number;
+  column: number;
+  /** String variable that grows on every iteration */
+  variable: string;
+}
+
+const structures = new WeakMap<ParsedDocument, JavaStructure>();
+
+const MODIFIERS = new Set([
+  "public", "protected", "private", "static", "final", "abstract", "synchronized", "native",
+  "transient", "volatile", "strictfp", "default", "sealed",
+]);
+
+const TYPE_KEYWORDS = new Map<string, JavaTypeKind>([
+  ["class", "class"],
+  ["interface", "interface"],
+  ["enum", "enum"],
+  ["record", "record"],
+]);
+
+const GENERIC_EXCEPTIONS = new Set(["Exception", "RuntimeException", "Throwable"]);
+
+/**
+ * Builds the structural model of a Java file. Members outside any type, as
+ * in pasted snippets, are read as if they were in a class body, so methods
+ * there become functions without an owner. Cached per document.
+ */
+export function buildJavaStructure(doc: ParsedDocument): JavaStructure {
+  const cached = structures.get(doc);
+  if (cached) return cached;
+
+  const tokens = doc.codeTokens;
+  const partner = matchBrackets(tokens);
+  const functions: JavaMethod[] = [];
+  const types: JavaType[] = [];
+
+  const skip = (i: number) => (partner.get(i) ?? i) + 1;
+
+  /** Index after the `;` that ends a statement, or after a brace block met first */
+  const skipStatement = (from: number, to: number): number => {
+    for (let i = from; i < to; i = skip(i)) {
+      if (tokens[i].value === ";") return i + 1;
+      if (tokens[i].value === "{") return skip(i);
+    }
+    return to;
+  };
+
+  /** Splits the tokens between two indexes at commas outside brackets and type arguments */
+  const split = (from: number, to: number): Token[][] => {
+    const segments: Token[][] = [];
+    let current: Token[] = [];
+    let angle = 0;
+    for (let i = from; i < to; i++) {
+      const value = tokens[i].value;
+      if (value === "," && angle <= 0) {
+        segments.push(current);
+        current = [];
+        continue;
+      }
+      angle += angleChange(value);
+      const end = partner.get(i) ?? i;
+      current.push(...tokens.slice(i, end + 1));
+      i = end;
+    }
+    if (current.length > 0 || segments.length > 0) segments.push(current);
+    return segments;
+  };
+
+  /** Parameter names and types; the name is the last identifier of each parameter */
+  const parameterList = (open: number) => {
+    const segments = split(open + 1, partner.get(open) ?? open).map((segment) => {
+      const plain = withoutAnnotations(segment).filter((t) => t.value !== "final");
+      let name = plain.length - 1;
+      while (name > 0 && plain[name].kind !== "identifier") name--;
+      return { name: plain[name]?.value ?? "_", type: typeText(plain.slice(0, name)) };
+    });
+    return { names: segments.map((s) => s.name), types: segments.map((s) => s.type) };
+  };
+
+  const parseType = (
+    keyword: number,
+    kind: JavaTypeKind,
+    start: Token,
+    modifiers: string[],
+    annotations: string[],
+    outer?: JavaType
+  ): number => {
+    const name = tokens[keyword + 1];
+    const type: JavaType = {
+      kind,
+      name: name.value,
+      startLine: start.line,
+      endLine: name.line,
+      lines: 1,
+      modifiers,
+      annotations,
+      ...(outer ? { outer: outer.name } : {}),
+      fields: [],
+      constructors: [],
+      methods: [],
+    };
+    types.push(type);
+
+    // Type parameters, record components, extends, implements and permits come before the body
+    let i = keyword + 2;
+    while (i < tokens.length && tokens[i].value !== "{") {
+      if (kind === "record" && tokens[i].value === "(" && type.fields.length === 0) {
+        const components = parameterList(i);
+        components.names.forEach((component, index) =>
+          type.fields.push({
+            name: component,
+            type: components.types[index],
+            line: tokens[i].line,
+            owner: type.name,
+            modifiers: ["private", "final"],
+            annotations: [],
+          })
+        );
+      }
+      i = skip(i);
+    }
+    const close = partner.get(i) ?? tokens.length - 1;
+    type.endLine = tokens[close]?.line ?? name.line;
+    type.lines = type.endLine - type.startLine + 1;
+    parseMembers(i + 1, close, type);
+    return close + 1;
+  };
+
+  const parseMember = (from: number, to: number, owner?: JavaType): number => {
+    let i = from;
+    const first = tokens[i];
+    if (first.value === ";") return i + 1;
+    if (first.kind === "keyword" && (first.value === "package" || first.value === "import")) {
+      return skipStatement(i, to);
+    }
+
+    const annotations: string[] = [];
+    const modifiers: string[] = [];
+    for (;;) {
+      const token = tokens[i];
+      if (token?.value === "@" && tokens[i + 1]?.value !== "interface") {
+        i++;
+        let name = tokens[i]?.value ?? "";
+        while (tokens[i + 1]?.value === "." && tokens[i + 2]?.kind === "identifier") {
+          i += 2;
+          name = tokens[i].value;
+        }
+        i++;
+        if (tokens[i]?.value === "(") i = skip(i);
+        annotations.push(name);
+      } else if (token && MODIFIERS.has(token.value)) {
+        modifiers.push(token.value);
+        i++;
+      } else if (token?.value === "non" && tokens[i + 1]?.value === "-" && tokens[i + 2]?.value === "sealed") {
+        modifiers.push("non-sealed");
+        i += 3;
+      } else {
+        break;
+      }
+    }
+    if (i >= to) return to;
+
+    const start = tokens[i];
+    // Instance and static initializer blocks
+    if (start.value === "{") return skip(i);
+    if (start.value === "@" && tokens[i + 1]?.value === "interface" && tokens[i + 2]?.kind === "identifier") {
+      return parseType(i + 1, "annotation", start, modifiers, annotations, owner);
+    }
+    const kind = TYPE_KEYWORDS.get(start.value);
+    if (kind && start.kind === "keyword" && tokens[i + 1]?.kind === "identifier") {
+      return parseType(i, kind, start, modifiers, annotations, owner);
+    }
+
+    // Declaration head: up to the `(` of a method, or the `=`, `,` or `;` after a field name
+    let end = i;
+    let angle = 0;
+    while (end < to) {
+      const value = tokens[end].value;
+      if (angle <= 0 && ["(", "=", ";", ",", "{"].includes(value)) break;
+      angle += angleChange(value);
+      end = value === "[" ? skip(end) : end + 1;
+    }
+    const stop = tokens[end]?.value;
+    const nameIndex = lastIdentifier(tokens, i, end);
+    const name = tokens[nameIndex];
+    const head = tokens.slice(i, nameIndex);
+    const isConstructor = owner !== undefined && name?.value === owner.name && nameIndex === i;
+
+    if (stop === "(" && nameIndex === end - 1 && (head.length > 0 || isConstructor)) {
+      const parameters = parameterList(end);
+      let after = skip(end);
+      while (after < to && tokens[after].value !== "{" && tokens[after].value !== ";") {
+        // An annotation element's default value may be an array in braces
+        if (tokens[after].value === "default") return skipStatement(after, to);
+        after = skip(after);
+      }
+      const hasBody = tokens[after]?.value === "{";
+      const last = hasBody ? partner.get(after) ?? after : Math.min(after, tokens.length - 1);
+      const method: JavaMethod = {
+        name: name.value,
+        kind: isConstructor ? "constructor" : owner ? "method" : "function",
+        ...(owner ? { owner: owner.name } : {}),
+        startLine: start.line,
+        endLine: tokens[last].line,
+        parameters: parameters.names,
+        parameterTypes: parameters.types,
+        ...(isConstructor ? {} : { returnType: typeText(typeParametersRemoved(head)) }),
+        modifiers,
+        annotations,
+        hasBody,
+      };
+      if (hasBody) functions.push(method);
+      if (owner) (isConstructor ? owner.constructors : owner.methods).push(method);
+      return last + 1;
+    }
+
+    // Compact canonical constructor of a record: `Point {`
+    if (stop === "{" && owner?.kind === "record" && isConstructor) {
+      const close = partner.get(end) ?? end;
+      const constructor: JavaMethod = {
+        name: name.value,
+        kind: "constructor",
+        owner: owner.name,
+        startLine: start.line,
+        endLine: tokens[close].line,
+        parameters: owner.fields.map((field) => field.name),
+        parameterTypes: owner.fields.map((field) => field.type),
+        modifiers,
+        annotations,
+        hasBody: true,
+      };
+      functions.push(constructor);
+      owner.constructors.push(constructor);
+      return close + 1;
+    }
+
+    if (owner && (stop === "=" || stop === ";" || stop === ",") && name && nameIndex > i) {
+      const type = typeText(tokens.slice(i, nameIndex));
+      let j = end;
+      owner.fields.push({ name: name.value, type, line: name.line, owner: owner.name, modifiers, annotations });
+      // Further declarators: `int a = 1, b;`
+      while (j < to && tokens[j].value !== ";") {
+        const next = tokens[j + 1];
+        if (tokens[j].value === "," && next?.kind === "identifier" && DECLARATOR_ENDS.has(tokens[j + 2]?.value)) {
+          owner.fields.push({ name: next.value, type, line: next.line, owner: owner.name, modifiers, annotations });
+        }
+        j = skip(j);
+      }
+      return j + 1;
+    }
+
+    return skipStatement(i, to);
+  };
+
+  const parseMembers = (from: number, to: number, owner?: JavaType) => {
+    let i = from;
+    // Enum constants come first and end at `;`
+    if (owner?.kind === "enum") {
+      while (i < to && tokens[i].value !== ";") i = skip(i);
+      i++;
+    }
+    while (i < to) i = Math.max(parseMember(i, to, owner), i + 1);
+  };
+
+  parseMembers(0, tokens.length);
+
+  const structure = { functions, types };
+  structures.set(doc, structure);
+  return structure;
+}
+
+/**
+ * Java-specific smells: generic catches, equals() without hashCode() and
+ * strings concatenated in loops
+ */
+export function detectJavaSmells(doc: ParsedDocument): CodeSmell[] {
+  const catches = findGenericCatches(doc).map(
+    (found): CodeSmell => ({
+      type: "Catching Generic Exception",
+      severity: "medium",
+      description: `Catching ${found.type} also catches unexpected failures such as programming errors`,
+      location: { line: found.line, column: found.column },
+      suggestion: "Catch the specific exceptions the code can recover from and let the others propagate",
+    })
+  );
+  const equality = buildJavaStructure(doc)
+    .types.filter(
+      (type) =>
+        type.methods.some((m) => m.name === "equals" && m.parameters.length === 1) &&
+        !type.methods.some((m) => m.name === "hashCode" && m.parameters.length === 0)
+    )
+    .map(
+      (type): CodeSmell => ({
+        type: "Equals Without HashCode",
+        severity: "high",
+        description: `${capitalize(type.kind)} '${type.name}' overrides equals() but not hashCode()`,
+        location: { line: type.startLine },
+        suggestion:
+          "Override hashCode() from the same fields as equals() so equal objects work in hash-based collections",
+      })
+    );
+  const concatenations = findStringConcatenationsInLoops(doc).map(
+    (found): CodeSmell => ({
+      type: "String Concatenation In Loop",
+      severity: "medium",
+      description: `String '${found.variable}' is rebuilt by concatenation on every loop iteration`,
+      location: { line: found.line, column: found.column },
+      suggestion: "Append to a StringBuilder inside the loop and convert it to a String once afterwards",
+    })
+  );
+  return [...catches, ...equality, ...concatenations];
+}
+
+/**
+ * Suggests encapsulating the public mutable fields of each class
+ */
+export function suggestJavaRefactorings(doc: ParsedDocument): Refactoring[] {
+  return buildJavaStructure(doc)
+    .types.filter((type) => type.kind === "class")
+    .flatMap((type) =>
+      type.fields
+        .filter((field) => field.modifiers.includes("public") && !field.modifiers.includes("final"))
+        .map(
+          (field): Refactoring => ({
+            type: "Encapsulate Field",
+            priority: "medium",
+            title: "Encapsulate public field with getter/setter",
+            description: `Field '${field.name}' of class '${type.name}' is public and mutable`,
+            location: { line: field.line },
+            effort: "Medium",
+            benefits: ["Better encapsulation", "Controlled access", "Easier to add validation"],
+          })
+        )
+    );
+}
+
+/**
+ * Finds `catch` clauses that catch Exception, RuntimeException or Throwable,
+ * alone or in a multi-catch
+ */
+export function findGenericCatches(doc: ParsedDocument): GenericCatch[] {
+  const tokens = doc.codeTokens;
+  const partner = matchBrackets(tokens);
+  const catches: GenericCatch[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== "keyword" || token.value !== "catch" || tokens[index + 1]?.value !== "(") return;
+    const close = partner.get(index + 1) ?? index + 1;
+    // `(final IOException | java.lang.Exception e)`: the last name before `|` or the variable is a type
+    const clause = tokens.slice(index + 2, close);
+    const caught = clause.find(
+      (t, i) =>
+        t.kind === "identifier" &&
+        GENERIC_EXCEPTIONS.has(t.value) &&
+        clause[i + 1]?.value !== "." &&
+        i < clause.length - 1
+    );
+    if (caught) catches.push({ line: caught.line, column: caught.column, type: caught.value });
+  });
+  return catches;
+}
+
+/**
+ * Finds `s += ...` and `s = s + ...` on String variables inside loop bodies,
+ * where the variable is declared outside the loop
+ */
+export function findStringConcatenationsInLoops(doc: ParsedDocument): LoopConcatenation[] {
+  const tokens = doc.codeTokens;
+  const partner = matchBrackets(tokens);
+  const declaredAt = (i: number) => tokens[i - 1]?.value === "String" && tokens[i].kind === "identifier";
+  const strings = new Set(tokens.filter((_, i) => i > 0 && declaredAt(i)).map((t) => t.value));
+  const found = new Map<number, LoopConcatenation>();
+
+  tokens.forEach((token, index) => {
+    if (token.kind !== "keyword") return;
+    let body: number;
+    if (token.value === "do") {
+      body = index + 1;
+    } else if ((token.value === "for" || token.value === "while") && tokens[index + 1]?.value === "(") {
+      body = (partner.get(index + 1) ?? index) + 1;
+    } else {
+      return;
+    }
+    const end = tokens[body]?.value === "{" ? partner.get(body) ?? body : body;
+
+    for (let i = body; i <= end; i++) {
+      const t = tokens[i];
+      if (t.kind !== "identifier" || !strings.has(t.value) || tokens[i - 1]?.value === ".") continue;
+      const appends =
+        tokens[i + 1]?.value === "+=" ||
+        (tokens[i + 1]?.value === "=" && tokens[i + 2]?.value === t.value && tokens[i + 3]?.value === "+");
+      const local = tokens.slice(body, end + 1).some((d, j) => d.value === t.value && declaredAt(body + j));
+      if (appends && !local) found.set(i, { line: t.line, column: t.column, variable: t.value });
+    }
+  });
+  return [...found.entries()].sort(([a], [b]) => a - b).map(([, concatenation]) => concatenation);
+}
+
+// Tokens that may follow a declarator name
+const DECLARATOR_ENDS = new Set(["=", ",", ";", "["]);
+
+/**
+ * Net change in type-argument depth for a token: `<` opens, `>`, `>>` and `>>>` close
+ */
+function angleChange(value: string): number {
+  if (value === "<") return 1;
+  if (value === ">" || value === ">>" || value === ">>>") return -value.length;
+  return 0;
+}
+
+function lastIdentifier(tokens: Token[], from: number, to: number): number {
+  for (let i = to - 1; i >= from; i--) {
+    if (tokens[i].kind === "identifier") return i;
+  }
+  return -1;
+}
+
+/**
+ * Drops `@Name` and `@Name(...)` annotations from a parameter's tokens
+ */
+function withoutAnnotations(tokens: Token[]): Token[] {
+  const kept: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value !== "@") {
+      kept.push(tokens[i]);
+      continue;
+    }
+    i++;
+    while (tokens[i + 1]?.value === "." && tokens[i + 2]) i += 2;
+    if (tokens[i + 1]?.value === "(") {
+      let depth = 0;
+      do {
+        i++;
+        if (tokens[i].value === "(") depth++;
+        else if (tokens[i].value === ")") depth--;
+      } while (depth > 0 && i < tokens.length - 1);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Drops the `<T>` type parameters that precede a generic method's return type
+ */
+function typeParametersRemoved(head: Token[]): Token[] {
+  if (head[0]?.value !== "<") return head;
+  let depth = 0;
+  for (let i = 0; i < head.length; i++) {
+    depth += angleChange(head[i].value);
+    if (depth <= 0) return head.slice(i + 1);
+  }
+  return head;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,438 @@
+/**
+ * Language profiles module
+ * Describes each supported language in one place and keeps the registry
+ * that the parser and the detectors look languages up in
+ */
+
+import type { LexerConfig, ParsedDocument } from "./parser.js";
+import type { CodeSmell } from "./code-smells.js";
+import type { Refactoring } from "./refactorings.js";
+import type { ImportStatement } from "./dependency-graph.js";
+import type { SecurityIssue } from "./security.js";
+import {
+  extractJavaImports,
+  extractPythonImports,
+  extractScriptImports,
+  importsPythonSubmodule,
+  resolveJava,
+  resolvePython,
+  resolveScript,
+} from "./dependency-graph.js";
+import { findJavaIssues, findPythonIssues, findTypeScriptIssues } from "./security.js";
+import { buildPythonStructure, PythonStructure } from "./python-structure.js";
+import { buildGoStructure, detectGoSmells } from "./go-structure.js";
+import { buildJavaStructure, detectJavaSmells, suggestJavaRefactorings } from "./java-structure.js";
+
+/** How a language delimits blocks, which selects the structural model detectors use */
+export type BlockModel = "braces" | "indentation";
+
+/**
+ * Analyses that depend on language-specific code. Metrics, smells,
+ * complexity, control flow, clones, secrets and dead code work for every
+ * registered language through its block model.
+ */
+export type LanguageFeature =
+  | "syntax-tree"
+  | "security"
+  | "imports"
+  | "extract-method"
+  | "rename"
+  | "transforms";
+
+/** A function or method found by a language's structural model */
+export interface DeclaredFunction {
+  name: string;
+  /** Defaults to "method" when the function has an owner and "function" otherwise */
+  kind?: "function" | "method" | "constructor";
+  /** Type the function is a method of */
+  owner?: string;
+  /** 1-based line of the declaration */
+  startLine: number;
+  /** 1-based line where the body ends */
+  endLine: number;
+  parameters: string[];
+}
+
+/** A class-like type found by a language's structural model */
+export interface DeclaredType {
+  /** What the language calls it, e.g. "struct" */
+  kind: string;
+  name: string;
+  startLine: number;
+  endLine: number;
+  /** Lines of the declaration plus those of methods declared outside it */
+  lines: number;
+  methods: DeclaredFunction[];
+}
+
+export interface DeclaredStructure {
+  /** Functions and methods with a body, in source order */
+  functions: DeclaredFunction[];
+  types: DeclaredType[];
+}
+
+/** How a language's import statements are found and resolved to files */
+export interface ImportModel {
+  extract: (doc: ParsedDocument) => ImportStatement[];
+  /** Resolves a statement of the file `from` to the known files it refers to; filenames are normalized */
+  resolve: (from: string, statement: ImportStatement, known: Set<string>) => string[];
+  /** Whether a specifier that resolved to no file names a package from outside the project */
+  isExternal: (specifier: string) => boolean;
+  /** Whether a statement that names members takes the whole target instead, as `from pkg import mod` does */
+  usesWholeModule?: (statement: ImportStatement, target: string) => boolean;
+}
+
+export interface LanguageProfile {
+  /** Canonical name accepted by the `language` argument of every tool */
+  id: string;
+  displayName: string;
+  /** Other names accepted for the language, e.g. "js" */
+  aliases: string[];
+  /** File extensions, with the leading dot, used to infer the language of a file */
+  extensions: string[];
+  /** Comment syntax, string literals and keywords used by the tokenizer */
+  lexer: LexerConfig;
+  blockModel: BlockModel;
+  /** Whether switch cases run on into the next case unless they break */
+  switchFallthrough: boolean;
+  /**
+   * Structural model giving functions, methods and class-like types; takes
+   * precedence over the line-based recognizers
+   */
+  structure?: (doc: ParsedDocument) => DeclaredStructure;
+  /** Smells only this language has, reported after the shared detectors */
+  smells?: (doc: ParsedDocument) => CodeSmell[];
+  /** Refactorings only this language has, suggested after the shared ones */
+  refactorings?: (doc: ParsedDocument) => Refactoring[];
+  /** Block tree of the indentation block model, which requires it */
+  blocks?: (doc: ParsedDocument) => PythonStructure;
+  /** Import statements and their resolution, for dependency graphs and unused exports */
+  imports?: ImportModel;
+  /** Injection and deserialization sinks, before configuration and suppressions */
+  security?: (doc: ParsedDocument) => SecurityIssue[];
+  /** Line-based recognizers, used where no syntax tree or structural model is available */
+  recognizers: {
+    /** Matches a function declaration; capture 1 is the name, capture 2 the parameter list */
+    function: RegExp;
+    /** Matches a class declaration; capture 1 is the name */
+    class: RegExp;
+    /** Global pattern matching each variable declared on a line; capture 1 is the name */
+    variable: RegExp;
+  };
+  halstead: {
+    /** Punctuators that count as operators; keywords not listed as operands count too */
+    operators: Set<string>;
+    /** Keywords that count as operands, such as literals and `this` */
+    operands: Set<string>;
+  };
+  /** Rule thresholds that replace the defaults for files in this language */
+  thresholds: Record<string, number>;
+  features: LanguageFeature[];
+}
+
+/** What `list_languages` reports for a language */
+export interface LanguageSummary {
+  id: string;
+  displayName: string;
+  aliases: string[];
+  extensions: string[];
+  blockModel: BlockModel;
+  comments: { line: string[]; block: [string, string] | null };
+  thresholds: Record<string, number>;
+  features: LanguageFeature[];
+}
+
+const JS_KEYWORDS = [
+  "break", "case", "catch", "class", "const", "continue", "debugger", "default",
+  "delete", "do", "else", "export", "extends", "finally", "for", "function", "if",
+  "import", "in", "instanceof", "new", "return", "super", "switch", "this", "throw",
+  "try", "typeof", "var", "void", "while", "with", "yield", "let", "static",
+  "async", "await", "of", "null", "true", "false", "undefined",
+];
+
+const TS_KEYWORDS = [
+  ...JS_KEYWORDS,
+  "interface", "type", "enum", "implements", "private", "protected", "public",
+  "readonly", "abstract", "declare", "namespace", "keyof", "as", "is",
+];
+
+const PYTHON_KEYWORDS = [
+  "False", "None", "True", "and", "as", "assert", "async", "await", "break",
+  "class", "continue", "def", "del", "elif", "else", "except", "finally", "for",
+  "from", "global", "if", "import", "in", "is", "lambda", "nonlocal", "not", "or",
+  "pass", "raise", "return", "try", "while", "with", "yield",
+];
+
+const JAVA_KEYWORDS = [
+  "abstract", "assert", "boolean", "break", "byte", "case", "catch", "char",
+  "class", "const", "continue", "default", "do", "double", "else", "enum",
+  "extends", "final", "finally", "float", "for", "goto", "if", "implements",
+  "import", "instanceof", "int", "interface", "long", "native", "new", "package",
+  "private", "protected", "public", "return", "short", "static", "strictfp",
+  "super", "switch", "synchronized", "this", "throw", "throws", "transient", "try",
+  "void", "volatile", "while", "var", "record", "null", "true", "false",
+];
+
+// nil, true, false and iota are predeclared identifiers, lexed as keywords like Java's literals
+const GO_KEYWORDS = [
+  "break", "case", "chan", "const", "continue", "default", "defer", "else",
+  "fallthrough", "for", "func", "go", "goto", "if", "import", "interface", "map",
+  "package", "range", "return", "select", "struct", "switch", "type", "var",
+  "nil", "true", "false", "iota",
+];
+
+const C_STYLE: Omit<LexerConfig, "keywords"> = {
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  tripleQuotes: [],
+  rawQuotes: [],
+  stringPrefix: null,
+  templateLiterals: false,
+  regexLiterals: false,
+  docstrings: false,
+  automaticSemicolons: false,
+};
+
+const C_STYLE_OPERATORS = [
+  "==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "=", "<", ">", "!", "?", ":",
+];
+
+const SCRIPT_HALSTEAD = {
+  operators: new Set(["===", "!==", ...C_STYLE_OPERATORS]),
+  operands: new Set(["true", "false", "null", "undefined", "this", "super"]),
+};
+
+const SCRIPT_IMPORTS: ImportModel = {
+  extract: (doc) => extractScriptImports(doc.codeTokens),
+  resolve: (from, statement, known) => resolveScript(from, statement.specifier, known),
+  isExternal: (specifier) => !specifier.startsWith(".") && !specifier.startsWith("/"),
+};
+
+const SCRIPT_FEATURES: LanguageFeature[] = [
+  "syntax-tree", "security", "imports", "extract-method", "rename", "transforms",
+];
+
+const BUILT_IN_PROFILES: LanguageProfile[] = [
+  {
+    id: "javascript",
+    displayName: "JavaScript",
+    aliases: ["js", "jsx"],
+    extensions: [".js", ".mjs", ".cjs", ".jsx"],
+    lexer: { ...C_STYLE, templateLiterals: true, regexLiterals: true, keywords: new Set(JS_KEYWORDS) },
+    blockModel: "braces",
+    switchFallthrough: true,
+    imports: SCRIPT_IMPORTS,
+    security: (doc) => findTypeScriptIssues(doc),
+    recognizers: {
+      function: /function\s+(\w+)\s*\(([^)]*)\)/,
+      class: /\bclass\s+(\w+)/,
+      variable: /(?:var|let|const)\s+(\w+)/g,
+    },
+    halstead: SCRIPT_HALSTEAD,
+    thresholds: {},
+    features: SCRIPT_FEATURES,
+  },
+  {
+    id: "typescript",
+    displayName: "TypeScript",
+    aliases: ["ts", "tsx"],
+    extensions: [".ts", ".tsx", ".mts", ".cts"],
+    lexer: { ...C_STYLE, templateLiterals: true, regexLiterals: true, keywords: new Set(TS_KEYWORDS) },
+    blockModel: "braces",
+    switchFallthrough: true,
+    imports: SCRIPT_IMPORTS,
+    security: (doc) => findTypeScriptIssues(doc),
+    recognizers: {
+      function: /(?:function|const|let|var)\s+(\w+)\s*(?:[=:]\s*)?\(([^)]*)\)/,
+      class: /\bclass\s+(\w+)/,
+      variable: /(?:var|let|const)\s+(\w+)/g,
+    },
+    halstead: SCRIPT_HALSTEAD,
+    thresholds: {},
+    features: SCRIPT_FEATURES,
+  },
+  {
+    id: "python",
+    displayName: "Python",
+    aliases: ["py"],
+    extensions: [".py"],
+    lexer: {
+      lineComments: ["#"],
+      blockComment: null,
+      quotes: ['"', "'"],
+      tripleQuotes: ['"""', "'''"],
+      rawQuotes: [],
+      stringPrefix: /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])(?=['"])/,
+      templateLiterals: false,
+      regexLiterals: false,
+      docstrings: true,
+      automaticSemicolons: false,
+      keywords: new Set(PYTHON_KEYWORDS),
+    },
+    blockModel: "indentation",
+    switchFallthrough: false,
+    blocks: (doc) => buildPythonStructure(doc),
+    imports: {
+      extract: (doc) => extractPythonImports(doc.codeTokens),
+      resolve: (from, statement, known) => resolvePython(from, statement, known),
+      isExternal: (specifier) => !specifier.startsWith("."),
+      usesWholeModule: (statement, target) => importsPythonSubmodule(statement, target),
+    },
+    security: (doc) => findPythonIssues(doc),
+    recognizers: {
+      function: /def\s+(\w+)\s*\(([^)]*)\)/,
+      class: /^\s*class\s+(\w+)/,
+      variable: /(\w+)\s*=/g,
+    },
+    halstead: {
+      operators: new Set([
+        "==", "!=", "<=", ">=", "+", "-", "*", "/", "//", "%", "**", "=", "<", ">", ":=", "@",
+      ]),
+      operands: new Set(["True", "False", "None"]),
+    },
+    thresholds: {},
+    features: ["security", "imports", "extract-method"],
+  },
+  {
+    id: "java",
+    displayName: "Java",
+    aliases: [],
+    extensions: [".java"],
+    lexer: { ...C_STYLE, tripleQuotes: ['"""'], keywords: new Set(JAVA_KEYWORDS) },
+    blockModel: "braces",
+    switchFallthrough: true,
+    structure: (doc) => buildJavaStructure(doc),
+    smells: (doc) => detectJavaSmells(doc),
+    refactorings: (doc) => suggestJavaRefactorings(doc),
+    imports: {
+      extract: (doc) => extractJavaImports(doc.codeTokens),
+      resolve: (_from, statement, known) => resolveJava(statement.specifier, known),
+      // Without a build file there is no telling project packages from libraries
+      isExternal: () => true,
+    },
+    security: (doc) => findJavaIssues(doc),
+    recognizers: {
+      // A return type must precede the name, so `if (x)` and `return f(x)` are not declarations
+      function:
+        /^\s*(?:(?:public|private|protected|static|final|abstract|synchronized|native|default)\s+)*(?!(?:return|new|else|throw)\b)[\w<>[\],.?]+\s+(\w+)\s*\(([^)]*)\)/,
+      class: /\b(?:class|interface|enum|record)\s+(\w+)/,
+      variable: /(?:int|String|double|float|boolean|char|long)\s+(\w+)/g,
+    },
+    halstead: {
+      operators: new Set(C_STYLE_OPERATORS),
+      operands: new Set(["true", "false", "null", "this", "super"]),
+    },
+    thresholds: {},
+    features: ["security", "imports"],
+  },
+  {
+    id: "go",
+    displayName: "Go",
+    aliases: ["golang"],
+    extensions: [".go"],
+    lexer: { ...C_STYLE, rawQuotes: ["`"], automaticSemicolons: true, keywords: new Set(GO_KEYWORDS) },
+    blockModel: "braces",
+    switchFallthrough: false,
+    structure: (doc) => buildGoStructure(doc),
+    smells: (doc) => detectGoSmells(doc),
+    recognizers: {
+      function: /\bfunc\s+(?:\([^)]*\)\s*)?(\w+)\s*(?:\[[^\]]*\]\s*)?\(([^)]*)\)/,
+      class: /\btype\s+(\w+)(?:\[[^\]]*\])?\s+struct\b/,
+      variable: /(?:(?<=\b(?:var|const)\s+)|\b(?=\w+(?:\s*,\s*\w+)*\s*:=))(?!_\b)(\w+)/g,
+    },
+    halstead: {
+      operators: new Set([
+        "==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "=", ":=", "<", ">", "!",
+        "&", "|", "^", "<<", ">>",
+      ]),
+      operands: new Set(["true", "false", "nil", "iota"]),
+    },
+    thresholds: {},
+    features: [],
+  },
+];
+
+const profiles: LanguageProfile[] = [];
+const byName = new Map<string, LanguageProfile>();
+const byExtension = new Map<string, LanguageProfile>();
+
+/**
+ * Adds a language; its id, aliases and extensions must not already belong
+ * to another language
+ */
+export function registerLanguage(profile: LanguageProfile): void {
+  const names = [profile.id, ...profile.aliases].map((name) => name.toLowerCase());
+  const extensions = profile.extensions.map((extension) => extension.toLowerCase());
+  const taken = names.find((name) => byName.has(name));
+  if (taken) throw new Error(`Language '${taken}' is already registered`);
+  const claimed = extensions.find((extension) => byExtension.has(extension));
+  if (claimed) throw new Error(`Extension ${claimed} already belongs to ${byExtension.get(claimed)!.id}`);
+  if (profile.blockModel === "indentation" && !profile.blocks) {
+    throw new Error(`Language '${profile.id}' uses indentation blocks but has no blocks builder`);
+  }
+
+  profiles.push(profile);
+  names.forEach((name) => byName.set(name, profile));
+  extensions.forEach((extension) => byExtension.set(extension, profile));
+}
+
+BUILT_IN_PROFILES.forEach(registerLanguage);
+
+/**
+ * Returns the profile of a language by id or alias, ignoring case, or
+ * undefined when it is not registered
+ */
+export function findLanguageProfile(language: string): LanguageProfile | undefined {
+  return byName.get(language.toLowerCase());
+}
+
+/**
+ * Returns the profile of a language by id or alias; throws for languages
+ * that are not registered
+ */
+export function getLanguageProfile(language: string): LanguageProfile {
+  const profile = findLanguageProfile(language);
+  if (!profile) {
+    throw new Error(`Unsupported language '${language}' (supported: ${profiles.map((p) => p.id).join(", ")})`);
+  }
+  return profile;
+}
+
+/**
+ * Returns the profile that claims a file extension, with the leading dot
+ */
+export function languageForExtension(extension: string): LanguageProfile | undefined {
+  return byExtension.get(extension.toLowerCase());
+}
+
+/**
+ * Whether a registered language supports a feature; false for unknown languages
+ */
+export function hasFeature(language: string, feature: LanguageFeature): boolean {
+  return findLanguageProfile(language)?.features.includes(feature) ?? false;
+}
+
+/**
+ * Display names of the languages that support a feature, for error messages
+ */
+export function languagesWith(feature: LanguageFeature): string {
+  const names = profiles.filter((p) => p.features.includes(feature)).map((p) => p.displayName);
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : names.join("");
+}
+
+/**
+ * Summarizes every registered language in registration order
+ */
+export function listLanguages(): LanguageSummary[] {
+  return profiles.map((profile) => ({
+    id: profile.id,
+    displayName: profile.displayName,
+    aliases: profile.aliases,
+    extensions: profile.extensions,
+    blockModel: profile.blockModel,
+    comments: { line: profile.lexer.lineComments, block: profile.lexer.blockComment },
+    thresholds: profile.thresholds,
+    features: profile.features,
+  }));
+}
@@ -0,0 +1,523 @@
+/**
+ * Shared lexer and parsed document module
+ * Tokenizes source code once per language so detectors can tell code apart
+ * from strings, comments, regex literals and template literals
+ */
+
+import { getLanguageProfile, LanguageProfile } from "./languages.js";
+
+export type TokenKind =
+  | "identifier"
+  | "keyword"
+  | "number"
+  | "string"
+  | "template"
+  | "regex"
+  | "comment"
+  | "punctuator";
+
+export interface Token {
+  kind: TokenKind;
+  value: string;
+  /** 1-based line where the token starts */
+  line: number;
+  /** 1-based column where the token starts */
+  column: number;
+  /** 1-based line where the token ends (differs for multi-line tokens) */
+  endLine: number;
+  start: number;
+  end: number;
+}
+
+export type LineKind = "blank" | "comment" | "code";
+
+export interface ParsedDocument {
+  /** Canonical id of the language, even when the caller used an alias */
+  language: string;
+  profile: LanguageProfile;
+  source: string;
+  /** Raw source lines */
+  lines: string[];
+  /** Source lines with comment text and string/regex contents blanked out */
+  codeLines: string[];
+  /** Masked source, equal to codeLines joined with newlines */
+  maskedSource: string;
+  /** Every token, including comments */
+  tokens: Token[];
+  /** Tokens without comments */
+  codeTokens: Token[];
+  comments: Token[];
+  /** Code tokens grouped by the 0-based line they start on */
+  lineTokens: Token[][];
+  /** Classification of each 0-based line */
+  lineKinds: LineKind[];
+}
+
+export interface LexerConfig {
+  lineComments: string[];
+  blockComment: [string, string] | null;
+  quotes: string[];
+  tripleQuotes: string[];
+  /** Quotes of strings that span lines and have no escapes, like Go's backticks */
+  rawQuotes: string[];
+  stringPrefix: RegExp | null;
+  templateLiterals: boolean;
+  regexLiterals: boolean;
+  /** Standalone string statements are treated as documentation */
+  docstrings: boolean;
+  /** A line break ends the statement after a value or closing bracket, as in Go */
+  automaticSemicolons: boolean;
+  keywords: Set<string>;
+}
+
+// Longest operators first so that the scanner always takes the maximal munch
+const PUNCTUATORS = [
+  ">>>=", "...", "===", "!==", "**=", "<<=", ">>=", ">>>", "&&=", "||=", "??=", "//=",
+  "=>", "==", "!=", "<=", ">=", "&&", "||", "??", "?.", "++", "--", "+=", "-=", "*=",
+  "/=", "%=", "&=", "|=", "^=", "**", "<<", ">>", "::", "->", ":=", "//",
+];
+
+// Keywords after which a `/` starts a regex literal rather than a division
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  "return", "typeof", "case", "do", "else", "in", "instanceof", "new", "delete",
+  "void", "throw", "yield", "await", "of",
+]);
+
+const IDENTIFIER = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const NUMBER =
+  /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[nLlFfDdjJ]?/y;
+
+/**
+ * Returns the lexer configuration for a language; throws for languages
+ * that are not registered
+ */
+export function getLexerConfig(language: string): LexerConfig {
+  return getLanguageProfile(language).lexer;
+}
+
+/**
+ * Splits source code into tokens according to the language's lexical rules
+ */
+export function tokenize(source: string, language: string): Token[] {
+  const config = getLexerConfig(language);
+  const tokens: Token[] = [];
+  const lineStarts = computeLineStarts(source);
+  // Brace depth inside each open template substitution `${ ... }`
+  const templateDepths: number[] = [];
+  let pos = 0;
+
+  const push = (kind: TokenKind, start: number, end: number) => {
+    const { line, column } = locate(lineStarts, start);
+    tokens.push({
+      kind,
+      value: source.slice(start, end),
+      line,
+      column,
+      endLine: locate(lineStarts, Math.max(start, end - 1)).line,
+      start,
+      end,
+    });
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    const lineComment = config.lineComments.find((marker) => source.startsWith(marker, pos));
+    if (lineComment) {
+      const end = source.indexOf("\n", pos);
+      const stop = end === -1 ? source.length : end;
+      push("comment", pos, stop);
+      pos = stop;
+      continue;
+    }
+
+    if (config.blockComment && source.startsWith(config.blockComment[0], pos)) {
+      const close = source.indexOf(config.blockComment[1], pos + config.blockComment[0].length);
+      const stop = close === -1 ? source.length : close + config.blockComment[1].length;
+      push("comment", pos, stop);
+      pos = stop;
+      continue;
+    }
+
+    const prefix = config.stringPrefix ? matchAt(config.stringPrefix, source, pos) : "";
+    const quoteStart = pos + prefix.length;
+    const triple = config.tripleQuotes.find((q) => source.startsWith(q, quoteStart));
+    if (triple) {
+      const close = findClosingQuote(source, quoteStart + triple.length, triple, true);
+      push("string", pos, close);
+      pos = close;
+      continue;
+    }
+    const raw = config.rawQuotes.find((q) => source.startsWith(q, quoteStart));
+    if (raw) {
+      const close = source.indexOf(raw, quoteStart + raw.length);
+      const stop = close === -1 ? source.length : close + raw.length;
+      push("string", pos, stop);
+      pos = stop;
+      continue;
+    }
+    if (config.quotes.includes(source[quoteStart])) {
+      const close = findClosingQuote(source, quoteStart + 1, source[quoteStart], false);
+      push("string", pos, close);
+      pos = close;
+      continue;
+    }
+
+    if (config.templateLiterals && ch === "`") {
+      pos = scanTemplateChunk(source, pos + 1, pos, templateDepths, push);
+      continue;
+    }
+
+    if (config.templateLiterals && templateDepths.length > 0) {
+      const top = templateDepths.length - 1;
+      if (ch === "{") {
+        templateDepths[top]++;
+      } else if (ch === "}") {
+        if (templateDepths[top] === 0) {
+          templateDepths.pop();
+          pos = scanTemplateChunk(source, pos + 1, pos, templateDepths, push);
+          continue;
+        }
+        templateDepths[top]--;
+      }
+    }
+
+    if (config.regexLiterals && ch === "/" && regexAllowed(tokens)) {
+      const close = findRegexEnd(source, pos);
+      if (close !== -1) {
+        push("regex", pos, close);
+        pos = close;
+        continue;
+      }
+    }
+
+    const number = /\d/.test(ch) || (ch === "." && /\d/.test(source[pos + 1] || ""))
+      ? matchAt(NUMBER, source, pos)
+      : "";
+    if (number) {
+      push("number", pos, pos + number.length);
+      pos += number.length;
+      continue;
+    }
+
+    const identifier = matchAt(IDENTIFIER, source, pos);
+    if (identifier) {
+      push(config.keywords.has(identifier) ? "keyword" : "identifier", pos, pos + identifier.length);
+      pos += identifier.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, pos)) || ch;
+    push("punctuator", pos, pos + punctuator.length);
+    pos += punctuator.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenizes source code and builds the shared document consumed by detectors
+ */
+export function parseDocument(source: string, language: string): ParsedDocument {
+  const profile = getLanguageProfile(language);
+  const config = profile.lexer;
+  const tokens = tokenize(source, language);
+  const lines = source.split("\n");
+
+  const masked = source.split("");
+  const blank = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (masked[i] !== "\n") masked[i] = " ";
+    }
+  };
+
+  const docstrings = new Set<Token>();
+  if (config.docstrings) {
+    tokens.forEach((token, index) => {
+      const previous = tokens[index - 1];
+      const next = tokens[index + 1];
+      if (
+        token.kind === "string" &&
+        (!previous || previous.endLine < token.line) &&
+        (!next || next.line > token.endLine || next.kind === "comment")
+      ) {
+        docstrings.add(token);
+      }
+    });
+  }
+
+  for (const token of tokens) {
+    if (token.kind === "comment") {
+      blank(token.start, token.end);
+    } else if (token.kind === "string" || token.kind === "regex" || token.kind === "template") {
+      const [open, close] = delimiterWidths(token, config);
+      blank(token.start + open, token.end - close);
+    }
+  }
+
+  const maskedSource = masked.join("");
+  const codeLines = maskedSource.split("\n");
+  const codeTokens = tokens.filter((t) => t.kind !== "comment");
+  const comments = tokens.filter((t) => t.kind === "comment");
+
+  const lineTokens: Token[][] = lines.map(() => []);
+  for (const token of codeTokens) {
+    lineTokens[token.line - 1].push(token);
+  }
+
+  const lineKinds: LineKind[] = lines.map((line) => (line.trim() === "" ? "blank" : "comment"));
+  for (const token of codeTokens) {
+    if (docstrings.has(token)) continue;
+    for (let line = token.line; line <= token.endLine; line++) {
+      lineKinds[line - 1] = "code";
+    }
+  }
+
+  return {
+    language: profile.id,
+    profile,
+    source,
+    lines,
+    codeLines,
+    maskedSource,
+    tokens,
+    codeTokens,
+    comments,
+    lineTokens,
+    lineKinds,
+  };
+}
+
+/**
+ * Parses the source between two offsets of a document on its own, so
+ * per-function metrics can reuse the document-level calculations
+ */
+export function parseSourceRange(doc: ParsedDocument, start: number, end: number): ParsedDocument {
+  return parseDocument(doc.source.slice(start, end), doc.language);
+}
+
+/**
+ * Finds the index in codeTokens of the brace that closes the first `{` at or
+ * after the given token index, or -1 when the braces never balance
+ */
+export function findBlockEnd(doc: ParsedDocument, fromTokenIndex: number): number {
+  let depth = 0;
+  let started = false;
+
+  for (let i = fromTokenIndex; i < doc.codeTokens.length; i++) {
+    const value = doc.codeTokens[i].value;
+    if (doc.codeTokens[i].kind !== "punctuator") continue;
+    if (value === "{") {
+      depth++;
+      started = true;
+    } else if (value === "}" && started) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the index in codeTokens of the first token on or after a 0-based line
+ */
+export function firstTokenIndexAtLine(doc: ParsedDocument, lineIndex: number): number {
+  const index = doc.codeTokens.findIndex((t) => t.line - 1 >= lineIndex);
+  return index === -1 ? doc.codeTokens.length : index;
+}
+
+/**
+ * Maps the index of every opening bracket to the index of its partner
+ */
+export function matchBrackets(tokens: Token[]): Map<number, number> {
+  const partner = new Map<number, number>();
+  const open: number[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind !== "punctuator") return;
+    if (token.value === "(" || token.value === "[" || token.value === "{") open.push(i);
+    else if ((token.value === ")" || token.value === "]" || token.value === "}") && open.length > 0) {
+      partner.set(open.pop()!, i);
+    }
+  });
+  return partner;
+}
+
+/**
+ * Source text of a type written as tokens, with a space only between adjacent words
+ */
+export function typeText(tokens: Token[]): string {
+  const word = (token: Token | undefined) => token?.kind === "identifier" || token?.kind === "keyword";
+  return tokens.map((token, i) => (word(tokens[i - 1]) && word(token) ? ` ${token.value}` : token.value)).join("");
+}
+
+const statementTokenCache = new WeakMap<ParsedDocument, Token[]>();
+
+// Tokens after which a line break ends the statement in languages with automatic semicolons
+const STATEMENT_ENDING_KEYWORDS = new Set([
+  "break", "continue", "fallthrough", "return", "nil", "true", "false", "iota",
+]);
+const STATEMENT_ENDING_PUNCTUATORS = new Set(["++", "--", ")", "]", "}"]);
+
+/**
+ * Code tokens with an empty `;` token added wherever a line break ends a
+ * statement, for languages with automatic semicolons; for other languages
+ * the code tokens themselves. Cached per document.
+ */
+export function statementTokens(doc: ParsedDocument): Token[] {
+  if (!doc.profile.lexer.automaticSemicolons) return doc.codeTokens;
+  const cached = statementTokenCache.get(doc);
+  if (cached) return cached;
+
+  const tokens: Token[] = [];
+  doc.codeTokens.forEach((token, index) => {
+    tokens.push(token);
+    const next = doc.codeTokens[index + 1];
+    const endsStatement =
+      token.kind === "identifier" ||
+      token.kind === "number" ||
+      token.kind === "string" ||
+      (token.kind === "keyword" && STATEMENT_ENDING_KEYWORDS.has(token.value)) ||
+      (token.kind === "punctuator" && STATEMENT_ENDING_PUNCTUATORS.has(token.value));
+    if (endsStatement && (!next || next.line > token.endLine)) {
+      const line = token.endLine;
+      const column = token.column + token.value.length;
+      tokens.push({ kind: "punctuator", value: ";", line, column, endLine: line, start: token.end, end: token.end });
+    }
+  });
+  statementTokenCache.set(doc, tokens);
+  return tokens;
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+function locate(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+function matchAt(pattern: RegExp, source: string, pos: number): string {
+  if (pattern.sticky) {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(source);
+    return match ? match[0] : "";
+  }
+  const match = source.slice(pos, pos + 3).match(pattern);
+  return match ? match[0] : "";
+}
+
+function findClosingQuote(source: string, from: number, quote: string, multiline: boolean): number {
+  let pos = from;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (ch === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (source.startsWith(quote, pos)) return pos + quote.length;
+    // Unterminated single-line strings stop at the end of the line
+    if (ch === "\n" && !multiline) return pos;
+    pos++;
+  }
+  return source.length;
+}
+
+/**
+ * Scans template text up to the closing backtick or the next `${`, emitting
+ * the chunk as a template token and returning the position to resume from
+ */
+function scanTemplateChunk(
+  source: string,
+  from: number,
+  tokenStart: number,
+  templateDepths: number[],
+  push: (kind: TokenKind, start: number, end: number) => void
+): number {
+  let pos = from;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (ch === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (ch === "`") {
+      push("template", tokenStart, pos + 1);
+      return pos + 1;
+    }
+    if (ch === "$" && source[pos + 1] === "{") {
+      push("template", tokenStart, pos + 2);
+      templateDepths.push(0);
+      return pos + 2;
+    }
+    pos++;
+  }
+  push("template", tokenStart, source.length);
+  return source.length;
+}
+
+function regexAllowed(tokens: Token[]): boolean {
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    if (token.kind === "comment") continue;
+    if (token.kind === "punctuator") return ![")", "]", "}"].includes(token.value);
+    if (token.kind === "keyword") return REGEX_PRECEDING_KEYWORDS.has(token.value);
+    return false;
+  }
+  return true;
+}
+
+function findRegexEnd(source: string, from: number): number {
+  let pos = from + 1;
+  let inClass = false;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (ch === "\n") return -1;
+    if (ch === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (ch === "[") inClass = true;
+    else if (ch === "]") inClass = false;
+    else if (ch === "/" && !inClass) {
+      pos++;
+      while (pos < source.length && /[a-z]/i.test(source[pos])) pos++;
+      return pos;
+    }
+    pos++;
+  }
+  return -1;
+}
+
+function delimiterWidths(token: Token, config: LexerConfig): [number, number] {
+  const value = token.value;
+  if (token.kind === "regex") {
+    return [1, value.length - value.lastIndexOf("/")];
+  }
+  if (token.kind === "template") {
+    const open = 1;
+    const close = value.endsWith("${") ? 2 : value.endsWith("`") && value.length > 1 ? 1 : 0;
+    return [open, close];
+  }
+  const prefix = config.stringPrefix ? matchAt(config.stringPrefix, value, 0).length : 0;
+  const triple = config.tripleQuotes.find((q) => value.startsWith(q, prefix));
+  const width = triple ? triple.length : 1;
+  const closed = value.length >= prefix + width * 2 && value.endsWith(value.substr(prefix, width));
+  return [prefix + width, closed ? width : 0];
+}
@@ -0,0 +1,232 @@
+/**
+ * Plugins module
+ * Loads custom smell detectors from local modules, directories of modules
+ * or npm packages, and runs them so that a failing detector only loses its
+ * own findings
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ParsedDocument } from "./parser.js";
+import type { CodeSmell } from "./code-smells.js";
+import { registerRule, ResolvedRule, RULES, RuleSet, SmellSeverity } from "./config.js";
+
+export interface SmellDetectorContext {
+  doc: ParsedDocument;
+  /** The filename is absent when code is analyzed without one */
+  file: { filename?: string; language: string };
+  /** Resolved settings of the detector's own rule, including its threshold */
+  rule: ResolvedRule;
+  /** Resolved settings of every rule */
+  rules: RuleSet;
+}
+
+export interface SmellDetector {
+  /** Rule id the smells are reported, configured and suppressed under, e.g. "no-direct-fetch" */
+  rule: string;
+  description: string;
+  /** Defaults to "medium" */
+  severity?: SmellSeverity;
+  /** Default limit, for detectors that compare a measurement against one */
+  threshold?: number;
+  /** Language ids the detector runs for; every language when absent */
+  languages?: string[];
+  detect(context: SmellDetectorContext): CodeSmell[];
+}
+
+export interface SmellPlugin {
+  name: string;
+  detectors: SmellDetector[];
+}
+
+export interface PluginError {
+  /** Plugin name, or the configured specifier when the plugin did not load */
+  plugin: string;
+  rule?: string;
+  message: string;
+}
+
+export interface PluginInfo {
+  name: string;
+  /** Specifier the plugin was loaded from */
+  source: string;
+  rules: string[];
+}
+
+const RULE_ID = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const SMELL_SEVERITIES = ["high", "medium", "low"];
+const MODULE_EXTENSIONS = new Set([".js", ".mjs", ".cjs"]);
+
+const plugins: Array<SmellPlugin & { source: string }> = [];
+
+/**
+ * Registers a plugin's detectors and their rules. Throws, registering
+ * nothing, when the plugin is malformed or a rule id is already taken.
+ */
+export function registerPlugin(plugin: SmellPlugin, source = plugin?.name): void {
+  if (!plugin || typeof plugin.name !== "string" || !Array.isArray(plugin.detectors)) {
+    throw new Error("A plugin must export a name and a detectors array");
+  }
+  const declared = new Set<string>();
+  for (const detector of plugin.detectors) {
+    if (typeof detector?.rule !== "string" || !RULE_ID.test(detector.rule)) {
+      throw new Error(`Plugin '${plugin.name}' has a detector without a kebab-case rule id`);
+    }
+    if (typeof detector.detect !== "function") {
+      throw new Error(`Detector '${detector.rule}' of plugin '${plugin.name}' has no detect function`);
+    }
+    if (detector.severity !== undefined && !SMELL_SEVERITIES.includes(detector.severity)) {
+      throw new Error(`Detector '${detector.rule}' of plugin '${plugin.name}' has an invalid severity`);
+    }
+    if (RULES[detector.rule]) {
+      throw new Error(`Plugin '${plugin.name}' redefines rule '${detector.rule}'`);
+    }
+    if (declared.has(detector.rule)) {
+      throw new Error(`Plugin '${plugin.name}' declares rule '${detector.rule}' twice`);
+    }
+    declared.add(detector.rule);
+  }
+
+  for (const detector of plugin.detectors) {
+    registerRule(detector.rule, {
+      kind: "smell",
+      severity: detector.severity ?? "medium",
+      ...(detector.threshold !== undefined ? { threshold: detector.threshold } : {}),
+      description: detector.description,
+    });
+  }
+  plugins.push({ ...plugin, source });
+}
+
+/**
+ * Imports and registers the plugins named in a configuration, resolving
+ * paths and package names from `directory`. A plugin that fails to load is
+ * reported and skipped.
+ */
+export async function loadPlugins(
+  specifiers: string[],
+  directory: string
+): Promise<{ loaded: PluginInfo[]; errors: PluginError[] }> {
+  const errors: PluginError[] = [];
+  const fail = (plugin: string, error: unknown) =>
+    errors.push({ plugin, message: error instanceof Error ? error.message : String(error) });
+
+  for (const specifier of specifiers) {
+    let files: string[];
+    try {
+      files = await pluginModules(specifier, directory);
+    } catch (error) {
+      fail(specifier, error);
+      continue;
+    }
+    // One broken module of a directory does not keep the others from loading
+    for (const file of files) {
+      try {
+        const module = await import(pathToFileURL(file).href);
+        registerPlugin(module.default ?? module.plugin, specifier);
+      } catch (error) {
+        fail(files.length > 1 ? path.join(specifier, path.basename(file)) : specifier, error);
+      }
+    }
+  }
+  return { loaded: listPlugins(), errors };
+}
+
+/**
+ * Lists the registered plugins and the rules they define
+ */
+export function listPlugins(): PluginInfo[] {
+  return plugins.map((plugin) => ({
+    name: plugin.name,
+    source: plugin.source,
+    rules: plugin.detectors.map((detector) => detector.rule),
+  }));
+}
+
+/**
+ * Runs every registered detector that applies to the document's language
+ * and whose rule is enabled. Errors thrown by a detector, promises, results
+ * that are not an array and malformed smells become plugin errors instead of
+ * failing the analysis.
+ */
+export function runPluginDetectors(
+  doc: ParsedDocument,
+  rules: RuleSet,
+  filename?: string
+): { smells: CodeSmell[]; errors: PluginError[] } {
+  const smells: CodeSmell[] = [];
+  const errors: PluginError[] = [];
+
+  for (const plugin of plugins) {
+    for (const detector of plugin.detectors) {
+      if (detector.languages && !detector.languages.includes(doc.language)) continue;
+      // Rule sets resolved before the plugin was registered fall back to its defaults
+      const rule = rules[detector.rule] ?? {
+        enabled: true,
+        severity: RULES[detector.rule].severity,
+        ...(detector.threshold !== undefined ? { threshold: detector.threshold } : {}),
+      };
+      if (!rule.enabled) continue;
+
+      const fail = (error: unknown) =>
+        errors.push({
+          plugin: plugin.name,
+          rule: detector.rule,
+          message: error instanceof Error ? error.message : String(error),
+        });
+
+      try {
+        const found: unknown = detector.detect({ doc, file: { filename, language: doc.language }, rule, rules });
+        if (isThenable(found)) {
+          // Analysis is synchronous; a rejection left unhandled would end the server
+          found.then(undefined, () => undefined);
+          throw new Error("detect() must return its smells synchronously, not a promise");
+        }
+        if (!Array.isArray(found)) throw new Error("detect() must return an array of smells");
+        const malformed = found.findIndex((smell) => !isSmell(smell));
+        if (malformed >= 0) {
+          fail(new Error(`Smell ${malformed} needs a string type, description and suggestion and a numeric line`));
+        }
+        const severity = rule.severity as SmellSeverity;
+        smells.push(...found.filter(isSmell).map((smell) => ({ ...smell, severity, rule: detector.rule })));
+      } catch (error) {
+        fail(error);
+      }
+    }
+  }
+
+  return { smells, errors };
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === "function";
+}
+
+function isSmell(value: unknown): value is CodeSmell {
+  const smell = value as Partial<CodeSmell> | null;
+  return (
+    typeof smell?.type === "string" &&
+    typeof smell.description === "string" &&
+    typeof smell.suggestion === "string" &&
+    (smell.location === undefined || typeof smell.location?.line === "number")
+  );
+}
+
+/**
+ * Files to import for a specifier: the module itself, every module in a
+ * directory in name order, or the entry point of an installed package
+ */
+async function pluginModules(specifier: string, directory: string): Promise<string[]> {
+  const local = specifier.startsWith(".") || path.isAbsolute(specifier);
+  if (!local) return [createRequire(path.join(directory, "package.json")).resolve(specifier)];
+
+  const target = path.resolve(directory, specifier);
+  if (!(await stat(target)).isDirectory()) return [target];
+  const entries = await readdir(target);
+  return entries
+    .filter((entry) => MODULE_EXTENSIONS.has(path.extname(entry)))
+    .sort()
+    .map((entry) => path.join(target, entry));
+}
@@ -0,0 +1,266 @@
+/**
+ * Python structural model
+ * Uses indentation to find the bodies of functions, classes and nested blocks
+ */
+
+import { ParsedDocument, Token } from "./parser.js";
+
+export interface LogicalLine {
+  startLine: number;
+  endLine: number;
+  indent: number;
+  tokens: Token[];
+}
+
+export interface PythonBlock {
+  kind: string;
+  name?: string;
+  /** Line of the block keyword (`def`, `if`, ...) */
+  headerLine: number;
+  /** First line of the block, including decorators */
+  startLine: number;
+  /** Last line of the block body */
+  endLine: number;
+  indent: number;
+  /** Number of enclosing blocks */
+  depth: number;
+  decorators: string[];
+  parameters: string[];
+  docstring?: string;
+  children: PythonBlock[];
+}
+
+export interface PythonStructure {
+  logicalLines: LogicalLine[];
+  blocks: PythonBlock[];
+  functions: PythonBlock[];
+  classes: PythonBlock[];
+}
+
+const BLOCK_KEYWORDS = new Set([
+  "def", "class", "if", "elif", "else", "for", "while", "try", "except",
+  "finally", "with", "match", "case",
+]);
+
+const OPENING = new Set(["(", "[", "{"]);
+const CLOSING = new Set([")", "]", "}"]);
+
+const structures = new WeakMap<ParsedDocument, PythonStructure>();
+
+/**
+ * Builds the block tree for a Python document, cached per document
+ */
+export function buildPythonStructure(doc: ParsedDocument): PythonStructure {
+  let structure = structures.get(doc);
+  if (structure) return structure;
+
+  const logicalLines = buildLogicalLines(doc);
+  const blocks: PythonBlock[] = [];
+  const functions: PythonBlock[] = [];
+  const classes: PythonBlock[] = [];
+  const stack: PythonBlock[] = [];
+  let decorators: { line: number; text: string }[] = [];
+  let awaitingDocstring: PythonBlock | undefined;
+
+  for (const line of logicalLines) {
+    while (stack.length > 0 && line.indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    for (const open of stack) {
+      open.endLine = Math.max(open.endLine, line.endLine);
+    }
+
+    const first = line.tokens[0];
+    if (awaitingDocstring && stack[stack.length - 1] === awaitingDocstring) {
+      if (line.tokens.length === 1 && first.kind === "string") {
+        awaitingDocstring.docstring = first.value;
+      }
+    }
+    awaitingDocstring = undefined;
+
+    if (first.value === "@") {
+      decorators.push({ line: line.startLine, text: lineText(doc, line) });
+      continue;
+    }
+
+    const header = line.tokens[first.value === "async" ? 1 : 0];
+    const colon = findTopLevelColon(line.tokens);
+    // `match` and `case` are soft keywords, so they only open a block when
+    // the header ends with a colon
+    const isBlock =
+      header !== undefined &&
+      BLOCK_KEYWORDS.has(header.value) &&
+      colon !== -1 &&
+      (header.kind === "keyword" || colon === line.tokens.length - 1);
+
+    if (!isBlock) {
+      decorators = [];
+      continue;
+    }
+
+    const block: PythonBlock = {
+      kind: header.value,
+      headerLine: line.startLine,
+      startLine: decorators.length > 0 ? decorators[0].line : line.startLine,
+      endLine: line.endLine,
+      indent: line.indent,
+      depth: stack.length,
+      decorators: decorators.map((d) => d.text),
+      parameters: [],
+      children: [],
+    };
+    decorators = [];
+
+    if (block.kind === "def" || block.kind === "class") {
+      const nameIndex = line.tokens.indexOf(header) + 1;
+      block.name = line.tokens[nameIndex]?.value ?? "anonymous";
+      const parent = stack[stack.length - 1];
+      if (block.kind === "def") {
+        block.parameters = parseParameters(line.tokens, nameIndex + 1, parent?.kind === "class");
+        functions.push(block);
+      } else {
+        classes.push(block);
+      }
+    }
+
+    (stack.length > 0 ? stack[stack.length - 1].children : blocks).push(block);
+
+    // A colon followed by more tokens is a one-line body (`def f(): pass`)
+    if (colon === line.tokens.length - 1) {
+      stack.push(block);
+      awaitingDocstring = block;
+    }
+  }
+
+  structure = { logicalLines, blocks, functions, classes };
+  structures.set(doc, structure);
+  return structure;
+}
+
+/**
+ * Returns every block nested inside the given block (depth-first)
+ */
+export function descendants(block: PythonBlock): PythonBlock[] {
+  return block.children.flatMap((child) => [child, ...descendants(child)]);
+}
+
+/**
+ * Cyclomatic complexity of a Python function, excluding nested functions
+ */
+export function pythonFunctionComplexity(doc: ParsedDocument, fn: PythonBlock): number {
+  const nested = descendants(fn).filter((b) => b.kind === "def" || b.kind === "class");
+  const decisionTokens = new Set(["if", "elif", "for", "while", "except", "and", "or"]);
+  let complexity = 1;
+
+  for (const token of doc.codeTokens) {
+    if (token.line <= fn.headerLine || token.line > fn.endLine) continue;
+    if (nested.some((b) => token.line >= b.startLine && token.line <= b.endLine)) continue;
+    if (token.kind === "keyword" && decisionTokens.has(token.value)) complexity++;
+  }
+
+  return complexity;
+}
+
+/**
+ * Groups tokens into logical lines, joining bracketed and backslash continuations
+ */
+function buildLogicalLines(doc: ParsedDocument): LogicalLine[] {
+  const lines: LogicalLine[] = [];
+  let current: LogicalLine | undefined;
+  let bracketDepth = 0;
+  let continued = false;
+
+  for (const token of doc.codeTokens) {
+    if (token.value === "\\") {
+      continued = true;
+      continue;
+    }
+
+    const startsNewLine =
+      !current || (bracketDepth === 0 && !continued && token.line > current.endLine);
+    if (startsNewLine) {
+      current = {
+        startLine: token.line,
+        endLine: token.endLine,
+        indent: measureIndent(doc.lines[token.line - 1]),
+        tokens: [],
+      };
+      lines.push(current);
+    }
+
+    current!.tokens.push(token);
+    current!.endLine = Math.max(current!.endLine, token.endLine);
+    continued = false;
+
+    if (token.kind === "punctuator") {
+      if (OPENING.has(token.value)) bracketDepth++;
+      else if (CLOSING.has(token.value)) bracketDepth = Math.max(0, bracketDepth - 1);
+    }
+  }
+
+  return lines;
+}
+
+function measureIndent(line: string): number {
+  let width = 0;
+  for (const ch of line) {
+    if (ch === " ") width++;
+    else if (ch === "\t") width = width - (width % 8) + 8;
+    else break;
+  }
+  return width;
+}
+
+/**
+ * Returns the index of the colon that ends a block header, or -1 when the
+ * line has none outside brackets and lambdas
+ */
+export function findTopLevelColon(tokens: Token[]): number {
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const { kind, value } = tokens[i];
+    if (kind === "keyword" && value === "lambda" && depth === 0) return -1;
+    if (kind !== "punctuator") continue;
+    if (OPENING.has(value)) depth++;
+    else if (CLOSING.has(value)) depth--;
+    else if (value === ":" && depth === 0) return i;
+  }
+  return -1;
+}
+
+function parseParameters(tokens: Token[], openIndex: number, isMethod: boolean): string[] {
+  if (tokens[openIndex]?.value !== "(") return [];
+
+  const names: string[] = [];
+  let depth = 0;
+  let expectName = true;
+
+  for (let i = openIndex; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (OPENING.has(token.value)) {
+      depth++;
+      continue;
+    }
+    if (CLOSING.has(token.value)) {
+      depth--;
+      if (depth === 0) break;
+      continue;
+    }
+    if (depth !== 1) continue;
+    if (token.value === ",") {
+      expectName = true;
+    } else if (expectName && token.kind === "identifier") {
+      names.push(token.value);
+      expectName = false;
+    } else if (token.value !== "*" && token.value !== "**") {
+      expectName = false;
+    }
+  }
+
+  return isMethod && (names[0] === "self" || names[0] === "cls") ? names.slice(1) : names;
+}
+
+function lineText(doc: ParsedDocument, line: LogicalLine): string {
+  const last = line.tokens[line.tokens.length - 1];
+  return doc.source.slice(line.tokens[0].end, last.end);
+}
@@ -0,0 +1,125 @@
+/**
+ * Redaction module
+ * Replaces secrets, email addresses, IP addresses and custom patterns in
+ * code with stable placeholders before it is sent to an external AI service
+ */
+
+import { parseDocument } from "./parser.js";
+import { findLanguageProfile } from "./languages.js";
+import { findSecrets } from "./secrets.js";
+
+export interface RedactionPattern {
+  /** Placeholder prefix, e.g. "CUSTOMER_ID" for `<CUSTOMER_ID_1>` */
+  label: string;
+  /** Regular expression source, or a RegExp; every match is replaced */
+  pattern: string | RegExp;
+}
+
+export interface RedactionOptions {
+  secrets?: boolean;
+  emails?: boolean;
+  ips?: boolean;
+  patterns?: RedactionPattern[];
+}
+
+export interface Redactor {
+  /** Redacts one piece of code; equal values get the same placeholder across calls */
+  redact(code: string, language: string): string;
+  /** Placeholder to original value for everything redacted so far */
+  readonly redactions: Record<string, string>;
+}
+
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g;
+// Not part of a longer dotted number, such as a version string
+const IPV4 = /(?<![\d.])\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b(?!\.\d)/g;
+const IPV6 = /(?<![\w:])(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}(?![\w:])/g;
+// Addresses that identify nothing
+const NON_IDENTIFYING_IPS = new Set(["0.0.0.0", "127.0.0.1", "255.255.255.255"]);
+
+/**
+ * Creates a redactor. Secrets, emails and IPs are redacted unless turned off;
+ * custom patterns are checked after them.
+ */
+export function createRedactor(options: RedactionOptions = {}): Redactor {
+  const { secrets = true, emails = true, ips = true, patterns = [] } = options;
+  const custom = patterns.map(({ label, pattern }) => {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(label)) {
+      throw new Error(`Invalid redaction label '${label}': use letters, digits and underscores`);
+    }
+    const source = typeof pattern === "string" ? pattern : pattern.source;
+    const flags = typeof pattern === "string" ? "g" : pattern.flags.replace("g", "") + "g";
+    try {
+      return { label: label.toUpperCase(), regex: new RegExp(source, flags) };
+    } catch (error) {
+      throw new Error(`Invalid redaction pattern for ${label}: ${(error as Error).message}`);
+    }
+  });
+
+  const redactions: Record<string, string> = {};
+  const placeholders = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  const placeholderFor = (label: string, value: string): string => {
+    const key = `${label}\0${value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      const count = (counters.get(label) ?? 0) + 1;
+      counters.set(label, count);
+      placeholder = `<${label}_${count}>`;
+      placeholders.set(key, placeholder);
+      redactions[placeholder] = value;
+    }
+    return placeholder;
+  };
+
+  const redact = (code: string, language: string): string => {
+    const spans: Array<{ start: number; end: number; label: string }> = [];
+    const collect = (label: string, regex: RegExp, skip?: (value: string) => boolean) => {
+      for (const match of code.matchAll(regex)) {
+        if (match[0].length > 0 && !skip?.(match[0])) {
+          spans.push({ start: match.index!, end: match.index! + match[0].length, label });
+        }
+      }
+    };
+
+    // Earlier kinds win where matches overlap
+    if (secrets) {
+      // Prompts accept any language; unregistered ones are scanned with the
+      // C-style lexer, whose quoted strings most languages share
+      const lexed = findLanguageProfile(language) ? language : "javascript";
+      for (const { start, end } of findSecrets(parseDocument(code, lexed))) {
+        spans.push({ start, end, label: "SECRET" });
+      }
+    }
+    if (emails) collect("EMAIL", EMAIL);
+    if (ips) {
+      collect("IP", IPV4, (value) => NON_IDENTIFYING_IPS.has(value));
+      collect("IP", IPV6);
+    }
+    custom.forEach(({ label, regex }) => collect(label, regex));
+
+    const kept: typeof spans = [];
+    for (const span of spans) {
+      if (!kept.some((k) => span.start < k.end && k.start < span.end)) kept.push(span);
+    }
+    kept.sort((a, b) => a.start - b.start);
+
+    let result = "";
+    let position = 0;
+    for (const { start, end, label } of kept) {
+      result += code.slice(position, start) + placeholderFor(label, code.slice(start, end));
+      position = end;
+    }
+    return result + code.slice(position);
+  };
+
+  return { redact, redactions };
+}
+
+/**
+ * Puts the original values back into text, such as an AI answer, that uses
+ * the placeholders of a redaction map
+ */
+export function restoreRedactions(text: string, redactions: Record<string, string>): string {
+  return text.replace(/<[A-Z][A-Z0-9_]*_\d+>/g, (placeholder) => redactions[placeholder] ?? placeholder);
+}
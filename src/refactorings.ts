@@ -3,6 +3,15 @@
  * Provides intelligent refactoring recommendations
  */
 
+import { ParsedDocument, parseDocument } from "./parser.js";
+import { getFunctionExtents } from "./structure.js";
+import { ruleId, REFACTORING_RULES } from "./config.js";
+import { applySuppressions, SuppressionSummary } from "./suppressions.js";
+import { supportsTypeScriptAst } from "./typescript-analyzer.js";
+import { detectClones, DEFAULT_MIN_CLONE_TOKENS } from "./clones.js";
+import { describeClone } from "./code-smells.js";
+import type { TransformId } from "./transforms.js";
+
 export interface Refactoring {
   type: string;
   priority: "high" | "medium" | "low";
@@ -15,6 +24,8 @@ export interface Refactoring {
   };
   effort: string;
   benefits: string[];
+  /** Transform that apply_refactoring can perform for this suggestion */
+  autofix?: TransformId;
 }
 
 export interface RefactoringReport {
@@ -26,6 +37,8 @@ export interface RefactoringReport {
   };
   refactorings: Refactoring[];
   summary: string;
+  /** Suggestions silenced by `intelli-ignore-*` comments, and directives that silenced nothing */
+  suppressions: SuppressionSummary<Refactoring>;
 }
 
 /**
@@ -33,86 +46,81 @@ export interface RefactoringReport {
  */
 export function suggestRefactorings(
   code: string,
-  language: string
+  language: string,
+  doc: ParsedDocument = parseDocument(code, language)
 ): RefactoringReport {
-  const refactorings: Refactoring[] = [];
+  const suggested: Refactoring[] = [];
+
+  suggested.push(...suggestExtractMethod(doc));
+  suggested.push(...suggestRenameVariable(doc));
+  suggested.push(...suggestIntroduceParameter(doc));
+  suggested.push(...suggestReplaceConditional(doc));
+  suggested.push(...suggestSimplifyExpression(doc));
+  suggested.push(...suggestEncapsulateField(doc));
+  suggested.push(...suggestRemoveDuplication(doc));
+  suggested.push(...suggestModernSyntax(doc));
+  suggested.push(...(doc.profile.refactorings?.(doc) ?? []));
+
+  const { kept: refactorings, suppressions } = applySuppressions(
+    suggested,
+    doc,
+    REFACTORING_RULES,
+    (refactoring) => ({ rule: ruleId(refactoring.type), line: refactoring.location?.line })
+  );
 
-  refactorings.push(...suggestExtractMethod(code));
-  refactorings.push(...suggestRenameVariable(code, language));
-  refactorings.push(...suggestIntroduceParameter(code));
-  refactorings.push(...suggestReplaceConditional(code));
-  refactorings.push(...suggestSimplifyExpression(code));
-  refactorings.push(...suggestEncapsulateField(code, language));
-  refactorings.push(...suggestRemoveDuplication(code));
-  refactorings.push(...suggestModernSyntax(code, language));
-
-  const suggestionsByPriority = {
-    high: refactorings.filter((r) => r.priority === "high").length,
-    medium: refactorings.filter((r) => r.priority === "medium").length,
-    low: refactorings.filter((r) => r.priority === "low").length,
+  return {
+    ...summarizeRefactorings(refactorings),
+    refactorings,
+    suppressions,
   };
+}
 
-  const summary = generateSummary(refactorings);
-
+/**
+ * Computes the counts and summary text of a report from its suggestions
+ */
+export function summarizeRefactorings(
+  refactorings: Refactoring[]
+): Pick<RefactoringReport, "totalSuggestions" | "suggestionsByPriority" | "summary"> {
   return {
     totalSuggestions: refactorings.length,
-    suggestionsByPriority,
-    refactorings,
-    summary,
+    suggestionsByPriority: {
+      high: refactorings.filter((r) => r.priority === "high").length,
+      medium: refactorings.filter((r) => r.priority === "medium").length,
+      low: refactorings.filter((r) => r.priority === "low").length,
+    },
+    summary: generateSummary(refactorings),
   };
 }
 
-function suggestExtractMethod(code: string): Refactoring[] {
+function suggestExtractMethod(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
-  let inFunction = false;
-  let functionStart = 0;
-  let braceCount = 0;
-  let functionLines = 0;
-
-  lines.forEach((line, index) => {
-    if (/function\s+\w+|=>\s*{|def\s+\w+/.test(line)) {
-      inFunction = true;
-      functionStart = index;
-      braceCount = 0;
-      functionLines = 0;
-    }
 
-    if (inFunction) {
-      functionLines++;
-      if (line.includes("{")) braceCount++;
-      if (line.includes("}")) {
-        braceCount--;
-        if (braceCount === 0) {
-          if (functionLines > 30) {
-            refactorings.push({
-              type: "Extract Method",
-              priority: "high",
-              title: "Extract method from long function",
-              description: `Function is ${functionLines} lines. Consider extracting logical blocks into separate methods.`,
-              location: { line: functionStart + 1 },
-              effort: "Medium",
-              benefits: [
-                "Improved readability",
-                "Better testability",
-                "Enhanced reusability",
-              ],
-            });
-          }
-          inFunction = false;
-        }
-      }
+  getFunctionExtents(doc).forEach((fn) => {
+    const functionLines = fn.endLine - fn.startLine + 1;
+    if (functionLines > 30) {
+      refactorings.push({
+        type: "Extract Method",
+        priority: "high",
+        title: "Extract method from long function",
+        description: `Function is ${functionLines} lines. Consider extracting logical blocks into separate methods.`,
+        location: { line: fn.startLine },
+        effort: "Medium",
+        benefits: [
+          "Improved readability",
+          "Better testability",
+          "Enhanced reusability",
+        ],
+      });
     }
   });
 
   return refactorings;
 }
 
-function suggestRenameVariable(code: string, language: string): Refactoring[] {
+function suggestRenameVariable(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     // Single letter variables (except common ones like i, j, k in loops)
     const vars = line.match(/\b[a-zA-Z]\b/g);
     if (vars && !/(for|while)\s*\(/.test(line)) {
@@ -150,11 +158,10 @@ function suggestRenameVariable(code: string, language: string): Refactoring[] {
   return refactorings.slice(0, 5); // Limit results
 }
 
-function suggestIntroduceParameter(code: string): Refactoring[] {
+function suggestIntroduceParameter(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     // Magic numbers in function calls
     if (/\w+\s*\(\s*\d+/.test(line) && !/for\s*\(/.test(line)) {
       refactorings.push({
@@ -172,11 +179,10 @@ function suggestIntroduceParameter(code: string): Refactoring[] {
   return refactorings.slice(0, 3);
 }
 
-function suggestReplaceConditional(code: string): Refactoring[] {
+function suggestReplaceConditional(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     // Nested ternary operators
     if ((line.match(/\?/g) || []).length > 1) {
       refactorings.push({
@@ -209,11 +215,10 @@ function suggestReplaceConditional(code: string): Refactoring[] {
   return refactorings;
 }
 
-function suggestSimplifyExpression(code: string): Refactoring[] {
+function suggestSimplifyExpression(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
 
-  lines.forEach((line, index) => {
+  doc.codeLines.forEach((line, index) => {
     // Redundant comparisons
     if (/===\s*true|===\s*false/.test(line)) {
       refactorings.push({
@@ -226,6 +231,7 @@ function suggestSimplifyExpression(code: string): Refactoring[] {
         after: "if (condition)",
         effort: "Low",
         benefits: ["Cleaner code", "Less verbose"],
+        ...(supportsTypeScriptAst(doc.language) ? { autofix: "remove-boolean-comparison" as const } : {}),
       });
     }
 
@@ -241,6 +247,7 @@ function suggestSimplifyExpression(code: string): Refactoring[] {
         after: "const bool = Boolean(value);",
         effort: "Low",
         benefits: ["Better readability"],
+        ...(supportsTypeScriptAst(doc.language) ? { autofix: "double-negation-to-boolean" as const } : {}),
       });
     }
   });
@@ -248,12 +255,12 @@ function suggestSimplifyExpression(code: string): Refactoring[] {
   return refactorings;
 }
 
-function suggestEncapsulateField(code: string, language: string): Refactoring[] {
+function suggestEncapsulateField(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
+  const code = doc.maskedSource;
 
-  if (language === "javascript" || language === "typescript") {
-    lines.forEach((line, index) => {
+  if (supportsTypeScriptAst(doc.language)) {
+    doc.codeLines.forEach((line, index) => {
       // Public class fields
       if (/^\s*this\.\w+\s*=/.test(line) && !/constructor/.test(code.substring(0, code.indexOf(line)))) {
         refactorings.push({
@@ -276,44 +283,27 @@ function suggestEncapsulateField(code: string, language: string): Refactoring[]
   return refactorings.slice(0, 3);
 }
 
-function suggestRemoveDuplication(code: string): Refactoring[] {
-  const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
-  const seenLines = new Map<string, number[]>();
-
-  lines.forEach((line, index) => {
-    const trimmed = line.trim();
-    if (trimmed && trimmed.length > 15) {
-      if (!seenLines.has(trimmed)) {
-        seenLines.set(trimmed, []);
-      }
-      seenLines.get(trimmed)!.push(index + 1);
-    }
+function suggestRemoveDuplication(doc: ParsedDocument): Refactoring[] {
+  const { cloneClasses } = detectClones([{ filename: "", code: doc.source, language: doc.language, doc }], {
+    minTokens: DEFAULT_MIN_CLONE_TOKENS,
   });
 
-  seenLines.forEach((lineNumbers, line) => {
-    if (lineNumbers.length >= 2) {
-      refactorings.push({
-        type: "Remove Duplication",
-        priority: "medium",
-        title: "Extract duplicated code",
-        description: `Similar code appears ${lineNumbers.length} times`,
-        location: { line: lineNumbers[0] },
-        effort: "Medium",
-        benefits: ["DRY principle", "Easier maintenance", "Single source of truth"],
-      });
-    }
-  });
-
-  return refactorings.slice(0, 5);
+  return cloneClasses.slice(0, 5).map((clone) => ({
+    type: "Remove Duplication",
+    priority: "medium",
+    title: "Extract duplicated code",
+    description: describeClone(clone),
+    location: { line: clone.locations[0].startLine },
+    effort: "Medium",
+    benefits: ["DRY principle", "Easier maintenance", "Single source of truth"],
+  }));
 }
 
-function suggestModernSyntax(code: string, language: string): Refactoring[] {
+function suggestModernSyntax(doc: ParsedDocument): Refactoring[] {
   const refactorings: Refactoring[] = [];
-  const lines = code.split("\n");
 
-  if (language === "javascript" || language === "typescript") {
-    lines.forEach((line, index) => {
+  if (supportsTypeScriptAst(doc.language)) {
+    doc.codeLines.forEach((line, index) => {
       // var instead of let/const
       if (/\bvar\b/.test(line)) {
         refactorings.push({
@@ -326,6 +316,7 @@ function suggestModernSyntax(code: string, language: string): Refactoring[] {
           after: "const x = 10; // or let if reassigned",
           effort: "Low",
           benefits: ["Better scoping", "Prevents accidental reassignment"],
+          autofix: "var-to-let-const",
         });
       }
 
@@ -341,6 +332,7 @@ function suggestModernSyntax(code: string, language: string): Refactoring[] {
           after: "array.map(x => x * 2)",
           effort: "Low",
           benefits: ["Concise syntax", "Lexical this binding"],
+          autofix: "function-to-arrow",
         });
       }
     });
@@ -0,0 +1,341 @@
+/**
+ * Rename module
+ * Scope-aware renaming of JavaScript/TypeScript bindings across a set of files
+ */
+
+import path from "node:path";
+import ts from "typescript";
+import { parseDocument } from "./parser.js";
+import { getLanguageProfile, hasFeature, languagesWith } from "./languages.js";
+import { syntaxErrors } from "./transforms.js";
+import { createUnifiedDiff } from "./diff.js";
+
+export interface RenameSource {
+  filename: string;
+  code: string;
+  language: string;
+}
+
+export interface RenameTarget {
+  /** File holding the symbol; may be omitted when there is only one file */
+  filename?: string;
+  line: number;
+  /** 1-based column of any character of the identifier */
+  column?: number;
+  /** Current name, used to find the identifier on the line when no column is given */
+  name?: string;
+}
+
+export interface RenameLocation {
+  filename: string;
+  line: number;
+  column: number;
+}
+
+export interface RenamedFile {
+  filename: string;
+  code: string;
+}
+
+export interface RenameResult {
+  oldName: string;
+  newName: string;
+  /** Every renamed occurrence, at its position before the rename */
+  locations: RenameLocation[];
+  /** Changed files with their new content */
+  files: RenamedFile[];
+  /** Unified diff of every changed file */
+  patch: string;
+}
+
+interface ScriptFile {
+  source: RenameSource;
+  /** Absolute path the language service knows the file by */
+  path: string;
+  text: string;
+}
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+  /** Offset of the new name inside `text`, after any `name: ` prefix */
+  nameOffset: number;
+}
+
+/** Diagnostics for a name declared twice in one scope */
+const REDECLARATION_CODES = new Set([2300, 2393, 2440, 2451]);
+
+const SCRIPT_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+
+/**
+ * Renames the binding at the target location and every reference to it,
+ * including shorthand properties, destructuring and imports of it in the other
+ * files. Shorthand properties and re-exports keep their outward name. Throws
+ * when the new name would be captured by, or capture, another binding.
+ */
+export function renameSymbol(sources: RenameSource[], target: RenameTarget, newName: string): RenameResult {
+  if (!isValidIdentifier(newName)) throw new Error(`Invalid identifier: ${newName}`);
+
+  const files = scriptFiles(sources);
+  const file = targetFile(files, sources, target.filename);
+  const service = createService(files);
+  const position = targetPosition(file, target);
+
+  const info = service.getRenameInfo(file.path, position, { allowRenameOfImportPath: false });
+  if (!info.canRename) {
+    throw new Error(`Cannot rename at ${file.source.filename}:${target.line}: ${info.localizedErrorMessage}`);
+  }
+  const oldName = file.text.slice(info.triggerSpan.start, info.triggerSpan.start + info.triggerSpan.length);
+  if (oldName === newName) throw new Error(`The symbol is already named ${newName}`);
+
+  const renames = service.findRenameLocations(file.path, position, false, false, {
+    providePrefixAndSuffixTextForRename: true,
+  });
+  if (!renames || renames.length === 0) throw new Error(`No references to ${oldName} were found`);
+
+  const replacements = new Map<string, Replacement[]>();
+  for (const rename of renames) {
+    const prefix = rename.prefixText ?? "";
+    const list = replacements.get(rename.fileName) ?? [];
+    list.push({
+      start: rename.textSpan.start,
+      end: rename.textSpan.start + rename.textSpan.length,
+      text: `${prefix}${newName}${rename.suffixText ?? ""}`,
+      nameOffset: prefix.length,
+    });
+    replacements.set(rename.fileName, list);
+  }
+
+  const renamed = files.map((f) => ({ ...f, text: applyReplacements(f.text, replacements.get(f.path) ?? []) }));
+  checkConflicts(service, createService(renamed), files, replacements, oldName, newName);
+
+  const changed = renamed.filter((f, index) => f.text !== files[index].text);
+  return {
+    oldName,
+    newName,
+    locations: renames.map((rename) => {
+      const owner = files.find((f) => f.path === rename.fileName)!;
+      const { line, character } = ts.getLineAndCharacterOfPosition(
+        service.getProgram()!.getSourceFile(owner.path)!,
+        rename.textSpan.start
+      );
+      return { filename: owner.source.filename, line: line + 1, column: character + 1 };
+    }),
+    files: changed.map((f) => ({ filename: f.source.filename, code: f.text })),
+    patch: changed.map((f) => createUnifiedDiff(f.source.code, f.text, f.source.filename)).join(""),
+  };
+}
+
+function isValidIdentifier(name: string): boolean {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true, ts.LanguageVariant.Standard, name);
+  const token = scanner.scan();
+  if (scanner.getTextPos() !== name.length) return false;
+  if (token === ts.SyntaxKind.Identifier) return true;
+  // Contextual keywords such as `type` or `of` are valid names
+  return (
+    token >= ts.SyntaxKind.FirstKeyword &&
+    token <= ts.SyntaxKind.LastKeyword &&
+    !(token >= ts.SyntaxKind.FirstReservedWord && token <= ts.SyntaxKind.LastReservedWord) &&
+    !(token >= ts.SyntaxKind.FirstFutureReservedWord && token <= ts.SyntaxKind.LastFutureReservedWord)
+  );
+}
+
+/**
+ * Gives every JavaScript/TypeScript source an absolute path with a script
+ * extension; other languages are left out
+ */
+function scriptFiles(sources: RenameSource[]): ScriptFile[] {
+  const files: ScriptFile[] = [];
+  const seen = new Set<string>();
+  for (const source of sources) {
+    if (!hasFeature(source.language, "rename")) continue;
+    const errors = syntaxErrors(source.code, source.language);
+    if (errors.length > 0) {
+      throw new Error(`Cannot rename in ${source.filename}, it has syntax errors: ${errors[0]}`);
+    }
+
+    let filePath = path.posix.resolve("/", source.filename.replace(/\\/g, "/"));
+    if (!SCRIPT_EXTENSIONS.has(path.posix.extname(filePath))) {
+      filePath += getLanguageProfile(source.language).id === "typescript" ? ".ts" : ".js";
+    }
+    if (seen.has(filePath)) throw new Error(`Duplicate file: ${source.filename}`);
+    seen.add(filePath);
+    files.push({ source, path: filePath, text: source.code });
+  }
+  return files;
+}
+
+function targetFile(files: ScriptFile[], sources: RenameSource[], filename: string | undefined): ScriptFile {
+  if (filename === undefined && sources.length !== 1) {
+    throw new Error("Specify the filename that holds the symbol");
+  }
+  const source = filename === undefined ? sources[0] : sources.find((s) => s.filename === filename);
+  if (!source) throw new Error(`Unknown file: ${filename}`);
+
+  const file = files.find((f) => f.source === source);
+  if (!file) {
+    throw new Error(`Symbols can only be renamed in ${languagesWith("rename")}, not ${source.language}`);
+  }
+  return file;
+}
+
+function targetPosition(file: ScriptFile, target: RenameTarget): number {
+  const { line, column, name } = target;
+  const lines = file.text.split("\n");
+  if (!Number.isInteger(line) || line < 1 || line > lines.length) {
+    throw new Error(`Line ${line} is outside ${file.source.filename}`);
+  }
+  const lineStart = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+
+  if (column !== undefined) {
+    if (!Number.isInteger(column) || column < 1 || column > lines[line - 1].length) {
+      throw new Error(`Column ${column} is outside line ${line}`);
+    }
+    return lineStart + column - 1;
+  }
+  if (name === undefined) throw new Error("Specify the column or the name of the symbol");
+
+  const token = parseDocument(file.text, file.source.language).codeTokens.find(
+    (t) => t.line === line && t.kind === "identifier" && t.value === name
+  );
+  if (!token) throw new Error(`No identifier named ${name} on line ${line}`);
+  return token.start;
+}
+
+function createService(files: ScriptFile[]): ts.LanguageService {
+  const texts = new Map(files.map((f) => [f.path, f.text]));
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => ({
+      allowJs: true,
+      noLib: true,
+      jsx: ts.JsxEmit.Preserve,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      target: ts.ScriptTarget.Latest,
+      types: [],
+    }),
+    getScriptFileNames: () => [...texts.keys()],
+    getScriptVersion: () => "1",
+    getScriptSnapshot: (fileName) => {
+      const text = texts.get(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => "/",
+    getDefaultLibFileName: () => "/lib.d.ts",
+    fileExists: (fileName) => texts.has(fileName),
+    readFile: (fileName) => texts.get(fileName),
+  };
+  return ts.createLanguageService(host, ts.createDocumentRegistry());
+}
+
+function applyReplacements(text: string, replacements: Replacement[]): string {
+  let result = text;
+  for (const { start, end, text: replacement } of [...replacements].sort((a, b) => b.start - a.start)) {
+    result = result.substring(0, start) + replacement + result.substring(end);
+  }
+  return result;
+}
+
+function mapPosition(replacements: Replacement[], position: number): number {
+  let shift = 0;
+  for (const { start, end, text } of replacements) {
+    if (end <= position) shift += text.length - (end - start);
+  }
+  return position + shift;
+}
+
+/**
+ * Resolves names again after the rename: every renamed occurrence must still
+ * reach one binding, existing uses of the new name must not reach it, and no
+ * scope may end up declaring the name twice
+ */
+function checkConflicts(
+  before: ts.LanguageService,
+  after: ts.LanguageService,
+  files: ScriptFile[],
+  replacements: Map<string, Replacement[]>,
+  oldName: string,
+  newName: string
+): void {
+  const resolveIn = (service: ts.LanguageService) => {
+    const program = service.getProgram()!;
+    const checker = program.getTypeChecker();
+    return (fileName: string, position: number): ts.Symbol | undefined => {
+      const id = identifierAt(program.getSourceFile(fileName)!, position);
+      if (!id) return undefined;
+      const symbol =
+        ts.isShorthandPropertyAssignment(id.parent) && id.parent.name === id
+          ? checker.getShorthandAssignmentValueSymbol(id.parent)
+          : checker.getSymbolAtLocation(id);
+      if (!symbol) return undefined;
+      return checker.getExportSymbolOfSymbol(
+        symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol
+      );
+    };
+  };
+  const resolve = resolveIn(after);
+  const resolveBefore = resolveIn(before);
+  const describe = (file: ScriptFile, position: number) => {
+    const { line } = ts.getLineAndCharacterOfPosition(before.getProgram()!.getSourceFile(file.path)!, position);
+    return `${file.source.filename}:${line + 1}`;
+  };
+
+  let renamedSymbol: ts.Symbol | undefined;
+  let symbolBefore: ts.Symbol | undefined;
+  for (const file of files) {
+    const list = replacements.get(file.path) ?? [];
+    for (const replacement of list) {
+      const symbol = resolve(file.path, mapPosition(list, replacement.start) + replacement.nameOffset);
+      renamedSymbol ??= symbol;
+      symbolBefore ??= resolveBefore(file.path, replacement.start);
+      if (!symbol || symbol !== renamedSymbol) {
+        throw new Error(
+          `Renaming ${oldName} to ${newName} conflicts: the reference at ${describe(file, replacement.start)} ` +
+            `would resolve to another ${newName}`
+        );
+      }
+    }
+  }
+
+  for (const file of files) {
+    const list = replacements.get(file.path) ?? [];
+    for (const id of identifiersNamed(before.getProgram()!.getSourceFile(file.path)!, newName)) {
+      // Names that already resolved to the symbol, such as the export an alias imports, are not captured
+      if (resolveBefore(file.path, id.getStart()) === symbolBefore) continue;
+      if (resolve(file.path, mapPosition(list, id.getStart())) === renamedSymbol) {
+        throw new Error(
+          `Renaming ${oldName} to ${newName} conflicts: ${newName} at ${describe(file, id.getStart())} ` +
+            "would refer to the renamed symbol"
+        );
+      }
+    }
+  }
+
+  const redeclarations = (service: ts.LanguageService) =>
+    files.flatMap((file) =>
+      service.getSemanticDiagnostics(file.path).filter((diagnostic) => REDECLARATION_CODES.has(diagnostic.code))
+    ).length;
+  if (redeclarations(after) > redeclarations(before)) {
+    throw new Error(`Renaming ${oldName} to ${newName} conflicts: ${newName} is already declared in the same scope`);
+  }
+}
+
+function identifierAt(sourceFile: ts.SourceFile, position: number): ts.Identifier | undefined {
+  const find = (node: ts.Node): ts.Identifier | undefined => {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) return undefined;
+    if (ts.isIdentifier(node)) return node;
+    return ts.forEachChild(node, find);
+  };
+  return find(sourceFile);
+}
+
+function identifiersNamed(sourceFile: ts.SourceFile, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
@@ -0,0 +1,87 @@
+/**
+ * Sandbox module
+ * Confines filesystem access to the configured allowed roots
+ */
+
+import { realpath, stat } from "node:fs/promises";
+import path from "node:path";
+
+/** Environment variable holding the allowed roots, separated by the platform path delimiter or commas */
+export const ALLOWED_ROOTS_ENV = "INTELLI_CODE_ALLOWED_ROOTS";
+
+/**
+ * Returns the directories the server may read from: the entries of
+ * INTELLI_CODE_ALLOWED_ROOTS, or the working directory when it is unset
+ */
+export function getAllowedRoots(): string[] {
+  const configured = process.env[ALLOWED_ROOTS_ENV];
+  if (!configured) return [process.cwd()];
+
+  return configured
+    .split(path.delimiter)
+    .flatMap((entry) => entry.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => path.resolve(entry));
+}
+
+/**
+ * Resolves the requested directory, following symlinks, and rejects it unless
+ * it lies inside one of the allowed roots
+ */
+export async function resolveAllowedDirectory(
+  requested: string,
+  allowedRoots: string[] = getAllowedRoots()
+): Promise<string> {
+  const directory = await resolveAllowedPath(requested, allowedRoots);
+  if (!(await stat(directory)).isDirectory()) {
+    throw new Error(`Not a directory: ${requested}`);
+  }
+  return directory;
+}
+
+/**
+ * Resolves a file path inside the allowed roots. The file itself need not
+ * exist, so the same check guards reads and writes.
+ */
+export async function resolveAllowedFile(
+  requested: string,
+  allowedRoots: string[] = getAllowedRoots()
+): Promise<string> {
+  const absolute = path.resolve(requested);
+  const directory = await resolveAllowedDirectory(path.dirname(absolute), allowedRoots);
+  const file = path.join(directory, path.basename(absolute));
+
+  // An existing file may be a symlink pointing elsewhere
+  const target = await realpath(file).catch(() => undefined);
+  if (target && !(await isWithinRoots(target, allowedRoots))) {
+    throw accessDenied(requested);
+  }
+  return file;
+}
+
+async function resolveAllowedPath(requested: string, allowedRoots: string[]): Promise<string> {
+  const resolved = await realpath(path.resolve(requested)).catch(() => {
+    throw new Error(`Directory not found: ${requested}`);
+  });
+  if (!(await isWithinRoots(resolved, allowedRoots))) {
+    throw accessDenied(requested);
+  }
+  return resolved;
+}
+
+async function isWithinRoots(target: string, allowedRoots: string[]): Promise<boolean> {
+  for (const allowed of allowedRoots) {
+    const root = await realpath(path.resolve(allowed)).catch(() => undefined);
+    if (!root) continue;
+    const relative = path.relative(root, target);
+    if (relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function accessDenied(requested: string): Error {
+  return new Error(`Access denied: ${requested} is outside the allowed roots (set ${ALLOWED_ROOTS_ENV})`);
+}
@@ -0,0 +1,345 @@
+/**
+ * SARIF module
+ * Converts analysis reports into SARIF 2.1.0 logs for CI and code-scanning tools
+ */
+
+import { createHash } from "node:crypto";
+import type { CodeAnalysis, Issue } from "./analyzer.js";
+import { smellRule, CodeSmell, CodeSmellReport } from "./code-smells.js";
+import type { Refactoring, RefactoringReport } from "./refactorings.js";
+import { resolveRules, ruleId, RULES, RuleSet } from "./config.js";
+import { parseDocument } from "./parser.js";
+import { maskedLines } from "./secrets.js";
+
+export type SarifLevel = "error" | "warning" | "note" | "none";
+
+export interface SarifRegion {
+  startLine: number;
+  startColumn?: number;
+  snippet?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; index: number };
+      region?: SarifRegion;
+    };
+  }>;
+  fingerprints: Record<string, string>;
+  partialFingerprints: Record<string, string>;
+  /** Present when an inline `intelli-ignore-*` directive silenced the finding */
+  suppressions?: Array<{ kind: "inSource"; justification: string }>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties: { tags: string[] };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        rules: SarifRule[];
+      };
+    };
+    artifacts: Array<{ location: { uri: string }; sourceLanguage: string; length: number }>;
+    columnKind: "utf16CodeUnits";
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * A finding from any report, described in SARIF terms
+ */
+export interface SarifFinding {
+  /** The issue, smell or refactoring object the finding came from */
+  finding: object;
+  ruleId: string;
+  ruleName: string;
+  tag: "issue" | "code-smell" | "refactoring";
+  level: SarifLevel;
+  message: string;
+  line?: number;
+  column?: number;
+  properties: Record<string, unknown>;
+  suppression?: { reason: string };
+}
+
+export interface FindingFingerprint {
+  fingerprint: string;
+  /** SARIF `primaryLocationLineHash`: hash of the line plus its occurrence number */
+  lineHash: string;
+  lineText: string;
+}
+
+export type Fingerprinter = (ruleId: string, line: number | undefined, message: string) => FindingFingerprint;
+
+/**
+ * One analyzed file and whichever reports were produced for it
+ */
+export interface SarifSource {
+  filename: string;
+  language: string;
+  code: string;
+  analysis?: CodeAnalysis;
+  smells?: CodeSmellReport;
+  refactorings?: RefactoringReport;
+  /** Rule settings the reports were produced with; the defaults for the file when absent */
+  rules?: RuleSet;
+}
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const FINGERPRINT_KEY = "intelliCode/v1";
+
+/**
+ * Short descriptions of the refactoring suggestions, which have no entry in
+ * RULES; other rules are described by their RULES entry
+ */
+const REFACTORING_DESCRIPTIONS: Record<string, string> = {
+  "extract-method": "Long functions can be split into smaller ones",
+  "rename-variable": "Variables should have descriptive names",
+  "introduce-parameter": "Hardcoded values can be turned into parameters",
+  "replace-conditional": "Nested ternaries and complex conditionals can be simplified",
+  "simplify-expression": "Redundant boolean expressions can be simplified",
+  "encapsulate-field": "Public fields can be encapsulated behind accessors",
+  "remove-duplication": "Duplicated code can be extracted",
+  "modern-syntax": "Legacy syntax can be replaced by modern equivalents",
+};
+
+/**
+ * Builds a SARIF log with one run covering every source file
+ */
+export function toSarif(sources: SarifSource[]): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const results: SarifResult[] = [];
+  // Thresholds the reporting files resolved for each rule, for its description
+  const thresholds = new Map<string, Set<number>>();
+
+  const ruleFor = (id: string, name: string, level: SarifLevel, tag: string): number => {
+    let index = ruleIndex.get(id);
+    if (index === undefined) {
+      index = rules.length;
+      ruleIndex.set(id, index);
+      rules.push({
+        id,
+        name: name.replace(/(^|[\s-])(\w)/g, (_, __, c: string) => c.toUpperCase()).replace(/\W/g, ""),
+        shortDescription: { text: RULES[id]?.description ?? REFACTORING_DESCRIPTIONS[id] ?? name },
+        defaultConfiguration: { level },
+        properties: { tags: [tag] },
+      });
+    }
+    return index;
+  };
+
+  sources.forEach((source, artifactIndex) => {
+    const fingerprint = createFingerprinter(source.code);
+    // Snippets are echoed to the reader, so secret values in them are masked
+    const snippets = maskedLines(parseDocument(source.code, source.language));
+    const rules = source.rules ?? resolveRules({}, source.filename, source.language);
+
+    for (const finding of listFindings(source)) {
+      const threshold = rules[finding.ruleId]?.threshold;
+      if (threshold !== undefined) {
+        thresholds.set(finding.ruleId, (thresholds.get(finding.ruleId) ?? new Set()).add(threshold));
+      }
+      const { fingerprint: id, lineHash, lineText } = fingerprint(finding.ruleId, finding.line, finding.message);
+      const region: SarifRegion | undefined =
+        finding.line !== undefined && finding.line >= 1
+          ? {
+              startLine: finding.line,
+              ...(finding.column !== undefined && finding.column >= 1 ? { startColumn: finding.column } : {}),
+              snippet: { text: snippets[finding.line - 1] ?? lineText },
+            }
+          : undefined;
+
+      results.push({
+        ruleId: finding.ruleId,
+        ruleIndex: ruleFor(finding.ruleId, finding.ruleName, finding.level, finding.tag),
+        level: finding.level,
+        message: { text: finding.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: toUri(source.filename), index: artifactIndex },
+              ...(region ? { region } : {}),
+            },
+          },
+        ],
+        fingerprints: { [FINGERPRINT_KEY]: id },
+        partialFingerprints: { primaryLocationLineHash: lineHash },
+        ...(finding.suppression
+          ? { suppressions: [{ kind: "inSource" as const, justification: finding.suppression.reason }] }
+          : {}),
+        properties: finding.properties,
+      });
+    }
+  });
+
+  for (const rule of rules) {
+    const values = [...(thresholds.get(rule.id) ?? [])].sort((a, b) => a - b);
+    if (values.length === 1) rule.shortDescription.text += `: ${values[0]}`;
+    else if (values.length > 1) rule.shortDescription.text += `: ${values.join(" or ")}, depending on the file`;
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "intelli-code-analysis-mcp",
+            version: "1.0.0",
+            rules,
+          },
+        },
+        artifacts: sources.map((source) => ({
+          location: { uri: toUri(source.filename) },
+          sourceLanguage: source.language,
+          length: Buffer.byteLength(source.code, "utf8"),
+        })),
+        columnKind: "utf16CodeUnits",
+        results,
+      },
+    ],
+  };
+}
+
+/**
+ * Lists the findings of every report of a source in a fixed order: issues,
+ * smells, refactorings, each with the suppressed ones last
+ */
+export function listFindings(source: SarifSource): SarifFinding[] {
+  const findings: SarifFinding[] = [];
+
+  const issues: Array<Issue & { suppression?: { reason: string } }> = [
+    ...(source.analysis?.issues ?? []),
+    ...(source.analysis?.suppressions.suppressed ?? []),
+  ];
+  const smells: Array<CodeSmell & { suppression?: { reason: string } }> = [
+    ...(source.smells?.smells ?? []),
+    ...(source.smells?.suppressions.suppressed ?? []),
+  ];
+  const refactorings: Array<Refactoring & { suppression?: { reason: string } }> = [
+    ...(source.refactorings?.refactorings ?? []),
+    ...(source.refactorings?.suppressions.suppressed ?? []),
+  ];
+
+  issues.forEach((issue) =>
+    findings.push({
+      finding: issue,
+      ruleId: issue.rule,
+      ruleName: issue.rule,
+      tag: "issue",
+      level: issueLevel(issue.severity),
+      message: issue.message,
+      line: issue.line,
+      column: issue.column,
+      properties: { severity: issue.severity, ...(issue.cwe ? { cwe: issue.cwe } : {}) },
+      suppression: issue.suppression,
+    })
+  );
+  smells.forEach((smell) =>
+    findings.push({
+      finding: smell,
+      ruleId: smellRule(smell),
+      ruleName: smell.type,
+      tag: "code-smell",
+      level: priorityLevel(smell.severity),
+      message: smell.description,
+      line: smell.location?.line,
+      column: smell.location?.column,
+      properties: {
+        severity: smell.severity,
+        suggestion: smell.suggestion,
+        ...(smell.confidence ? { confidence: smell.confidence } : {}),
+      },
+      suppression: smell.suppression,
+    })
+  );
+  refactorings.forEach((refactoring) =>
+    findings.push({
+      finding: refactoring,
+      ruleId: ruleId(refactoring.type),
+      ruleName: refactoring.type,
+      tag: "refactoring",
+      level: refactoring.priority === "high" ? "warning" : "note",
+      message: `${refactoring.title}: ${refactoring.description}`,
+      line: refactoring.location?.line,
+      properties: { priority: refactoring.priority, effort: refactoring.effort, benefits: refactoring.benefits },
+      suppression: refactoring.suppression,
+    })
+  );
+
+  return findings;
+}
+
+/**
+ * Returns a function that fingerprints the findings of one file. Call it in
+ * report order: identical lines flagged by the same rule are told apart by
+ * how many came before.
+ */
+export function createFingerprinter(code: string): Fingerprinter {
+  const lines = code.split("\n");
+  const occurrences = new Map<string, number>();
+
+  return (ruleId, line, message) => {
+    const lineText = line !== undefined ? lines[line - 1] ?? "" : "";
+    const content = normalize(lineText || message);
+    const key = `${ruleId}\0${content}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    return {
+      fingerprint: findingFingerprint(ruleId, content, occurrence),
+      lineHash: `${hash(content).substring(0, 16)}:${occurrence + 1}`,
+      lineText,
+    };
+  };
+}
+
+/**
+ * Fingerprint that survives edits elsewhere in the file: it depends on the
+ * rule, the normalized text of the flagged line and which occurrence of that
+ * text it is, but not on the line number
+ */
+export function findingFingerprint(ruleId: string, content: string, occurrence: number): string {
+  return hash(`${ruleId}\0${normalize(content)}\0${occurrence}`);
+}
+
+function issueLevel(severity: Issue["severity"]): SarifLevel {
+  return severity === "info" ? "note" : severity;
+}
+
+function priorityLevel(priority: "high" | "medium" | "low"): SarifLevel {
+  if (priority === "high") return "error";
+  if (priority === "medium") return "warning";
+  return "note";
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function toUri(filename: string): string {
+  return encodeURI(filename.replace(/\\/g, "/"));
+}
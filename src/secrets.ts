@@ -0,0 +1,201 @@
+/**
+ * Secrets scanner module
+ * Finds hardcoded credentials through provider-specific patterns and the
+ * Shannon entropy of strings assigned to credential-like names, and masks
+ * their values wherever source text is echoed back
+ */
+
+import { ParsedDocument, Token } from "./parser.js";
+import { RULES, IssueSeverity } from "./config.js";
+import { SECURITY_CWES, SecurityIssue } from "./security.js";
+
+export interface SecretFinding {
+  /** What was found, e.g. "AWS access key ID" */
+  type: string;
+  line: number;
+  column: number;
+  /** Offsets of the secret value in the source; line and column locate the whole match */
+  start: number;
+  end: number;
+  /** The value with everything but its first characters replaced by `*` */
+  masked: string;
+}
+
+interface SecretPattern {
+  type: string;
+  /** Global pattern; a `secret` group narrows the value to mask */
+  pattern: RegExp;
+}
+
+const PROVIDER_PATTERNS: SecretPattern[] = [
+  { type: "AWS access key ID", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { type: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  {
+    type: "private key",
+    pattern: new RegExp(
+      "-----BEGIN [A-Z ]*PRIVATE KEY(?: BLOCK)?-----(?<secret>[\\s\\S]*?)-----END [A-Z ]*PRIVATE KEY(?: BLOCK)?-----",
+      "dg"
+    ),
+  },
+  { type: "JSON Web Token", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    type: "connection string password",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"`]+:(?<secret>[^\s@/'"`]+)@[^\s'"`]+/dgi,
+  },
+  { type: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { type: "Stripe secret key", pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}\b/g },
+  { type: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+];
+
+// Names whose values are credentials, and suffixes that make them something else
+const CREDENTIAL_NAME = /passw(?:or)?d|pwd|secret|token|api_?key|access_?key|private_?key|credential|auth(?!or)/i;
+const NON_CREDENTIAL_SUFFIX = /(?:url|uri|endpoint|path|file|name|type|label|field|header|id|count|length|prefix)$/i;
+// Template variables, format specifiers and dummy values
+const PLACEHOLDER =
+  /^(?:<.*>|\$\{.*\}|\{.*\}|%\(?\w*\)?s|x+|\*+|\.+|your[-_ ].*|changeme|placeholder|example)$/i;
+
+/** Bits per character above which a credential-like value is taken as real */
+const ENTROPY_THRESHOLD = 3;
+const MIN_SECRET_LENGTH = 8;
+
+const cache = new WeakMap<ParsedDocument, SecretFinding[]>();
+const maskedCache = new WeakMap<ParsedDocument, string[]>();
+
+/**
+ * Lists the hardcoded secrets in a document, ordered by position. Provider
+ * patterns also match inside comments; the entropy check only applies to
+ * string literals.
+ */
+export function findSecrets(doc: ParsedDocument): SecretFinding[] {
+  let secrets = cache.get(doc);
+  if (!secrets) {
+    secrets = scan(doc);
+    cache.set(doc, secrets);
+  }
+  return secrets;
+}
+
+/**
+ * Reports each secret as a `hardcoded-secret` issue showing only the masked value
+ */
+export function findSecretIssues(doc: ParsedDocument): SecurityIssue[] {
+  return findSecrets(doc).map((secret) => ({
+    rule: "hardcoded-secret",
+    cwe: SECURITY_CWES["hardcoded-secret"],
+    severity: RULES["hardcoded-secret"].severity as IssueSeverity,
+    message: `Hardcoded ${secret.type}: ${secret.masked.replace(/\s+/g, "").slice(0, 16)}`,
+    line: secret.line,
+    column: secret.column,
+  }));
+}
+
+/**
+ * Returns the source with every secret value masked. Masks keep the length
+ * and line breaks of the value, so lines and columns stay valid.
+ */
+export function maskSecrets(doc: ParsedDocument): string {
+  let masked = "";
+  let position = 0;
+  for (const secret of findSecrets(doc)) {
+    masked += doc.source.slice(position, secret.start) + secret.masked;
+    position = secret.end;
+  }
+  return masked + doc.source.slice(position);
+}
+
+/**
+ * Source lines with every secret value masked, cached per document
+ */
+export function maskedLines(doc: ParsedDocument): string[] {
+  let lines = maskedCache.get(doc);
+  if (!lines) {
+    lines = findSecrets(doc).length > 0 ? maskSecrets(doc).split("\n") : doc.lines;
+    maskedCache.set(doc, lines);
+  }
+  return lines;
+}
+
+/**
+ * Masks a value, keeping its first four characters when it is long enough
+ * to stay unguessable
+ */
+export function maskValue(value: string): string {
+  const visible = value.length >= 12 ? 4 : 0;
+  return value.slice(0, visible) + value.slice(visible).replace(/[^\r\n]/g, "*");
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function scan(doc: ParsedDocument): SecretFinding[] {
+  const secrets: SecretFinding[] = [];
+  const add = (type: string, start: number, end: number, at = start) => {
+    if (secrets.some((s) => start < s.end && s.start < end)) return;
+    const { line, column } = locate(doc, at);
+    secrets.push({ type, line, column, start, end, masked: maskValue(doc.source.slice(start, end)) });
+  };
+
+  for (const { type, pattern } of PROVIDER_PATTERNS) {
+    for (const match of doc.source.matchAll(pattern)) {
+      const span = match.indices?.groups?.secret;
+      const [start, end] = span ?? [match.index!, match.index! + match[0].length];
+      if (!PLACEHOLDER.test(doc.source.slice(start, end))) add(type, start, end, match.index);
+    }
+  }
+
+  doc.codeTokens.forEach((token, i) => {
+    if (token.kind !== "string" && !(token.kind === "template" && /^`[\s\S]*`$/.test(token.value))) return;
+    const name = assignedName(doc.codeTokens, i);
+    if (!name || !CREDENTIAL_NAME.test(name) || NON_CREDENTIAL_SUFFIX.test(name)) return;
+
+    const open = token.value.search(/["'`]/);
+    const quote = /^("""|'''|"|'|`)/.exec(token.value.slice(open))![1];
+    const start = token.start + open + quote.length;
+    const end = token.end - quote.length;
+    const value = doc.source.slice(start, end);
+    if (
+      value.length >= MIN_SECRET_LENGTH &&
+      !/\s/.test(value) &&
+      !PLACEHOLDER.test(value) &&
+      shannonEntropy(value) >= ENTROPY_THRESHOLD
+    ) {
+      add(`secret in '${name}'`, start, end);
+    }
+  });
+
+  return secrets.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Name a string literal is assigned to: a variable, property, keyword
+ * argument or object/dict key, skipping a type annotation
+ */
+function assignedName(tokens: Token[], index: number): string | undefined {
+  const operator = tokens[index - 1]?.value;
+  if (operator !== "=" && operator !== ":" && operator !== ":=") return undefined;
+
+  let target = tokens[index - 2];
+  if (operator === "=" && target?.kind === "identifier" && tokens[index - 3]?.value === ":") {
+    target = tokens[index - 4];
+  }
+  if (target?.kind === "identifier") return target.value;
+  if (target?.kind === "string" && operator === ":") return target.value.replace(/^[A-Za-z]*["'`]|["'`]$/g, "");
+  return undefined;
+}
+
+function locate(doc: ParsedDocument, offset: number): { line: number; column: number } {
+  const before = doc.source.slice(0, offset);
+  const line = before.split("\n").length;
+  return { line, column: offset - before.lastIndexOf("\n") };
+}
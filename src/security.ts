@@ -0,0 +1,553 @@
+/**
+ * Security detector module
+ * Flags injection and deserialization sinks fed with dynamically built input,
+ * each tagged with the CWE entry it falls under
+ */
+
+import ts from "typescript";
+import { ParsedDocument, parseDocument, Token } from "./parser.js";
+import { getSourceFile } from "./typescript-analyzer.js";
+import { resolveRules, RULES, RuleSet, IssueSeverity } from "./config.js";
+import { applySuppressions, SuppressionSummary } from "./suppressions.js";
+import { findSecretIssues } from "./secrets.js";
+import type { Issue } from "./analyzer.js";
+
+export interface SecurityIssue extends Issue {
+  /** CWE identifier of the weakness, e.g. "CWE-89" */
+  cwe: string;
+  line: number;
+  column: number;
+}
+
+export interface SecurityReport {
+  totalIssues: number;
+  issuesByCwe: Record<string, number>;
+  issues: SecurityIssue[];
+  /** Issues silenced by `intelli-ignore-*` comments, and directives that silenced nothing */
+  suppressions: SuppressionSummary<SecurityIssue>;
+}
+
+/**
+ * CWE entry of every security rule
+ */
+export const SECURITY_CWES: Record<string, string> = {
+  "code-injection": "CWE-95",
+  "dom-xss": "CWE-79",
+  "sql-injection": "CWE-89",
+  "command-injection": "CWE-78",
+  "unsafe-deserialization": "CWE-502",
+  "hardcoded-secret": "CWE-798",
+};
+
+const SECURITY_RULES = Object.keys(SECURITY_CWES);
+
+// Statement shapes that identify a string as SQL rather than prose. A select
+// list is `*`, `?` or comma-separated columns and calls, not a phrase, and a
+// table is followed by a clause, punctuation or the end of the string.
+const SQL_NAME = "[\\w.`\"\\[\\]?]+";
+const SQL_COLUMN = "(?:\\*|\\?|[\\w.]+\\*?(?:\\([^)]*\\))?)(?:\\s+as\\s+\\w+)?";
+const SQL_CLAUSE = "(?:where|join|inner|left|right|cross|group|order|limit|union|having)\\b";
+const SQL_TABLE = `(?:\\s*$|\\s+${SQL_NAME}(?:(?:\\s+(?:as\\s+)?\\w+)?\\s+${SQL_CLAUSE}|\\s*(?:[;),?]|$)))`;
+const SQL_PATTERN = new RegExp(
+  "^\\s*(?:" +
+    `select\\s+(?:distinct\\s+)?${SQL_COLUMN}(?:\\s*,\\s*${SQL_COLUMN})*\\s+from${SQL_TABLE}|` +
+    `insert\\s+into\\s+${SQL_NAME}\\s*(?:\\(|values\\b|select\\b|$)|` +
+    `update\\s+${SQL_NAME}\\s+set(?:\\s*$|\\s+[\\w.?]+\\s*=)|` +
+    `delete\\s+from${SQL_TABLE}|` +
+    "(?:create|drop|alter|truncate)\\s+table\\b|merge\\s+into\\b)",
+  "i"
+);
+
+/**
+ * Runs the security detectors and the secrets scanner over a file, honouring
+ * the configured rules and inline suppressions
+ */
+export function detectSecurityIssues(
+  code: string,
+  language: string,
+  doc: ParsedDocument = parseDocument(code, language),
+  rules: RuleSet = resolveRules({}, undefined, doc.language)
+): SecurityReport {
+  const configured = [...findSecurityIssues(doc), ...findSecretIssues(doc)]
+    .filter((issue) => rules[issue.rule]?.enabled ?? true)
+    .map((issue) => ({ ...issue, severity: (rules[issue.rule]?.severity ?? issue.severity) as IssueSeverity }))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+  const { kept: issues, suppressions } = applySuppressions(configured, doc, SECURITY_RULES, (issue) => issue);
+
+  const issuesByCwe: Record<string, number> = {};
+  issues.forEach((issue) => {
+    issuesByCwe[issue.cwe] = (issuesByCwe[issue.cwe] || 0) + 1;
+  });
+
+  return { totalIssues: issues.length, issuesByCwe, issues, suppressions };
+}
+
+/**
+ * Lists every security issue in a document with its default severity,
+ * ordered by position
+ */
+export function findSecurityIssues(doc: ParsedDocument): SecurityIssue[] {
+  const issues = doc.profile.security?.(doc) ?? [];
+
+  // Several checks can fire on one sink; keep the first per rule and position
+  const seen = new Set<string>();
+  return issues
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+    .filter((issue) => {
+      const key = `${issue.rule}:${issue.line}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function securityIssue(rule: string, message: string, line: number, column: number): SecurityIssue {
+  return { rule, cwe: SECURITY_CWES[rule], severity: RULES[rule].severity as IssueSeverity, message, line, column };
+}
+
+// ---------------------------------------------------------------------------
+// JavaScript and TypeScript
+
+const CHILD_PROCESS_MODULES = new Set(["child_process", "node:child_process"]);
+const SHELL_FUNCTIONS = new Set(["exec", "execSync"]);
+
+export function findTypeScriptIssues(doc: ParsedDocument): SecurityIssue[] {
+  const sourceFile = getSourceFile(doc);
+  const issues: SecurityIssue[] = [];
+  const { modules, functions } = childProcessBindings(sourceFile);
+
+  const report = (rule: string, node: ts.Node, message: string) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    issues.push(securityIssue(rule, message, line + 1, character + 1));
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      const callee = node.expression;
+      const args = node.arguments ?? ts.factory.createNodeArray();
+      const name = calleeName(callee);
+
+      if (name === "eval" && isGlobalReference(callee) && args.length > 0 && !isLiteral(args[0])) {
+        report("code-injection", node, "eval() executes a string as code");
+      } else if (name === "Function" && isGlobalReference(callee) && args.length > 0) {
+        const prefix = ts.isNewExpression(node) ? "new " : "";
+        report("code-injection", node, `${prefix}Function() compiles a string as code`);
+      } else if (
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === "document" &&
+        (name === "write" || name === "writeln")
+      ) {
+        report("dom-xss", node, `document.${name}() writes unescaped HTML into the page`);
+      } else if (name === "insertAdjacentHTML" && args.length > 1 && !isLiteral(args[1])) {
+        report("dom-xss", node, "insertAdjacentHTML() inserts markup built from dynamic values");
+      } else if (
+        name &&
+        SHELL_FUNCTIONS.has(name) &&
+        args.length > 0 &&
+        isDynamicString(args[0]) &&
+        (ts.isIdentifier(callee)
+          ? functions.has(callee.text)
+          : ts.isPropertyAccessExpression(callee) && isChildProcessModule(callee.expression, modules))
+      ) {
+        report("command-injection", node, `child_process.${name}() runs a shell command built from dynamic values`);
+      }
+    } else if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.EqualsToken ||
+        node.operatorToken.kind === ts.SyntaxKind.PlusEqualsToken) &&
+      ts.isPropertyAccessExpression(node.left) &&
+      (node.left.name.text === "innerHTML" || node.left.name.text === "outerHTML") &&
+      !isLiteral(node.right)
+    ) {
+      report("dom-xss", node, `Assigning to ${node.left.name.text} renders unescaped HTML`);
+    }
+
+    if (isDynamicString(node) && !isConcatenationOperand(node) && SQL_PATTERN.test(staticText(node))) {
+      report("sql-injection", node, "SQL statement built from dynamic values; use a parameterized query");
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return issues;
+}
+
+/**
+ * Collects the local names bound to the child_process module and to its
+ * shell-running functions, from imports and require() calls
+ */
+function childProcessBindings(sourceFile: ts.SourceFile): { modules: Set<string>; functions: Set<string> } {
+  const modules = new Set<string>();
+  const functions = new Set<string>();
+
+  const bindNamed = (imported: string, local: string) => {
+    if (SHELL_FUNCTIONS.has(imported)) functions.add(local);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier) &&
+      CHILD_PROCESS_MODULES.has(node.moduleSpecifier.text) &&
+      node.importClause
+    ) {
+      const { name, namedBindings } = node.importClause;
+      if (name) modules.add(name.text);
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) modules.add(namedBindings.name.text);
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach((e) => bindNamed((e.propertyName ?? e.name).text, e.name.text));
+      }
+    } else if (ts.isVariableDeclaration(node) && node.initializer && isRequireOfChildProcess(node.initializer)) {
+      if (ts.isIdentifier(node.name)) {
+        modules.add(node.name.text);
+      } else if (ts.isObjectBindingPattern(node.name)) {
+        node.name.elements.forEach((e) => {
+          const imported = e.propertyName ?? e.name;
+          if (ts.isIdentifier(e.name) && ts.isIdentifier(imported)) bindNamed(imported.text, e.name.text);
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { modules, functions };
+}
+
+function isRequireOfChildProcess(node: ts.Node): boolean {
+  return (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteral(node.arguments[0]) &&
+    CHILD_PROCESS_MODULES.has(node.arguments[0].text)
+  );
+}
+
+function isChildProcessModule(node: ts.Expression, modules: Set<string>): boolean {
+  return (ts.isIdentifier(node) && modules.has(node.text)) || isRequireOfChildProcess(node);
+}
+
+function calleeName(callee: ts.Expression): string | undefined {
+  if (ts.isIdentifier(callee)) return callee.text;
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text;
+  return undefined;
+}
+
+/**
+ * True for `eval`/`Function` themselves and for them read off the global
+ * object (`window.eval`, `globalThis.Function`)
+ */
+function isGlobalReference(callee: ts.Expression): boolean {
+  if (ts.isIdentifier(callee)) return true;
+  return (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    ["window", "globalThis", "self", "global"].includes(callee.expression.text)
+  );
+}
+
+function isStringLike(node: ts.Expression): node is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral {
+  return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node);
+}
+
+function isLiteral(node: ts.Expression): boolean {
+  if (ts.isParenthesizedExpression(node)) return isLiteral(node.expression);
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return isLiteral(node.left) && isLiteral(node.right);
+  }
+  return isStringLike(node) || ts.isNumericLiteral(node);
+}
+
+/**
+ * True for template literals with substitutions and for `+` chains that mix
+ * string literals with other values
+ */
+function isDynamicString(node: ts.Node): boolean {
+  if (ts.isTemplateExpression(node)) return true;
+  if (!ts.isBinaryExpression(node) || node.operatorToken.kind !== ts.SyntaxKind.PlusToken) return false;
+  const operands = concatenationOperands(node);
+  return (
+    operands.some((o) => isStringLike(o) || ts.isTemplateExpression(o)) && operands.some((o) => !isLiteral(o))
+  );
+}
+
+function concatenationOperands(node: ts.Expression): ts.Expression[] {
+  if (ts.isParenthesizedExpression(node)) return concatenationOperands(node.expression);
+  if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+    return [...concatenationOperands(node.left), ...concatenationOperands(node.right)];
+  }
+  return [node];
+}
+
+/** Inner pieces of a `+` chain are reported through the whole chain */
+function isConcatenationOperand(node: ts.Node): boolean {
+  let parent = node.parent;
+  while (parent && ts.isParenthesizedExpression(parent)) parent = parent.parent;
+  return !!parent && ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.PlusToken;
+}
+
+/**
+ * Text of a dynamic string with every non-literal part replaced by `?`
+ */
+function staticText(node: ts.Node): string {
+  if (ts.isTemplateExpression(node)) {
+    return node.head.text + node.templateSpans.map((span) => `?${span.literal.text}`).join("");
+  }
+  return concatenationOperands(node as ts.Expression)
+    .map((o) => (isStringLike(o) ? o.text : ts.isTemplateExpression(o) ? staticText(o) : "?"))
+    .join("");
+}
+
+// ---------------------------------------------------------------------------
+// Python and Java, over tokens
+
+/** Ways a language builds strings besides concatenation, f-strings and `.format()` */
+interface StringFormatting {
+  /** `"..." % args` */
+  percent: boolean;
+  /** `String.format("...", args)` */
+  formatFunction: boolean;
+}
+
+const PYTHON_FORMATTING: StringFormatting = { percent: true, formatFunction: false };
+const JAVA_FORMATTING: StringFormatting = { percent: false, formatFunction: true };
+
+const SUBPROCESS_FUNCTIONS = new Set(["call", "run", "Popen", "check_call", "check_output"]);
+const SAFE_YAML_LOADERS = /^(?:CSafeLoader|SafeLoader|BaseLoader)$/;
+
+export function findPythonIssues(doc: ParsedDocument): SecurityIssue[] {
+  const tokens = doc.codeTokens;
+  const issues: SecurityIssue[] = [];
+  const subprocessImports = importedNames(tokens, "subprocess");
+
+  tokens.forEach((token, i) => {
+    if (token.kind === "string") {
+      if (isSqlText(token) && isDynamicTextAt(tokens, i, PYTHON_FORMATTING)) {
+        issues.push(sqlIssue(token));
+      }
+      return;
+    }
+    if (token.kind !== "identifier" || tokens[i + 1]?.value !== "(") return;
+
+    const qualifier = qualifierOf(tokens, i);
+    const previous = tokens[i - 1]?.value;
+    const args = callArguments(tokens, i + 1);
+    const at = qualifier !== undefined ? tokens[i - 2] : token;
+    const report = (rule: string, message: string) => issues.push(securityIssue(rule, message, at.line, at.column));
+
+    if ((token.value === "eval" || token.value === "exec") && qualifier === undefined && previous !== "def") {
+      if (args.length > 0 && !isConstant(args[0])) {
+        report("code-injection", `${token.value}() executes a string as code`);
+      }
+    } else if ((qualifier === "pickle" || qualifier === "cPickle") && /^loads?$/.test(token.value)) {
+      report("unsafe-deserialization", `${qualifier}.${token.value}() can run arbitrary code from untrusted data`);
+    } else if (qualifier === "yaml" && token.value === "unsafe_load") {
+      report("unsafe-deserialization", "yaml.unsafe_load() can construct arbitrary Python objects");
+    } else if (qualifier === "yaml" && token.value === "load" && !hasSafeYamlLoader(args)) {
+      report("unsafe-deserialization", "yaml.load() without SafeLoader can construct arbitrary Python objects");
+    } else if (
+      SUBPROCESS_FUNCTIONS.has(token.value) &&
+      (qualifier === "subprocess" || (qualifier === undefined && subprocessImports.has(token.value))) &&
+      args.some((arg) => arg[0]?.value === "shell" && arg[1]?.value === "=" && arg[2]?.value === "True")
+    ) {
+      report("command-injection", `subprocess.${token.value}() with shell=True runs its command through the shell`);
+    } else if (qualifier === "os" && (token.value === "system" || token.value === "popen")) {
+      if (args.length > 0 && isDynamicArgument(args[0], PYTHON_FORMATTING)) {
+        report("command-injection", `os.${token.value}() runs a shell command built from dynamic values`);
+      }
+    }
+  });
+
+  return issues;
+}
+
+const STATEMENT_METHODS = new Set(["executeQuery", "executeUpdate", "executeLargeUpdate", "addBatch"]);
+
+export function findJavaIssues(doc: ParsedDocument): SecurityIssue[] {
+  const tokens = doc.codeTokens;
+  const issues: SecurityIssue[] = [];
+
+  tokens.forEach((token, i) => {
+    if (token.kind === "string") {
+      if (isSqlText(token) && isDynamicTextAt(tokens, i, JAVA_FORMATTING)) {
+        issues.push(sqlIssue(token));
+      }
+      return;
+    }
+    if (token.kind !== "identifier" || tokens[i + 1]?.value !== "(" || tokens[i - 1]?.value !== ".") return;
+
+    const args = callArguments(tokens, i + 1);
+    if (args.length === 0) return;
+
+    if (token.value === "exec" && isRuntimeReceiver(tokens, i - 1)) {
+      if (!isConstant(args[0]) && !isConstantArray(args[0])) {
+        issues.push(
+          securityIssue(
+            "command-injection",
+            "Runtime.exec() runs a command built from dynamic values",
+            token.line,
+            token.column
+          )
+        );
+      }
+    } else if (
+      (STATEMENT_METHODS.has(token.value) && !isConstant(args[0])) ||
+      (token.value === "execute" && isDynamicArgument(args[0], JAVA_FORMATTING))
+    ) {
+      issues.push(
+        securityIssue(
+          "sql-injection",
+          `Statement.${token.value}() runs SQL built at runtime; use a PreparedStatement with parameters`,
+          token.line,
+          token.column
+        )
+      );
+    }
+  });
+
+  return issues;
+}
+
+function sqlIssue(token: Token): SecurityIssue {
+  return securityIssue(
+    "sql-injection",
+    "SQL statement built from dynamic values; use a parameterized query",
+    token.line,
+    token.column
+  );
+}
+
+/**
+ * Returns `x` for a call written `x.name(`, or undefined for a bare call
+ */
+function qualifierOf(tokens: Token[], index: number): string | undefined {
+  return tokens[index - 1]?.value === "." && tokens[index - 2]?.kind === "identifier"
+    ? tokens[index - 2].value
+    : undefined;
+}
+
+/** Matches `Runtime.getRuntime().exec` and `runtime.exec` on a Runtime variable */
+function isRuntimeReceiver(tokens: Token[], dotIndex: number): boolean {
+  const receiver = tokens[dotIndex - 1];
+  if (receiver?.value === ")" && tokens[dotIndex - 2]?.value === "(") {
+    return tokens[dotIndex - 3]?.value === "getRuntime";
+  }
+  return receiver?.kind === "identifier" && /^runtime$/i.test(receiver.value);
+}
+
+/**
+ * Names brought in by `from <module> import a, b as c`
+ */
+function importedNames(tokens: Token[], module: string): Set<string> {
+  const names = new Set<string>();
+  tokens.forEach((token, i) => {
+    if (token.value !== "from" || tokens[i + 1]?.value !== module || tokens[i + 2]?.value !== "import") return;
+    for (let j = i + 3; j < tokens.length && tokens[j].line === token.line; j++) {
+      if (tokens[j].kind === "identifier" && tokens[j + 1]?.value !== "as") names.add(tokens[j].value);
+    }
+  });
+  return names;
+}
+
+/**
+ * Splits the arguments of the call whose `(` is at `openIndex`
+ */
+function callArguments(tokens: Token[], openIndex: number): Token[][] {
+  const args: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  for (let i = openIndex; i < tokens.length; i++) {
+    const value = tokens[i].value;
+    if (tokens[i].kind === "punctuator" && "([{".includes(value)) {
+      if (depth++ === 0) continue;
+    } else if (tokens[i].kind === "punctuator" && ")]}".includes(value)) {
+      if (--depth === 0) break;
+    } else if (depth === 1 && value === ",") {
+      args.push(current);
+      current = [];
+      continue;
+    }
+    current.push(tokens[i]);
+  }
+  if (current.length > 0) args.push(current);
+  return args;
+}
+
+function hasSafeYamlLoader(args: Token[][]): boolean {
+  const loader = args.length > 1 ? args.find((arg) => arg[0]?.value === "Loader") ?? args[1] : undefined;
+  return !!loader && loader.some((token) => SAFE_YAML_LOADERS.test(token.value));
+}
+
+function stringContent(token: Token): string {
+  return token.value.replace(/^[A-Za-z]*("""|'''|"|')/, "").replace(/("""|'''|"|')$/, "");
+}
+
+function isSqlText(token: Token): boolean {
+  return SQL_PATTERN.test(stringContent(token));
+}
+
+function isInterpolated(token: Token): boolean {
+  return (
+    token.kind === "string" && /^[rRbBuU]?[fF]/.test(token.value) && /\{/.test(token.value.replace(/\{\{/g, ""))
+  );
+}
+
+/** A constant is a sequence of literals joined by `+` */
+function isConstant(arg: Token[]): boolean {
+  return (
+    arg.length > 0 &&
+    arg.every((t) => (t.kind === "string" && !isInterpolated(t)) || t.kind === "number" || t.value === "+")
+  );
+}
+
+/** An array creation such as `new String[]{"ls", "-l"}` whose elements are all constants */
+function isConstantArray(arg: Token[]): boolean {
+  const open = arg.findIndex((t) => t.value === "{");
+  if (arg[0]?.value !== "new" || open < 2 || arg[open - 1].value !== "]" || arg[arg.length - 1].value !== "}") {
+    return false;
+  }
+  return callArguments(arg, open).every(isConstant);
+}
+
+/**
+ * True when the string starting at `index` is an f-string with replacement
+ * fields, is %- or .format()-formatted, or is concatenated with a non-literal
+ */
+function isDynamicTextAt(tokens: Token[], index: number, formatting: StringFormatting): boolean {
+  if (isInterpolated(tokens[index])) return true;
+
+  let i = index + 1;
+  // Python joins adjacent string literals
+  while (tokens[i]?.kind === "string") {
+    if (isInterpolated(tokens[i])) return true;
+    i++;
+  }
+  if (formatting.percent && tokens[i]?.value === "%") return true;
+  if (tokens[i]?.value === "." && tokens[i + 1]?.value === "format") return true;
+  if (formatting.formatFunction && tokens[index - 2]?.value === "format" && tokens[index - 1]?.value === "(") {
+    return true;
+  }
+
+  while (tokens[i]?.value === "+") {
+    const operand = tokens[i + 1];
+    if (!operand || (operand.kind !== "string" && operand.kind !== "number")) return true;
+    i += 2;
+  }
+  return false;
+}
+
+/**
+ * True for an argument that builds a string from literals and other values
+ */
+function isDynamicArgument(arg: Token[], formatting: StringFormatting): boolean {
+  if (arg.some(isInterpolated)) return true;
+  const hasString = arg.some((t) => t.kind === "string");
+  if (!hasString) return false;
+  if (arg.some((t, i) => t.value === "." && arg[i + 1]?.value === "format")) return true;
+  if (formatting.percent && arg.some((t) => t.value === "%")) return true;
+  return arg.some((t) => t.value === "+") && arg.some((t) => t.kind === "identifier");
+}
@@ -0,0 +1,104 @@
+/**
+ * Structural model module
+ * Locates function extents using the best model available for each language
+ */
+
+import ts from "typescript";
+import { ParsedDocument } from "./parser.js";
+import { supportsTypeScriptAst, getSourceFile, getFunctionName, isFunctionWithBody } from "./typescript-analyzer.js";
+
+export interface FunctionExtent {
+  name: string;
+  /** 1-based line where the function starts */
+  startLine: number;
+  /** 1-based line where the function body ends */
+  endLine: number;
+  /** Offset in the source where the function starts; whole lines unless the model knows better */
+  start: number;
+  /** Offset in the source just past the function */
+  end: number;
+}
+
+/**
+ * Returns the line range of every function in the document. JavaScript and
+ * TypeScript use the compiler AST, other languages their block tree or
+ * structural model, and the rest fall back to brace matching.
+ */
+export function getFunctionExtents(doc: ParsedDocument): FunctionExtent[] {
+  if (supportsTypeScriptAst(doc.language)) {
+    return getTypeScriptFunctionExtents(doc);
+  }
+
+  const blocks = doc.profile.blocks?.(doc);
+  if (blocks) {
+    return blocks.functions.map((fn) => lineExtent(doc, fn.name ?? "anonymous", fn.headerLine, fn.endLine));
+  }
+
+  if (doc.profile.structure) {
+    return doc.profile.structure(doc).functions.map((fn) => lineExtent(doc, fn.name, fn.startLine, fn.endLine));
+  }
+
+  return getBraceFunctionExtents(doc);
+}
+
+/**
+ * Same functions, names and lines as extractTypeScriptFunctions, with the
+ * exact offsets of each node
+ */
+function getTypeScriptFunctionExtents(doc: ParsedDocument): FunctionExtent[] {
+  const sourceFile = getSourceFile(doc);
+  const extents: FunctionExtent[] = [];
+  const lineOf = (position: number) => sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+  const visit = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) {
+      const start = node.getStart(sourceFile);
+      const end = node.getEnd();
+      const name = getFunctionName(node, sourceFile);
+      extents.push({ name, startLine: lineOf(start), endLine: lineOf(end), start, end });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return extents;
+}
+
+/** An extent covering whole lines, for models that only know line numbers */
+function lineExtent(doc: ParsedDocument, name: string, startLine: number, endLine: number): FunctionExtent {
+  const start = doc.lines.slice(0, startLine - 1).reduce((offset, line) => offset + line.length + 1, 0);
+  const end = start + doc.lines.slice(startLine - 1, endLine).join("\n").length;
+  return { name, startLine, endLine, start, end };
+}
+
+const CONTROL_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "synchronized"]);
+
+function getBraceFunctionExtents(doc: ParsedDocument): FunctionExtent[] {
+  const extents: FunctionExtent[] = [];
+  let current: { name: string; startLine: number } | null = null;
+  let braceCount = 0;
+
+  doc.codeLines.forEach((line, index) => {
+    const match = line.match(/function\s+(\w+)|=>\s*{|(\w+)\s*\([^)]*\)\s*(?:throws\s+[\w.,\s]+)?{/);
+    if (match && !current && !CONTROL_KEYWORDS.has(match[2])) {
+      current = { name: match[1] || match[2] || "anonymous", startLine: index + 1 };
+      braceCount = 0;
+    }
+
+    if (!current) return;
+
+    for (const token of doc.lineTokens[index]) {
+      if (token.value === "{") braceCount++;
+      if (token.value === "}") {
+        braceCount--;
+        if (braceCount === 0) {
+          extents.push(lineExtent(doc, current.name, current.startLine, index + 1));
+          current = null;
+          break;
+        }
+      }
+    }
+  });
+
+  return extents;
+}
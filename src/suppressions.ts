@@ -0,0 +1,166 @@
+/**
+ * Suppressions module
+ * Parses `intelli-ignore-*` comments and separates the findings they silence
+ */
+
+import { ParsedDocument, Token } from "./parser.js";
+import { ruleId, RULES, REFACTORING_RULES } from "./config.js";
+
+export type SuppressionScope = "next-line" | "file";
+
+export interface SuppressionDirective {
+  /** Line of the comment holding the directive */
+  line: number;
+  scope: SuppressionScope;
+  /** Rule ids the directive names; empty for every rule */
+  rules: string[];
+  reason: string;
+  /** Line a next-line directive applies to: the next line containing code */
+  targetLine?: number;
+}
+
+export interface InvalidSuppression {
+  line: number;
+  text: string;
+  problem: string;
+}
+
+export type SuppressedFinding<T> = T & {
+  suppression: { line: number; scope: SuppressionScope; reason: string };
+};
+
+export interface UnusedSuppression extends SuppressionDirective {
+  /** Rule names that match no known rule, usually typos */
+  unknownRules: string[];
+}
+
+export interface SuppressionSummary<T> {
+  suppressed: SuppressedFinding<T>[];
+  /** Directives for this report's rules that silenced nothing */
+  unused: UnusedSuppression[];
+  invalid: InvalidSuppression[];
+}
+
+export interface SuppressionResult<T> {
+  kept: T[];
+  suppressions: SuppressionSummary<T>;
+}
+
+const DIRECTIVE = /^intelli-ignore-(next-line|file)(?=\s|$)(.*)$/s;
+
+
+/**
+ * Returns true when a comment token holds a suppression directive
+ */
+export function isSuppressionComment(comment: Token): boolean {
+  return DIRECTIVE.test(commentText(comment));
+}
+
+/**
+ * Reads every directive of a document. Directives take a comma-separated list
+ * of rule names (ids such as `long-method` or display names such as
+ * `Long Method`) and a reason after `--`:
+ *
+ *   // intelli-ignore-next-line Magic Number -- protocol constant
+ *   # intelli-ignore-file -- generated code
+ */
+export function parseSuppressions(doc: ParsedDocument): {
+  directives: SuppressionDirective[];
+  invalid: InvalidSuppression[];
+} {
+  const directives: SuppressionDirective[] = [];
+  const invalid: InvalidSuppression[] = [];
+
+  for (const comment of doc.comments) {
+    const text = commentText(comment);
+    const match = text.match(DIRECTIVE);
+    if (!match) continue;
+
+    const scope = match[1] as SuppressionScope;
+    const separator = match[2].indexOf("--");
+    const reason = separator === -1 ? "" : match[2].substring(separator + 2).trim();
+    if (!reason) {
+      invalid.push({ line: comment.line, text, problem: "A reason is required after '--'" });
+      continue;
+    }
+
+    const rules = (separator === -1 ? match[2] : match[2].substring(0, separator))
+      .split(",")
+      .map((name) => ruleId(name))
+      .filter(Boolean);
+    if (scope === "next-line" && rules.length === 0) {
+      invalid.push({ line: comment.line, text, problem: "intelli-ignore-next-line must name the rules it suppresses" });
+      continue;
+    }
+
+    const directive: SuppressionDirective = { line: comment.line, scope, rules, reason };
+    if (scope === "next-line") {
+      const target = doc.lineKinds.findIndex((kind, index) => index >= comment.endLine && kind === "code");
+      if (target !== -1) directive.targetLine = target + 1;
+    }
+    directives.push(directive);
+  }
+
+  return { directives, invalid };
+}
+
+/**
+ * Splits findings into the ones a directive silences and the ones that stay.
+ * `domain` lists the rule ids this report can produce; directives naming only
+ * other reports' rules, and file-wide directives naming no rule, are never
+ * reported as unused here.
+ */
+export function applySuppressions<T>(
+  findings: T[],
+  doc: ParsedDocument,
+  domain: string[],
+  locate: (finding: T) => { rule: string; line?: number }
+): SuppressionResult<T> {
+  const { directives, invalid } = parseSuppressions(doc);
+  const used = new Set<SuppressionDirective>();
+  const kept: T[] = [];
+  const suppressed: SuppressedFinding<T>[] = [];
+
+  const covers = (directive: SuppressionDirective, rule: string) =>
+    directive.rules.length === 0 || directive.rules.includes(rule);
+
+  for (const finding of findings) {
+    const { rule, line } = locate(finding);
+    // A next-line directive is more specific than a file-wide one
+    const directive =
+      directives.find(
+        (d) => d.scope === "next-line" && line !== undefined && d.targetLine === line && covers(d, rule)
+      ) ?? directives.find((d) => d.scope === "file" && covers(d, rule));
+
+    if (directive) {
+      used.add(directive);
+      suppressed.push({
+        ...finding,
+        suppression: { line: directive.line, scope: directive.scope, reason: directive.reason },
+      });
+    } else {
+      kept.push(finding);
+    }
+  }
+
+  // Built per call, since plugins add rules after this module loads
+  const known = new Set([...Object.keys(RULES), ...REFACTORING_RULES]);
+  const unused = directives
+    .filter((directive) => !used.has(directive))
+    .map((directive) => ({
+      ...directive,
+      unknownRules: directive.rules.filter((rule) => !known.has(rule)),
+    }))
+    .filter(
+      (directive) => directive.unknownRules.length > 0 || directive.rules.some((rule) => domain.includes(rule))
+    );
+
+  return { kept, suppressions: { suppressed, unused, invalid } };
+}
+
+function commentText(comment: Token): string {
+  return comment.value
+    .replace(/^(\/\/+|#+|\/\*+)/, "")
+    .replace(/\*+\/$/, "")
+    .trim();
+}
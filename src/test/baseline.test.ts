@@ -0,0 +1,139 @@
+/**
+ * Tests for baselines and new-findings-only filtering
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, readFileSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { suggestRefactorings } from "../refactorings.js";
+import { applyBaseline, createBaseline, loadBaseline, writeBaseline } from "../baseline.js";
+import { analyzeDirectory, createDirectoryBaseline } from "../directory.js";
+
+const LEGACY = `function total(items) {
+  let sum = 0;
+  for (const item of items) sum += item.price * 108;
+  console.log(sum);
+  return sum;
+}
+`;
+
+const fixture = mkdtempSync(path.join(tmpdir(), "intelli-code-baseline-"));
+
+after(() => {
+  rmSync(fixture, { recursive: true, force: true });
+});
+
+const sourceOf = (filename: string, code: string) => ({
+  filename,
+  language: "javascript",
+  code,
+  analysis: analyzeCode(code, "javascript", filename),
+  smells: detectCodeSmells(code, "javascript"),
+  refactorings: suggestRefactorings(code, "javascript"),
+});
+
+/**
+ * Test that shifted findings still match and only new ones remain
+ */
+test("Baselined findings survive line shifts and new ones are reported", () => {
+  const baseline = createBaseline([sourceOf("src/cart.js", LEGACY)], "2024-01-01T00:00:00.000Z");
+  assert.strictEqual(baseline.version, 1);
+  assert.ok(baseline.findings.some((f) => f.rule === "magic-number" && f.line === 3));
+  assert.ok(baseline.findings.some((f) => f.rule === "console-log" && f.line === 4));
+
+  const changed = `// Cart helpers\n\n${LEGACY}\nfunction shipping(weight) {\n  return weight * 350;\n}\n`;
+  const result = applyBaseline(sourceOf("./src/cart.js", changed), baseline);
+
+  assert.deepStrictEqual(result.analysis.issues, []);
+  assert.deepStrictEqual(
+    result.smells.smells.map((s) => [s.type, s.location?.line]),
+    [["Magic Number", 11]]
+  );
+  assert.strictEqual(result.smells.totalSmells, 1);
+  assert.strictEqual(result.baseline.matched, baseline.findings.length);
+
+  const elsewhere = applyBaseline(sourceOf("src/other.js", LEGACY), baseline);
+  assert.strictEqual(elsewhere.baseline.matched, 0, "baselines are matched per file");
+  console.log("✓ Baseline matching works correctly");
+});
+
+/**
+ * Test that a copy of a baselined line counts as a new finding
+ */
+test("Duplicated findings are matched one for one", () => {
+  const baseline = createBaseline([sourceOf("a.js", "console.log(1);\n")]);
+  const result = applyBaseline(sourceOf("a.js", "console.log(1);\nconsole.log(1);\n"), baseline);
+
+  assert.deepStrictEqual(
+    result.analysis.issues.filter((i) => i.rule === "console-log").map((i) => i.line),
+    [2]
+  );
+  console.log("✓ Duplicate baseline matching works correctly");
+});
+
+/**
+ * Test loading baselines from objects, JSON text and files
+ */
+test("Baselines load from objects, JSON text and sandboxed files", async () => {
+  const baseline = createBaseline([sourceOf("a.js", LEGACY)]);
+  const file = path.join(fixture, "baseline.json");
+  writeFileSync(file, JSON.stringify(baseline));
+
+  assert.deepStrictEqual(await loadBaseline(baseline), baseline);
+  assert.deepStrictEqual(await loadBaseline(JSON.stringify(baseline)), baseline);
+
+  const previous = process.env.INTELLI_CODE_ALLOWED_ROOTS;
+  process.env.INTELLI_CODE_ALLOWED_ROOTS = fixture;
+  try {
+    assert.deepStrictEqual(await loadBaseline(file), baseline);
+    await assert.rejects(loadBaseline(path.join(tmpdir(), "baseline.json")), /Access denied/);
+
+    // Only new .json files and existing baselines are written
+    await writeBaseline(baseline, file);
+    await writeBaseline(baseline, path.join(fixture, "fresh.json"));
+    assert.deepStrictEqual(JSON.parse(readFileSync(path.join(fixture, "fresh.json"), "utf8")), baseline);
+    const manifest = path.join(fixture, "package.json");
+    writeFileSync(manifest, '{ "name": "app" }');
+    await assert.rejects(writeBaseline(baseline, manifest), /Refusing to overwrite .*package\.json: not a baseline/);
+    assert.strictEqual(readFileSync(manifest, "utf8"), '{ "name": "app" }');
+    await assert.rejects(writeBaseline(baseline, path.join(fixture, "index.js")), /must be a .json file/);
+  } finally {
+    if (previous === undefined) delete process.env.INTELLI_CODE_ALLOWED_ROOTS;
+    else process.env.INTELLI_CODE_ALLOWED_ROOTS = previous;
+  }
+
+  await assert.rejects(loadBaseline("{ not json"), /not valid JSON/);
+  await assert.rejects(loadBaseline({ version: 2, findings: [] }), /version 1/);
+  await assert.rejects(loadBaseline({ version: 1, findings: [{ file: "a.js" }] }), /fingerprint/);
+  console.log("✓ Baseline loading works correctly");
+});
+
+/**
+ * Test baselines of a whole directory
+ */
+test("Directory baselines hide existing findings in analyze_directory", async () => {
+  const root = path.join(fixture, "project");
+  mkdirSync(path.join(root, "src"), { recursive: true });
+  writeFileSync(path.join(root, "src/cart.js"), LEGACY);
+
+  const baseline = await createDirectoryBaseline({ root, allowedRoots: [fixture] });
+  assert.ok(baseline.findings.length > 0);
+  assert.ok(baseline.findings.every((f) => f.file === "src/cart.js"));
+
+  writeFileSync(path.join(root, "src/cart.js"), `${LEGACY}console.log("done");\n`);
+  const result = await analyzeDirectory({ root, allowedRoots: [fixture], baseline });
+  const [file] = result.files;
+
+  assert.deepStrictEqual(
+    file.analysis.issues.map((i) => [i.rule, i.line]),
+    [["console-log", 7]]
+  );
+  assert.strictEqual(result.summary.totalIssues, 1);
+  assert.strictEqual(result.summary.baseline!.matched, file.baseline!.matched);
+  assert.ok(!("code" in file));
+  console.log("✓ Directory baselines work correctly");
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for git-diff-scoped analysis
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, renameSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { analyzeChanges } from "../changes.js";
+import { parseHunks } from "../git.js";
+
+const repo = mkdtempSync(path.join(tmpdir(), "intelli-code-git-"));
+
+after(() => {
+  rmSync(repo, { recursive: true, force: true });
+});
+
+const git = (...args: string[]) =>
+  execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+    cwd: repo,
+    encoding: "utf8",
+  });
+
+const write = (name: string, content: string) => {
+  mkdirSync(path.dirname(path.join(repo, name)), { recursive: true });
+  writeFileSync(path.join(repo, name), content);
+};
+
+const PRICING = `function price(item) {
+  console.log(item);
+  return item.cost;
+}
+
+function discount(item) {
+  return item.cost / 2;
+}
+`;
+
+git("init", "-q", "-b", "main");
+write("src/pricing.js", PRICING);
+write("src/legacy.js", "function old() {\n  return 1;\n}\n");
+write("src/moved.js", "function stay() {\n  return 1;\n}\n");
+write("README.md", "# demo\n");
+git("add", "-A");
+git("commit", "-q", "-m", "initial");
+
+/**
+ * Test hunk header parsing
+ */
+test("Hunk headers are parsed with implicit counts", () => {
+  const diff = [
+    "diff --git a/a.js b/a.js",
+    "@@ -3 +3,2 @@ function a() {",
+    "-  return 1;",
+    "+  const b = 2;",
+    "+  return b;",
+    "@@ -10,2 +10,0 @@",
+  ].join("\n");
+  assert.deepStrictEqual(parseHunks(diff), [
+    { oldStart: 3, oldLines: 1, newStart: 3, newLines: 2 },
+    { oldStart: 10, oldLines: 2, newStart: 10, newLines: 0 },
+  ]);
+  console.log("✓ Hunk parsing works correctly");
+});
+
+/**
+ * Test working-tree changes against a base commit
+ */
+test("Only findings on changed lines are reported with function deltas", async () => {
+  write(
+    "src/pricing.js",
+    PRICING.replace(
+      "  return item.cost / 2;",
+      "  if (item.vip) {\n    console.log(item);\n    return item.cost / 4;\n  }\n  return item.cost / 2;"
+    )
+  );
+  write("src/fresh.js", "function fresh(a) {\n  return a * 3600;\n}\n");
+  rmSync(path.join(repo, "src/legacy.js"));
+
+  const result = await analyzeChanges({ root: repo, base: "main", allowedRoots: [repo] });
+  assert.strictEqual(result.summary.head, "working tree");
+  assert.deepStrictEqual(
+    result.files.map((f) => [f.filename, f.status]),
+    [
+      ["src/fresh.js", "added"],
+      ["src/legacy.js", "deleted"],
+      ["src/pricing.js", "modified"],
+    ]
+  );
+
+  const pricing = result.files.find((f) => f.filename === "src/pricing.js")!;
+  assert.deepStrictEqual(pricing.changedLines, [{ start: 7, end: 10 }]);
+  assert.deepStrictEqual(
+    pricing.issues.map((i) => [i.rule, i.line]),
+    [["console-log", 8]],
+    "the untouched console.log on line 2 is not reported"
+  );
+  assert.deepStrictEqual(
+    pricing.functions.map((fn) => [fn.name, fn.status, fn.delta.cyclomaticComplexity, fn.delta.lines]),
+    [["discount", "modified", 1, 4]]
+  );
+
+  const fresh = result.files.find((f) => f.filename === "src/fresh.js")!;
+  assert.deepStrictEqual(fresh.smells.map((s) => s.type), ["Magic Number"]);
+  assert.deepStrictEqual(fresh.functions.map((fn) => [fn.name, fn.status]), [["fresh", "added"]]);
+
+  const legacy = result.files.find((f) => f.filename === "src/legacy.js")!;
+  assert.deepStrictEqual(legacy.functions.map((fn) => [fn.name, fn.status]), [["old", "removed"]]);
+  assert.strictEqual(result.summary.functionsModified, 1);
+  console.log("✓ Working tree change analysis works correctly");
+});
+
+/**
+ * Test committed changes, renames and invalid refs
+ */
+test("Commits are compared with renames followed", async () => {
+  renameSync(path.join(repo, "src/moved.js"), path.join(repo, "src/renamed.js"));
+  git("add", "-A");
+  git("commit", "-q", "-m", "changes");
+
+  const result = await analyzeChanges({ root: repo, base: "HEAD~1", head: "HEAD", allowedRoots: [repo] });
+  const renamed = result.files.find((f) => f.filename === "src/renamed.js")!;
+  assert.strictEqual(renamed.status, "renamed");
+  assert.strictEqual(renamed.previousFilename, "src/moved.js");
+  assert.deepStrictEqual(renamed.functions, []);
+  assert.strictEqual(result.summary.filesAnalyzed, 4);
+
+  const scoped = await analyzeChanges({
+    root: path.join(repo, "src"),
+    base: "HEAD~1",
+    head: "HEAD",
+    allowedRoots: [repo],
+  });
+  assert.ok(scoped.files.some((f) => f.filename === "pricing.js"), "paths are relative to the root");
+
+  await assert.rejects(analyzeChanges({ root: repo, base: "no-such-ref", allowedRoots: [repo] }), /Unknown git ref/);
+  await assert.rejects(analyzeChanges({ root: repo, base: "--output=x", allowedRoots: [repo] }), /Invalid git ref/);
+  console.log("✓ Commit range change analysis works correctly");
+});
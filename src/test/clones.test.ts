@@ -0,0 +1,112 @@
+/**
+ * Tests for token-based clone detection
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { detectClones } from "../clones.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { resolveRules } from "../config.js";
+import { parseDocument } from "../parser.js";
+
+const total = (name: string, field: string) =>
+  [
+    `function ${name}(items) {`,
+    "  let total = 0;",
+    "  for (const item of items) {",
+    `    if (item.${field} > 10) {`,
+    `      total += item.${field} * 2;`,
+    "    }",
+    "  }",
+    "  return total;",
+    "}",
+  ].join("\n");
+
+/**
+ * Test renamed copies across files form one Type-2 class
+ */
+test("Renamed copies within and across files are grouped into one clone class", () => {
+  const report = detectClones(
+    [
+      {
+        filename: "a.js",
+        code: `${total("sumPrice", "price")}\n\nconsole.log("x");\n\n${total("sumTax", "tax")}`,
+        language: "javascript",
+      },
+      { filename: "b.js", code: `const limit = 1;\n${total("sumWeight", "weight")}`, language: "javascript" },
+    ],
+    { minTokens: 20 }
+  );
+
+  assert.strictEqual(report.cloneClasses.length, 1);
+  assert.deepStrictEqual(report.cloneClasses[0], {
+    type: "type-2",
+    tokens: 42,
+    lines: 9,
+    locations: [
+      { filename: "a.js", startLine: 1, endLine: 9 },
+      { filename: "a.js", startLine: 13, endLine: 21 },
+      { filename: "b.js", startLine: 2, endLine: 10 },
+    ],
+  });
+  assert.deepStrictEqual(
+    report.files.map((f) => [f.filename, f.totalLines, f.duplicatedLines, f.duplicatedPercentage]),
+    [
+      ["a.js", 19, 18, 94.74],
+      ["b.js", 10, 9, 90],
+    ]
+  );
+  assert.strictEqual(report.duplicatedPercentage, 93.1);
+
+  // Below the minimum length nothing is reported
+  const code = `${total("f", "x")}\n${total("g", "y")}`;
+  const short = detectClones([{ filename: "a.js", code, language: "javascript" }]);
+  assert.strictEqual(short.cloneClasses.length, 0);
+
+  // Each file's own minimum decides whether its copy counts
+  const perFile = detectClones([
+    { filename: "a.js", code: total("sumPrice", "price"), language: "javascript", minTokens: 20 },
+    { filename: "b.js", code: total("sumTax", "tax"), language: "javascript", minTokens: 20 },
+    { filename: "c.js", code: total("sumWeight", "weight"), language: "javascript" },
+  ]);
+  assert.deepStrictEqual(
+    perFile.cloneClasses.map((c) => c.locations.map((l) => l.filename)),
+    [["a.js", "b.js"]]
+  );
+  assert.strictEqual(perFile.minTokens, 50);
+  console.log("✓ Cross-file clone detection works correctly");
+});
+
+/**
+ * Test identical copies, Python and repetitive code
+ */
+test("Identical copies are Type-1 and periodic code yields a single class", () => {
+  const python = "def f(a):\n    x = a + 1\n    y = x * 2\n    return y\n\n".repeat(2);
+  const identical = detectClones([{ filename: "p.py", code: python, language: "python" }], { minTokens: 10 });
+  assert.deepStrictEqual(
+    identical.cloneClasses.map((c) => [c.type, c.locations.map((l) => l.startLine)]),
+    [["type-1", [1, 6]]]
+  );
+
+  const periodic = Array.from({ length: 200 }, (_, i) => `const v${i} = compute(${i}, "x${i}");`).join("\n");
+  const report = detectClones([{ filename: "big.js", code: periodic, language: "javascript" }]);
+  assert.strictEqual(report.cloneClasses.length, 1);
+  assert.strictEqual(report.duplicatedPercentage, 100);
+  console.log("✓ Clone classes work correctly");
+});
+
+/**
+ * Test the duplicate-code smell uses the configured minimum length
+ */
+test("Duplicate code smells report each clone class with its locations", () => {
+  const code = `${total("sumPrice", "price")}\n\n${total("sumTax", "tax")}`;
+  const doc = parseDocument(code, "javascript");
+  const smells = (rules = resolveRules()) =>
+    detectCodeSmells(code, "javascript", doc, rules).smells.filter((smell) => smell.type === "Duplicate Code");
+
+  assert.strictEqual(smells().length, 0);
+  const [smell] = smells(resolveRules({ rules: { "duplicate-code": { threshold: 20 } } }));
+  assert.strictEqual(smell.location?.line, 1);
+  assert.strictEqual(smell.description, "Similar block of 9 lines (42 tokens) appears 2 times: lines 1-9, 11-19");
+  console.log("✓ Duplicate code smell works correctly");
+});
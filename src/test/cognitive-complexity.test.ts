@@ -0,0 +1,216 @@
+/**
+ * Conformance tests for cognitive complexity, using the examples from the
+ * SonarSource specification
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { parseDocument } from "../parser.js";
+import { calculateCognitiveComplexity } from "../cognitive-complexity.js";
+import { analyzeComplexity } from "../complexity.js";
+
+interface ConformanceCase {
+  name: string;
+  language: string;
+  code: string;
+  /** Expected score per function, by name */
+  expected: Record<string, number>;
+}
+
+const CORPUS: ConformanceCase[] = [
+  {
+    name: "labeled continue in nested loops",
+    language: "java",
+    code: `
+int sumOfPrimes(int max) {
+  int total = 0;
+  OUT: for (int i = 1; i <= max; ++i) {
+    for (int j = 2; j < i; ++j) {
+      if (i % j == 0) {
+        continue OUT;
+      }
+    }
+    total += i;
+  }
+  return total;
+}`,
+    expected: { sumOfPrimes: 7 },
+  },
+  {
+    name: "switch counts once",
+    language: "java",
+    code: `
+String getWords(int number) {
+  switch (number) {
+    case 1:
+      return "one";
+    case 2:
+      return "a couple";
+    default:
+      return "lots";
+  }
+}`,
+    expected: { getWords: 1 },
+  },
+  {
+    name: "try does not nest but catch does",
+    language: "java",
+    code: `
+void myMethod() {
+  try {
+    if (condition1) {
+      for (int i = 0; i < 10; i++) {
+        while (condition2) { step(); }
+      }
+    }
+  } catch (ExcepType1 | ExcepType2 e) {
+    if (condition2) { recover(); }
+  }
+}`,
+    expected: { myMethod: 9 },
+  },
+  {
+    name: "specification example overriddenSymbolFrom",
+    language: "java",
+    code: `
+@Nullable
+private MethodJavaSymbol overriddenSymbolFrom(ClassJavaType classType) {
+  if (classType.isUnknown()) {
+    return Symbols.unknownMethodSymbol;
+  }
+  boolean unknownFound = false;
+  List<JavaSymbol> symbols = classType.getSymbol().members().lookup(name);
+  for (JavaSymbol overrideSymbol : symbols) {
+    if (overrideSymbol.isKind(JavaSymbol.MTH)
+        && !overrideSymbol.isStatic()) {
+      MethodJavaSymbol methodJavaSymbol = (MethodJavaSymbol) overrideSymbol;
+      if (canOverride(methodJavaSymbol)) {
+        Boolean overriding = checkOverridingParameters(methodJavaSymbol, classType);
+        if (overriding == null) {
+          if (!unknownFound) {
+            unknownFound = true;
+          }
+        } else if (overriding) {
+          return methodJavaSymbol;
+        }
+      }
+    }
+  }
+  if (unknownFound) {
+    return Symbols.unknownMethodSymbol;
+  }
+  return null;
+}`,
+    expected: { overriddenSymbolFrom: 19 },
+  },
+  {
+    name: "boolean operator sequences",
+    language: "javascript",
+    code: `
+function mixed(a, b, c, d, e, f) {
+  if (a && b && c || d || e && f) {
+    return 1;
+  }
+  return a && !(b && c);
+}`,
+    expected: { mixed: 6 },
+  },
+  {
+    name: "else if and else are hybrid increments",
+    language: "typescript",
+    code: `
+function grade(score: number): string {
+  if (score > 90) {
+    return "A";
+  } else if (score > 80) {
+    return "B";
+  } else {
+    return score > 50 ? "C" : "F";
+  }
+}`,
+    expected: { grade: 5 },
+  },
+  {
+    name: "nested functions add nesting without an increment",
+    language: "javascript",
+    code: `
+function outer(items) {
+  const check = (x) => {
+    if (x) {
+      return true;
+    }
+  };
+  return items.filter(check);
+}`,
+    expected: { outer: 2, check: 1 },
+  },
+  {
+    name: "recursion and labeled break",
+    language: "javascript",
+    code: `
+function factorial(n) {
+  if (n <= 1) return 1;
+  return n * factorial(n - 1);
+}
+
+function search(grid) {
+  outer: for (const row of grid) {
+    for (const cell of row) {
+      if (cell) break outer;
+    }
+  }
+}`,
+    expected: { factorial: 2, search: 7 },
+  },
+  {
+    name: "Python blocks, conditional expressions and comprehensions",
+    language: "python",
+    code: `
+def classify(a, b):
+    if a:
+        for x in b:
+            if x and a or b:
+                pass
+    elif b:
+        pass
+    else:
+        pass
+    evens = [x for x in b if x % 2 == 0]
+    return 1 if a else 2
+
+def walk(node):
+    try:
+        return walk(node.next)
+    except ValueError:
+        return None
+`,
+    expected: { classify: 11, walk: 2 },
+  },
+];
+
+test("Cognitive complexity matches the specification corpus", () => {
+  for (const entry of CORPUS) {
+    const report = calculateCognitiveComplexity(parseDocument(entry.code, entry.language));
+    const actual = Object.fromEntries(report.functions.map((f) => [f.name, f.complexity]));
+    assert.deepStrictEqual(actual, entry.expected, entry.name);
+  }
+  console.log("✓ Cognitive complexity conformance corpus passes");
+});
+
+test("Cognitive increments explain each point with line and reason", () => {
+  const result = analyzeComplexity(CORPUS[0].code, "java");
+  const fn = result.functions[0];
+
+  assert.deepStrictEqual(
+    fn.cognitiveIncrements.map((i) => [i.line, i.increment, i.reason]),
+    [
+      [4, 1, "for"],
+      [5, 2, "for"],
+      [6, 3, "if"],
+      [7, 1, "continue to label"],
+    ]
+  );
+  assert.strictEqual(fn.cognitiveComplexity, 7);
+  assert.strictEqual(result.cognitiveComplexity, 7);
+  console.log("✓ Cognitive increments are explained correctly");
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for per-function complexity analysis
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { analyzeComplexity } from "../complexity.js";
+
+const SAMPLE = `
+function simple(a) {
+  return a + 1;
+}
+
+function tangled(a, b, c) {
+  if (a) {
+    for (const x of b) {
+      if (x && c) {
+        while (c--) {
+          if (x > c || a) {
+            return x;
+          }
+        }
+      }
+    }
+  }
+  return 0;
+}
+
+function alsoSimple() {
+  return 2;
+}
+`;
+
+test("Per-function complexity breakdown with line ranges", () => {
+  const result = analyzeComplexity(SAMPLE, "javascript");
+
+  assert.deepStrictEqual(
+    result.functions.map((f) => [f.name, f.startLine, f.endLine]),
+    [
+      ["simple", 2, 4],
+      ["tangled", 6, 19],
+      ["alsoSimple", 21, 23],
+    ]
+  );
+
+  const tangled = result.functions[1];
+  assert.strictEqual(tangled.cyclomaticComplexity, 8);
+  assert.strictEqual(tangled.nestingDepth, 6);
+  assert.ok(tangled.cognitiveComplexity > result.functions[0].cognitiveComplexity);
+  assert.ok(tangled.maintainabilityIndex >= 0 && tangled.maintainabilityIndex <= 100);
+  assert.ok(tangled.halsteadMetrics.length > result.functions[0].halsteadMetrics.length);
+  console.log("✓ Per-function complexity works correctly");
+});
+
+test("File-level aggregates and named recommendations", () => {
+  const result = analyzeComplexity(SAMPLE, "javascript");
+
+  assert.strictEqual(result.aggregates.functionCount, 3);
+  assert.deepStrictEqual(result.aggregates.cyclomaticComplexity, { max: 8, mean: 3.33, p90: 8 });
+  assert.strictEqual(result.aggregates.nestingDepth.max, 6);
+
+  assert.ok(
+    result.recommendations.some((r) => r.startsWith("Deep nesting detected (>4 levels) in tangled (line 6: 6)")),
+    "Recommendations should name the offending function"
+  );
+  assert.ok(!result.recommendations.some((r) => r.includes("simple")));
+  assert.ok(result.summary.includes("tangled (line 6"));
+  console.log("✓ Complexity aggregates work correctly");
+});
+
+test("Code without functions keeps file-level recommendations", () => {
+  const result = analyzeComplexity("const x = 1;", "javascript");
+
+  assert.deepStrictEqual(result.functions, []);
+  assert.deepStrictEqual(result.aggregates.cyclomaticComplexity, { max: 0, mean: 0, p90: 0 });
+  assert.deepStrictEqual(result.recommendations, [
+    "Code complexity is within acceptable ranges. Good job!",
+  ]);
+  console.log("✓ Function-free complexity works correctly");
+});
+
+test("Functions sharing a line are measured separately", () => {
+  const code = "function flat(a) { return a; } function deep(a, b) { if (a) { if (b) { return a * b + 1; } } return 0; }\n";
+  const [flat, deep] = analyzeComplexity(code, "javascript").functions;
+
+  assert.deepStrictEqual([flat.name, flat.startLine, deep.name, deep.startLine], ["flat", 1, "deep", 1]);
+  assert.deepStrictEqual([flat.nestingDepth, deep.nestingDepth], [1, 3]);
+  assert.deepStrictEqual([flat.halsteadMetrics.length, deep.halsteadMetrics.length], [5, 16]);
+  console.log("✓ Same-line function metrics work correctly");
+});
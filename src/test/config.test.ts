@@ -0,0 +1,142 @@
+/**
+ * Tests for project configuration of rules and thresholds
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  loadEffectiveConfig,
+  loadProjectConfig,
+  mergeConfigs,
+  resolveRules,
+  validateConfig,
+} from "../config.js";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { analyzeDirectory } from "../directory.js";
+
+const LONG_PARAMS = `
+function build(a, b, c, d, e, f) {
+  console.log(a);
+  return a + b + c + d + e + f;
+}
+`;
+
+/**
+ * Test defaults, thresholds, toggles and severities
+ */
+test("Rules can be disabled, re-thresholded and re-graded", () => {
+  const defaults = resolveRules();
+  assert.deepStrictEqual(defaults["long-method"], { enabled: true, severity: "high", threshold: 50 });
+  assert.strictEqual(defaults["long-line"].threshold, 120);
+
+  assert.ok(detectCodeSmells(LONG_PARAMS, "javascript").smells.some((s) => s.type === "Long Parameter List"));
+
+  const relaxed = resolveRules({ rules: { "long-parameter-list": { threshold: 6 } } });
+  assert.ok(!detectCodeSmells(LONG_PARAMS, "javascript", undefined, relaxed).smells.some((s) => s.type === "Long Parameter List"));
+
+  const strict = resolveRules({ rules: { "long-method": { threshold: 2, severity: "low" } } });
+  const longMethod = detectCodeSmells(LONG_PARAMS, "javascript", undefined, strict).smells.find(
+    (s) => s.type === "Long Method"
+  )!;
+  assert.strictEqual(longMethod.severity, "low");
+  assert.strictEqual(longMethod.description, "Method is 4 lines long (recommended max: 2)");
+
+  const issues = (rules = resolveRules()) => analyzeCode(LONG_PARAMS, "javascript", "a.js", undefined, rules).issues;
+  assert.ok(issues().some((i) => i.rule === "console-log"));
+  assert.ok(!issues(resolveRules({ rules: { "console-log": false } })).some((i) => i.rule === "console-log"));
+  assert.strictEqual(
+    issues(resolveRules({ rules: { "console-log": { severity: "error" } } })).find((i) => i.rule === "console-log")!.severity,
+    "error"
+  );
+  assert.strictEqual(issues(resolveRules({ rules: { "long-line": { threshold: 30 } } }))[0].rule, "long-line");
+  console.log("✓ Rule settings work correctly");
+});
+
+/**
+ * Test per-glob overrides and merging of project and inline configs
+ */
+test("Overrides apply by glob and later configs win", () => {
+  const config = mergeConfigs(
+    {
+      rules: { "magic-number": { severity: "medium" }, "long-method": { threshold: 80 } },
+      overrides: [{ files: ["*.test.ts"], rules: { "magic-number": false } }],
+    },
+    {
+      rules: { "long-method": { severity: "medium" } },
+      overrides: [{ files: ["scripts/**"], rules: { "long-method": false } }],
+    }
+  );
+
+  assert.deepStrictEqual(resolveRules(config, "src/app.ts")["long-method"], {
+    enabled: true,
+    severity: "medium",
+    threshold: 80,
+  });
+  assert.deepStrictEqual(resolveRules(config, "src/app.ts")["magic-number"], { enabled: true, severity: "medium" });
+  assert.strictEqual(resolveRules(config, "src/deep/app.test.ts")["magic-number"].enabled, false);
+  assert.strictEqual(resolveRules(config, "scripts/build.ts")["long-method"].enabled, false);
+  assert.strictEqual(resolveRules(config)["magic-number"].enabled, true, "no filename, no overrides");
+  console.log("✓ Config overrides work correctly");
+});
+
+/**
+ * Test schema validation messages
+ */
+test("Invalid configuration is rejected with every problem listed", () => {
+  assert.doesNotThrow(() => validateConfig({ rules: { "long-line": { threshold: 100, severity: "warning" } } }));
+  assert.throws(
+    () =>
+      validateConfig({
+        rules: { "long-lines": true, "long-method": { severity: "warning" }, "console-log": { threshold: 3 } },
+        extra: 1,
+      }),
+    (error: Error) =>
+      error.message.includes("config must NOT have additional properties 'extra'") &&
+      error.message.includes("'long-lines'") &&
+      error.message.includes("config.rules.long-method.severity must be equal to one of the allowed values (high, medium, low)") &&
+      error.message.includes("'threshold'")
+  );
+  assert.throws(() => validateConfig({ overrides: [{ files: [], rules: {} }] }), /fewer than 1 items/);
+  console.log("✓ Config validation works correctly");
+});
+
+/**
+ * Test .intellicoderc.json discovery, both directly and through analyze_directory
+ */
+test(".intellicoderc.json is loaded from the project root", async () => {
+  const root = mkdtempSync(path.join(tmpdir(), "intelli-code-config-"));
+  try {
+    assert.strictEqual(await loadProjectConfig(root), undefined);
+
+    writeFileSync(
+      path.join(root, ".intellicoderc.json"),
+      JSON.stringify({
+        rules: { "long-parameter-list": { threshold: 3 } },
+        overrides: [{ files: ["legacy/**"], rules: { "long-parameter-list": false, "console-log": false } }],
+      })
+    );
+    mkdirSync(path.join(root, "legacy"));
+    writeFileSync(path.join(root, "main.js"), "function f(a, b, c, d) {\n  return a;\n}\n");
+    writeFileSync(path.join(root, "legacy", "old.js"), LONG_PARAMS);
+
+    const effective = await loadEffectiveConfig(root, { rules: { "todo-comment": false } });
+    assert.strictEqual(resolveRules(effective)["long-parameter-list"].threshold, 3);
+    assert.strictEqual(resolveRules(effective)["todo-comment"].enabled, false);
+
+    const result = await analyzeDirectory({ root, allowedRoots: [root] });
+    const [old, main] = result.files;
+    assert.strictEqual(main.smells.smells[0].description, "Function has 4 parameters (recommended max: 3)");
+    assert.ok(!old.smells.smells.some((s) => s.type === "Long Parameter List"));
+    assert.ok(!old.analysis.issues.some((i) => i.rule === "console-log"));
+
+    writeFileSync(path.join(root, ".intellicoderc.json"), "{ rules: }");
+    await assert.rejects(loadProjectConfig(root), /not valid JSON/);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+  console.log("✓ Config file loading works correctly");
+});
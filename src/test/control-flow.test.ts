@@ -0,0 +1,134 @@
+/**
+ * Tests for control-flow graph extraction
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { buildControlFlowGraphs, formatControlFlowGraphs } from "../control-flow.js";
+import { analyzeComplexity } from "../complexity.js";
+
+const SAMPLE = `
+function sign(n) {
+  if (n > 0) {
+    return 1;
+  } else if (n < 0) {
+    return -1;
+  }
+  log(n);
+}
+
+function settle(items, config) {
+  for (const item of items) {
+    switch (item.kind) {
+      case "a":
+      case "b":
+        continue;
+      default:
+        break;
+    }
+    try {
+      item.run(config?.options ?? {});
+    } catch (e) {
+      throw e;
+    }
+  }
+  do {
+    config = config.next;
+  } while (config && config.retry);
+}
+`;
+
+test("Graph has basic blocks, labelled edges and exit points", () => {
+  const { functions } = buildControlFlowGraphs(SAMPLE, "javascript");
+  const sign = functions.find((g) => g.name === "sign")!;
+
+  assert.strictEqual(sign.blocks[0].kind, "entry");
+  assert.strictEqual(sign.blocks[sign.blocks.length - 1].kind, "exit");
+  assert.deepStrictEqual(
+    sign.exitPoints.map((e) => [e.kind, e.line]),
+    [
+      ["return", 4],
+      ["return", 6],
+      ["implicit", 9],
+    ]
+  );
+
+  const first = sign.blocks[1];
+  assert.deepStrictEqual(first.statements, [{ line: 3, text: "if (n > 0) {" }]);
+  assert.deepStrictEqual(
+    sign.edges.filter((e) => e.from === first.id).map((e) => e.kind),
+    ["true", "false"]
+  );
+  assert.strictEqual(sign.cyclomaticComplexity, sign.edges.length - sign.blocks.length + 2);
+  assert.strictEqual(sign.cyclomaticComplexity, 3);
+  console.log("✓ Control-flow graph structure is correct");
+});
+
+test("Cyclomatic complexity comes from the graph, not from `?` characters", () => {
+  const { functions } = buildControlFlowGraphs(SAMPLE, "javascript");
+  // for, two cases, catch, `??`, do-while and `&&`; `?.` is not a branch
+  assert.strictEqual(functions.find((g) => g.name === "settle")!.cyclomaticComplexity, 8);
+
+  const optional = `
+interface Options { retries?: number }
+function read(options?: Options) {
+  return options?.retries;
+}`;
+  const complexity = analyzeComplexity(optional, "typescript");
+  assert.strictEqual(complexity.functions[0].cyclomaticComplexity, 1);
+  assert.strictEqual(complexity.cyclomaticComplexity, 2, "module graph plus one function");
+  console.log("✓ Graph-based cyclomatic complexity works correctly");
+});
+
+test("Python and Java functions get graphs too", () => {
+  const python = buildControlFlowGraphs(
+    [
+      "def find(items, target):",
+      "    for item in items:",
+      "        if item == target and item:",
+      "            break",
+      "    else:",
+      "        return None",
+      "    return item",
+    ].join("\n"),
+    "python"
+  );
+  assert.strictEqual(python.functions[0].cyclomaticComplexity, 4);
+  assert.deepStrictEqual(python.functions[0].exitPoints.map((e) => e.line), [6, 7]);
+
+  const java = buildControlFlowGraphs(
+    [
+      "class Parser {",
+      "  int parse(List<?> tokens) {",
+      "    try {",
+      "      return tokens.isEmpty() ? 0 : tokens.size();",
+      "    } catch (IllegalStateException e) {",
+      "      return -1;",
+      "    }",
+      "  }",
+      "}",
+    ].join("\n"),
+    "java"
+  );
+  assert.strictEqual(java.functions[0].name, "parse");
+  assert.strictEqual(java.functions[0].cyclomaticComplexity, 3);
+  console.log("✓ Python and Java graphs work correctly");
+});
+
+test("Graphs render as DOT and Mermaid", () => {
+  const { functions } = buildControlFlowGraphs(SAMPLE, "javascript");
+  const sign = functions.filter((g) => g.name === "sign");
+
+  const dot = formatControlFlowGraphs(sign, "dot");
+  assert.ok(dot.startsWith('digraph "sign" {'));
+  assert.ok(dot.includes('[label="true"]'));
+  assert.ok(dot.includes("-> exit"));
+
+  const mermaid = formatControlFlowGraphs(sign, "mermaid");
+  assert.ok(mermaid.includes("flowchart TD"));
+  assert.ok(mermaid.includes("-->|return| exit"));
+
+  const json = JSON.parse(formatControlFlowGraphs(sign, "json"));
+  assert.strictEqual(json.functions[0].name, "sign");
+  console.log("✓ Graph rendering works correctly");
+});
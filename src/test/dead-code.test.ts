@@ -0,0 +1,183 @@
+/**
+ * Tests for unused code and unreachable code detection
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { analyzeDeadCode, findDeadCode } from "../dead-code.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { resolveRules } from "../config.js";
+import { parseDocument } from "../parser.js";
+
+const summarize = (code: string, language: string) =>
+  findDeadCode(parseDocument(code, language)).map((f) => [f.kind, f.name ?? null, f.line, f.confidence]);
+
+/**
+ * Test scope-aware references in JavaScript and TypeScript
+ */
+test("Unused locals, parameters and private methods are resolved per scope in TS", () => {
+  const code = [
+    'import { format } from "./format.js";',
+    "const unusedTop = 1;",
+    "function factorial(n) { return n <= 1 ? 1 : n * factorial(n - 1); }",
+    "export function run(items, _skip, flag) {",
+    "  let written;",
+    "  written = 5;",
+    "  const { id, ...rest } = items;",
+    "  items.forEach((value, index) => format(index));",
+    "  const shadow = 1;",
+    "  { const shadow = 2; format(shadow); }",
+    "  return rest;",
+    "}",
+    "export class Box {",
+    "  #secret() { return 1; }",
+    "  private hidden() { return this.used(); }",
+    "  private used() { return 2; }",
+    "}",
+  ].join("\n");
+
+  assert.deepStrictEqual(summarize(code, "typescript"), [
+    ["unused-local", "unusedTop", 2, "high"],
+    ["unused-local", "factorial", 3, "high"],
+    ["unused-parameter", "flag", 4, "medium"],
+    ["unused-local", "written", 5, "high"],
+    ["unused-parameter", "value", 8, "low"],
+    ["unused-local", "shadow", 9, "high"],
+    ["unused-private-method", "#secret", 14, "high"],
+    ["unused-private-method", "hidden", 15, "high"],
+  ]);
+
+  // Top-level declarations of scripts are globals
+  assert.deepStrictEqual(summarize("function main(a) { return a; }\nvar config = {};", "javascript"), []);
+  console.log("✓ TypeScript unused code detection works correctly");
+});
+
+/**
+ * Test unreachable statements after exits and exhaustive if/else chains
+ */
+test("Code after throw, break, continue and exhaustive if/else is unreachable", () => {
+  const script = [
+    "export function check(list, flag) {",
+    "  for (const item of list) {",
+    "    if (item) { continue; } else { break; }",
+    "    list.pop();",
+    "  }",
+    "  switch (flag) { case 1: throw new Error(); case 2: return 2; }",
+    "  if (flag) return 1;",
+    "  else if (list) return 2;",
+    "  else return 3;",
+    "  function hoisted() {}",
+    "  return 4;",
+    "}",
+  ].join("\n");
+  assert.deepStrictEqual(
+    findDeadCode(parseDocument(script, "javascript"))
+      .filter((f) => f.kind === "unreachable-code")
+      .map((f) => [f.line, f.message]),
+    [
+      [4, "Unreachable code after if/else whose branches all exit"],
+      [11, "Unreachable code after if/else whose branches all exit"],
+    ]
+  );
+
+  const python = [
+    "def parse(value, unused, *args):",
+    "    result, rest = split(value, args)",
+    "    if result:",
+    "        return result",
+    "    else:",
+    "        raise ValueError(value)",
+    "    print(value)",
+    "",
+    "class Parser:",
+    "    def __cache(self):",
+    "        return 1",
+    "    def _helper(self):",
+    "        return 2",
+    "    def run(self, request):",
+    "        return getattr(self, '_helper')()",
+  ].join("\n");
+  assert.deepStrictEqual(summarize(python, "python"), [
+    ["unused-parameter", "unused", 1, "low"],
+    ["unused-local", "rest", 2, "medium"],
+    ["unreachable-code", null, 7, "high"],
+    ["unused-private-method", "__cache", 10, "high"],
+    ["unused-parameter", "request", 14, "medium"],
+  ]);
+
+  const java = [
+    "class Account {",
+    "  private int audit() { return 1; }",
+    "  private int balance() { return 2; }",
+    "  int get(int v) {",
+    "    switch (v) { case 1: return balance(); case 2: v++; break; }",
+    "    while (v > 0) { v--; continue; v++; }",
+    "    if (v < 0) { throw new IllegalStateException(); } else { return v; }",
+    "    v = 0;",
+    "  }",
+    "}",
+  ].join("\n");
+  assert.deepStrictEqual(summarize(java, "java"), [
+    ["unused-private-method", "audit", 2, "high"],
+    ["unreachable-code", null, 6, "high"],
+    ["unreachable-code", null, 8, "high"],
+  ]);
+  console.log("✓ Unreachable code detection works correctly");
+});
+
+/**
+ * Test exports across files, confidence levels and the dead-code rule
+ */
+test("Exports no other file imports are reported across files", () => {
+  const files = [
+    {
+      filename: "src/util.ts",
+      code: "export function used() {}\nexport const unused = 1;\nexport default function main() {}\n",
+      language: "typescript",
+    },
+    {
+      filename: "src/app.ts",
+      code: 'import { used } from "./util.js";\nexport const app = used();\n',
+      language: "typescript",
+    },
+    { filename: "src/barrel.js", code: 'export * from "./all.js";\n', language: "javascript" },
+    { filename: "src/all.js", code: "export const everything = 1;\n", language: "javascript" },
+    { filename: "pkg/mod.py", code: "def helper():\n    pass\n\ndef _private():\n    pass\n", language: "python" },
+    { filename: "pkg/cli.py", code: "from pkg.mod import helper\nhelper()\n", language: "python" },
+  ];
+  const report = analyzeDeadCode(files);
+  assert.deepStrictEqual(
+    report.findings.filter((f) => f.kind === "unused-export").map((f) => [f.file, f.name, f.confidence]),
+    [
+      ["src/util.ts", "unused", "medium"],
+      ["src/util.ts", "default", "medium"],
+      ["src/app.ts", "app", "low"],
+    ]
+  );
+  assert.strictEqual(report.findingsByKind["unused-export"], 3);
+
+  // Suppressions and disabled rules hide findings
+  const quiet = analyzeDeadCode([
+    {
+      ...files[0],
+      code: files[0].code.replace("export const", "// intelli-ignore-next-line dead-code -- API\nexport const"),
+    },
+    { ...files[1], rules: resolveRules({ rules: { "dead-code": false } }) },
+  ]);
+  assert.deepStrictEqual(
+    quiet.findings.map((f) => [f.file, f.name]),
+    [["src/util.ts", "default"]]
+  );
+  // A single file has no importers to check
+  assert.strictEqual(analyzeDeadCode([files[0]]).totalFindings, 0);
+
+  const smells = detectCodeSmells("export function f(a, b) {\n  return b;\n  log();\n}", "javascript").smells;
+  assert.deepStrictEqual(
+    smells.filter((s) => s.type === "Dead Code").map((s) => [s.description, s.confidence]),
+    [
+      ["Parameter 'a' of 'f' is never used", "low"],
+      ["Unreachable code after return statement", "high"],
+    ]
+  );
+  console.log("✓ Cross-file dead code detection works correctly");
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for the cross-file dependency graph
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { buildDependencyGraph, extractImports, DependencySource } from "../dependency-graph.js";
+import { parseDocument } from "../parser.js";
+
+const TYPESCRIPT_PROJECT: DependencySource[] = [
+  {
+    filename: "src/index.ts",
+    code: [
+      'import { Server } from "@modelcontextprotocol/sdk/server/index.js";',
+      'import { analyze } from "./analyzer.js";',
+      'import type { Report } from "./types";',
+      'export * from "./utils/index.js";',
+      "// import { ignored } from './commented.js';",
+      'const lazy = () => import("./lazy");',
+    ].join("\n"),
+    language: "typescript",
+  },
+  {
+    filename: "src/analyzer.ts",
+    code: 'import { helper } from "./utils";\nimport { missing } from "./missing.js";\nexport function analyze() {}',
+    language: "typescript",
+  },
+  {
+    filename: "src/utils/index.ts",
+    code: 'import { analyze } from "../analyzer.js";\nexport const helper = () => analyze();',
+    language: "typescript",
+  },
+  { filename: "src/types.ts", code: "export interface Report {}", language: "typescript" },
+  { filename: "src/lazy.js", code: 'const fs = require("fs");\nmodule.exports = {};', language: "javascript" },
+];
+
+/**
+ * Test import extraction skips comments and strings
+ */
+test("Imports are extracted from code tokens only", () => {
+  const imports = extractImports(parseDocument(TYPESCRIPT_PROJECT[0].code, "typescript"));
+  assert.deepStrictEqual(
+    imports.map((i) => [i.specifier, i.kind, i.line]),
+    [
+      ["@modelcontextprotocol/sdk/server/index.js", "import", 1],
+      ["./analyzer.js", "import", 2],
+      ["./types", "import", 3],
+      ["./utils/index.js", "export", 4],
+      ["./lazy", "dynamic", 6],
+    ]
+  );
+  assert.deepStrictEqual(
+    imports.map((i) => i.names),
+    [["Server"], ["analyze"], ["Report"], undefined, undefined]
+  );
+
+  const declarations = extractImports(
+    parseDocument('export const from = "x";\nexport { a } from "./a";\nconst s = "import b from \'./b\'";', "javascript")
+  );
+  assert.deepStrictEqual(declarations.map((i) => i.specifier), ["./a"]);
+  console.log("✓ Import extraction works correctly");
+});
+
+/**
+ * Test resolution, unresolved imports, cycles and fan-in/fan-out for TS/JS
+ */
+test("TypeScript project graph resolves files, cycles and coupling", () => {
+  const graph = buildDependencyGraph(TYPESCRIPT_PROJECT);
+
+  assert.deepStrictEqual(
+    graph.edges.map((e) => `${e.from} -> ${e.to}`),
+    [
+      "src/index.ts -> src/analyzer.ts",
+      "src/index.ts -> src/types.ts",
+      "src/index.ts -> src/utils/index.ts",
+      "src/index.ts -> src/lazy.js",
+      "src/analyzer.ts -> src/utils/index.ts",
+      "src/utils/index.ts -> src/analyzer.ts",
+    ]
+  );
+  assert.deepStrictEqual(
+    graph.unresolved.map((u) => [u.file, u.specifier, u.external]),
+    [
+      ["src/index.ts", "@modelcontextprotocol/sdk/server/index.js", true],
+      ["src/analyzer.ts", "./missing.js", false],
+      ["src/lazy.js", "fs", true],
+    ]
+  );
+  assert.deepStrictEqual(graph.cycles, [["src/analyzer.ts", "src/utils/index.ts"]]);
+
+  const index = graph.nodes.find((n) => n.file === "src/index.ts")!;
+  const analyzer = graph.nodes.find((n) => n.file === "src/analyzer.ts")!;
+  assert.deepStrictEqual([index.fanIn, index.fanOut, index.instability], [0, 4, 1]);
+  assert.deepStrictEqual([analyzer.fanIn, analyzer.fanOut, analyzer.instability], [2, 1, 0.33]);
+
+  // Declaration files resolve with or without the emitted `.js` extension, after sources
+  const declarations = buildDependencyGraph([
+    {
+      filename: "src/app.ts",
+      code: 'import type { T } from "./types";\nimport { v } from "./shared.js";\nimport { w } from "./both";\n',
+      language: "typescript",
+    },
+    { filename: "src/types.d.ts", code: "export type T = string;", language: "typescript" },
+    { filename: "src/shared.d.ts", code: "export declare const v: number;", language: "typescript" },
+    { filename: "src/both.d.ts", code: "export declare const w: number;", language: "typescript" },
+    { filename: "src/both.ts", code: "export const w = 1;", language: "typescript" },
+  ]);
+  assert.deepStrictEqual(
+    declarations.edges.map((e) => e.to),
+    ["src/types.d.ts", "src/shared.d.ts", "src/both.ts"]
+  );
+  console.log("✓ TypeScript dependency graph works correctly");
+});
+
+/**
+ * Test Python absolute, relative and package imports
+ */
+test("Python imports resolve modules, packages and relative imports", () => {
+  const graph = buildDependencyGraph([
+    {
+      filename: "app/main.py",
+      code: "import os\nimport app.models as models\nfrom app.services import billing, audit\nfrom .util import slugify",
+      language: "python",
+    },
+    { filename: "app/models.py", code: "from . import util\nfrom .services.billing import charge", language: "python" },
+    { filename: "app/util.py", code: "def slugify(s):\n    return s", language: "python" },
+    { filename: "app/services/__init__.py", code: "from .billing import charge", language: "python" },
+    { filename: "app/services/billing.py", code: "from ..models import Invoice\ndef charge():\n    pass", language: "python" },
+  ]);
+
+  const targets = (file: string) => graph.edges.filter((e) => e.from === file).map((e) => e.to);
+  assert.deepStrictEqual(targets("app/main.py"), [
+    "app/models.py",
+    "app/services/billing.py",
+    "app/services/__init__.py",
+    "app/util.py",
+  ]);
+  assert.deepStrictEqual(targets("app/models.py"), ["app/util.py", "app/services/billing.py"]);
+  assert.deepStrictEqual(graph.unresolved.map((u) => [u.specifier, u.external]), [["os", true]]);
+  assert.deepStrictEqual(graph.cycles, [["app/models.py", "app/services/billing.py"]]);
+  console.log("✓ Python dependency graph works correctly");
+});
+
+/**
+ * Test Java class, wildcard and static imports
+ */
+test("Java imports resolve classes, wildcards and static members", () => {
+  const graph = buildDependencyGraph([
+    {
+      filename: "src/main/java/com/shop/App.java",
+      code: "package com.shop;\nimport java.util.List;\nimport com.shop.model.*;\nimport static com.shop.util.Strings.slug;",
+      language: "java",
+    },
+    { filename: "src/main/java/com/shop/model/Order.java", code: "package com.shop.model;", language: "java" },
+    { filename: "src/main/java/com/shop/model/Item.java", code: "package com.shop.model;", language: "java" },
+    { filename: "src/main/java/com/shop/util/Strings.java", code: "package com.shop.util;", language: "java" },
+  ]);
+
+  assert.deepStrictEqual(
+    graph.edges.map((e) => e.to.split("/").pop()),
+    ["Order.java", "Item.java", "Strings.java"]
+  );
+  assert.deepStrictEqual(graph.unresolved.map((u) => u.specifier), ["java.util.List"]);
+  assert.deepStrictEqual(graph.cycles, []);
+  console.log("✓ Java dependency graph works correctly");
+});
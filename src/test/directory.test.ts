@@ -0,0 +1,139 @@
+/**
+ * Tests for analyzing a directory on disk
+ */
+
+import { test, after } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, writeFileSync, symlinkSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { analyzeDirectory, inferLanguage } from "../directory.js";
+import { globToRegExp } from "../glob.js";
+import { isIgnored, parseGitignore } from "../gitignore.js";
+
+const fixture = mkdtempSync(path.join(tmpdir(), "intelli-code-dir-"));
+const outside = mkdtempSync(path.join(tmpdir(), "intelli-code-outside-"));
+
+const FILES: Record<string, string> = {
+  ".gitignore": "generated/\n*.log.js\n!keep.log.js\n",
+  "index.js": "function main() {\n  console.log('hi');\n}\n",
+  "keep.log.js": "const kept = 1;\n",
+  "debug.log.js": "const ignored = 1;\n",
+  "README.md": "# not source\n",
+  "src/util.ts": "export function clamp(n: number) {\n  if (n > 10) {\n    return 10;\n  }\n  return n;\n}\n",
+  "src/.gitignore": "/local.ts\n",
+  "src/local.ts": "export const local = 1;\n",
+  "src/nested/local.ts": "export const nested = 1;\n",
+  "src/legacy/old.js": "var old = 1;\n",
+  "generated/out.js": "var generated = 1;\n",
+  "node_modules/dep/index.js": "module.exports = 1;\n",
+  "scripts/tool.py": "def run(x):\n    if x:\n        return 1\n    return 0\n",
+};
+
+for (const [name, content] of Object.entries(FILES)) {
+  mkdirSync(path.dirname(path.join(fixture, name)), { recursive: true });
+  writeFileSync(path.join(fixture, name), content);
+}
+writeFileSync(path.join(outside, "secret.js"), "const secret = 1;\n");
+symlinkSync(path.join(outside, "secret.js"), path.join(fixture, "linked.js"));
+
+after(() => {
+  rmSync(fixture, { recursive: true, force: true });
+  rmSync(outside, { recursive: true, force: true });
+});
+
+const filenamesOf = async (options: Parameters<typeof analyzeDirectory>[0]) => {
+  const result = await analyzeDirectory({ allowedRoots: [fixture], pageSize: 100, ...options });
+  return result.files.map((f) => f.filename);
+};
+
+/**
+ * Test glob and gitignore matching on their own
+ */
+test("Globs and .gitignore rules match like git", () => {
+  assert.ok(globToRegExp("**/*.ts").test("a/b/c.ts"));
+  assert.ok(globToRegExp("**/*.ts").test("c.ts"));
+  assert.ok(!globToRegExp("src/*.ts").test("src/a/b.ts"));
+  assert.ok(globToRegExp("src/**/*.{js,ts}").test("src/a/b.js"));
+  assert.ok(globToRegExp("file[!0-9].js").test("fileA.js"));
+  assert.ok(!globToRegExp("file[!0-9].js").test("file1.js"));
+
+  const rules = parseGitignore("# comment\nbuild/\n*.tmp\n!important.tmp\n/root-only.js\n");
+  assert.ok(isIgnored("pkg/build", true, rules));
+  assert.ok(!isIgnored("pkg/build", false, rules), "directory-only rule");
+  assert.ok(isIgnored("deep/x.tmp", false, rules));
+  assert.ok(!isIgnored("deep/important.tmp", false, rules), "negation re-includes");
+  assert.ok(isIgnored("root-only.js", false, rules));
+  assert.ok(!isIgnored("sub/root-only.js", false, rules), "leading slash anchors");
+
+  assert.strictEqual(inferLanguage("a/b.tsx"), "typescript");
+  assert.strictEqual(inferLanguage("a/b.py"), "python");
+  assert.strictEqual(inferLanguage("README.md"), undefined);
+  console.log("✓ Glob and gitignore matching works correctly");
+});
+
+/**
+ * Test that the walk respects .gitignore files, default excludes and globs
+ */
+test("Directory walk applies .gitignore, includes and excludes", async () => {
+  assert.deepStrictEqual(await filenamesOf({ root: fixture }), [
+    "index.js",
+    "keep.log.js",
+    "scripts/tool.py",
+    "src/legacy/old.js",
+    "src/nested/local.ts",
+    "src/util.ts",
+  ]);
+
+  const all = await filenamesOf({ root: fixture, respectGitignore: false });
+  assert.ok(all.includes("generated/out.js"));
+  assert.ok(all.includes("src/local.ts"));
+  assert.ok(!all.some((f) => f.startsWith("node_modules/")), "node_modules is always excluded");
+
+  assert.deepStrictEqual(
+    await filenamesOf({ root: fixture, include: ["src/**"], exclude: ["src/legacy/**"] }),
+    ["src/nested/local.ts", "src/util.ts"]
+  );
+  console.log("✓ Directory walk filtering works correctly");
+});
+
+/**
+ * Test the summary, pagination and per-file reports
+ */
+test("Directory analysis summarizes every file and paginates results", async () => {
+  const first = await analyzeDirectory({ root: fixture, allowedRoots: [fixture], pageSize: 4 });
+  const second = await analyzeDirectory({ root: fixture, allowedRoots: [fixture], pageSize: 4, page: 2 });
+
+  assert.strictEqual(first.summary.totalFiles, 6);
+  assert.deepStrictEqual(first.summary.filesByLanguage, { javascript: 3, typescript: 2, python: 1 });
+  assert.deepStrictEqual(first.pagination, { page: 1, pageSize: 4, totalPages: 2 });
+  assert.strictEqual(first.files.length, 4);
+  assert.deepStrictEqual(second.files.map((f) => f.filename), ["src/nested/local.ts", "src/util.ts"]);
+  assert.deepStrictEqual(second.summary, first.summary);
+
+  const util = second.files[1];
+  assert.strictEqual(util.language, "typescript");
+  assert.strictEqual(util.complexity.functions[0].name, "clamp");
+  assert.ok(first.files[0].analysis.issues.some((i) => i.rule === "console-log"));
+  assert.strictEqual(first.summary.mostComplexFiles[0].filename, "scripts/tool.py");
+  assert.deepStrictEqual(first.summary.skipped, [{ filename: "linked.js", reason: "symbolic link" }]);
+  console.log("✓ Directory summary and pagination work correctly");
+});
+
+/**
+ * Test that reads are confined to the allowed roots
+ */
+test("Directory analysis rejects roots outside the sandbox", async () => {
+  await assert.rejects(
+    analyzeDirectory({ root: outside, allowedRoots: [fixture] }),
+    /Access denied/
+  );
+  await assert.rejects(
+    analyzeDirectory({ root: path.join(fixture, ".."), allowedRoots: [fixture] }),
+    /Access denied/
+  );
+
+  const subdirectory = await analyzeDirectory({ root: path.join(fixture, "scripts"), allowedRoots: [fixture] });
+  assert.deepStrictEqual(subdirectory.files.map((f) => f.filename), ["tool.py"]);
+  console.log("✓ Directory sandbox works correctly");
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for the extract_method refactoring
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { extractMethod } from "../extract-method.js";
+
+const INVOICE = `function invoice(items, customer) {
+  let total = 0;
+  for (const item of items) {
+    total += item.price;
+  }
+  const tax = total * 0.2;
+  const label = customer.name;
+  console.log(label, tax);
+  return total + tax;
+}
+`;
+
+/**
+ * Test parameters, single and multiple return values in JavaScript
+ */
+test("JavaScript extraction passes inputs and returns outputs", () => {
+  const loop = extractMethod(INVOICE, "javascript", { startLine: 2, endLine: 5, name: "sumPrices" });
+  assert.deepStrictEqual([loop.parameters, loop.returns, loop.kind], [["items"], ["total"], "function"]);
+  assert.deepStrictEqual(loop.code.split("\n").slice(0, 3), [
+    "function invoice(items, customer) {",
+    "  let total = sumPrices(items);",
+    "  const tax = total * 0.2;",
+  ]);
+  assert.ok(
+    loop.code.endsWith(
+      "function sumPrices(items) {\n  let total = 0;\n  for (const item of items) {\n" +
+        "    total += item.price;\n  }\n  return total;\n}\n"
+    )
+  );
+
+  const pair = extractMethod(INVOICE, "javascript", { startLine: 6, endLine: 7 });
+  assert.strictEqual(pair.name, "extracted");
+  assert.deepStrictEqual([pair.parameters, pair.returns], [["total", "customer"], ["tax", "label"]]);
+  assert.ok(pair.code.includes("  const { tax, label } = extracted(total, customer);\n"));
+  assert.ok(pair.diff.startsWith("--- a/unknown\n+++ b/unknown\n"));
+  console.log("✓ JavaScript extraction works correctly");
+});
+
+/**
+ * Test that this, await and types carry over into an extracted method
+ */
+test("TypeScript lines using this become an async method", () => {
+  const code = [
+    "class Cart {",
+    "  async checkout(coupon?: string): Promise<number> {",
+    "    const items = this.items.filter((i) => i.ok);",
+    "    const sum = await this.price(items, coupon);",
+    "    return sum;",
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+
+  const result = extractMethod(code, "typescript", { startLine: 3, endLine: 4, name: "computeSum" });
+  assert.deepStrictEqual([result.kind, result.async, result.parameters], ["method", true, ["coupon"]]);
+  assert.deepStrictEqual(result.code.split("\n").slice(2, 11), [
+    "    const sum = await this.computeSum(coupon);",
+    "    return sum;",
+    "  }",
+    "",
+    "  async computeSum(coupon: string | undefined) {",
+    "    const items = this.items.filter((i) => i.ok);",
+    "    const sum = await this.price(items, coupon);",
+    "    return sum;",
+    "  }",
+  ]);
+  console.log("✓ Method extraction works correctly");
+});
+
+/**
+ * Test Python extraction inside a loop and into a method
+ */
+test("Python extraction returns loop-carried variables and keeps self", () => {
+  const code = [
+    "class Report:",
+    "    def render(self, rows, width=80):",
+    "        count = 0",
+    "        for row in rows:",
+    "            count += 1",
+    "            print(row)",
+    "        header = f\"{self.title}: {count:>{width}}\"",
+    "        names = [r.name for r in rows]",
+    "        return header, names",
+    "",
+  ].join("\n");
+
+  const loop = extractMethod(code, "python", { startLine: 5, endLine: 6 });
+  assert.deepStrictEqual([loop.kind, loop.parameters, loop.returns], ["function", ["count", "row"], ["count"]]);
+  assert.ok(loop.code.includes("            count = extracted(count, row)\n"));
+  assert.ok(
+    loop.code.endsWith("\n\n\ndef extracted(count, row):\n    count += 1\n    print(row)\n    return count\n")
+  );
+
+  const method = extractMethod(code, "python", { startLine: 7, endLine: 8, name: "heading" });
+  assert.deepStrictEqual(
+    [method.kind, method.parameters, method.returns],
+    ["method", ["count", "width", "rows"], ["header", "names"]]
+  );
+  assert.ok(method.code.includes("        header, names = self.heading(count, width, rows)\n"));
+  assert.ok(method.code.includes("\n\n    def heading(self, count, width, rows):\n        header = f\""));
+  console.log("✓ Python extraction works correctly");
+});
+
+/**
+ * Test the reasons given for ranges that cannot be extracted
+ */
+test("Ranges that escape or split statements are refused", () => {
+  const js = "function f(items) {\n  for (const x of items) {\n    if (x) break;\n    use(x);\n  }\n  return 1;\n}\n";
+  assert.throws(() => extractMethod(js, "javascript", { startLine: 3, endLine: 3 }), /break that jumps out/);
+  assert.throws(() => extractMethod(js, "javascript", { startLine: 6, endLine: 6 }), /return statement/);
+  assert.throws(() => extractMethod(js, "javascript", { startLine: 2, endLine: 3 }), /complete statements/);
+  assert.throws(
+    () => extractMethod("function* g() {\n  yield 1;\n}\n", "javascript", { startLine: 2, endLine: 2 }),
+    /contains yield/
+  );
+  assert.throws(
+    () => extractMethod("function h() {\n  this.x = 1;\n}\n", "javascript", { startLine: 2, endLine: 2 }),
+    /uses this outside a class method/
+  );
+  assert.doesNotThrow(() => extractMethod(js, "javascript", { startLine: 2, endLine: 5 }));
+
+  const py = [
+    "def f(xs):",
+    "    for x in xs:",
+    "        if x:",
+    "            continue",
+    "    if xs:",
+    "        pass",
+    "    else:",
+    "        pass",
+    "",
+  ].join("\n");
+  assert.throws(() => extractMethod(py, "python", { startLine: 3, endLine: 4 }), /continue that jumps out/);
+  assert.throws(() => extractMethod(py, "python", { startLine: 5, endLine: 6 }), /split a compound statement/);
+  assert.throws(() => extractMethod(py, "python", { startLine: 1, endLine: 1 }), /split a compound statement/);
+  assert.throws(
+    () => extractMethod("x = 1", "java", { startLine: 1, endLine: 1 }),
+    /JavaScript, TypeScript and Python/
+  );
+  assert.throws(() => extractMethod(js, "javascript", { startLine: 4, endLine: 4, name: "use" }), /already used/);
+  console.log("✓ Extraction refusals work correctly");
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the Go structural model and Go-specific smells
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { parseDocument } from "../parser.js";
+import { buildGoStructure } from "../go-structure.js";
+import { analyzeCode } from "../analyzer.js";
+import { analyzeComplexity } from "../complexity.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { resolveRules } from "../config.js";
+
+const SAMPLE = `// Package store keeps users
+package store
+
+import (
+	"os"
+	"strconv"
+)
+
+/* Repo stores items
+   in memory */
+type Repo[T any] struct {
+	items map[string]T
+	path  string
+}
+
+type (
+	ID    int
+	Event struct{ Name string }
+)
+
+func NewRepo[T any](path string) *Repo[T] {
+	return &Repo[T]{items: map[string]T{}, path: path}
+}
+
+func (r *Repo[T]) Find(id string, fallback interface{}) (item T, err error) {
+	if item, ok := r.items[id]; ok {
+		return item, nil
+	}
+	return item, nil
+}
+
+func (r *Repo[T]) Save(id string, item T) error {
+	if err := os.MkdirAll(r.path, 0o755); err != nil {
+		return err
+	}
+	r.items[id] = item
+	return nil
+}
+
+func process(r *Repo[string], ids []string) {
+	for _, id := range ids {
+		go func() {
+			r.Save(id, \`raw
+string with // no comment\`)
+		}()
+	}
+	defer os.Remove("lock")
+	os.Remove("x")
+	n, _ := strconv.Atoi("4")
+	for i := 0; i < n; i++ {
+		go work(i)
+	}
+}
+`;
+
+/**
+ * Test functions, receiver methods and struct types with their methods
+ */
+test("Go functions, methods and structs are modelled from tokens", () => {
+  const structure = buildGoStructure(parseDocument(SAMPLE, "golang"));
+  assert.deepStrictEqual(
+    structure.functions.map((fn) => [fn.name, fn.owner ?? null, fn.startLine, fn.endLine, fn.parameters, fn.results]),
+    [
+      ["NewRepo", null, 21, 23, ["path"], ["*Repo[T]"]],
+      ["Find", "Repo", 25, 30, ["id", "fallback"], ["T", "error"]],
+      ["Save", "Repo", 32, 38, ["id", "item"], ["error"]],
+      ["process", null, 40, 53, ["r", "ids"], []],
+    ]
+  );
+  assert.deepStrictEqual(
+    structure.types.map((type) => [type.name, type.startLine, type.endLine, type.lines, type.methods.length]),
+    [
+      ["Repo", 11, 14, 17, 2],
+      ["Event", 18, 18, 1, 0],
+    ]
+  );
+
+  const analysis = analyzeCode(SAMPLE, "go", "store.go");
+  assert.deepStrictEqual(
+    analysis.functions.map((fn) => [fn.name, fn.kind, fn.parameters]),
+    [
+      ["NewRepo", "function", 1],
+      ["Find", "method", 2],
+      ["Save", "method", 2],
+      ["process", "function", 2],
+    ]
+  );
+  // Raw strings span lines and hide comment markers; `/* */` comments are comments
+  assert.strictEqual(analysis.metrics.commentLines, 3);
+  assert.deepStrictEqual(analysis.variables.map((v) => v.name), ["item", "ok", "err", "id", "n", "i"]);
+  console.log("✓ Go structural model works correctly");
+});
+
+/**
+ * Test `if err != nil` counts toward cyclomatic but not cognitive complexity
+ */
+test("Error checks are counted separately from other decisions", () => {
+  const functions = analyzeComplexity(SAMPLE, "go").functions;
+  const save = functions.find((fn) => fn.name === "Save")!;
+  assert.deepStrictEqual([save.cyclomaticComplexity, save.cognitiveComplexity, save.errorChecks], [2, 0, 1]);
+
+  const find = functions.find((fn) => fn.name === "Find")!;
+  assert.deepStrictEqual([find.cyclomaticComplexity, find.cognitiveComplexity, find.errorChecks], [2, 1, undefined]);
+
+  // Paren-less loop headers with init statements still nest their bodies
+  const process = functions.find((fn) => fn.name === "process")!;
+  assert.strictEqual(process.cyclomaticComplexity, 3);
+  console.log("✓ Go error check complexity works correctly");
+});
+
+/**
+ * Test goroutine-in-loop, unchecked-error and the per-struct class checks
+ */
+test("Goroutines in loops, ignored errors and large structs are reported", () => {
+  const smells = detectCodeSmells(SAMPLE, "go").smells;
+  assert.deepStrictEqual(
+    smells
+      .filter((s) => s.type === "Goroutine In Loop" || s.type === "Unchecked Error")
+      .map((s) => [s.location?.line, s.description]),
+    [
+      [42, "Goroutine started in the loop on line 41 captures loop variable 'id'"],
+      [51, "Goroutine started for every iteration of the loop on line 50"],
+      [43, "Error returned by 'r.Save' is not checked"],
+      [48, "Error returned by 'os.Remove' is not checked"],
+      [49, "Error returned by 'strconv.Atoi' is discarded with _"],
+    ]
+  );
+
+  const config = { rules: { "god-class": { threshold: 1 }, "large-class": { threshold: 10 } } };
+  const rules = resolveRules(config, "store.go", "go");
+  const classes = detectCodeSmells(SAMPLE, "go", undefined, rules).smells.filter(
+    (s) => s.type === "God Class" || s.type === "Large Class"
+  );
+  assert.deepStrictEqual(
+    classes.map((s) => s.description),
+    [
+      "Struct 'Repo' has 2 methods (recommended max: 1)",
+      "Struct 'Repo' spans 17 lines including its methods (recommended max: 10)",
+    ]
+  );
+
+  // The Go smells do not apply to other languages
+  const javascript = detectCodeSmells("for (const x of xs) { go(x); }", "javascript");
+  assert.strictEqual(javascript.smellsByType["Goroutine In Loop"], undefined);
+  console.log("✓ Go smell detection works correctly");
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the Java structural model and Java-specific smells
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { parseDocument } from "../parser.js";
+import { buildJavaStructure } from "../java-structure.js";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { suggestRefactorings } from "../refactorings.js";
+import { resolveRules } from "../config.js";
+
+const SAMPLE = `package com.example.orders;
+
+import java.util.*;
+
+@Entity
+public class Order implements Comparable<Order> {
+  public static final int MAX = 10;
+  public String note, extra = "x";
+  private Map<String, List<Integer>> items = new HashMap<>();
+
+  static { init(); }
+
+  public Order(String note) {
+    this.note = note;
+  }
+
+  @Override
+  public boolean equals(Object other) {
+    if (other == null) return false;
+    return true;
+  }
+
+  public <T> List<T> sorted(final List<T> input, @Deprecated int limit) throws IOException {
+    String out = "";
+    for (T t : input) {
+      out += t;
+      String local = "";
+      local += t;
+    }
+    while (limit > 0) { note = note + limit; limit--; }
+    try {
+      run();
+    } catch (IOException | Exception e) {
+      log(e);
+    }
+    return input;
+  }
+
+  interface Listener {
+    void onChange(Order order);
+    default void reset() { }
+  }
+
+  enum State {
+    OPEN, CLOSED;
+    boolean done() { return this == CLOSED; }
+  }
+
+  record Point(int x, int y) {
+    Point {
+      if (x < 0) throw new IllegalArgumentException();
+    }
+  }
+}
+`;
+
+/**
+ * Test nested types, fields, constructors, annotations and record components
+ */
+test("Java types are modelled with their members", () => {
+  const { types, functions } = buildJavaStructure(parseDocument(SAMPLE, "java"));
+  assert.deepStrictEqual(
+    types.map((type) => [type.kind, type.name, type.startLine, type.endLine, type.outer ?? null]),
+    [
+      ["class", "Order", 6, 54, null],
+      ["interface", "Listener", 39, 42, "Order"],
+      ["enum", "State", 44, 47, "Order"],
+      ["record", "Point", 49, 53, "Order"],
+    ]
+  );
+
+  const order = types[0];
+  assert.deepStrictEqual(order.annotations, ["Entity"]);
+  assert.deepStrictEqual(
+    order.fields.map((field) => [field.modifiers.join(" "), field.type, field.name]),
+    [
+      ["public static final", "int", "MAX"],
+      ["public", "String", "note"],
+      ["public", "String", "extra"],
+      ["private", "Map<String,List<Integer>>", "items"],
+    ]
+  );
+  assert.deepStrictEqual(order.constructors.map((c) => c.parameters), [["note"]]);
+  const sorted = order.methods.find((m) => m.name === "sorted")!;
+  assert.deepStrictEqual(
+    [sorted.returnType, sorted.parameters, sorted.parameterTypes, sorted.startLine, sorted.endLine],
+    ["List<T>", ["input", "limit"], ["List<T>", "int"], 23, 37]
+  );
+  assert.deepStrictEqual(order.methods.find((m) => m.name === "equals")!.annotations, ["Override"]);
+
+  // Interface methods without a body are members but not functions
+  assert.deepStrictEqual(
+    types[1].methods.map((m) => [m.name, m.hasBody]),
+    [
+      ["onChange", false],
+      ["reset", true],
+    ]
+  );
+  assert.deepStrictEqual(types[3].fields.map((f) => f.name), ["x", "y"]);
+  assert.deepStrictEqual(
+    functions.map((fn) => `${fn.kind} ${fn.name}`),
+    ["constructor Order", "method equals", "method sorted", "method reset", "method done", "constructor Point"]
+  );
+  console.log("✓ Java structural model works correctly");
+});
+
+/**
+ * Test control statements are no longer read as methods, and class checks run per class
+ */
+test("Only declarations are methods, and class size is checked per class", () => {
+  const snippet = [
+    "int parse(String text) {",
+    "  if (text.isEmpty()) return 0;",
+    "  while (text.length() > 3) { text = trim(text); }",
+    "  return convert(text);",
+    "}",
+  ].join("\n");
+  assert.deepStrictEqual(
+    analyzeCode(snippet, "java", "Parse.java").functions.map((fn) => [fn.name, fn.kind, fn.parameters]),
+    [["parse", "function", 1]]
+  );
+
+  const config = { rules: { "god-class": { threshold: 1 }, "large-class": { threshold: 40 } } };
+  const rules = resolveRules(config, "Order.java", "java");
+  const classes = detectCodeSmells(SAMPLE, "java", undefined, rules).smells.filter(
+    (s) => s.type === "God Class" || s.type === "Large Class"
+  );
+  assert.deepStrictEqual(
+    classes.map((s) => [s.location?.line, s.description]),
+    [
+      [6, "Class 'Order' has 2 methods (recommended max: 1)"],
+      [39, "Interface 'Listener' has 2 methods (recommended max: 1)"],
+      [6, "Class 'Order' spans 49 lines including its methods (recommended max: 40)"],
+    ]
+  );
+
+  // A class filling its file is reported once, not again as a large module
+  const single = ["class Big {", ...Array.from({ length: 60 }, (_, i) => `  int f${i} = ${i};`), "}"].join("\n");
+  const large = detectCodeSmells(single, "java", undefined, rules).smells.filter((s) => s.type === "Large Class");
+  assert.deepStrictEqual(
+    large.map((s) => s.description),
+    ["Class 'Big' spans 62 lines including its methods (recommended max: 40)"]
+  );
+  console.log("✓ Java per-class checks work correctly");
+});
+
+/**
+ * Test generic catches, equals without hashCode, loop concatenation and public fields
+ */
+test("Java-specific smells and public fields are reported", () => {
+  const smells = detectCodeSmells(SAMPLE, "java").smells.filter((s) =>
+    ["Catching Generic Exception", "Equals Without HashCode", "String Concatenation In Loop"].includes(s.type)
+  );
+  assert.deepStrictEqual(
+    smells.map((s) => [s.type, s.location?.line]),
+    [
+      ["Catching Generic Exception", 33],
+      ["Equals Without HashCode", 6],
+      ["String Concatenation In Loop", 26],
+      ["String Concatenation In Loop", 30],
+    ]
+  );
+
+  const fields = suggestRefactorings(SAMPLE, "java").refactorings.filter((r) => r.type === "Encapsulate Field");
+  assert.deepStrictEqual(
+    fields.map((r) => r.description),
+    ["Field 'note' of class 'Order' is public and mutable", "Field 'extra' of class 'Order' is public and mutable"]
+  );
+  console.log("✓ Java smell detection works correctly");
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for the language profile registry
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { getLanguageProfile, languageForExtension, listLanguages, registerLanguage } from "../languages.js";
+import { analyzeCode } from "../analyzer.js";
+import { analyzeComplexity } from "../complexity.js";
+import { extractMethod } from "../extract-method.js";
+import { resolveRules } from "../config.js";
+import { parseDocument } from "../parser.js";
+
+/**
+ * Test lookups by id, alias and extension, and unknown languages
+ */
+test("Languages are found by id, alias and extension; unknown ones are rejected", () => {
+  assert.strictEqual(getLanguageProfile("TypeScript").id, "typescript");
+  assert.strictEqual(parseDocument("x = 1", "py").language, "python");
+  assert.strictEqual(languageForExtension(".MJS")?.id, "javascript");
+  assert.strictEqual(languageForExtension(".rb"), undefined);
+
+  assert.throws(() => parseDocument("puts 1", "ruby"), /Unsupported language 'ruby' \(supported: javascript, typescript/);
+  assert.throws(() => analyzeCode("puts 1", "ruby", "a.rb"), /Unsupported language/);
+
+  const summary = listLanguages().find((language) => language.id === "python")!;
+  assert.deepStrictEqual(summary, {
+    id: "python",
+    displayName: "Python",
+    aliases: ["py"],
+    extensions: [".py"],
+    blockModel: "indentation",
+    comments: { line: ["#"], block: null },
+    thresholds: {},
+    features: ["security", "imports", "extract-method"],
+  });
+  console.log("✓ Language lookup works correctly");
+});
+
+/**
+ * Test a language registered at runtime goes through every detector
+ */
+test("A registered language is analyzed with its own recognizers and comments", () => {
+  const javascript = getLanguageProfile("javascript");
+  registerLanguage({
+    id: "kotlin",
+    displayName: "Kotlin",
+    aliases: ["kt"],
+    extensions: [".kt"],
+    lexer: { ...javascript.lexer, templateLiterals: false, regexLiterals: false, keywords: new Set(["fun", "if", "val"]) },
+    blockModel: "braces",
+    switchFallthrough: true,
+    recognizers: {
+      function: /fun\s+(\w+)\s*\(([^)]*)\)/,
+      class: /\bclass\s+(\w+)/,
+      variable: /\b(?:val|var)\s+(\w+)/g,
+    },
+    halstead: { operators: new Set(["=", ">", "+"]), operands: new Set() },
+    thresholds: { "long-method": 30 },
+    features: [],
+  });
+
+  const code = [
+    "// Greeting helpers",
+    "class Greeter {",
+    "  fun greet(name: String, loud: Boolean) {",
+    "    val text = name + \"!\"",
+    "    if (loud) { println(text) }",
+    "  }",
+    "}",
+    "fun main() { Greeter().greet(\"a\", true) }",
+  ].join("\n");
+  const analysis = analyzeCode(code, "kt", "Main.kt");
+  assert.deepStrictEqual(
+    analysis.functions.map((fn) => [fn.name, fn.kind, fn.parameters]),
+    [
+      ["greet", "method", 2],
+      ["main", "function", 0],
+    ]
+  );
+  assert.deepStrictEqual(analysis.variables.map((v) => v.name), ["text"]);
+  assert.strictEqual(analysis.metrics.commentLines, 1);
+  assert.ok(analyzeComplexity(code, "kotlin").halsteadMetrics.vocabulary > 0);
+  assert.strictEqual(resolveRules({}, "Main.kt", "kotlin")["long-method"].threshold, 30);
+
+  assert.throws(
+    () => extractMethod(code, "kotlin", { startLine: 4, endLine: 4 }),
+    /Methods can only be extracted from JavaScript, TypeScript and Python, not kotlin/
+  );
+  assert.throws(() => registerLanguage({ ...getLanguageProfile("kotlin"), id: "kts" }), /'kt' is already registered/);
+  const indented = { ...getLanguageProfile("python"), id: "cobra", aliases: [], extensions: [], blocks: undefined };
+  assert.throws(() => registerLanguage(indented), /'cobra' uses indentation blocks but has no blocks builder/);
+  console.log("✓ Runtime language registration works correctly");
+});
+
+/**
+ * Test per-language thresholds and Halstead keyword classification
+ */
+test("Language thresholds sit between the defaults and the configuration", () => {
+  const python = getLanguageProfile("python");
+  registerLanguage({ ...python, id: "narrow", aliases: [], extensions: [], thresholds: { "long-line": 88 } });
+  const line = `x = "${"a".repeat(90)}"`;
+  const longLines = (language: string, config = {}) =>
+    analyzeCode(line, language, "f", undefined, resolveRules(config, "f", language)).issues.filter(
+      (issue) => issue.rule === "long-line"
+    ).length;
+  assert.strictEqual(longLines("narrow"), 1);
+  assert.strictEqual(longLines("python"), 0);
+  assert.strictEqual(longLines("narrow", { rules: { "long-line": { threshold: 100 } } }), 0);
+
+  // `true` is an operand, `return` an operator
+  const withLiteral = analyzeComplexity("function f() { return true; }", "javascript").halsteadMetrics;
+  const withName = analyzeComplexity("function f() { return ok; }", "javascript").halsteadMetrics;
+  assert.deepStrictEqual(withLiteral, withName);
+  console.log("✓ Language thresholds work correctly");
+});
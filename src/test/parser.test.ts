@@ -0,0 +1,79 @@
+/**
+ * Tests for the shared lexer and parsed document
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { parseDocument, tokenize } from "../parser.js";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { analyzeComplexity } from "../complexity.js";
+
+test("Lexer: strings, comments, regex and template literals are classified", () => {
+  const code = [
+    'const url = "http://example.com:8080/if"; // if 42',
+    "const re = /a{2}|if/g;",
+    "const t = `a ${ {b: 1}.b } } { ${x ? 'y' : 10} c`;",
+    "const ratio = a / b / c;",
+  ].join("\n");
+
+  const kinds = tokenize(code, "javascript")
+    .filter((t) => t.kind !== "punctuator")
+    .map((t) => `${t.kind}:${t.value}`);
+
+  assert.ok(kinds.includes('string:"http://example.com:8080/if"'));
+  assert.ok(kinds.includes("comment:// if 42"));
+  assert.ok(kinds.includes("regex:/a{2}|if/g"));
+  assert.ok(kinds.includes("template:} } { ${"), "Braces in template text stay in the template");
+  assert.ok(kinds.includes("number:10"), "Template substitutions are lexed as code");
+  assert.ok(!kinds.some((k) => k.startsWith("regex:/ b")), "Division is not a regex");
+  console.log("✓ Lexer classification works correctly");
+});
+
+test("Parsed document masks non-code text and classifies lines", () => {
+  const code = [
+    "/* block",
+    "   comment */",
+    "",
+    'print("# not a comment")',
+  ].join("\n");
+
+  const doc = parseDocument(code, "javascript");
+
+  assert.deepStrictEqual(doc.lineKinds, ["comment", "comment", "blank", "code"]);
+  assert.strictEqual(doc.codeLines[3], `print("${" ".repeat(15)}")`);
+  assert.strictEqual(doc.codeLines[0].trim(), "");
+  console.log("✓ Parsed document masking works correctly");
+});
+
+test("Python docstrings count as documentation", () => {
+  const code = [
+    "def f(x):",
+    '    """Doc',
+    '    string"""',
+    '    return r"a#b"  # trailing',
+  ].join("\n");
+
+  const analysis = analyzeCode(code, "python", "f.py");
+
+  assert.strictEqual(analysis.metrics.commentLines, 2);
+  assert.ok(!analysis.issues.some((i) => i.message.includes("TODO")));
+  console.log("✓ Python docstring handling works correctly");
+});
+
+test("Detectors ignore keywords, braces and digits inside literals", () => {
+  const complexity = analyzeComplexity('const s = "if (a && b) { return c ? d : e; }";', "javascript");
+  assert.strictEqual(complexity.cyclomaticComplexity, 1);
+  assert.strictEqual(complexity.nestingDepth, 0);
+
+  const smells = detectCodeSmells('fetch("http://host:8080/v2/items");', "javascript");
+  assert.ok(!smells.smells.some((s) => s.type === "Magic Number"));
+
+  const analysis = analyzeCode(
+    "function render() {\n  return `<div>{</div>`;\n}\nconst next = 1;",
+    "javascript",
+    "render.js"
+  );
+  assert.strictEqual(analysis.functions[0].linesOfCode, 3);
+  console.log("✓ Literal-aware detection works correctly");
+});
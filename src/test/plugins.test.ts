@@ -0,0 +1,191 @@
+/**
+ * Tests for plugin smell detectors
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { listPlugins, loadPlugins, registerPlugin, SmellDetector } from "../plugins.js";
+import { CodeSmell, detectCodeSmells } from "../code-smells.js";
+import { resolveRules, validateConfig } from "../config.js";
+import { toSarif } from "../sarif.js";
+
+const CODE = `
+const a = fetch("/users");
+// intelli-ignore-next-line no-direct-fetch -- wrapped by the retry helper
+const b = fetch("/orders");
+`;
+
+registerPlugin({
+  name: "house-rules",
+  detectors: [
+    {
+      rule: "no-direct-fetch",
+      description: "Calls fetch() instead of the shared HTTP client",
+      severity: "low",
+      languages: ["javascript", "typescript"],
+      detect: ({ doc, file }) =>
+        doc.lines.flatMap((line, index) =>
+          /\bfetch\(/.test(line)
+            ? [
+                {
+                  type: "Direct Fetch",
+                  severity: "low" as const,
+                  description: `fetch() called directly in ${file.filename ?? "snippet"}`,
+                  location: { line: index + 1 },
+                  suggestion: "Use the shared HTTP client",
+                },
+              ]
+            : []
+        ),
+    },
+    {
+      rule: "broken-detector",
+      description: "Always throws",
+      detect: () => {
+        throw new Error("boom");
+      },
+    },
+    {
+      rule: "async-detector",
+      description: "Rejects asynchronously",
+      detect: (() => Promise.reject(new Error("late"))) as unknown as SmellDetector["detect"],
+    },
+    {
+      rule: "sloppy-detector",
+      description: "Returns a smell without a type",
+      detect: () => [
+        { description: "No type", suggestion: "Add one", location: { line: 1 } } as unknown as CodeSmell,
+        { type: "Fine", severity: "high", description: "Ok", suggestion: "None", location: { line: 2 } },
+      ],
+    },
+  ],
+});
+
+/**
+ * Test plugin smells carry their rule id, honour configuration and suppressions
+ */
+test("Plugin smells are configured and suppressed by their rule id", () => {
+  const report = detectCodeSmells(CODE, "javascript", undefined, undefined, "api.js");
+  const direct = report.smells.filter((s) => s.rule === "no-direct-fetch");
+  assert.deepStrictEqual(
+    direct.map((s) => [s.location?.line, s.severity, s.description]),
+    [[2, "low", "fetch() called directly in api.js"]]
+  );
+  assert.deepStrictEqual(report.suppressions.suppressed.map((s) => s.rule), ["no-direct-fetch"]);
+
+  // Directives naming plugin rules are not mistaken for typos
+  const unused = detectCodeSmells("// intelli-ignore-next-line no-direct-fetch -- none left\nlet a;\n", "javascript");
+  assert.deepStrictEqual(
+    unused.suppressions.unused.map((d) => [d.rules, d.unknownRules]),
+    [[["no-direct-fetch"], []]]
+  );
+
+  const config = validateConfig({ rules: { "no-direct-fetch": { severity: "high" } } });
+  const graded = resolveRules(config, "api.js", "javascript");
+  const regraded = detectCodeSmells(CODE, "javascript", undefined, graded).smells;
+  assert.strictEqual(regraded.find((s) => s.rule === "no-direct-fetch")?.severity, "high");
+  const disabled = resolveRules({ rules: { "no-direct-fetch": false } }, "api.js", "javascript");
+  const silenced = detectCodeSmells(CODE, "javascript", undefined, disabled).smells;
+  assert.ok(!silenced.some((s) => s.rule === "no-direct-fetch"));
+
+  // Detectors limited to some languages do not run for others
+  assert.ok(!detectCodeSmells("x = fetch('/users')", "python").smells.some((s) => s.rule === "no-direct-fetch"));
+
+  const sarif = toSarif([{ filename: "api.js", language: "javascript", code: CODE, smells: report }]);
+  const rule = sarif.runs[0].tool.driver.rules.find((r) => r.id === "no-direct-fetch");
+  assert.strictEqual(rule?.shortDescription.text, "Calls fetch() instead of the shared HTTP client");
+  console.log("✓ Plugin rule configuration works correctly");
+});
+
+/**
+ * Test throwing, asynchronous and sloppy detectors are reported without losing the other findings
+ */
+test("A failing detector does not fail the analysis", async () => {
+  const report = detectCodeSmells(CODE, "javascript");
+  assert.deepStrictEqual(
+    report.pluginErrors?.map((error) => [error.rule, error.message]),
+    [
+      ["broken-detector", "boom"],
+      ["async-detector", "detect() must return its smells synchronously, not a promise"],
+      ["sloppy-detector", "Smell 0 needs a string type, description and suggestion and a numeric line"],
+    ]
+  );
+  assert.ok(report.smells.some((s) => s.rule === "no-direct-fetch"));
+  assert.deepStrictEqual(
+    report.smells.filter((s) => s.rule === "sloppy-detector").map((s) => [s.type, s.severity]),
+    [["Fine", "medium"]]
+  );
+  // The rejection is handled, so the process survives it
+  await new Promise((resolve) => setImmediate(resolve));
+
+  const disabled = resolveRules({
+    rules: { "broken-detector": false, "async-detector": false, "sloppy-detector": false },
+  });
+  assert.strictEqual(detectCodeSmells(CODE, "javascript", undefined, disabled).pluginErrors, undefined);
+  console.log("✓ Plugin error isolation works correctly");
+});
+
+/**
+ * Test loading plugins from files and directories, rejecting malformed ones
+ */
+test("Plugins load from local modules and bad plugins are skipped", async () => {
+  const root = mkdtempSync(path.join(tmpdir(), "intelli-code-plugins-"));
+  try {
+    mkdirSync(path.join(root, "plugins"));
+    writeFileSync(
+      path.join(root, "plugins", "a-todo.mjs"),
+      `export default {
+        name: "todo",
+        detectors: [{ rule: "no-todo", description: "TODO comment", detect: () => [] }],
+      };`
+    );
+    writeFileSync(path.join(root, "plugins", "b-bad.mjs"), `export default { name: "bad" };`);
+    writeFileSync(
+      path.join(root, "duplicate.mjs"),
+      `export const plugin = {
+        name: "duplicate",
+        detectors: [{ rule: "long-method", description: "Again", detect: () => [] }],
+      };`
+    );
+
+    writeFileSync(
+      path.join(root, "twice.mjs"),
+      `export default {
+        name: "twice",
+        detectors: [
+          { rule: "no-tabs", description: "Tabs", detect: () => [] },
+          { rule: "no-tabs", description: "Tabs again", detect: () => [] },
+        ],
+      };`
+    );
+
+    const specifiers = ["./plugins", "./duplicate.mjs", "./twice.mjs", "./missing.mjs", "no-such-pkg"];
+    const { loaded, errors } = await loadPlugins(specifiers, root);
+    assert.deepStrictEqual(
+      loaded.map((plugin) => [plugin.name, plugin.source, plugin.rules]),
+      [
+        ["house-rules", "house-rules", ["no-direct-fetch", "broken-detector", "async-detector", "sloppy-detector"]],
+        ["todo", "./plugins", ["no-todo"]],
+      ]
+    );
+    assert.deepStrictEqual(
+      errors.map((error) => [error.plugin, error.message.split("\n")[0].replace(root, "<root>")]),
+      [
+        ["plugins/b-bad.mjs", "A plugin must export a name and a detectors array"],
+        ["./duplicate.mjs", "Plugin 'duplicate' redefines rule 'long-method'"],
+        ["./twice.mjs", "Plugin 'twice' declares rule 'no-tabs' twice"],
+        ["./missing.mjs", `ENOENT: no such file or directory, stat '<root>/missing.mjs'`],
+        ["no-such-pkg", "Cannot find module 'no-such-pkg'"],
+      ]
+    );
+    assert.deepStrictEqual(listPlugins(), loaded);
+    // A rejected plugin leaves none of its rules behind
+    assert.strictEqual(resolveRules({})["no-tabs"], undefined);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+  console.log("✓ Plugin loading works correctly");
+});
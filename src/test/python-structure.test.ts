@@ -0,0 +1,101 @@
+/**
+ * Tests for the indentation-aware Python structural model
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { parseDocument } from "../parser.js";
+import { buildPythonStructure } from "../python-structure.js";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { analyzeComplexity } from "../complexity.js";
+import { suggestRefactorings } from "../refactorings.js";
+
+const SAMPLE = `
+import functools
+
+@functools.lru_cache(maxsize=None)
+@staticmethod
+def fetch(url,
+          timeout=30,
+          retries=3):
+    """Fetch a URL.
+
+    if this were code it would not count: {
+    """
+    total = 1 + \\
+        2
+    if timeout:
+        for attempt in range(retries):
+            while True:
+                break
+    return total
+
+class Client:
+    def get(self, path): return path
+
+    def post(self, path, body):
+        data = {
+            "path": path,
+        }
+        return data
+
+def after():
+    pass
+`;
+
+test("Python structure: decorators, docstrings and continuation lines", () => {
+  const structure = buildPythonStructure(parseDocument(SAMPLE, "python"));
+  const [fetch, get, post, after] = structure.functions;
+
+  assert.strictEqual(fetch.name, "fetch");
+  assert.strictEqual(fetch.startLine, 4, "Block starts at the first decorator");
+  assert.strictEqual(fetch.headerLine, 6);
+  assert.strictEqual(fetch.endLine, 19);
+  assert.deepStrictEqual(fetch.decorators, ["functools.lru_cache(maxsize=None)", "staticmethod"]);
+  assert.deepStrictEqual(fetch.parameters, ["url", "timeout", "retries"]);
+  assert.ok(fetch.docstring?.startsWith('"""Fetch a URL.'));
+
+  assert.deepStrictEqual([get.headerLine, get.endLine], [22, 22], "One-line bodies end on the header");
+  assert.deepStrictEqual(get.parameters, ["path"], "self is not counted as a parameter");
+  assert.deepStrictEqual([post.headerLine, post.endLine], [24, 28]);
+  assert.deepStrictEqual([after.headerLine, after.endLine], [30, 31]);
+  assert.strictEqual(structure.classes[0].endLine, 28);
+  console.log("✓ Python structural model works correctly");
+});
+
+test("Python functions report real lengths and complexity", () => {
+  const analysis = analyzeCode(SAMPLE, "python", "client.py");
+  const fetch = analysis.functions.find((f) => f.name === "fetch")!;
+
+  assert.strictEqual(fetch.linesOfCode, 14);
+  assert.strictEqual(fetch.parameters, 3);
+  assert.strictEqual(fetch.complexity, 4);
+  assert.strictEqual(analysis.functions.find((f) => f.name === "post")!.kind, "method");
+
+  const complexity = analyzeComplexity(SAMPLE, "python");
+  assert.strictEqual(complexity.nestingDepth, 4);
+  assert.strictEqual(complexity.cognitiveComplexity, 6);
+  console.log("✓ Python metrics work correctly");
+});
+
+test("Python long method, nested loop and god class detection", () => {
+  const body = Array(55).fill("    total += 1").join("\n");
+  const longCode = `def long_one():\n    total = 0\n${body}\n    return total\n\ndef short_one():\n    return 1\n`;
+
+  const smells = detectCodeSmells(longCode, "python");
+  const longMethods = smells.smells.filter((s) => s.type === "Long Method");
+  assert.strictEqual(longMethods.length, 1);
+  assert.strictEqual(longMethods[0].description, "Method is 58 lines long (recommended max: 50)");
+  assert.ok(suggestRefactorings(longCode, "python").refactorings.some((r) => r.type === "Extract Method"));
+
+  const loops = "def walk(grid):\n    for a in grid:\n        for b in a:\n            for c in b:\n                print(c)\n";
+  assert.ok(detectCodeSmells(loops, "python").smells.some((s) => s.type === "Deeply Nested Loops"));
+
+  const methods = Array.from({ length: 21 }, (_, i) => `    def m${i}(self): pass`).join("\n");
+  const godClass = `class Small:\n    def a(self): pass\n\nclass Big:\n${methods}\n`;
+  const gods = detectCodeSmells(godClass, "python").smells.filter((s) => s.type === "God Class");
+  assert.strictEqual(gods.length, 1);
+  assert.strictEqual(gods[0].location?.line, 4);
+  console.log("✓ Python smell detection works correctly");
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for scope-aware symbol renaming
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { renameSymbol } from "../rename.js";
+
+const SHAPES = {
+  filename: "shapes.js",
+  language: "javascript",
+  code: [
+    "let scale = 2;",
+    "function area(size) {",
+    "  const width = size.w * scale;",
+    "  const { height } = size;",
+    "  return { width, height, label: \"width\" };",
+    "}",
+    "function other() {",
+    "  const width = 1;",
+    "  return width;",
+    "}",
+    "",
+  ].join("\n"),
+};
+
+/**
+ * Test that only the resolved binding is renamed, keeping property names
+ */
+test("Renames follow scopes, shorthand properties and destructuring", () => {
+  const result = renameSymbol([SHAPES], { line: 3, name: "width" }, "scaledWidth");
+  assert.deepStrictEqual(result.locations, [
+    { filename: "shapes.js", line: 3, column: 9 },
+    { filename: "shapes.js", line: 5, column: 12 },
+  ]);
+  assert.deepStrictEqual(result.files[0].code.split("\n").slice(2, 5), [
+    "  const scaledWidth = size.w * scale;",
+    "  const { height } = size;",
+    "  return { width: scaledWidth, height, label: \"width\" };",
+  ]);
+  assert.ok(result.files[0].code.includes("  const width = 1;\n  return width;"), "other scopes are untouched");
+
+  const destructured = renameSymbol([SHAPES], { line: 4, column: 11 }, "tall");
+  assert.ok(destructured.files[0].code.includes("  const { height: tall } = size;\n"));
+  assert.ok(destructured.files[0].code.includes("  return { width, height: tall, label"));
+  assert.ok(destructured.patch.startsWith("--- a/shapes.js\n+++ b/shapes.js\n@@ -1,8 +1,8 @@\n"));
+  console.log("✓ Scope-aware renaming works correctly");
+});
+
+/**
+ * Test renaming an export across the files that import it
+ */
+test("Renaming an export updates its imports in other files", () => {
+  const files = [
+    { filename: "src/rates.ts", language: "typescript", code: "export const rate = 0.2;\n" },
+    {
+      filename: "src/tax.ts",
+      language: "typescript",
+      code: 'import { rate } from "./rates.js";\nexport const tax = (n: number) => n * rate;\nexport { rate };\n',
+    },
+    { filename: "src/notes.py", language: "python", code: "rate = 1\n" },
+  ];
+
+  const result = renameSymbol(files, { filename: "src/rates.ts", line: 1, name: "rate" }, "taxRate");
+  assert.deepStrictEqual(
+    result.files.map((f) => f.filename),
+    ["src/rates.ts", "src/tax.ts"]
+  );
+  assert.deepStrictEqual(result.files[1].code.split("\n"), [
+    'import { taxRate } from "./rates.js";',
+    "export const tax = (n: number) => n * taxRate;",
+    "export { taxRate as rate };",
+    "",
+  ]);
+  assert.ok(result.patch.includes("--- a/src/rates.ts\n") && result.patch.includes("--- a/src/tax.ts\n"));
+  assert.throws(() => renameSymbol(files, { filename: "src/notes.py", line: 1, name: "rate" }, "r"), /not python/);
+
+  // The exported name an alias imports already refers to the aliased symbol; it is not captured
+  const digits = { filename: "src/d.ts", language: "typescript", code: "export const d = 1;\nexport default d;\n" };
+  const alias = {
+    filename: "src/a.ts",
+    language: "typescript",
+    code: 'import { d as dd } from "./d";\nexport const s = dd;\n',
+  };
+  assert.deepStrictEqual(
+    renameSymbol([digits, alias], { filename: "src/a.ts", line: 1, name: "dd" }, "d").files[0].code.split("\n"),
+    ['import { d as d } from "./d";', "export const s = d;", ""]
+  );
+  const both = { ...alias, code: 'import { d } from "./d";\n' + alias.code.replace("dd;", "[d, dd];") };
+  assert.throws(
+    () => renameSymbol([digits, both], { filename: "src/a.ts", line: 2, name: "dd" }, "d"),
+    /conflicts: d is already declared in the same scope/
+  );
+  console.log("✓ Cross-file renaming works correctly");
+});
+
+/**
+ * Test shadowing conflicts and invalid input
+ */
+test("Renames that would shadow another binding are refused", () => {
+  assert.throws(
+    () => renameSymbol([SHAPES], { line: 3, name: "width" }, "scale"),
+    /scale at shapes.js:3 would refer to the renamed symbol/
+  );
+  assert.throws(
+    () => renameSymbol([SHAPES], { line: 1, name: "scale" }, "size"),
+    /reference at shapes.js:3 would resolve to another size/
+  );
+  const pair = { filename: "pair.js", language: "javascript", code: "let low = 1;\nlet high = 2;\n" };
+  assert.throws(() => renameSymbol([pair], { line: 2, name: "high" }, "low"), /low is already declared/);
+  assert.throws(() => renameSymbol([SHAPES], { line: 3, name: "width" }, "class"), /Invalid identifier/);
+  assert.throws(() => renameSymbol([SHAPES], { line: 5, column: 37 }, "x"), /Cannot rename at shapes.js:5/);
+  assert.doesNotThrow(() => renameSymbol([SHAPES], { line: 8, name: "width" }, "area2"));
+  console.log("✓ Rename conflict detection works correctly");
+});
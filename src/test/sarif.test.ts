@@ -0,0 +1,122 @@
+/**
+ * Tests for SARIF 2.1.0 output
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { readFileSync } from "node:fs";
+import { Ajv } from "ajv";
+import formats from "ajv-formats";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { suggestRefactorings } from "../refactorings.js";
+import { toSarif, SarifSource } from "../sarif.js";
+import { resolveRules } from "../config.js";
+
+// Official OASIS schema, read from the source tree since tsc does not copy it
+const schema = JSON.parse(
+  readFileSync(new URL("../../src/test/fixtures/sarif-schema-2.1.0.json", import.meta.url), "utf8")
+);
+// The schema's `language` pattern is not valid under the regex `u` flag
+const ajv = new Ajv({ strict: false, allErrors: true, unicodeRegExp: false });
+formats.default(ajv);
+const validate = ajv.compile(schema);
+
+const SAMPLE = `
+function process(a, b, c, d, e, f) {
+  var total = 0;
+  if (a == true) { total = a * 86400; }
+  console.log(total); // TODO remove
+  return total;
+}
+`;
+
+function sourceFor(code: string, filename = "src/process.js"): SarifSource {
+  return {
+    filename,
+    language: "javascript",
+    code,
+    analysis: analyzeCode(code, "javascript", filename),
+    smells: detectCodeSmells(code, "javascript"),
+    refactorings: suggestRefactorings(code, "javascript"),
+  };
+}
+
+test("SARIF log validates against the 2.1.0 schema", () => {
+  const log = toSarif([sourceFor(SAMPLE)]);
+  const valid = validate(log);
+
+  assert.ok(valid, ajv.errorsText(validate.errors));
+  assert.strictEqual(log.version, "2.1.0");
+  assert.ok(log.runs[0].results.length > 0);
+  console.log("✓ SARIF schema validation works correctly");
+});
+
+test("SARIF results carry rule metadata, levels and regions", () => {
+  const run = toSarif([sourceFor(SAMPLE)]).runs[0];
+  const rules = run.tool.driver.rules;
+
+  const consoleLog = run.results.find((r) => r.ruleId === "console-log")!;
+  assert.strictEqual(consoleLog.level, "warning");
+  assert.strictEqual(rules[consoleLog.ruleIndex].id, "console-log");
+  assert.strictEqual(rules[consoleLog.ruleIndex].name, "ConsoleLog");
+  assert.deepStrictEqual(consoleLog.locations[0].physicalLocation.region, {
+    startLine: 5,
+    snippet: { text: "  console.log(total); // TODO remove" },
+  });
+  assert.strictEqual(consoleLog.locations[0].physicalLocation.artifactLocation.uri, "src/process.js");
+
+  assert.strictEqual(run.results.find((r) => r.ruleId === "todo-comment")!.level, "note");
+  const params = run.results.find((r) => r.ruleId === "long-parameter-list")!;
+  assert.deepStrictEqual(rules[params.ruleIndex].properties.tags, ["code-smell"]);
+  assert.ok(run.results.some((r) => rules[r.ruleIndex].properties.tags[0] === "refactoring"));
+
+  // Each rule is described once, however many results use it
+  assert.strictEqual(new Set(rules.map((r) => r.id)).size, rules.length);
+  console.log("✓ SARIF rules and results work correctly");
+});
+
+test("SARIF rule descriptions come from the rule table and the resolved thresholds", () => {
+  const describe = (sources: SarifSource[], id: string) =>
+    toSarif(sources).runs[0].tool.driver.rules.find((rule) => rule.id === id)?.shortDescription.text;
+  const strict = resolveRules({ rules: { "long-parameter-list": { threshold: 4 } } }, "src/tight.js", "javascript");
+  const tight = {
+    ...sourceFor(SAMPLE, "src/tight.js"),
+    smells: detectCodeSmells(SAMPLE, "javascript", undefined, strict),
+    rules: strict,
+  };
+
+  const plain = [sourceFor(SAMPLE)];
+  assert.strictEqual(describe(plain, "console-log"), "console.log calls in JavaScript/TypeScript");
+  assert.strictEqual(describe(plain, "long-parameter-list"), "Maximum number of function parameters: 5");
+  assert.strictEqual(describe([tight], "long-parameter-list"), "Maximum number of function parameters: 4");
+  assert.strictEqual(
+    describe([sourceFor(SAMPLE), tight], "long-parameter-list"),
+    "Maximum number of function parameters: 4 or 5, depending on the file"
+  );
+  assert.strictEqual(describe(plain, "modern-syntax"), "Legacy syntax can be replaced by modern equivalents");
+  console.log("✓ SARIF rule descriptions work correctly");
+});
+
+test("SARIF fingerprints survive unrelated edits and cover multiple files", () => {
+  const before = toSarif([sourceFor(SAMPLE)]).runs[0].results;
+  const after = toSarif([sourceFor("// header\n\n" + SAMPLE)]).runs[0].results;
+
+  const fingerprintOf = (results: typeof before, rule: string) =>
+    results.find((r) => r.ruleId === rule)!.fingerprints["intelliCode/v1"];
+  assert.strictEqual(fingerprintOf(before, "console-log"), fingerprintOf(after, "console-log"));
+  assert.strictEqual(
+    after.find((r) => r.ruleId === "console-log")!.locations[0].physicalLocation.region!.startLine,
+    7
+  );
+
+  const log = toSarif([sourceFor(SAMPLE, "a.js"), sourceFor(SAMPLE, "lib/b.js")]);
+  assert.ok(validate(log), ajv.errorsText(validate.errors));
+  assert.deepStrictEqual(
+    log.runs[0].artifacts.map((a) => a.location.uri),
+    ["a.js", "lib/b.js"]
+  );
+  const indexes = new Set(log.runs[0].results.map((r) => r.locations[0].physicalLocation.artifactLocation.index));
+  assert.deepStrictEqual([...indexes], [0, 1]);
+  console.log("✓ SARIF fingerprints work correctly");
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the CWE-tagged security detectors
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { detectSecurityIssues } from "../security.js";
+import { analyzeCode } from "../analyzer.js";
+import { resolveRules } from "../config.js";
+
+const summarize = (code: string, language: string) =>
+  detectSecurityIssues(code, language).issues.map((issue) => [issue.line, issue.rule, issue.cwe]);
+
+/**
+ * Test JavaScript sinks, and that constant arguments and prose are left alone
+ */
+test("JavaScript eval, DOM, SQL and child_process sinks are flagged", () => {
+  const code = [
+    'import { exec } from "child_process";',
+    'const cp = require("node:child_process");',
+    "eval(input);",
+    'eval("1 + 1");',
+    'const fn = new Function("a", body);',
+    "el.innerHTML = html;",
+    'el.innerHTML = "";',
+    "document.write(banner);",
+    "db.query(`SELECT * FROM users WHERE id = ${id}`);",
+    'db.query("SELECT name FROM users WHERE id = " + id + " LIMIT 1");',
+    'db.query("SELECT name FROM users WHERE id = ?", [id]);',
+    "exec(`ls ${dir}`);",
+    'cp.execSync("rm -rf " + target);',
+    "/a+/.exec(text);",
+    'const label = "Select an option " + name;',
+    'const hint = "Select a color from " + list;',
+  ].join("\n");
+
+  assert.deepStrictEqual(summarize(code, "javascript"), [
+    [3, "code-injection", "CWE-95"],
+    [5, "code-injection", "CWE-95"],
+    [6, "dom-xss", "CWE-79"],
+    [8, "dom-xss", "CWE-79"],
+    [9, "sql-injection", "CWE-89"],
+    [10, "sql-injection", "CWE-89"],
+    [12, "command-injection", "CWE-78"],
+    [13, "command-injection", "CWE-78"],
+  ]);
+  console.log("✓ JavaScript security detection works correctly");
+});
+
+/**
+ * Test Python deserialization, shell and SQL formatting checks
+ */
+test("Python pickle, yaml.load, shell=True and formatted SQL are flagged", () => {
+  const code = [
+    "import pickle, yaml, subprocess, os",
+    "from subprocess import run",
+    "data = pickle.loads(blob)",
+    "cfg = yaml.load(text)",
+    "safe = yaml.load(text, Loader=yaml.SafeLoader)",
+    "subprocess.call(cmd, shell=True)",
+    "run(cmd, shell=True)",
+    'subprocess.run(["ls", folder])',
+    'os.system(f"ls {folder}")',
+    'cur.execute(f"SELECT * FROM t WHERE id = {key}")',
+    'cur.execute("DELETE FROM t WHERE id = %s" % key)',
+    'cur.execute("SELECT * FROM t WHERE id = %s", (key,))',
+    "model.eval()",
+    'print("Select one of the options from %s" % menu)',
+  ].join("\n");
+
+  assert.deepStrictEqual(summarize(code, "python"), [
+    [3, "unsafe-deserialization", "CWE-502"],
+    [4, "unsafe-deserialization", "CWE-502"],
+    [6, "command-injection", "CWE-78"],
+    [7, "command-injection", "CWE-78"],
+    [9, "command-injection", "CWE-78"],
+    [10, "sql-injection", "CWE-89"],
+    [11, "sql-injection", "CWE-89"],
+  ]);
+  console.log("✓ Python security detection works correctly");
+});
+
+/**
+ * Test Java Runtime.exec and Statement queries
+ */
+test("Java Runtime.exec and Statement.execute with built strings are flagged", () => {
+  const code = [
+    "class Repo {",
+    "  void run(String name) throws Exception {",
+    '    Runtime.getRuntime().exec("ls " + name);',
+    '    Runtime.getRuntime().exec("ls");',
+    "    stmt.executeQuery(\"SELECT * FROM t WHERE n = '\" + name + \"'\");",
+    "    stmt.execute(String.format(\"DELETE FROM t WHERE n = '%s'\", name));",
+    "    executor.execute(task);",
+    "    prepared.executeQuery();",
+    '    Runtime.getRuntime().exec(new String[]{"ls", "-l"});',
+    '    Runtime.getRuntime().exec(new String[]{"ls", name});',
+    '    log("Select a color from " + name);',
+    "  }",
+    "}",
+  ].join("\n");
+
+  assert.deepStrictEqual(summarize(code, "java"), [
+    [3, "command-injection", "CWE-78"],
+    [5, "sql-injection", "CWE-89"],
+    [6, "sql-injection", "CWE-89"],
+    [10, "command-injection", "CWE-78"],
+  ]);
+  console.log("✓ Java security detection works correctly");
+});
+
+/**
+ * Test that analyze_code reports the same issues as errors and honours
+ * configuration and suppressions
+ */
+test("Security issues are folded into analyze_code as errors", () => {
+  const code = "// intelli-ignore-next-line dom-xss -- sanitized upstream\nel.innerHTML = html;\neval(input);\n";
+
+  const analysis = analyzeCode(code, "javascript", "page.js");
+  assert.deepStrictEqual(
+    analysis.issues.map((issue) => [issue.rule, issue.severity, issue.cwe, issue.line]),
+    [["code-injection", "error", "CWE-95", 3]]
+  );
+  assert.strictEqual(analysis.suppressions.suppressed[0].rule, "dom-xss");
+
+  const rules = resolveRules({ rules: { "code-injection": { severity: "warning" }, "dom-xss": false } });
+  const report = detectSecurityIssues(code, "javascript", undefined, rules);
+  assert.deepStrictEqual(report.issuesByCwe, { "CWE-95": 1 });
+  assert.strictEqual(report.issues[0].severity, "warning");
+  console.log("✓ Security issue integration works correctly");
+});
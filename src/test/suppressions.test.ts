@@ -0,0 +1,160 @@
+/**
+ * Tests for inline suppression directives
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { analyzeCode } from "../analyzer.js";
+import { detectCodeSmells } from "../code-smells.js";
+import { suggestRefactorings } from "../refactorings.js";
+import { parseSuppressions } from "../suppressions.js";
+import { parseDocument } from "../parser.js";
+import { toSarif } from "../sarif.js";
+
+const SAMPLE = `
+function timeout(request) {
+  // intelli-ignore-next-line Magic Number -- HTTP status codes are self-explanatory
+  if (request.status === 404) return null;
+  const delay = request.retries * 1000;
+  // intelli-ignore-next-line console-log, multiple-statements -- debug output kept on purpose
+  console.log(delay); console.log(request);
+  return delay;
+}
+`;
+
+/**
+ * Test directive parsing, including invalid ones
+ */
+test("Directives are parsed with rules, reasons and targets", () => {
+  const { directives, invalid } = parseSuppressions(
+    parseDocument(
+      [
+        "// intelli-ignore-file Long Method, god-class -- legacy module",
+        "/* intelli-ignore-next-line Magic Number -- ratio */",
+        "",
+        "// another comment",
+        "const x = 42;",
+        "// intelli-ignore-next-line Magic Number",
+        "// intelli-ignore-next-line -- no rules",
+        "const s = '// intelli-ignore-file -- inside a string';",
+      ].join("\n"),
+      "javascript"
+    )
+  );
+
+  assert.deepStrictEqual(directives, [
+    { line: 1, scope: "file", rules: ["long-method", "god-class"], reason: "legacy module" },
+    { line: 2, scope: "next-line", rules: ["magic-number"], reason: "ratio", targetLine: 5 },
+  ]);
+  assert.deepStrictEqual(
+    invalid.map((d) => [d.line, d.problem]),
+    [
+      [6, "A reason is required after '--'"],
+      [7, "intelli-ignore-next-line must name the rules it suppresses"],
+    ]
+  );
+  console.log("✓ Suppression directive parsing works correctly");
+});
+
+/**
+ * Test next-line suppressions in smells and issues
+ */
+test("Next-line directives move findings to the suppressed list", () => {
+  const smells = detectCodeSmells(SAMPLE, "javascript");
+  assert.deepStrictEqual(
+    smells.smells.filter((s) => s.type === "Magic Number").map((s) => s.location!.line),
+    [5]
+  );
+  assert.strictEqual(smells.suppressions.suppressed.length, 1);
+  assert.deepStrictEqual(smells.suppressions.suppressed[0].suppression, {
+    line: 3,
+    scope: "next-line",
+    reason: "HTTP status codes are self-explanatory",
+  });
+  assert.strictEqual(smells.totalSmells, smells.smells.length);
+  assert.ok(!smells.smells.some((s) => s.type === "Commented Code"), "directives are not commented-out code");
+
+  const analysis = analyzeCode(SAMPLE, "javascript", "timeout.js");
+  assert.deepStrictEqual(
+    analysis.suppressions.suppressed.map((i) => i.rule).sort(),
+    ["console-log", "multiple-statements"]
+  );
+  assert.ok(!analysis.issues.some((i) => i.line === 7));
+  assert.deepStrictEqual(analysis.suppressions.unused, []);
+  console.log("✓ Next-line suppressions work correctly");
+});
+
+/**
+ * Test file-wide directives and refactoring suppressions in Python
+ */
+test("File directives silence every matching finding", () => {
+  const python = [
+    "# intelli-ignore-file -- generated from the protocol definition",
+    "def handler(a):",
+    "    # TODO regenerate",
+    "    return a * 3600",
+  ].join("\n");
+
+  const analysis = analyzeCode(python, "python", "generated.py");
+  const smells = detectCodeSmells(python, "python");
+  assert.deepStrictEqual(analysis.issues, []);
+  assert.strictEqual(analysis.suppressions.suppressed[0].rule, "todo-comment");
+  assert.deepStrictEqual(smells.smells, []);
+  assert.strictEqual(smells.suppressions.suppressed[0].type, "Magic Number");
+
+  const renamed = suggestRefactorings(
+    "// intelli-ignore-file Rename Variable -- math notation\nlet x = 1; let y = 2;\n",
+    "javascript"
+  );
+  assert.ok(!renamed.refactorings.some((r) => r.type === "Rename Variable"));
+  assert.ok(renamed.suppressions.suppressed.some((r) => r.type === "Rename Variable"));
+  console.log("✓ File-wide suppressions work correctly");
+});
+
+/**
+ * Test that directives which silence nothing are flagged
+ */
+test("Unused and unknown directives are flagged", () => {
+  const code = [
+    "// intelli-ignore-next-line Long Switch Statement -- state machine",
+    "const limit = 1;",
+    "// intelli-ignore-next-line Magic Numbr -- typo",
+    "const other = 2;",
+    "// intelli-ignore-next-line console-log -- nothing logged here",
+    "const third = 3;",
+  ].join("\n");
+
+  const smells = detectCodeSmells(code, "javascript");
+  assert.deepStrictEqual(
+    smells.suppressions.unused.map((d) => [d.line, d.unknownRules]),
+    [
+      [1, []],
+      [3, ["magic-numbr"]],
+    ]
+  );
+
+  const analysis = analyzeCode(code, "javascript", "a.js");
+  assert.deepStrictEqual(
+    analysis.suppressions.unused.map((d) => d.line),
+    [3, 5],
+    "smell directives are not unused in the issue report"
+  );
+  console.log("✓ Unused suppression reporting works correctly");
+});
+
+/**
+ * Test that SARIF marks suppressed results instead of dropping them
+ */
+test("SARIF output keeps suppressed findings with a justification", () => {
+  const run = toSarif([
+    { filename: "timeout.js", language: "javascript", code: SAMPLE, smells: detectCodeSmells(SAMPLE, "javascript") },
+  ]).runs[0];
+
+  const suppressed = run.results.filter((r) => r.suppressions);
+  assert.strictEqual(suppressed.length, 1);
+  assert.deepStrictEqual(suppressed[0].suppressions, [
+    { kind: "inSource", justification: "HTTP status codes are self-explanatory" },
+  ]);
+  assert.strictEqual(suppressed[0].locations[0].physicalLocation.region!.startLine, 4);
+  console.log("✓ SARIF suppressions work correctly");
+});
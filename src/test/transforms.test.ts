@@ -0,0 +1,191 @@
+/**
+ * Tests for apply_refactoring transforms and unified diffs
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { applyRefactoring } from "../transforms.js";
+import { createUnifiedDiff } from "../diff.js";
+import { suggestRefactorings } from "../refactorings.js";
+
+/**
+ * Test var conversion with reassignment and scope analysis
+ */
+test("var becomes const or let only when block scoping is safe", () => {
+  const code = [
+    "var limit = 10;",
+    "var count = 0;",
+    "for (var i = 0; i < limit; i++) { count += i; }",
+    "for (var key in options) { use(key); }",
+    "function find() {",
+    "  if (ready) { var found = 1; }",
+    "  return found;",
+    "}",
+    "var handlers = [];",
+    "for (var j = 0; j < 3; j++) { handlers.push(() => j); }",
+    "var twice = 1;",
+    "var twice = 2;",
+    "",
+  ].join("\n");
+
+  const result = applyRefactoring(code, "javascript", { refactoring: "var-to-let-const" });
+  assert.deepStrictEqual(result.code.split("\n").slice(0, 4), [
+    "const limit = 10;",
+    "let count = 0;",
+    "for (let i = 0; i < limit; i++) { count += i; }",
+    "for (const key in options) { use(key); }",
+  ]);
+  assert.ok(result.code.includes("const handlers = [];"));
+  assert.deepStrictEqual(
+    result.skipped.map((s) => [s.line, s.reason]),
+    [
+      [6, "'found' is used outside the block it is declared in"],
+      [10, "'j' is captured by a closure inside a loop"],
+      [11, "'twice' is declared more than once in the same function"],
+      [12, "'twice' is declared more than once in the same function"],
+    ]
+  );
+  console.log("✓ var conversion works correctly");
+});
+
+/**
+ * Test the expression transforms and callback conversion
+ */
+test("Boolean comparisons, double negation and callbacks are rewritten", () => {
+  const code = [
+    "function check(done: boolean, ready: boolean) { if (done === false || ready === true) {} }",
+    "if (a < b !== true) {}",
+    "const on = !!(flags & MASK);",
+    "items.map(function (x) { return x * 2; });",
+    "items.forEach(function (x) { this.add(x); }, this);",
+    "load(async function (url: string): Promise<void> { await fetch(url); });",
+    "",
+  ].join("\n");
+
+  const expressions = applyRefactoring(code, "typescript", { line: 1 });
+  assert.strictEqual(
+    expressions.code.split("\n")[0],
+    "function check(done: boolean, ready: boolean) { if (!done || ready) {} }"
+  );
+  assert.strictEqual(
+    applyRefactoring(code, "typescript", { refactoring: "remove-boolean-comparison", line: 2 }).code.split("\n")[1],
+    "if (!(a < b)) {}"
+  );
+  assert.strictEqual(
+    applyRefactoring(code, "typescript", { line: 3 }).code.split("\n")[2],
+    "const on = Boolean(flags & MASK);"
+  );
+
+  // Only operands typed as booleans compare like themselves, in conditions too
+  const values = [
+    "const v = x !== false;",
+    "const sum = a + b === true;",
+    "const count = 1;",
+    "if (count === true) {}",
+    "const seen: boolean = load();",
+    "const fresh = seen !== true;",
+    "const last = !!(a, b);",
+  ].join("\n");
+  const rewritten = applyRefactoring(values, "typescript", { refactoring: "remove-boolean-comparison" });
+  assert.deepStrictEqual(
+    rewritten.skipped.map((s) => [s.line, s.reason]),
+    [
+      [1, "The operand's type is unknown, so it may not be a boolean"],
+      [2, "The operand's type is unknown, so it may not be a boolean"],
+      [4, "The operand is not a boolean"],
+    ]
+  );
+  const untyped = "function tally(count) {\n  if (count === true) {}\n  if (count === false) {}\n}\n";
+  const plain = applyRefactoring(untyped, "javascript", { refactoring: "remove-boolean-comparison" });
+  assert.strictEqual(plain.code, untyped);
+  assert.deepStrictEqual(
+    plain.skipped.map((s) => [s.line, s.reason]),
+    [
+      [2, "The operand's type is unknown, so it may not be a boolean"],
+      [3, "The operand's type is unknown, so it may not be a boolean"],
+    ]
+  );
+  assert.strictEqual(rewritten.code.split("\n")[5], "const fresh = !seen;");
+  assert.strictEqual(
+    applyRefactoring(values, "typescript", { refactoring: "double-negation-to-boolean" }).code.split("\n")[6],
+    "const last = Boolean((a, b));"
+  );
+
+  const callbacks = applyRefactoring(code, "typescript", { refactoring: "function-to-arrow" });
+  assert.deepStrictEqual(callbacks.code.split("\n").slice(3, 6), [
+    "items.map((x) => { return x * 2; });",
+    "items.forEach(function (x) { this.add(x); }, this);",
+    "load(async (url: string): Promise<void> => { await fetch(url); });",
+  ]);
+  assert.deepStrictEqual(callbacks.skipped, [
+    { transform: "function-to-arrow", line: 5, reason: "The function uses this" },
+  ]);
+  console.log("✓ Expression and callback transforms work correctly");
+});
+
+/**
+ * Test the returned diff and input validation
+ */
+test("Results include a unified diff and invalid input is rejected", () => {
+  const result = applyRefactoring("var x = 1;\nuse(x);\n", "javascript", {
+    refactoring: "var-to-let-const",
+    filename: "src/a.js",
+  });
+  assert.strictEqual(result.diff, "--- a/src/a.js\n+++ b/src/a.js\n@@ -1,2 +1,2 @@\n-var x = 1;\n+const x = 1;\n use(x);\n");
+  assert.deepStrictEqual(result.applied, [
+    { transform: "var-to-let-const", line: 1, description: "Declared x with const" },
+  ]);
+
+  assert.throws(() => applyRefactoring("var x = ;", "javascript", { line: 1 }), /syntax errors: line 1/);
+  assert.throws(() => applyRefactoring("x = 1", "python", { line: 1 }), /JavaScript and TypeScript/);
+  assert.throws(() => applyRefactoring("x", "javascript", { refactoring: "inline" }), /Unknown refactoring/);
+  assert.throws(() => applyRefactoring("x", "javascript", {}), /Specify a refactoring/);
+  console.log("✓ Diff output and validation work correctly");
+});
+
+/**
+ * Test unified diff hunks, context and missing final newlines
+ */
+test("Unified diffs split distant changes into hunks", () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+  const after = before.replace("line 2\n", "line two\n").replace("line 19\n", "").replace(/\n$/, "");
+
+  assert.strictEqual(
+    createUnifiedDiff(before, after, "f.txt"),
+    [
+      "--- a/f.txt",
+      "+++ b/f.txt",
+      "@@ -1,5 +1,5 @@",
+      " line 1",
+      "-line 2",
+      "+line two",
+      " line 3",
+      " line 4",
+      " line 5",
+      "@@ -16,5 +16,4 @@",
+      " line 16",
+      " line 17",
+      " line 18",
+      "-line 19",
+      "-line 20",
+      "+line 20",
+      "\\ No newline at end of file",
+      "",
+    ].join("\n")
+  );
+  assert.strictEqual(createUnifiedDiff(before, before), "");
+  assert.strictEqual(createUnifiedDiff("", "a\n", "new.txt"), "--- a/new.txt\n+++ b/new.txt\n@@ -0,0 +1 @@\n+a\n");
+  console.log("✓ Unified diff generation works correctly");
+});
+
+/**
+ * Test that suggestions name the transform that fixes them
+ */
+test("Suggestions point at their apply_refactoring transform", () => {
+  const report = suggestRefactorings("var ready = !!flag;\n", "javascript");
+  assert.deepStrictEqual(
+    report.refactorings.filter((r) => r.autofix).map((r) => r.autofix).sort(),
+    ["double-negation-to-boolean", "var-to-let-const"]
+  );
+  console.log("✓ Refactoring autofix hints work correctly");
+});
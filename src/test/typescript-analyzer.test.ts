@@ -0,0 +1,87 @@
+/**
+ * Tests for the TypeScript compiler API backend
+ */
+
+import { test } from "node:test";
+import assert from "node:assert";
+import { analyzeCode } from "../analyzer.js";
+
+const SAMPLE = `
+function parse(input: string): number;
+function parse(input: number): number;
+function parse(input: any): number {
+  return typeof input === "string" ? Number(input) : input;
+}
+
+class Repository<T> {
+  private items: T[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  find(
+    id: string,
+    options?: { deep: boolean },
+  ): T | undefined {
+    return this.items.find((item: any) => item.id === id && options?.deep);
+  }
+}
+
+export const run = ({ list }: { list: number[] }) => {
+  for (const value of list) {
+    const doubled: number = value * 2;
+  }
+};
+`;
+
+test("TypeScript backend finds methods, accessors, callbacks and overloads", () => {
+  const analysis = analyzeCode(SAMPLE, "typescript", "repo.ts");
+  const byName = new Map(analysis.functions.map((f) => [f.name, f]));
+
+  assert.deepStrictEqual(
+    analysis.functions.map((f) => f.name),
+    ["parse", "Repository.size", "Repository.find", "this.items.find callback", "run"]
+  );
+  assert.strictEqual(byName.get("parse")!.overloads, 2);
+  assert.strictEqual(byName.get("parse")!.complexity, 2);
+  assert.strictEqual(byName.get("Repository.size")!.kind, "getter");
+
+  const find = byName.get("Repository.find")!;
+  assert.deepStrictEqual(find.parameterNames, ["id", "options"]);
+  assert.strictEqual(find.lineNumber, 15);
+  assert.strictEqual(find.endLine, 20);
+  assert.strictEqual(find.linesOfCode, 6);
+  assert.strictEqual(byName.get("this.items.find callback")!.complexity, 2);
+  console.log("✓ TypeScript function extraction works correctly");
+});
+
+test("TypeScript backend reports variable scope and declared type", () => {
+  const analysis = analyzeCode(SAMPLE, "typescript", "repo.ts");
+  const byName = new Map(analysis.variables.map((v) => [v.name, v]));
+
+  assert.deepStrictEqual(byName.get("items"), {
+    name: "items",
+    lineNumber: 9,
+    type: "T[]",
+    scope: "class:Repository",
+    kind: "property",
+  });
+  assert.strictEqual(byName.get("run")!.scope, "global");
+  assert.strictEqual(byName.get("value")!.scope, "block");
+  assert.strictEqual(byName.get("doubled")!.type, "number");
+  assert.strictEqual(byName.get("doubled")!.kind, "const");
+  console.log("✓ TypeScript variable extraction works correctly");
+});
+
+test("Other languages use their own structural model", () => {
+  const analysis = analyzeCode(
+    "public class Greeter {\n  public String greet(String name) {\n    return name;\n  }\n}\n",
+    "java",
+    "Greeter.java"
+  );
+  assert.strictEqual(analysis.functions[0].name, "greet");
+  assert.strictEqual(analysis.functions[0].kind, "method");
+  assert.strictEqual(analysis.functions[0].endLine, 4);
+  console.log("✓ Non-AST languages work correctly");
+});
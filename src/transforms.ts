@@ -0,0 +1,504 @@
+/**
+ * Transforms module
+ * Mechanical refactorings applied to JavaScript/TypeScript source, verified by re-parsing
+ */
+
+import ts from "typescript";
+import { parseDocument } from "./parser.js";
+import { bindingNames, getSourceFile, getTypeChecker, isFunctionWithBody } from "./typescript-analyzer.js";
+import { getLanguageProfile, hasFeature, languagesWith } from "./languages.js";
+import { createUnifiedDiff } from "./diff.js";
+
+export type TransformId =
+  | "var-to-let-const"
+  | "remove-boolean-comparison"
+  | "double-negation-to-boolean"
+  | "function-to-arrow";
+
+/**
+ * Every transform apply_refactoring can perform, with what it does
+ */
+export const TRANSFORMS: Record<TransformId, string> = {
+  "var-to-let-const": "Replace var with const, or let when the variable is reassigned",
+  "remove-boolean-comparison": "Replace x === true with x and x === false with !x when x is typed as a boolean",
+  "double-negation-to-boolean": "Replace !!x with Boolean(x)",
+  "function-to-arrow": "Replace function expression callbacks that do not use this with arrow functions",
+};
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TransformChange {
+  transform: TransformId;
+  line: number;
+  description: string;
+}
+
+export interface SkippedTransform {
+  transform: TransformId;
+  line: number;
+  reason: string;
+}
+
+export interface TransformOptions {
+  /** Only apply this transform */
+  refactoring?: string;
+  /** Only change code starting on this line */
+  line?: number;
+  /** Name used in the diff headers */
+  filename?: string;
+}
+
+export interface TransformResult {
+  applied: TransformChange[];
+  /** Candidates left alone because changing them could alter behavior */
+  skipped: SkippedTransform[];
+  code: string;
+  /** Unified diff from the original code; empty when nothing changed */
+  diff: string;
+}
+
+interface Candidate extends TransformChange {
+  edit?: TextEdit;
+  reason?: string;
+}
+
+/**
+ * Applies mechanical refactorings to JavaScript or TypeScript code. Either
+ * `refactoring` or `line` selects the changes; both can be combined. The
+ * transformed code is re-parsed and rejected if it is no longer valid.
+ */
+export function applyRefactoring(code: string, language: string, options: TransformOptions): TransformResult {
+  const { refactoring, line, filename = "unknown" } = options;
+  if (!hasFeature(language, "transforms")) {
+    throw new Error(`Refactorings can only be applied to ${languagesWith("transforms")}, not ${language}`);
+  }
+  if (refactoring === undefined && line === undefined) {
+    throw new Error("Specify a refactoring, a line, or both");
+  }
+  if (refactoring !== undefined && !(refactoring in TRANSFORMS)) {
+    throw new Error(`Unknown refactoring: ${refactoring} (expected one of ${Object.keys(TRANSFORMS).join(", ")})`);
+  }
+
+  const errors = syntaxErrors(code, language);
+  if (errors.length > 0) {
+    throw new Error(`Cannot refactor code with syntax errors: ${errors[0]}`);
+  }
+
+  const sourceFile = getSourceFile(parseDocument(code, language));
+  const candidates = findCandidates(sourceFile).filter(
+    (candidate) =>
+      (refactoring === undefined || candidate.transform === refactoring) &&
+      (line === undefined || candidate.line === line)
+  );
+
+  const applied: Candidate[] = [];
+  const skipped: SkippedTransform[] = [];
+  for (const candidate of candidates) {
+    const { transform, line: candidateLine, edit, reason } = candidate;
+    if (!edit) {
+      skipped.push({ transform, line: candidateLine, reason: reason! });
+    } else if (applied.some((other) => overlaps(other.edit!, edit))) {
+      const reason = "Overlaps another change; apply the refactoring again";
+      skipped.push({ transform, line: candidateLine, reason });
+    } else {
+      applied.push(candidate);
+    }
+  }
+
+  const transformed = applyEdits(
+    code,
+    applied.map((candidate) => candidate.edit!)
+  );
+  const invalid = syntaxErrors(transformed, language);
+  if (invalid.length > 0) {
+    throw new Error(`Refactoring produced invalid code: ${invalid[0]}`);
+  }
+
+  return {
+    applied: applied.map(({ transform, line: changedLine, description }) => ({
+      transform,
+      line: changedLine,
+      description,
+    })),
+    skipped,
+    code: transformed,
+    diff: createUnifiedDiff(code, transformed, filename),
+  };
+}
+
+/**
+ * Applies non-overlapping edits to a text
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Lists the syntax errors the TypeScript parser reports, as "line N: message"
+ */
+export function syntaxErrors(code: string, language: string): string[] {
+  const isTypeScript = getLanguageProfile(language).id === "typescript";
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName: isTypeScript ? "input.ts" : "input.jsx",
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve, noEmitHelpers: true },
+  });
+
+  return diagnostics.map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `line ${line + 1}: ${message}`;
+  });
+}
+
+function findCandidates(sourceFile: ts.SourceFile): Candidate[] {
+  const candidates: Candidate[] = [];
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclarationList(node) && !(node.flags & ts.NodeFlags.BlockScoped)) {
+      candidates.push({ transform: "var-to-let-const", line: lineOf(node), ...convertVar(node, sourceFile) });
+    } else if (ts.isBinaryExpression(node)) {
+      const change = removeBooleanComparison(node, sourceFile);
+      if (change) {
+        candidates.push({ transform: "remove-boolean-comparison", line: lineOf(node), ...change });
+      }
+    } else if (
+      ts.isPrefixUnaryExpression(node) &&
+      node.operator === ts.SyntaxKind.ExclamationToken &&
+      ts.isPrefixUnaryExpression(node.operand) &&
+      node.operand.operator === ts.SyntaxKind.ExclamationToken
+    ) {
+      const inner = skipParentheses(node.operand.operand);
+      // Boolean(a, b) would test a; the comma expression yields b
+      const isComma = ts.isBinaryExpression(inner) && inner.operatorToken.kind === ts.SyntaxKind.CommaToken;
+      const argument = inner.getText(sourceFile);
+      const text = `Boolean(${isComma ? `(${argument})` : argument})`;
+      candidates.push({
+        transform: "double-negation-to-boolean",
+        line: lineOf(node),
+        description: `Replaced '${node.getText(sourceFile)}' with '${text}'`,
+        edit: { start: node.getStart(sourceFile), end: node.getEnd(), text },
+      });
+    } else if (ts.isFunctionExpression(node) && ts.isCallOrNewExpression(node.parent)) {
+      if (node.parent.arguments?.includes(node)) {
+        candidates.push({ transform: "function-to-arrow", line: lineOf(node), ...convertCallback(node, sourceFile) });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return candidates;
+}
+
+function convertVar(
+  list: ts.VariableDeclarationList,
+  sourceFile: ts.SourceFile
+): Pick<Candidate, "description" | "edit" | "reason"> {
+  const names = list.declarations.flatMap((declaration) => bindingNames(declaration.name));
+  const label = names.map((name) => name.text).join(", ");
+  const skip = (reason: string) => ({ description: `Keep var ${label}`, reason });
+
+  const statement = list.parent;
+  const isAmbient =
+    ts.isVariableStatement(statement) && statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.DeclareKeyword);
+  if (isAmbient) {
+    return skip("Ambient declarations are left unchanged");
+  }
+  const block = blockScopeOf(list);
+  if (!block) {
+    return skip("let and const cannot be declared as the single statement of an if or loop body");
+  }
+
+  const scope = functionScopeOf(list);
+  const inLoop = isInsideLoop(block, scope) || ts.isIterationStatement(block, false);
+  const loopHead = ts.isForInStatement(list.parent) || ts.isForOfStatement(list.parent);
+  let reassigned = false;
+
+  for (const name of names) {
+    const declarations = identifiersNamed(scope, name.text).filter(isDeclarationName);
+    if (declarations.some((declaration) => !names.includes(declaration))) {
+      return skip(`'${name.text}' is declared more than once in the same function`);
+    }
+
+    for (const reference of identifiersNamed(scope, name.text)) {
+      if (reference === name || !isReference(reference)) continue;
+      const position = reference.getStart(sourceFile);
+      if (position < block.getStart(sourceFile) || position > block.getEnd()) {
+        return skip(`'${name.text}' is used outside the block it is declared in`);
+      }
+      if (position < list.getStart(sourceFile)) {
+        return skip(`'${name.text}' is used before its declaration`);
+      }
+      if (inLoop && functionScopeOf(reference) !== scope) {
+        return skip(`'${name.text}' is captured by a closure inside a loop`);
+      }
+      if (isWriteReference(reference)) reassigned = true;
+    }
+  }
+
+  const uninitialized = list.declarations.some((declaration) => !declaration.initializer);
+  if (uninitialized && inLoop && !loopHead) {
+    return skip(`${label} would no longer keep its value between loop iterations`);
+  }
+
+  const keyword = reassigned || (uninitialized && !loopHead) ? "let" : "const";
+  const start = list.getStart(sourceFile);
+  return {
+    description: `Declared ${label} with ${keyword}`,
+    edit: { start, end: start + "var".length, text: keyword },
+  };
+}
+
+/**
+ * Rewrites a strict comparison with a boolean literal when the type checker
+ * proves the operand is a boolean. For other values `x === true` and `x`
+ * differ, in conditions too: `1 === true` is false but `1` is truthy.
+ */
+function removeBooleanComparison(
+  node: ts.BinaryExpression,
+  sourceFile: ts.SourceFile
+): Pick<Candidate, "description" | "edit" | "reason"> | undefined {
+  const operator = node.operatorToken.kind;
+  if (operator !== ts.SyntaxKind.EqualsEqualsEqualsToken && operator !== ts.SyntaxKind.ExclamationEqualsEqualsToken) {
+    return undefined;
+  }
+
+  const isBoolean = (n: ts.Expression) =>
+    n.kind === ts.SyntaxKind.TrueKeyword || n.kind === ts.SyntaxKind.FalseKeyword;
+  const [literal, operand] = isBoolean(node.right) ? [node.right, node.left] : [node.left, node.right];
+  if (!isBoolean(literal) || isBoolean(operand)) return undefined;
+
+  const comparison = node.getText(sourceFile);
+  const { flags } = getTypeChecker(sourceFile).getTypeAtLocation(operand);
+  if (!(flags & ts.TypeFlags.BooleanLike)) {
+    return {
+      description: `Keep '${comparison}'`,
+      reason:
+        flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)
+          ? "The operand's type is unknown, so it may not be a boolean"
+          : "The operand is not a boolean",
+    };
+  }
+
+  // x === false and x !== true both test for a falsy x
+  const negate =
+    (literal.kind === ts.SyntaxKind.TrueKeyword) === (operator === ts.SyntaxKind.ExclamationEqualsEqualsToken);
+  const text = operand.getText(sourceFile);
+  const replacement = negate ? `!${needsParentheses(operand) ? `(${text})` : text}` : text;
+  return {
+    description: `Simplified '${comparison}' to '${replacement}'`,
+    edit: { start: node.getStart(sourceFile), end: node.getEnd(), text: replacement },
+  };
+}
+
+function convertCallback(
+  node: ts.FunctionExpression,
+  sourceFile: ts.SourceFile
+): Pick<Candidate, "description" | "edit" | "reason"> {
+  const name = node.name ? `function ${node.name.text}` : "anonymous function";
+  const skip = (reason: string) => ({ description: `Keep ${name}`, reason });
+
+  if (node.name) return skip("Named function expressions may refer to themselves");
+  if (node.asteriskToken) return skip("Generators cannot be arrow functions");
+  const usage = functionContextUsage(node.body);
+  if (usage) return skip(`The function uses ${usage}`);
+
+  const text = sourceFile.text;
+  const isAsync = node.modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword);
+  const typeParameters = node.typeParameters
+    ? text.substring(node.typeParameters.pos - 1, node.typeParameters.end + 1)
+    : "";
+  const parameters = text.substring(node.parameters.pos - 1, node.parameters.end + 1);
+  const returnType = node.type ? `: ${node.type.getText(sourceFile)}` : "";
+
+  return {
+    description: `Converted ${name} to an arrow function`,
+    edit: {
+      start: node.getStart(sourceFile),
+      end: node.body.getStart(sourceFile),
+      text: `${isAsync ? "async " : ""}${typeParameters}${parameters}${returnType} => `,
+    },
+  };
+}
+
+/**
+ * Returns what ties a function body to its own call context (`this`,
+ * `arguments`, `super`, `new.target`), looking through nested arrow functions
+ */
+function functionContextUsage(body: ts.Node): string | undefined {
+  let usage: string | undefined;
+  const visit = (node: ts.Node) => {
+    if (usage) return;
+    if (node.kind === ts.SyntaxKind.ThisKeyword) usage = "this";
+    else if (node.kind === ts.SyntaxKind.SuperKeyword) usage = "super";
+    else if (ts.isMetaProperty(node) && node.keywordToken === ts.SyntaxKind.NewKeyword) usage = "new.target";
+    else if (ts.isIdentifier(node) && node.text === "arguments" && isReference(node)) usage = "arguments";
+    else if (!isFunctionWithBody(node) || ts.isArrowFunction(node)) ts.forEachChild(node, visit);
+  };
+  visit(body);
+  return usage;
+}
+
+function blockScopeOf(list: ts.VariableDeclarationList): ts.Node | undefined {
+  const parent = list.parent;
+  if (ts.isForStatement(parent) || ts.isForInStatement(parent) || ts.isForOfStatement(parent)) return parent;
+  if (!ts.isVariableStatement(parent)) return undefined;
+
+  const container = parent.parent;
+  if (ts.isCaseClause(container) || ts.isDefaultClause(container)) return container.parent;
+  if (ts.isBlock(container) || ts.isSourceFile(container) || ts.isModuleBlock(container)) return container;
+  return undefined;
+}
+
+/**
+ * Returns the function, static block or source file whose `var` scope holds the node
+ */
+export function functionScopeOf(node: ts.Node): ts.Node {
+  let current = node.parent;
+  while (
+    current &&
+    !isFunctionWithBody(current) &&
+    !ts.isSourceFile(current) &&
+    !ts.isClassStaticBlockDeclaration(current)
+  ) {
+    current = current.parent;
+  }
+  return current ?? node.getSourceFile();
+}
+
+/**
+ * Returns true when a loop lies between the node and the given ancestor
+ */
+export function isInsideLoop(node: ts.Node, scope: ts.Node): boolean {
+  for (let current = node.parent; current && current !== scope; current = current.parent) {
+    if (ts.isIterationStatement(current, false)) return true;
+  }
+  return false;
+}
+
+function identifiersNamed(root: ts.Node, name: string): ts.Identifier[] {
+  const found: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name) found.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+/**
+ * Returns true for the identifier a declaration introduces
+ */
+export function isDeclarationName(id: ts.Identifier): boolean {
+  const parent = id.parent;
+  return (
+    ((ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isEnumDeclaration(parent) ||
+      ts.isImportClause(parent) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isNamespaceImport(parent) ||
+      ts.isBindingElement(parent)) &&
+      parent.name === id)
+  );
+}
+
+/**
+ * Returns false for identifiers that name a property, label or member rather
+ * than refer to a variable
+ */
+export function isReference(id: ts.Identifier): boolean {
+  const parent = id.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name === id) return false;
+  if (ts.isQualifiedName(parent) && parent.right === id) return false;
+  if (
+    (ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent) ||
+      ts.isJsxAttribute(parent)) &&
+    parent.name === id
+  ) {
+    return false;
+  }
+  if (
+    (ts.isBindingElement(parent) || ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) &&
+    parent.propertyName === id
+  ) {
+    return false;
+  }
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) return false;
+  return true;
+}
+
+/**
+ * Returns true when an identifier is assigned, incremented or the target of
+ * a destructuring assignment
+ */
+export function isWriteReference(id: ts.Identifier): boolean {
+  let node: ts.Node = id;
+  // Climb out of destructuring patterns such as [a, { b }] = value
+  while (
+    ts.isParenthesizedExpression(node.parent) ||
+    ts.isArrayLiteralExpression(node.parent) ||
+    ts.isObjectLiteralExpression(node.parent) ||
+    ts.isSpreadElement(node.parent) ||
+    ts.isSpreadAssignment(node.parent) ||
+    ts.isShorthandPropertyAssignment(node.parent) ||
+    (ts.isPropertyAssignment(node.parent) && node.parent.initializer === node)
+  ) {
+    node = node.parent;
+  }
+
+  const parent = node.parent;
+  if (ts.isBinaryExpression(parent)) {
+    const operator = parent.operatorToken.kind;
+    return (
+      parent.left === node &&
+      operator >= ts.SyntaxKind.FirstAssignment &&
+      operator <= ts.SyntaxKind.LastAssignment
+    );
+  }
+  if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+    return parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken;
+  }
+  return (ts.isForInStatement(parent) || ts.isForOfStatement(parent)) && parent.initializer === node;
+}
+
+function needsParentheses(expression: ts.Expression): boolean {
+  return !(
+    ts.isIdentifier(expression) ||
+    ts.isPropertyAccessExpression(expression) ||
+    ts.isElementAccessExpression(expression) ||
+    ts.isCallExpression(expression) ||
+    ts.isParenthesizedExpression(expression) ||
+    ts.isPrefixUnaryExpression(expression) ||
+    ts.isNonNullExpression(expression) ||
+    expression.kind === ts.SyntaxKind.ThisKeyword
+  );
+}
+
+function skipParentheses(expression: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(expression) ? skipParentheses(expression.expression) : expression;
+}
+
+function overlaps(a: TextEdit, b: TextEdit): boolean {
+  return a.start < b.end && b.start < a.end;
+}
@@ -0,0 +1,308 @@
+/**
+ * TypeScript compiler API backend
+ * Provides AST-backed function and variable extraction for JavaScript/TypeScript
+ */
+
+import ts from "typescript";
+import type { FunctionInfo, VariableInfo } from "./analyzer.js";
+import { ParsedDocument } from "./parser.js";
+import { hasFeature } from "./languages.js";
+
+const sourceFiles = new WeakMap<ParsedDocument, ts.SourceFile>();
+const checkers = new WeakMap<ts.SourceFile, ts.TypeChecker>();
+
+/**
+ * Returns true when the language can be analyzed with the TypeScript compiler
+ */
+export function supportsTypeScriptAst(language: string): boolean {
+  return hasFeature(language, "syntax-tree");
+}
+
+/**
+ * Parses the document into a TypeScript AST, cached per document
+ */
+export function getSourceFile(doc: ParsedDocument): ts.SourceFile {
+  let sourceFile = sourceFiles.get(doc);
+  if (!sourceFile) {
+    const isTypeScript = doc.language === "typescript";
+    sourceFile = ts.createSourceFile(
+      isTypeScript ? "input.ts" : "input.jsx",
+      doc.source,
+      ts.ScriptTarget.Latest,
+      true,
+      isTypeScript ? ts.ScriptKind.TS : ts.ScriptKind.JSX
+    );
+    sourceFiles.set(doc, sourceFile);
+  }
+  return sourceFile;
+}
+
+/**
+ * Creates a type checker over the single source file, cached per file. The
+ * default library is not loaded, so globals such as `console` have no symbol.
+ */
+export function getTypeChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+  let checker = checkers.get(sourceFile);
+  if (!checker) {
+    const host: ts.CompilerHost = {
+      getSourceFile: (fileName) => (fileName === sourceFile.fileName ? sourceFile : undefined),
+      getDefaultLibFileName: () => "lib.d.ts",
+      writeFile: () => undefined,
+      getCurrentDirectory: () => "",
+      getCanonicalFileName: (fileName) => fileName,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => "\n",
+      fileExists: (fileName) => fileName === sourceFile.fileName,
+      readFile: () => undefined,
+    };
+    const options: ts.CompilerOptions = { allowJs: true, noLib: true, noResolve: true, types: [] };
+    checker = ts.createProgram([sourceFile.fileName], options, host).getTypeChecker();
+    checkers.set(sourceFile, checker);
+  }
+  return checker;
+}
+
+export type FunctionLikeWithBody = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+/**
+ * Returns true for function-like nodes that have a body (overload
+ * signatures and abstract members are excluded)
+ */
+export function isFunctionWithBody(node: ts.Node): node is FunctionLikeWithBody {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+/**
+ * Extracts every function, method, accessor and arrow function with its exact range
+ */
+export function extractTypeScriptFunctions(doc: ParsedDocument): FunctionInfo[] {
+  const sourceFile = getSourceFile(doc);
+  const functions: FunctionInfo[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (isFunctionWithBody(node)) {
+      const start = lineOf(sourceFile, node.getStart(sourceFile));
+      const end = lineOf(sourceFile, node.getEnd());
+      functions.push({
+        name: getFunctionName(node, sourceFile),
+        kind: getFunctionKind(node),
+        lineNumber: start,
+        endLine: end,
+        parameters: node.parameters.length,
+        parameterNames: node.parameters.map((p) => p.name.getText(sourceFile)),
+        linesOfCode: end - start + 1,
+        complexity: calculateFunctionComplexity(node),
+        overloads: countOverloads(node),
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return functions;
+}
+
+/**
+ * Extracts declared variables and class fields with their scope and declared type
+ */
+export function extractTypeScriptVariables(doc: ParsedDocument): VariableInfo[] {
+  const sourceFile = getSourceFile(doc);
+  const variables: VariableInfo[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node)) {
+      const list = node.parent;
+      const kind = ts.isVariableDeclarationList(list) ? declarationKind(list) : "var";
+      const type = node.type ? node.type.getText(sourceFile) : "inferred";
+      for (const name of bindingNames(node.name)) {
+        variables.push({
+          name: name.text,
+          lineNumber: lineOf(sourceFile, name.getStart(sourceFile)),
+          type,
+          scope: describeScope(node, kind === "var"),
+          kind,
+        });
+      }
+    } else if (ts.isPropertyDeclaration(node) && node.parent && ts.isClassLike(node.parent)) {
+      variables.push({
+        name: node.name.getText(sourceFile),
+        lineNumber: lineOf(sourceFile, node.name.getStart(sourceFile)),
+        type: node.type ? node.type.getText(sourceFile) : "inferred",
+        scope: `class:${node.parent.name?.text ?? "anonymous"}`,
+        kind: "property",
+      });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return variables;
+}
+
+/**
+ * Cyclomatic complexity of a single function, excluding nested functions
+ */
+export function calculateFunctionComplexity(fn: FunctionLikeWithBody): number {
+  let complexity = 1;
+
+  const visit = (node: ts.Node) => {
+    if (node !== fn && isFunctionWithBody(node)) return;
+
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        complexity++;
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (node as ts.BinaryExpression).operatorToken.kind;
+        if (
+          operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+          operator === ts.SyntaxKind.BarBarToken ||
+          operator === ts.SyntaxKind.QuestionQuestionToken
+        ) {
+          complexity++;
+        }
+        break;
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(fn.body);
+  return complexity;
+}
+
+/**
+ * Returns the display name of a function-like node, qualified by its class
+ * for members and derived from the surrounding expression for anonymous ones
+ */
+export function getFunctionName(node: FunctionLikeWithBody, sourceFile: ts.SourceFile): string {
+  const className =
+    node.parent && ts.isClassLike(node.parent) ? node.parent.name?.text ?? "anonymous" : undefined;
+  const qualify = (name: string) => (className ? `${className}.${name}` : name);
+
+  if (ts.isConstructorDeclaration(node)) return qualify("constructor");
+  if (node.name) return qualify(node.name.getText(sourceFile));
+
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) {
+    return parent.name.getText(sourceFile);
+  }
+  if (ts.isPropertyDeclaration(parent)) {
+    const owner = ts.isClassLike(parent.parent) ? parent.parent.name?.text ?? "anonymous" : undefined;
+    const name = parent.name.getText(sourceFile);
+    return owner ? `${owner}.${name}` : name;
+  }
+  if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    return parent.left.getText(sourceFile);
+  }
+  if (ts.isExportAssignment(parent)) return "default";
+  if (ts.isCallExpression(parent) || ts.isNewExpression(parent)) {
+    const callee = parent.expression;
+    // Chained calls (`a.filter(...).map(...)`) are named after the last method
+    const calleeName =
+      ts.isPropertyAccessExpression(callee) && /[(\n]/.test(callee.getText(sourceFile))
+        ? callee.name.text
+        : callee.getText(sourceFile);
+    return `${calleeName} callback`;
+  }
+
+  return "anonymous";
+}
+
+function getFunctionKind(node: FunctionLikeWithBody): string {
+  if (ts.isConstructorDeclaration(node)) return "constructor";
+  if (ts.isGetAccessorDeclaration(node)) return "getter";
+  if (ts.isSetAccessorDeclaration(node)) return "setter";
+  if (ts.isMethodDeclaration(node)) return "method";
+  if (ts.isArrowFunction(node)) return "arrow";
+  if (ts.isFunctionExpression(node)) return "expression";
+  return "function";
+}
+
+function countOverloads(node: FunctionLikeWithBody): number | undefined {
+  if (!node.name || !(ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node))) {
+    return undefined;
+  }
+
+  const siblings: readonly ts.Node[] =
+    ts.isSourceFile(node.parent) || ts.isModuleBlock(node.parent) || ts.isBlock(node.parent)
+      ? node.parent.statements
+      : ts.isClassLike(node.parent)
+      ? node.parent.members
+      : [];
+  const name = node.name.getText();
+  const overloads = siblings.filter(
+    (s) =>
+      (ts.isFunctionDeclaration(s) || ts.isMethodDeclaration(s)) &&
+      s.body === undefined &&
+      s.name?.getText() === name
+  ).length;
+
+  return overloads > 0 ? overloads : undefined;
+}
+
+function declarationKind(list: ts.VariableDeclarationList): string {
+  if (list.flags & ts.NodeFlags.Const) return "const";
+  if (list.flags & ts.NodeFlags.Let) return "let";
+  return "var";
+}
+
+/**
+ * Collects identifiers bound by a declaration name, including destructuring
+ */
+export function bindingNames(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) return [name];
+  const names: ts.Identifier[] = [];
+  for (const element of name.elements) {
+    if (ts.isBindingElement(element)) names.push(...bindingNames(element.name));
+  }
+  return names;
+}
+
+function describeScope(node: ts.Node, functionScoped: boolean): string {
+  let current = node.parent;
+  while (current) {
+    if (isFunctionWithBody(current)) {
+      return `function:${getFunctionName(current, current.getSourceFile())}`;
+    }
+    if (ts.isSourceFile(current)) return "global";
+    if (!functionScoped && isBlockScope(current) && !isFunctionWithBody(current.parent)) {
+      return "block";
+    }
+    current = current.parent;
+  }
+  return "global";
+}
+
+function isBlockScope(node: ts.Node): boolean {
+  return (
+    ts.isBlock(node) ||
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isCaseBlock(node) ||
+    ts.isCatchClause(node)
+  );
+}
+
+function lineOf(sourceFile: ts.SourceFile, position: number): number {
+  return sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+}